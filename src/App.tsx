@@ -1,43 +1,64 @@
-import React from 'react';
+import React, { Suspense, lazy } from 'react';
 import { Toaster } from 'react-hot-toast';
-import { AuthProvider } from './context/AuthContext';
-import { ProtectedRoute } from './components/ProtectedRoute';
-import { Dashboard } from './components/Dashboard';
+import { readPortalParam } from './utils/portalLink';
+import { isBookingPage } from './utils/bookingLink';
 import './App.css';
 
+// Loaded separately so a customer opening the portal or booking page never downloads the staff
+// app, and the studio database never starts syncing into their browser
+const StaffApp = lazy(() => import('./StaffApp'));
+const CustomerPortal = lazy(() =>
+  import('./components/CustomerPortal').then(module => ({ default: module.CustomerPortal }))
+);
+const PublicBooking = lazy(() =>
+  import('./components/PublicBooking').then(module => ({ default: module.PublicBooking }))
+);
+
 function App() {
+  const portalCode = readPortalParam();
+
+  const renderPage = () => {
+    if (portalCode !== null) return <CustomerPortal initialCode={portalCode} />;
+    if (isBookingPage()) return <PublicBooking />;
+    return <StaffApp />;
+  };
+
   return (
-    <AuthProvider>
-      <div className="App">
-        <ProtectedRoute>
-          <Dashboard />
-        </ProtectedRoute>
-        <Toaster
-          position="top-right"
-          toastOptions={{
-            duration: 4000,
-            style: {
-              background: '#363636',
-              color: '#fff',
-            },
-            success: {
-              duration: 3000,
-              iconTheme: {
-                primary: '#10B981',
-                secondary: '#fff',
-              },
+    <div className="App">
+      <Suspense
+        fallback={
+          <div className="min-h-screen flex items-center justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+          </div>
+        }
+      >
+        {renderPage()}
+      </Suspense>
+      <Toaster
+        position="top-right"
+        toastOptions={{
+          duration: 4000,
+          style: {
+            background: '#363636',
+            color: '#fff',
+          },
+          success: {
+            duration: 3000,
+            iconTheme: {
+              primary: '#10B981',
+              secondary: '#fff',
             },
-            error: {
-              duration: 5000,
-              iconTheme: {
-                primary: '#EF4444',
-                secondary: '#fff',
-              },
+          },
+          error: {
+            duration: 5000,
+            iconTheme: {
+              primary: '#EF4444',
+              secondary: '#fff',
             },
-          }}
-        />
-      </div>
-    </AuthProvider>
+          },
+        }}
+      />
+    </div>
   );
 }
 
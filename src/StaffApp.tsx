@@ -0,0 +1,19 @@
+import React from 'react';
+import { AuthProvider } from './context/AuthContext';
+import { PieceWorkflowProvider } from './context/PieceWorkflowContext';
+import { ProtectedRoute } from './components/ProtectedRoute';
+import { Dashboard } from './components/Dashboard';
+import { LockScreen } from './components/LockScreen';
+
+const StaffApp: React.FC = () => (
+  <AuthProvider>
+    <ProtectedRoute>
+      <PieceWorkflowProvider>
+        <Dashboard />
+      </PieceWorkflowProvider>
+      <LockScreen />
+    </ProtectedRoute>
+  </AuthProvider>
+);
+
+export default StaffApp;
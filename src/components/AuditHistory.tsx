@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntry } from '../types';
+import { Select } from './ui/Select';
+import { database } from '../data/database';
+
+interface AuditHistoryProps {
+  recordIds: string[];
+  // Optional display names for records, e.g. to tell a customer's pieces apart
+  recordLabels?: Record<string, string>;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+};
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const COLLECTION_LABELS: Record<string, string> = {
+  customers: 'Customer',
+  pieces: 'Piece',
+  events: 'Event',
+  eventBookings: 'Booking'
+};
+
+const formatField = (field: string): string =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase());
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null) return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const AuditHistory: React.FC<AuditHistoryProps> = ({ recordIds, recordLabels = {} }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [fieldFilter, setFieldFilter] = useState('');
+  const recordIdsKey = recordIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    database.getAuditHistory({ recordIds: recordIdsKey ? recordIdsKey.split(',') : [] })
+      .then(data => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch(error => console.error('Error loading history:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordIdsKey]);
+
+  const collections = useMemo(() => Array.from(new Set(entries.map(e => e.collection))), [entries]);
+  const actors = useMemo(() => Array.from(new Set(entries.map(e => e.actor))).sort(), [entries]);
+  const fields = useMemo(
+    () => Array.from(new Set(entries.reduce<string[]>(
+      (all, e) => all.concat(e.changes.map(c => c.field)),
+      []
+    ))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = entries.filter(entry =>
+    (!collectionFilter || entry.collection === collectionFilter) &&
+    (!actionFilter || entry.action === actionFilter) &&
+    (!actorFilter || entry.actor === actorFilter) &&
+    (!fieldFilter || entry.changes.some(change => change.field === fieldFilter))
+  );
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {collections.length > 1 && (
+          <Select
+            value={collectionFilter}
+            onChange={(e) => setCollectionFilter(e.target.value)}
+            options={[
+              { value: '', label: 'All records' },
+              ...collections.map(c => ({ value: c, label: COLLECTION_LABELS[c] || formatField(c) }))
+            ]}
+          />
+        )}
+        <Select
+          value={actionFilter}
+          onChange={(e) => setActionFilter(e.target.value)}
+          options={[
+            { value: '', label: 'All actions' },
+            ...(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => ({ value: a, label: ACTION_LABELS[a] }))
+          ]}
+        />
+        <Select
+          value={actorFilter}
+          onChange={(e) => setActorFilter(e.target.value)}
+          options={[
+            { value: '', label: 'All staff' },
+            ...actors.map(a => ({ value: a, label: a }))
+          ]}
+        />
+        <Select
+          value={fieldFilter}
+          onChange={(e) => setFieldFilter(e.target.value)}
+          options={[
+            { value: '', label: 'All fields' },
+            ...fields.map(f => ({ value: f, label: formatField(f) }))
+          ]}
+        />
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes match these filters.</p>
+      ) : (
+        <ul className="space-y-3">
+          {filteredEntries.map(entry => {
+            const changes = fieldFilter ? entry.changes.filter(c => c.field === fieldFilter) : entry.changes;
+            return (
+              <li key={entry.id} className="border border-gray-200 rounded-xl p-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-2">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${ACTION_CLASSES[entry.action]}`}>
+                    {ACTION_LABELS[entry.action]}
+                  </span>
+                  <span className="font-medium text-gray-700">
+                    {recordLabels[entry.recordId] || COLLECTION_LABELS[entry.collection] || entry.collection}
+                  </span>
+                  <span>by {entry.actor}</span>
+                  <span>· {format(new Date(entry.timestamp), 'MMM d, yyyy h:mm a')}</span>
+                </div>
+                {entry.action === 'update' && (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.field} className="border-t border-gray-100">
+                          <td className="py-1 pr-2 text-gray-600 w-1/3">{formatField(change.field)}</td>
+                          <td className="py-1 pr-2 text-gray-500 line-through">{formatValue(change.before)}</td>
+                          <td className="py-1 text-gray-900">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Upload, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from './ui/Button';
+import { database } from '../data/database';
+import {
+  parseBackup,
+  BACKUP_COLLECTIONS,
+  BACKUP_COLLECTION_LABELS,
+  BackupFile,
+  BackupCollection,
+  CollectionDiff,
+  RestoreMode
+} from '../data/backup';
+
+interface BackupRestorePanelProps {
+  onRestored: () => void;
+}
+
+export const BackupRestorePanel: React.FC<BackupRestorePanelProps> = ({ onRestored }) => {
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [selected, setSelected] = useState<BackupCollection[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<CollectionDiff[]>([]);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!backup || selected.length === 0) {
+      setPreview([]);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    database.previewBackupRestore(backup, { collections: selected, mode })
+      .then(diffs => {
+        if (!cancelled) setPreview(diffs);
+      })
+      .catch(error => {
+        console.error('Error previewing restore:', error);
+        if (!cancelled) toast.error('Could not compare the backup with current data');
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, selected, mode]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const data = await database.exportBackup();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `clay-cafe-backup-${format(new Date(), 'yyyy-MM-dd-HHmm')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Backup downloaded');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      toast.error('Failed to export backup');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const resetImport = () => {
+    setBackup(null);
+    setFileName('');
+    setValidationErrors([]);
+    setSelected([]);
+    setPreview([]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    resetImport();
+    setFileName(file.name);
+
+    const { backup: parsed, errors } = parseBackup(await file.text());
+    if (!parsed) {
+      setValidationErrors(errors);
+      return;
+    }
+
+    setBackup(parsed);
+    setSelected(BACKUP_COLLECTIONS.filter(collection => parsed.collections[collection] !== undefined));
+  };
+
+  const toggleCollection = (collection: BackupCollection) => {
+    setSelected(prev =>
+      prev.includes(collection) ? prev.filter(c => c !== collection) : [...prev, collection]
+    );
+  };
+
+  const handleRestore = async () => {
+    if (!backup || selected.length === 0) return;
+
+    const removed = preview.reduce((sum, diff) => sum + diff.removed, 0);
+    const message = removed > 0
+      ? `Restore ${selected.length} collection(s)? ${removed} record(s) not in the backup will be deleted.`
+      : `Restore ${selected.length} collection(s) from this backup?`;
+    if (!window.confirm(message)) return;
+
+    setRestoring(true);
+    try {
+      const diffs = await database.restoreFromBackup(backup, { collections: selected, mode });
+      const changed = diffs.reduce((sum, diff) => sum + diff.added + diff.updated + diff.removed, 0);
+      toast.success(`Backup restored (${changed} record${changed === 1 ? '' : 's'} changed)`);
+      resetImport();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <div>
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">Export</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Download customers, pieces, events, bookings, studio settings, templates and notification
+          history as a single JSON file.
+        </p>
+        <Button
+          variant="primary"
+          onClick={handleExport}
+          loading={exporting}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <Download size={16} />
+          <span>Download Backup</span>
+        </Button>
+      </div>
+
+      <div className="border-t border-gray-200/50 pt-6">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">Import</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          The file is checked and compared with your current data before anything is changed.
+        </p>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <Upload size={16} />
+          <span>Choose Backup File</span>
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+
+        {validationErrors.length > 0 && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl">
+            <div className="flex items-center space-x-2 text-red-800 font-medium mb-2">
+              <AlertCircle size={16} />
+              <span>{fileName} can't be imported</span>
+            </div>
+            <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+              {validationErrors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {backup && (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">{fileName}</span> · exported{' '}
+              {isNaN(backup.exportedAt.getTime()) ? 'at an unknown time' : format(backup.exportedAt, 'MMM d, yyyy h:mm a')}
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 text-sm">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                />
+                <span>Merge — add missing records, keep whichever version was edited last</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                />
+                <span>Replace — make selected collections match the backup exactly</span>
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-2 font-medium">Restore</th>
+                    <th className="py-2 pr-2 font-medium">Collection</th>
+                    <th className="py-2 pr-2 font-medium text-right">In backup</th>
+                    <th className="py-2 pr-2 font-medium text-right">New</th>
+                    <th className="py-2 pr-2 font-medium text-right">Updated</th>
+                    <th className="py-2 pr-2 font-medium text-right">Deleted</th>
+                    <th className="py-2 font-medium text-right">Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {BACKUP_COLLECTIONS.filter(collection => backup.collections[collection] !== undefined).map(collection => {
+                    const diff = preview.find(d => d.collection === collection);
+                    const isSelected = selected.includes(collection);
+                    return (
+                      <tr key={collection} className="border-t border-gray-100">
+                        <td className="py-2 pr-2">
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            onChange={() => toggleCollection(collection)}
+                          />
+                        </td>
+                        <td className="py-2 pr-2 text-gray-900">{BACKUP_COLLECTION_LABELS[collection]}</td>
+                        <td className="py-2 pr-2 text-right text-gray-700">{backup.collections[collection]!.length}</td>
+                        <td className="py-2 pr-2 text-right text-green-700">{isSelected && diff ? diff.added : '—'}</td>
+                        <td className="py-2 pr-2 text-right text-blue-700">{isSelected && diff ? diff.updated : '—'}</td>
+                        <td className="py-2 pr-2 text-right text-red-700">{isSelected && diff ? diff.removed : '—'}</td>
+                        <td className="py-2 text-right text-gray-500">{isSelected && diff ? diff.unchanged : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+              <Button variant="ghost" onClick={resetImport} disabled={restoring}>
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleRestore}
+                loading={restoring}
+                disabled={selected.length === 0 || previewLoading}
+              >
+                Restore Selected
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
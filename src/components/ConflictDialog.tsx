@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+  format?: (value: any) => string;
+}
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  fields: ConflictField[];
+  // The values this form tried to save, and the record as someone else saved it
+  mine: Record<string, any>;
+  theirs: Record<string, any>;
+  saving?: boolean;
+  onResolve: (merged: Record<string, any>) => void;
+  onDiscard: () => void;
+}
+
+type Choice = 'mine' | 'theirs';
+
+const normalize = (value: any): any => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const isSame = (a: any, b: any): boolean => normalize(a) === normalize(b);
+
+const defaultFormat = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date) return value.toLocaleString();
+  return String(value);
+};
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  isOpen,
+  fields,
+  mine,
+  theirs,
+  saving = false,
+  onResolve,
+  onDiscard
+}) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  // Keep your own edits by default; only the fields that actually differ need a decision
+  useEffect(() => {
+    if (isOpen) setChoices({});
+  }, [isOpen, theirs]);
+
+  const differing = fields.filter(field => !isSame(mine[field.key], theirs[field.key]));
+  const choiceFor = (key: string): Choice => choices[key] || 'mine';
+
+  const handleResolve = () => {
+    const merged: Record<string, any> = {};
+    fields.forEach(({ key }) => {
+      merged[key] = choiceFor(key) === 'mine' ? mine[key] : theirs[key];
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onDiscard} title="Someone else saved this first" size="lg" zIndex="overlay">
+      <div className="space-y-4">
+        <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <p>
+            This record changed while you were editing it. Pick which value to keep for each field
+            that differs, then save.
+          </p>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-2 font-medium">Field</th>
+                <th className="py-2 pr-2 font-medium">Your version</th>
+                <th className="py-2 font-medium">Saved version</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => {
+                const format = field.format || defaultFormat;
+                const differs = differing.includes(field);
+                const choice = choiceFor(field.key);
+                return (
+                  <tr key={field.key} className={`border-t border-gray-100 ${differs ? '' : 'text-gray-400'}`}>
+                    <td className="py-2 pr-2 font-medium">{field.label}</td>
+                    <td className={`py-2 pr-2 ${differs && choice === 'mine' ? 'bg-green-50' : ''}`}>
+                      {differs ? (
+                        <label className="flex items-start space-x-2">
+                          <input
+                            type="radio"
+                            name={`conflict-${field.key}`}
+                            checked={choice === 'mine'}
+                            onChange={() => setChoices(prev => ({ ...prev, [field.key]: 'mine' }))}
+                            className="mt-0.5"
+                          />
+                          <span className="break-words">{format(mine[field.key])}</span>
+                        </label>
+                      ) : (
+                        format(mine[field.key])
+                      )}
+                    </td>
+                    <td className={`py-2 ${differs && choice === 'theirs' ? 'bg-green-50' : ''}`}>
+                      {differs ? (
+                        <label className="flex items-start space-x-2">
+                          <input
+                            type="radio"
+                            name={`conflict-${field.key}`}
+                            checked={choice === 'theirs'}
+                            onChange={() => setChoices(prev => ({ ...prev, [field.key]: 'theirs' }))}
+                            className="mt-0.5"
+                          />
+                          <span className="break-words">{format(theirs[field.key])}</span>
+                        </label>
+                      ) : (
+                        format(theirs[field.key])
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 sm:justify-end pt-2">
+          <Button type="button" variant="outline" onClick={onDiscard} disabled={saving}>
+            Discard My Changes
+          </Button>
+          <Button type="button" variant="primary" onClick={handleResolve} loading={saving}>
+            Save Selected Values
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
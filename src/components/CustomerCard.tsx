@@ -1,13 +1,17 @@
-import React from 'react';
-import { Mail, Phone, Instagram, Edit, Trash2, Plus } from 'lucide-react';
+import React, { useState } from 'react';
+import { Mail, Phone, Instagram, Edit, Trash2, Plus, History } from 'lucide-react';
 import { Customer, Piece } from '../types';
 import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { AuditHistory } from './AuditHistory';
+import { formatShortDate } from '../utils/dateUtils';
 
 interface CustomerCardProps {
   customer: Customer;
   pieces: Piece[];
   onEdit: (customer: Customer) => void;
-  onDelete: (customerId: string) => void;
+  // Left out for roles that can't delete, which hides the button
+  onDelete?: (customerId: string) => void;
   onAddPiece: (customerId: string) => void;
   onViewPieces: (customer: Customer) => void;
 }
@@ -23,6 +27,12 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
   const customerPieces = pieces.filter(p => p.customerId === customer.id);
   const readyForPickup = customerPieces.filter(p => p.status === 'ready-for-pickup').length;
   const totalValue = customerPieces.reduce((sum, piece) => sum + (piece.glazeTotal || 0), 0);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const historyLabels: Record<string, string> = { [customer.id]: customer.name };
+  customerPieces.forEach(piece => {
+    historyLabels[piece.id] = `Piece from ${formatShortDate(piece.createdAt)}`;
+  });
 
   const handleCardClick = (e: React.MouseEvent) => {
     // Don't trigger if clicking on buttons
@@ -62,11 +72,21 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => onDelete(customer.id)}
-            className="text-red-600 hover:bg-red-100/80 rounded-full p-2 hover:scale-110"
+            onClick={() => setShowHistory(true)}
+            className="text-gray-600 hover:bg-gray-100/80 rounded-full p-2 hover:scale-110"
           >
-            <Trash2 size={16} />
+            <History size={16} />
           </Button>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(customer.id)}
+              className="text-red-600 hover:bg-red-100/80 rounded-full p-2 hover:scale-110"
+            >
+              <Trash2 size={16} />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -113,6 +133,21 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
           </div>
         </div>
       </div>
+
+      {/* The modal renders in a portal, but React still bubbles its clicks to the card */}
+      <div onClick={(e) => e.stopPropagation()}>
+        <Modal
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          title={`History: ${customer.name}`}
+          size="lg"
+        >
+          <AuditHistory
+            recordIds={[customer.id, ...customerPieces.map(p => p.id)]}
+            recordLabels={historyLabels}
+          />
+        </Modal>
+      </div>
     </div>
   );
 };
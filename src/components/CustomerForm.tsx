@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Customer } from '../types';
+import { VersionConflictError, versionOf } from '../data/storage/VersionConflictError';
 import { Input } from './ui/Input';
 import { Button } from './ui/Button';
+import { ConflictDialog, ConflictField } from './ConflictDialog';
+
+type CustomerFormData = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
 
 interface CustomerFormProps {
   customer?: Customer;
-  onSubmit: (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  // Rejecting with a VersionConflictError opens the conflict dialog instead of closing the form
+  onSubmit: (customer: CustomerFormData, expectedVersion?: number) => void | Promise<void>;
   onCancel: () => void;
 }
 
+const CONFLICT_FIELDS: ConflictField[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'instagram', label: 'Instagram' },
+  { key: 'checkedIn', label: 'Checked in' }
+];
+
 export const CustomerForm: React.FC<CustomerFormProps> = ({
   customer,
   onSubmit,
@@ -23,6 +36,8 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<{ mine: CustomerFormData; theirs: Customer } | null>(null);
+  const [resolving, setResolving] = useState(false);
 
   useEffect(() => {
     if (customer) {
@@ -57,6 +72,19 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
+  const submit = async (data: CustomerFormData, expectedVersion?: number) => {
+    try {
+      await onSubmit(data, expectedVersion);
+      setConflict(null);
+    } catch (error) {
+      if (error instanceof VersionConflictError && error.current) {
+        setConflict({ mine: data, theirs: error.current });
+      } else {
+        console.error('Error saving customer:', error);
+      }
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -64,13 +92,26 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
       return;
     }
 
-    onSubmit({
+    submit({
       name: formData.name.trim(),
       email: formData.email.trim(),
       phone: formData.phone.trim() || undefined,
       instagram: formData.instagram.trim() || undefined,
       checkedIn: formData.checkedIn
-    });
+    }, customer ? versionOf(customer) : undefined);
+  };
+
+  const handleResolveConflict = async (merged: Record<string, any>) => {
+    if (!conflict) return;
+    setResolving(true);
+    // The saved copy is now the base, so a third save in the meantime is caught again
+    await submit({ ...conflict.mine, ...merged } as CustomerFormData, versionOf(conflict.theirs));
+    setResolving(false);
+  };
+
+  const handleDiscardChanges = () => {
+    setConflict(null);
+    onCancel();
   };
 
   const handleChange = (field: string, value: string | boolean) => {
@@ -136,6 +177,18 @@ export const CustomerForm: React.FC<CustomerFormProps> = ({
           {customer ? 'Update Customer' : 'Add Customer'}
         </Button>
       </div>
+
+      {conflict && (
+        <ConflictDialog
+          isOpen={true}
+          fields={CONFLICT_FIELDS}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={resolving}
+          onResolve={handleResolveConflict}
+          onDiscard={handleDiscardChanges}
+        />
+      )}
     </form>
   );
 };
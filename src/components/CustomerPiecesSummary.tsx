@@ -1,11 +1,15 @@
-import React from 'react';
-import { CheckCircle, XCircle, Plus, Edit, MessageSquare } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Plus, Edit, MessageSquare, Link2, RefreshCw } from 'lucide-react';
 import { Customer, Piece, Event } from '../types';
-import { PIECE_STATUSES, getPieceStatusInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStage, getStageChoices, getStageColors } from '../utils/pieceWorkflow';
 import { Button } from './ui/Button';
 import { Modal } from './ui/Modal';
 import { format } from 'date-fns';
 import { ensureDate } from '../utils/dateUtils';
+import { buildPortalLink, formatPortalCode } from '../utils/portalLink';
+import { portalService } from '../services/portalService';
+import toast from 'react-hot-toast';
 
 interface CustomerPiecesSummaryProps {
   customer: Customer;
@@ -13,7 +17,8 @@ interface CustomerPiecesSummaryProps {
   events: Event[];
   onClose: () => void;
   onUpdatePieceStatus: (pieceId: string, status: Piece['status']) => void;
-  onUpdatePayment: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  // Left out for roles that can't take payments, which shows the payment read-only
+  onUpdatePayment?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   onAddPiece: (customerId: string) => void;
   onEditPiece: (piece: Piece) => void;
   onNotifyCustomer?: (piece: Piece) => void;
@@ -31,11 +36,57 @@ export const CustomerPiecesSummary: React.FC<CustomerPiecesSummaryProps> = ({
   onEditPiece,
   onNotifyCustomer
 }) => {
+  const { workflow } = usePieceWorkflow();
   const customerPieces = pieces.filter(p => p.customerId === customer.id);
   const totalGlazeOwed = customerPieces.reduce((sum, p) => sum + (p.paidGlaze ? 0 : (p.glazeTotal || 0)), 0);
   const readyCount = customerPieces.filter(p => p.status === 'ready-for-pickup').length;
+  // undefined while loading; the code is fetched from the portal function, never stored with the customer
+  const [portalCode, setPortalCode] = useState<string | null | undefined>(undefined);
+  const [issuingCode, setIssuingCode] = useState(false);
 
-  const getEventName = (eventId?: string) => {
+  useEffect(() => {
+    let cancelled = false;
+    setPortalCode(undefined);
+    portalService
+      .getCode(customer.id)
+      .then(code => {
+        if (!cancelled) setPortalCode(code);
+      })
+      .catch(error => {
+        console.error('Error loading portal code:', error);
+        if (!cancelled) setPortalCode(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [customer.id]);
+
+  const handleIssuePortalCode = async () => {
+    if (portalCode && !window.confirm(`Reset ${customer.name}'s portal code? Their current link will stop working.`)) return;
+    setIssuingCode(true);
+    try {
+      setPortalCode(await portalService.issueCode(customer.id));
+      toast.success(portalCode ? 'Portal code reset' : 'Portal link created');
+    } catch (error) {
+      console.error('Error generating portal code:', error);
+      toast.error('Failed to create portal link');
+    } finally {
+      setIssuingCode(false);
+    }
+  };
+
+  const handleCopyPortalLink = async () => {
+    if (!portalCode) return;
+    try {
+      await navigator.clipboard.writeText(buildPortalLink(portalCode));
+      toast.success('Portal link copied');
+    } catch (error) {
+      console.error('Error copying portal link:', error);
+      toast.error('Could not copy. Read out the code instead.');
+    }
+  };
+
+  const getEventName = (eventId?: string | null) => {
     if (!eventId) return 'No Event';
     const event = events.find(e => e.id === eventId);
     return event ? event.name : 'Unknown Event';
@@ -84,6 +135,37 @@ export const CustomerPiecesSummary: React.FC<CustomerPiecesSummaryProps> = ({
           </div>
         </div>
 
+        {/* Customer Portal Access */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border border-gray-200 rounded-lg">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Customer Portal</p>
+            <p className="text-xs text-gray-500">
+              {portalCode
+                ? <>Code <span className="font-mono text-gray-700">{formatPortalCode(portalCode)}</span> • read-only view of their pieces and bookings</>
+                : 'Let them check their pieces, balance and bookings from their phone'}
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            {portalCode && (
+              <Button variant="outline" size="sm" onClick={handleCopyPortalLink} className="flex items-center space-x-1">
+                <Link2 size={14} />
+                <span>Copy Link</span>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleIssuePortalCode}
+              loading={issuingCode}
+              disabled={portalCode === undefined}
+              className="flex items-center space-x-1"
+            >
+              {portalCode ? <RefreshCw size={14} /> : <Link2 size={14} />}
+              <span>{portalCode ? 'Reset' : 'Create Link'}</span>
+            </Button>
+          </div>
+        </div>
+
         {/* Pieces List */}
         <div className="max-h-96 overflow-y-auto">
           {customerPieces.length === 0 ? (
@@ -101,15 +183,15 @@ export const CustomerPiecesSummary: React.FC<CustomerPiecesSummaryProps> = ({
           ) : (
             <div className="space-y-3">
               {customerPieces.map(piece => {
-                const statusConfig = getPieceStatusInfo(piece.status);
+                const stage = getStage(workflow, piece.status);
                 return (
                   <div key={piece.id} className="border rounded-lg p-3 hover:bg-gray-50">
                     <div className="flex items-center justify-between mb-2">
-                      <span className={`px-2 py-1 rounded text-xs font-medium ${statusConfig.color}`}>
-                        {statusConfig.label}
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${getStageColors(workflow, piece.status).badge}`}>
+                        {stage.label}
                       </span>
                       <div className="flex items-center space-x-2">
-                        {(piece.status === 'ready-for-pickup' || piece.status === 'bisque-fired') && onNotifyCustomer && customer.phone && (
+                        {stage.notify && onNotifyCustomer && customer.phone && (
                           <button
                             onClick={() => onNotifyCustomer(piece)}
                             className="p-1 text-green-600 hover:text-green-800"
@@ -130,14 +212,15 @@ export const CustomerPiecesSummary: React.FC<CustomerPiecesSummaryProps> = ({
                           onChange={(e) => onUpdatePieceStatus(piece.id, e.target.value as Piece['status'])}
                           className="px-2 py-1 text-xs border rounded"
                         >
-                          {PIECE_STATUSES.map(status => (
-                            <option key={status.value} value={status.value}>
-                              {status.label}
+                          {getStageChoices(workflow, piece.status).map(choice => (
+                            <option key={choice.id} value={choice.id}>
+                              {choice.label}
                             </option>
                           ))}
                         </select>
                         <button
-                          onClick={() => onUpdatePayment(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                          onClick={() => onUpdatePayment?.(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                          disabled={!onUpdatePayment}
                           className={`p-1 ${piece.paidGlaze ? 'text-green-600' : 'text-red-600'}`}
                           title={piece.paidGlaze ? 'Paid' : 'Unpaid'}
                         >
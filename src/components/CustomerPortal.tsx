@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Calendar, Clock, DollarSign, Image, KeyRound, MapPin, Package } from 'lucide-react';
+import { format, startOfDay } from 'date-fns';
+import { CustomerPortalData, PortalEvent, PortalStage } from '../types';
+import { DEFAULT_PIECE_WORKFLOW, EVENT_TYPE_COLORS, STAGE_COLORS } from '../constants';
+import { calculateTotalOwed } from '../utils/paymentUtils';
+import { formatTime } from '../utils/dateUtils';
+import { PORTAL_PARAM, normalizePortalCode } from '../utils/portalLink';
+import { portalService } from '../services/portalService';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+
+interface CustomerPortalProps {
+  initialCode: string;
+}
+
+/**
+ * Read-only page for customers, rendered instead of the staff app when the URL carries
+ * ?portal=. Everything shown comes from portalService; there are no edit controls.
+ */
+export const CustomerPortal: React.FC<CustomerPortalProps> = ({ initialCode }) => {
+  const [codeInput, setCodeInput] = useState(initialCode);
+  const [data, setData] = useState<CustomerPortalData | null>(null);
+  const [loading, setLoading] = useState(!!initialCode);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (code: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await portalService.load(code));
+      // Keep the code in the address bar so a refresh or bookmark reopens the same portal
+      window.history.replaceState(null, '', `?${PORTAL_PARAM}=${normalizePortalCode(code)}`);
+    } catch (error) {
+      console.error('Error loading customer portal:', error);
+      setData(null);
+      setError(error instanceof Error ? error.message : 'Could not load your pieces');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (initialCode) load(initialCode);
+  }, [initialCode, load]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    load(codeInput);
+  };
+
+  const handleSignOut = () => {
+    setData(null);
+    setCodeInput('');
+    window.history.replaceState(null, '', `?${PORTAL_PARAM}`);
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="bg-amber-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+              <KeyRound className="w-8 h-8 text-amber-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Check On Your Pieces</h1>
+            <p className="text-gray-600 mt-2">Enter the code the studio gave you</p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Input
+              type="text"
+              placeholder="XXXXX-XXXXX"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              autoComplete="off"
+              autoCapitalize="characters"
+              spellCheck={false}
+              className="text-center font-mono tracking-widest"
+              autoFocus
+            />
+            <Button type="submit" className="w-full" loading={loading} disabled={!normalizePortalCode(codeInput)}>
+              View My Pieces
+            </Button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const eventsById = new Map<string, PortalEvent>();
+  data.events.forEach(event => eventsById.set(event.id, event));
+
+  const totalOwed = calculateTotalOwed(data.pieces);
+  const readyCount = data.pieces.filter(p => p.status === 'ready-for-pickup').length;
+  const activePieces = data.pieces.filter(p => p.status !== 'picked-up');
+  const pickedUpPieces = data.pieces.filter(p => p.status === 'picked-up');
+  const stages: PortalStage[] = data.stages || DEFAULT_PIECE_WORKFLOW.stages;
+  const today = startOfDay(new Date());
+  const upcoming = data.bookings
+    .map(booking => ({ booking, event: eventsById.get(booking.eventId) }))
+    .filter((entry): entry is { booking: typeof entry.booking; event: PortalEvent } =>
+      !!entry.event && entry.event.date >= today)
+    .sort((a, b) => a.event.date.getTime() - b.event.date.getTime());
+
+  const renderPiece = (piece: CustomerPortalData['pieces'][number]) => {
+    const step = stages.findIndex(s => s.id === piece.status);
+    const stage = stages[step];
+    const event = piece.eventId ? eventsById.get(piece.eventId) : undefined;
+    return (
+      <div key={piece.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {piece.imageUrl ? (
+          <img src={piece.imageUrl} alt="Your piece" className="w-full h-48 object-cover" />
+        ) : (
+          <div className="w-full h-48 bg-gray-50 flex items-center justify-center text-gray-300">
+            <Image size={40} />
+          </div>
+        )}
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className={`px-2 py-1 rounded text-xs font-medium ${(STAGE_COLORS[stage?.color] || STAGE_COLORS.gray).badge}`}>
+              {stage ? stage.label : 'In the studio'}
+            </span>
+            {(piece.glazeTotal || 0) > 0 && (
+              <span className={`text-sm font-medium ${piece.paidGlaze ? 'text-green-600' : 'text-red-600'}`}>
+                ${piece.glazeTotal?.toFixed(2)} {piece.paidGlaze ? 'paid' : 'due'}
+              </span>
+            )}
+          </div>
+          <div className="flex space-x-1" title={`Step ${step + 1} of ${stages.length}`}>
+            {stages.map((s, index) => (
+              <div
+                key={s.id}
+                className={`h-1.5 flex-1 rounded-full ${index <= step ? 'bg-amber-500' : 'bg-gray-200'}`}
+              />
+            ))}
+          </div>
+          <div className="text-sm text-gray-600">
+            {event ? event.name : 'Studio visit'} • made {format(piece.createdAt, 'MMM d, yyyy')}
+          </div>
+          {piece.status === 'ready-for-pickup' && (
+            <div className="text-sm text-green-700 font-medium">Ready to take home!</div>
+          )}
+          {piece.pickedUpDate && (
+            <div className="text-sm text-gray-500">Picked up {format(piece.pickedUpDate, 'MMM d, yyyy')}</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
+      <div className="max-w-5xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-amber-700 font-medium">{data.studio.name}</p>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Hi, {data.customerName}</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSignOut}>
+            Use a Different Code
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="bg-white rounded-xl shadow-sm p-4 flex items-center space-x-3">
+            <Package className="text-blue-600" size={24} />
+            <div>
+              <div className="text-2xl font-bold">{activePieces.length}</div>
+              <div className="text-sm text-gray-600">In the studio</div>
+            </div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4 flex items-center space-x-3">
+            <Package className="text-green-600" size={24} />
+            <div>
+              <div className="text-2xl font-bold text-green-600">{readyCount}</div>
+              <div className="text-sm text-gray-600">Ready for pickup</div>
+            </div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4 flex items-center space-x-3">
+            <DollarSign className={totalOwed > 0 ? 'text-red-600' : 'text-green-600'} size={24} />
+            <div>
+              <div className={`text-2xl font-bold ${totalOwed > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                ${totalOwed.toFixed(2)}
+              </div>
+              <div className="text-sm text-gray-600">Glaze balance</div>
+            </div>
+          </div>
+        </div>
+
+        {upcoming.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Upcoming Bookings</h2>
+            <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+              {upcoming.map(({ booking, event }) => (
+                <div key={booking.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{event.name}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${EVENT_TYPE_COLORS[event.type]}`}>
+                        {event.type.replace('-', ' ')}
+                      </span>
+                    </div>
+                    {event.location && (
+                      <div className="flex items-center text-sm text-gray-500 mt-1">
+                        <MapPin size={14} className="mr-1" />
+                        {event.location}
+                      </div>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600 sm:text-right">
+                    <div className="flex items-center sm:justify-end">
+                      <Calendar size={14} className="mr-1" />
+                      {format(event.date, 'EEE, MMM d, yyyy')}
+                    </div>
+                    <div className="flex items-center sm:justify-end">
+                      <Clock size={14} className="mr-1" />
+                      {formatTime(event.startTime)} - {formatTime(event.endTime)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">Your Pieces</h2>
+          {activePieces.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm p-8 text-center text-gray-500">
+              No pieces in the studio right now
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {activePieces.map(renderPiece)}
+            </div>
+          )}
+        </section>
+
+        {pickedUpPieces.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Picked Up</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {pickedUpPieces.map(renderPiece)}
+            </div>
+          </section>
+        )}
+
+        <footer className="text-center text-sm text-gray-500 pt-4 space-y-1">
+          <p>Questions about your pieces? Contact {data.studio.name}.</p>
+          <p>
+            {[data.studio.phone, data.studio.email, data.studio.address].filter(Boolean).join(' • ')}
+          </p>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -9,7 +9,7 @@ interface CustomersViewSectionProps {
   pieces: Piece[];
   searchTerm: string;
   onEdit: (customer: Customer) => void;
-  onDelete: (customerId: string) => void;
+  onDelete?: (customerId: string) => void;
   onAddPiece: (customerId?: string) => void;
   onViewPieces: (customer: Customer) => void;
   onAddCustomer: () => void;
@@ -1,10 +1,13 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Users, Palette, TrendingUp, Calendar, Settings as SettingsIcon, LogOut } from 'lucide-react';
-import { Customer, Piece, Event, EventBooking, StudioSettings } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Users, Palette, TrendingUp, Calendar, Flame, Timer, Settings as SettingsIcon, LogOut, Trash2, Lock } from 'lucide-react';
+import { Customer, Piece, Event, EventBooking, NewEventBooking, Firing, FiringType, StudioSettings, Permission, SeriesEditScope, SeriesUpdateResult } from '../types';
 import { EventsViewSection } from './EventsViewSection';
 import { PiecesViewSection } from './PiecesViewSection';
+import { FiringsViewSection } from './FiringsViewSection';
 import { CustomersViewSection } from './CustomersViewSection';
 import { OverviewSection } from './OverviewSection';
+import { TrashViewSection } from './TrashViewSection';
+import { TurnaroundViewSection } from './TurnaroundViewSection';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
@@ -15,28 +18,77 @@ import { SimpleCustomerBooking } from './SimpleCustomerBooking';
 import { EventDetails } from './EventDetails';
 import { EventRoster } from './EventRoster';
 import { PieceModal } from './PieceModal';
+import { FiringForm } from './FiringForm';
 import { CustomerPiecesSummary } from './CustomerPiecesSummary';
 import { NotificationModal } from './NotificationModal';
 import { Settings } from './Settings';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { SetPinModal } from './SetPinModal';
+import { RescheduleConfirm, RescheduleRequest } from './RescheduleConfirm';
 import { calculateGlazeCost } from '../utils/glazeCalculations';
+import { toDayKey } from '../utils/recurrence';
+import { createReadyEstimator } from '../utils/turnaround';
 import { useDatabase } from '../hooks/useDatabase';
+import { database, TrashCollection } from '../data/database';
+import { VersionConflictError, versionOf } from '../data/storage/VersionConflictError';
+import { StageTransitionError } from '../data/StageTransitionError';
 import { useAuth } from '../context/AuthContext';
+import { eventNotificationService } from '../services/eventNotificationService';
+import { SettingsService } from '../services/settingsService';
+import { getRoleLabel } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { checkStageMove, describeFiringResults, describeStageMove, getStage } from '../utils/pieceWorkflow';
+import { EdgeFunctionError } from '../services/edgeFunctions';
+import { ProtectedRoute } from './ProtectedRoute';
 import Papa from 'papaparse';
 import toast from 'react-hot-toast';
 
-type ViewMode = 'customers' | 'pieces' | 'events' | 'overview' | 'settings';
+type ViewMode = 'customers' | 'pieces' | 'firings' | 'events' | 'overview' | 'turnaround' | 'trash' | 'settings';
 type FilterStatus = 'all' | 'ready-for-pickup' | 'picked-up' | 'in-progress';
 type EventFilterStatus = 'all' | 'upcoming' | 'in-progress' | 'completed' | 'cancelled';
 type PieceSortMode = 'status' | 'event' | 'customer' | 'date';
 
+// Views hidden from staff whose role lacks the permission
+const VIEW_PERMISSIONS: Partial<Record<ViewMode, Permission>> = {
+  trash: 'deleteRecords',
+  settings: 'viewSettings'
+};
+
+// Promotion has already been saved by now, so a failed message is only reported. Looked up in
+// the database rather than in state, since this runs from a subscription made once.
+const notifyPromotedBookings = async (promoted: EventBooking[]) => {
+  for (const booking of promoted) {
+    const customer = await database.getCustomer(booking.customerId);
+    const event = await database.getEvent(booking.eventId);
+    if (!customer || !event) continue;
+    try {
+      const notice = await eventNotificationService.notifyPromotion(customer, event);
+      if (notice.emailed || notice.texted) {
+        toast.success(`${customer.name} moved off the waitlist and was notified`);
+      } else {
+        toast.error(`${customer.name} moved off the waitlist, but couldn't be notified${notice.errors.length ? `: ${notice.errors.join('; ')}` : ''}`);
+      }
+    } catch (error) {
+      console.error('Error notifying promoted customer:', error);
+      toast.error(`${customer.name} moved off the waitlist, but couldn't be notified`);
+    }
+  }
+};
+
 export const Dashboard: React.FC = () => {
-  const { logout } = useAuth();
+  const { logout, lock, locked, can, currentStaff } = useAuth();
+  const { workflow } = usePieceWorkflow();
   const {
     customers,
     pieces,
     events,
     eventBookings,
+    firings,
+    trash,
     loading,
+    syncStatus,
+    syncNow,
+    resolveSyncConflict,
     addCustomer,
     updateCustomer,
     deleteCustomer,
@@ -44,16 +96,31 @@ export const Dashboard: React.FC = () => {
     updatePiece,
     updatePiecesBulk,
     deletePiece,
+    deletePiecesBulk,
     addEvent,
     updateEvent,
     deleteEvent,
     addEventBooking,
+    updateEventBooking,
     deleteEventBooking,
     getCustomerById,
     getPiecesReadyForPickup,
     getEventById,
     getStudioSettings,
-    duplicateEvent
+    duplicateEvent,
+    addEventSeries,
+    updateEventSeries,
+    detachOccurrence,
+    addFiring,
+    updateFiring,
+    deleteFiring,
+    unloadFiring,
+    loadTrash,
+    restoreFromTrash,
+    purgeFromTrash,
+    purgeExpiredTrash,
+    undo,
+    redo
   } = useDatabase();
 
   const [viewMode, setViewMode] = useState<ViewMode>('events');
@@ -68,6 +135,10 @@ export const Dashboard: React.FC = () => {
   const [showEventBookingModal, setShowEventBookingModal] = useState(false);
   const [showEventDetailsModal, setShowEventDetailsModal] = useState(false);
   const [showEventRosterModal, setShowEventRosterModal] = useState(false);
+  const [pendingReschedule, setPendingReschedule] = useState<RescheduleRequest | null>(null);
+  const [showFiringModal, setShowFiringModal] = useState(false);
+  const [editingFiring, setEditingFiring] = useState<Firing | undefined>();
+  const [firingProposal, setFiringProposal] = useState<{ type: FiringType; pieceIds: string[] } | undefined>();
   const [showCustomerPiecesModal, setShowCustomerPiecesModal] = useState(false);
   const [showNotificationModal, setShowNotificationModal] = useState(false);
   const [selectedCustomerForPieces, setSelectedCustomerForPieces] = useState<Customer | undefined>();
@@ -78,6 +149,35 @@ export const Dashboard: React.FC = () => {
   const [selectedEvent, setSelectedEvent] = useState<Event | undefined>();
   const [selectedCustomerForPiece, setSelectedCustomerForPiece] = useState<string | undefined>();
   const [pieceSortMode, setPieceSortMode] = useState<PieceSortMode>('status');
+  const [showSetPinModal, setShowSetPinModal] = useState(false);
+  const [kilnShelfVolume, setKilnShelfVolume] = useState(0);
+
+  // Snapshots are only taken while someone is signed in
+  useEffect(() => {
+    database.startAutoBackup();
+    return () => database.stopAutoBackup();
+  }, []);
+
+  // The database promotes after any change that frees a spot; this tells the customers
+  const waitlistMovesRef = useRef(0);
+  useEffect(() => database.subscribeToPromotions(promoted => {
+    waitlistMovesRef.current += 1;
+    notifyPromotedBookings(promoted);
+  }), []);
+
+  // What the signed-in role may do; the controls for anything else are left out
+  const canDelete = can('deleteRecords');
+  const canMarkPaid = can('markGlazePaid');
+
+  // Expired trash is purged once per sign-in, under that member's name, if their role may delete
+  useEffect(() => {
+    if (!canDelete) return;
+    purgeExpiredTrash()
+      .then(purged => {
+        if (purged > 0) console.log(`Purged ${purged} expired record(s) from the trash`);
+      })
+      .catch(error => console.error('Error purging expired trash:', error));
+  }, [canDelete, currentStaff?.id, purgeExpiredTrash]);
 
   // Load studio settings
   useEffect(() => {
@@ -92,6 +192,99 @@ export const Dashboard: React.FC = () => {
     loadStudioSettings();
   }, [getStudioSettings]);
 
+  // The Settings tab saves through SettingsService, so re-read the shelf volume from there
+  useEffect(() => {
+    if (viewMode === 'firings') {
+      SettingsService.getStudioSettings().then(settings => setKilnShelfVolume(settings?.kilnShelfVolume || 0));
+    }
+  }, [viewMode]);
+
+  // Deleting elsewhere changes the trash, so refresh it whenever the tab is opened
+  useEffect(() => {
+    if (viewMode === 'trash') {
+      loadTrash();
+    }
+  }, [viewMode, loadTrash]);
+
+  // Undo/redo
+  const handleUndo = async () => {
+    try {
+      const label = await undo();
+      if (label) {
+        toast.success((t) => (
+          <span className="flex items-center space-x-3">
+            <span>Undone: {label}</span>
+            <button
+              type="button"
+              onClick={() => {
+                toast.dismiss(t.id);
+                handleRedo();
+              }}
+              className="font-semibold text-blue-600 hover:text-blue-800"
+            >
+              Redo
+            </button>
+          </span>
+        ));
+      }
+    } catch (error) {
+      toast.error('Failed to undo');
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      const label = await redo();
+      if (label) {
+        toast.success(`Redone: ${label}`);
+      }
+    } catch (error) {
+      toast.error('Failed to redo');
+    }
+  };
+
+  const notifyWithUndo = (message: string) => {
+    toast.success((t) => (
+      <span className="flex items-center space-x-3">
+        <span>{message}</span>
+        <button
+          type="button"
+          onClick={() => {
+            toast.dismiss(t.id);
+            handleUndo();
+          }}
+          className="font-semibold text-blue-600 hover:text-blue-800"
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: 6000 });
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The page stays mounted behind the lock screen, but nothing on it may be changed from there
+      if (locked) return;
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Filter and search logic
   const filteredCustomers = useMemo(() => {
     let filtered = customers;
@@ -211,6 +404,12 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  // Built from every piece's stage history, so the cards don't each work through it
+  const estimateReadyDate = useMemo(
+    () => createReadyEstimator(pieces, events, workflow),
+    [pieces, events, workflow]
+  );
+
   const filteredPieces = useMemo(() => {
     let filtered = pieces;
 
@@ -220,7 +419,7 @@ export const Dashboard: React.FC = () => {
         return customer && (
           customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
           customer.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          piece.status.toLowerCase().includes(searchTerm.toLowerCase())
+          getStage(workflow, piece.status).label.toLowerCase().includes(searchTerm.toLowerCase())
         );
       });
     }
@@ -236,7 +435,7 @@ export const Dashboard: React.FC = () => {
     }
 
     return filtered;
-  }, [pieces, searchTerm, filterStatus, getCustomerById]);
+  }, [pieces, searchTerm, filterStatus, getCustomerById, workflow]);
 
   const filteredEvents = useMemo(() => {
     let filtered = events;
@@ -282,19 +481,30 @@ export const Dashboard: React.FC = () => {
     setShowCustomerModal(true);
   };
 
+  // Buttons for actions the role can't take are hidden; the handlers check again in case one is reached anyway
+  const requirePermission = (permission: Permission, action: string): boolean => {
+    if (can(permission)) return true;
+    toast.error(`Your role can't ${action}`);
+    return false;
+  };
+
   const handleEditCustomer = (customer: Customer) => {
     setEditingCustomer(customer);
     setShowCustomerModal(true);
   };
 
   const handleDeleteCustomer = async (customerId: string) => {
-    if (window.confirm('Are you sure you want to delete this customer and all their pieces?')) {
+    if (!requirePermission('deleteRecords', 'delete customers')) return;
+    if (window.confirm('Move this customer and all their pieces and bookings to the trash?')) {
+      // Spots they held go to the waitlist
+      const waitlistMoves = waitlistMovesRef.current;
       try {
         await deleteCustomer(customerId);
-        toast.success('Customer deleted successfully');
       } catch (error) {
         toast.error('Failed to delete customer');
+        return;
       }
+      notifyDropOut('Customer moved to trash', waitlistMoves);
     }
   };
 
@@ -309,22 +519,70 @@ export const Dashboard: React.FC = () => {
     setShowPieceModal(true);
   };
 
+  // The database refuses moves that skip stages or go backwards until staff confirm them
+  const updatePieceStage = async (pieceId: string, status: Piece['status']) => {
+    try {
+      return await updatePiece(pieceId, { status });
+    } catch (error) {
+      if (!(error instanceof StageTransitionError)) throw error;
+      if (!window.confirm(`${error.message}. Move it anyway?`)) return null;
+      return await updatePiece(pieceId, { status }, undefined, { allowAnyStage: true });
+    }
+  };
+
   const handleUpdatePieceStatus = async (pieceId: string, status: Piece['status']) => {
     try {
-      await updatePiece(pieceId, { status });
-      toast.success('Piece status updated');
+      const updated = await updatePieceStage(pieceId, status);
+      if (!updated) return;
+      const stage = getStage(workflow, status);
+      // Stages set up to notify offer to message the customer straight away
+      if (stage.notify) {
+        toast.success((t) => (
+          <span className="flex items-center space-x-3">
+            <span>Moved to {stage.label}</span>
+            <button
+              type="button"
+              onClick={() => {
+                toast.dismiss(t.id);
+                handleNotifyCustomer(updated);
+              }}
+              className="font-semibold text-blue-600 hover:text-blue-800"
+            >
+              Notify customer
+            </button>
+          </span>
+        ), { duration: 6000 });
+      } else {
+        toast.success('Piece status updated');
+      }
     } catch (error) {
       toast.error('Failed to update piece status');
     }
   };
 
   const handleBulkStatusUpdate = async (pieceIds: string[], status: Piece['status']) => {
+    // One confirmation covers every piece in the selection that would skip or go back
+    const unusual = pieceIds
+      .map(id => pieces.find(p => p.id === id))
+      .filter((piece): piece is Piece => !!piece && checkStageMove(workflow, piece.status, status) !== 'allowed');
+    if (unusual.length > 0) {
+      const example = describeStageMove(workflow, unusual[0].status, status);
+      const message = unusual.length === 1
+        ? `${example}. Move it anyway?`
+        : `${unusual.length} of these pieces would skip or go back stages (e.g. ${example}). Move them anyway?`;
+      if (!window.confirm(message)) return;
+    }
+
+    // One batch, so one step undoes the whole selection
     try {
-      await Promise.all(pieceIds.map(id => updatePiece(id, { status })));
-      toast.success(`Updated ${pieceIds.length} pieces to ${status.replace('-', ' ')}`);
+      await updatePiecesBulk(
+        pieceIds.map(id => ({ id, data: { status }, expectedVersion: versionOf(pieces.find(p => p.id === id)) })),
+        { allowAnyStage: unusual.length > 0 }
+      );
+      toast.success(`Updated ${pieceIds.length} pieces to ${getStage(workflow, status).label}`);
     } catch (error) {
       console.error('Error updating pieces status:', error);
-      toast.error('Failed to update pieces status');
+      toast.error(error instanceof VersionConflictError ? error.message : 'Failed to update pieces status');
     }
   };
 
@@ -349,16 +607,77 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleDeletePiece = async (pieceId: string) => {
-    if (window.confirm('Are you sure you want to delete this piece?')) {
+    if (!requirePermission('deleteRecords', 'delete pieces')) return;
+    if (window.confirm('Move this piece to the trash?')) {
       try {
         await deletePiece(pieceId);
-        toast.success('Piece deleted successfully');
+        notifyWithUndo('Piece moved to trash');
       } catch (error) {
         toast.error('Failed to delete piece');
       }
     }
   };
 
+  // Kiln firings
+  const handleAddFiring = () => {
+    setEditingFiring(undefined);
+    setFiringProposal(undefined);
+    setShowFiringModal(true);
+  };
+
+  const handleLoadProposal = (type: FiringType, pieceIds: string[]) => {
+    setEditingFiring(undefined);
+    setFiringProposal({ type, pieceIds });
+    setShowFiringModal(true);
+  };
+
+  const handleEditFiring = (firing: Firing) => {
+    setEditingFiring(firing);
+    setFiringProposal(undefined);
+    setShowFiringModal(true);
+  };
+
+  const handleFiringSubmit = async (firingData: Omit<Firing, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      if (editingFiring) {
+        await updateFiring(editingFiring.id, firingData);
+        toast.success('Kiln load updated');
+      } else {
+        await addFiring(firingData);
+        toast.success(`Loaded ${firingData.pieceIds.length} piece${firingData.pieceIds.length === 1 ? '' : 's'} into ${firingData.kiln}`);
+      }
+      setShowFiringModal(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save kiln load');
+    }
+  };
+
+  const handleUnloadFiring = async (firing: Firing) => {
+    const toLabel = describeFiringResults(workflow, firing.type);
+    const count = firing.pieceIds.length;
+    if (!window.confirm(`Unload ${firing.kiln}? This moves ${count} piece${count === 1 ? '' : 's'} to ${toLabel}.`)) return;
+    try {
+      const { pieces: advanced } = await unloadFiring(firing.id);
+      notifyWithUndo(`Unloaded ${firing.kiln}: ${advanced.length} piece${advanced.length === 1 ? '' : 's'} now ${toLabel}`);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        toast.error('Some of these pieces were changed elsewhere. Reload and try again.');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to unload kiln');
+      }
+    }
+  };
+
+  const handleDeleteFiring = async (firing: Firing) => {
+    if (!window.confirm(`Remove this ${firing.kiln} load? The pieces stay where they are.`)) return;
+    try {
+      await deleteFiring(firing.id);
+      toast.success('Kiln load removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove kiln load');
+    }
+  };
+
   const handleNotifyCustomer = async (piece: Piece) => {
     const customer = getCustomerById(piece.customerId);
     if (!customer) {
@@ -376,20 +695,17 @@ export const Dashboard: React.FC = () => {
 
   const handleMarkPickedUp = async (pieceId: string) => {
     try {
-      await updatePiece(pieceId, {
-        status: 'picked-up',
-        pickedUpDate: new Date()
-      });
+      if (!await updatePieceStage(pieceId, 'picked-up')) return;
       toast.success('Piece marked as picked up');
     } catch (error) {
       toast.error('Failed to update piece status');
     }
   };
 
-  const handleCustomerSubmit = async (customerData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleCustomerSubmit = async (customerData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>, expectedVersion?: number) => {
     try {
       if (editingCustomer) {
-        await updateCustomer(editingCustomer.id, customerData);
+        await updateCustomer(editingCustomer.id, customerData, expectedVersion);
         toast.success('Customer updated successfully');
       } else {
         await addCustomer(customerData);
@@ -397,6 +713,8 @@ export const Dashboard: React.FC = () => {
       }
       setShowCustomerModal(false);
     } catch (error) {
+      // CustomerForm shows both versions and lets staff pick
+      if (error instanceof VersionConflictError) throw error;
       toast.error('Failed to save customer');
     }
   };
@@ -414,16 +732,35 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleDeleteEvent = async (eventId: string) => {
-    if (window.confirm('Are you sure you want to delete this event and all its bookings?')) {
+    if (!requirePermission('deleteRecords', 'delete events')) return;
+    if (window.confirm('Move this event and all its bookings to the trash?')) {
       try {
         await deleteEvent(eventId);
-        toast.success('Event deleted successfully');
+        notifyWithUndo('Event moved to trash');
       } catch (error) {
         toast.error('Failed to delete event');
       }
     }
   };
 
+  const handleRestoreFromTrash = async (collection: TrashCollection, id: string) => {
+    try {
+      await restoreFromTrash(collection, id);
+      toast.success('Restored from trash');
+    } catch (error) {
+      toast.error('Failed to restore');
+    }
+  };
+
+  const handlePurgeFromTrash = async (collection: TrashCollection, id: string) => {
+    try {
+      await purgeFromTrash(collection, id);
+      toast.success('Deleted forever');
+    } catch (error) {
+      toast.error('Failed to delete');
+    }
+  };
+
   const handleBookCustomer = (eventId: string) => {
     const event = getEventById(eventId);
     if (event) {
@@ -449,6 +786,49 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  // Both confirmed and waitlisted customers hear about a new time
+  const getAffectedBookings = (eventId: string) =>
+    eventBookings.filter(b => b.eventId === eventId && (b.status === 'confirmed' || b.status === 'waitlisted'));
+
+  const handleConfirmReschedule = async (notifyCustomers: boolean) => {
+    if (!pendingReschedule) return;
+    const { event, date, startTime, endTime } = pendingReschedule;
+    const updates = { date, startTime, endTime };
+
+    try {
+      // Same rule as editing one occurrence: a new day takes it out of its series
+      if (event.seriesId && toDayKey(date) !== toDayKey(event.date)) {
+        await detachOccurrence(event.id, updates);
+      } else {
+        await updateEvent(event.id, updates, versionOf(event));
+      }
+      setPendingReschedule(null);
+      toast.success('Event rescheduled');
+    } catch (error) {
+      toast.error(error instanceof VersionConflictError ? error.message : 'Failed to reschedule event');
+      return;
+    }
+
+    if (!notifyCustomers) return;
+    const rescheduled = { ...event, ...updates };
+    let notified = 0;
+    const failed: string[] = [];
+    for (const booking of getAffectedBookings(event.id)) {
+      const customer = getCustomerById(booking.customerId);
+      if (!customer) continue;
+      try {
+        const notice = await eventNotificationService.notifyReschedule(customer, rescheduled, event);
+        if (notice.emailed || notice.texted) notified++;
+        else failed.push(customer.name);
+      } catch (error) {
+        console.error('Error notifying customer about reschedule:', error);
+        failed.push(customer.name);
+      }
+    }
+    if (notified > 0) toast.success(`Notified ${notified} customer${notified === 1 ? '' : 's'}`);
+    if (failed.length > 0) toast.error(`Couldn't notify ${failed.join(', ')}`);
+  };
+
   const handleCustomerCheckIn = async (customerId: string, checkedIn: boolean) => {
     try {
       await updateCustomer(customerId, { checkedIn });
@@ -460,6 +840,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleUpdatePayment = async (customerId: string, field: 'paidGlaze', value: boolean) => {
+    if (!requirePermission('markGlazePaid', 'change payment status')) return;
     try {
       // Find pieces for this customer and update payment status
       const customerPieces = pieces.filter(p => p.customerId === customerId);
@@ -474,6 +855,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleUpdatePiecePayment = async (pieceId: string, field: 'paidGlaze', value: boolean) => {
+    if (!requirePermission('markGlazePaid', 'change payment status')) return;
     try {
       await updatePiece(pieceId, { [field]: value });
       toast.success(`Payment status updated successfully`);
@@ -496,20 +878,22 @@ export const Dashboard: React.FC = () => {
 
 
   const handleBulkDelete = async (pieceIds: string[]) => {
-    if (window.confirm(`Are you sure you want to delete ${pieceIds.length} pieces? This action cannot be undone.`)) {
+    if (!requirePermission('deleteRecords', 'delete pieces')) return;
+    if (window.confirm(`Move ${pieceIds.length} pieces to the trash?`)) {
       try {
-        await Promise.all(pieceIds.map(id => deletePiece(id)));
-        toast.success(`Deleted ${pieceIds.length} pieces`);
+        const deletedIds = await deletePiecesBulk(pieceIds);
+        notifyWithUndo(`Moved ${deletedIds.length} pieces to trash`);
         } catch (error) {
         console.error('Error deleting pieces:', error);
-        toast.error('Failed to delete pieces');
+        toast.error(error instanceof Error ? error.message : 'Failed to delete pieces');
       }
     }
   };
 
   const handleBulkPaymentUpdate = async (pieceIds: string[], paidGlaze: boolean) => {
+    if (!requirePermission('markGlazePaid', 'change payment status')) return;
     try {
-      await Promise.all(pieceIds.map(id => updatePiece(id, { paidGlaze })));
+      await updatePiecesBulk(pieceIds.map(id => ({ id, data: { paidGlaze }, expectedVersion: versionOf(pieces.find(p => p.id === id)) })));
       toast.success(`Updated payment status for ${pieceIds.length} pieces`);
     } catch (error) {
       console.error('Error updating payment status:', error);
@@ -541,39 +925,92 @@ export const Dashboard: React.FC = () => {
     }
   };
 
-  const handleEventSubmit = async (eventData: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>) => {
+  // Undo is only offered while it can't take back a spot the waitlist has already filled
+  const notifyDropOut = (message: string, waitlistMovesBefore: number) => {
+    if (waitlistMovesRef.current !== waitlistMovesBefore) {
+      toast.success(message);
+    } else {
+      notifyWithUndo(message);
+    }
+  };
+
+  const describeSeriesUpdate = (result: SeriesUpdateResult) => {
+    const parts = [`${result.updated.length} updated`];
+    if (result.created.length > 0) parts.push(`${result.created.length} added`);
+    if (result.removed.length > 0) parts.push(`${result.removed.length} moved to the trash`);
+    return `Series saved: ${parts.join(', ')}`;
+  };
+
+  const handleEventSubmit = async (eventData: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>, scope: SeriesEditScope) => {
     try {
       if (editingEvent) {
-        await updateEvent(editingEvent.id, eventData);
-        toast.success('Event updated successfully');
+        if (scope === 'future' || (!editingEvent.seriesId && eventData.recurrence)) {
+          const result = await updateEventSeries(editingEvent.id, eventData);
+          toast.success(describeSeriesUpdate(result));
+          if (result.detached.length > 0) {
+            toast(`${result.detached.length} event(s) no longer fit the new schedule but have bookings, so they were kept as one-off events`, { duration: 6000 });
+          }
+        } else {
+          const moved = !!editingEvent.seriesId && toDayKey(eventData.date) !== toDayKey(editingEvent.date);
+          if (moved) {
+            await detachOccurrence(editingEvent.id, eventData);
+            toast.success('Event moved and taken out of its series');
+          } else {
+            await updateEvent(editingEvent.id, eventData, versionOf(editingEvent));
+            toast.success('Event updated successfully');
+          }
+        }
+      } else if (eventData.recurrence) {
+        const created = await addEventSeries(eventData);
+        toast.success(`Added ${created.length} events`);
       } else {
         await addEvent(eventData);
         toast.success('Event added successfully');
       }
       setShowEventModal(false);
     } catch (error) {
-      toast.error('Failed to save event');
+      toast.error(error instanceof Error ? error.message : 'Failed to save event');
     }
   };
 
-  const handleEventBookingSubmit = async (bookingData: Omit<EventBooking, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleEventBookingSubmit = async (bookingData: NewEventBooking) => {
     try {
-      await addEventBooking(bookingData);
-      toast.success('Customer booked successfully');
+      const booking = await addEventBooking(bookingData);
+      toast.success(booking.status === 'waitlisted'
+        ? `Added to the waitlist at position ${booking.waitlistPosition}`
+        : 'Customer booked successfully');
       setShowEventBookingModal(false);
     } catch (error) {
-      toast.error('Failed to book customer');
+      toast.error(error instanceof EdgeFunctionError ? error.message : 'Failed to book customer');
     }
   };
 
   const handleRemoveBooking = async (bookingId: string) => {
     if (window.confirm('Are you sure you want to remove this booking?')) {
+      const waitlistMoves = waitlistMovesRef.current;
       try {
         await deleteEventBooking(bookingId);
-        toast.success('Booking removed successfully');
       } catch (error) {
         toast.error('Failed to remove booking');
+        return;
       }
+      notifyDropOut('Booking removed successfully', waitlistMoves);
+    }
+  };
+
+  // Unlike removing, cancelling keeps the booking on record
+  const handleCancelBooking = async (bookingId: string) => {
+    const booking = eventBookings.find(b => b.id === bookingId);
+    if (!booking) return;
+    const customer = getCustomerById(booking.customerId);
+    const label = booking.status === 'waitlisted' ? 'waitlist spot' : 'booking';
+    if (!window.confirm(`Cancel ${customer ? `${customer.name}'s` : 'this'} ${label}?`)) return;
+
+    try {
+      await updateEventBooking(bookingId, { status: 'cancelled', waitlistPosition: null }, versionOf(booking));
+      toast.success(booking.status === 'waitlisted' ? 'Removed from the waitlist' : 'Booking cancelled');
+    } catch (error) {
+      toast.error(error instanceof VersionConflictError ? error.message : 'Failed to cancel booking');
     }
   };
 
@@ -605,6 +1042,23 @@ export const Dashboard: React.FC = () => {
               <div className="mb-4 sm:mb-0">
                 <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Clay Cafe Database</h1>
                 <p className="text-sm sm:text-base text-gray-600">Manage customers and ceramic pieces</p>
+                {currentStaff && (
+                  <p className="text-xs sm:text-sm text-gray-500 mt-1">
+                    Signed in as {currentStaff.name} ({getRoleLabel(currentStaff.role)}) •{' '}
+                    <button onClick={() => setShowSetPinModal(true)} className="text-amber-600 hover:text-amber-700 underline">
+                      {currentStaff.hasPin ? 'Change PIN' : 'Set PIN'}
+                    </button>
+                  </p>
+                )}
+                {syncStatus && (
+                  <div className="mt-2">
+                    <SyncStatusIndicator
+                      status={syncStatus}
+                      onSyncNow={syncNow}
+                      onResolveConflict={resolveSyncConflict}
+                    />
+                  </div>
+                )}
               </div>
               <div className="hidden sm:flex space-x-3">
                 <Button onClick={handleAddCustomer} className="flex items-center space-x-2">
@@ -619,6 +1073,10 @@ export const Dashboard: React.FC = () => {
                   <Calendar size={16} />
                   <span>Add Event</span>
                 </Button>
+                <Button onClick={lock} variant="outline" className="flex items-center space-x-2">
+                  <Lock size={16} />
+                  <span>Lock</span>
+                </Button>
                 <Button 
                   onClick={handleLogout} 
                   variant="outline" 
@@ -643,6 +1101,10 @@ export const Dashboard: React.FC = () => {
                 <Calendar size={14} />
                 <span className="text-xs">Event</span>
               </Button>
+              <Button onClick={lock} size="sm" variant="outline" className="flex items-center space-x-1">
+                <Lock size={14} />
+                <span className="text-xs">Lock</span>
+              </Button>
               <Button 
                 onClick={handleLogout} 
                 size="sm" 
@@ -709,10 +1171,16 @@ export const Dashboard: React.FC = () => {
                 {[
                   { key: 'events', label: 'Events', icon: Calendar },
                   { key: 'pieces', label: 'Pieces', icon: Palette },
+                  { key: 'firings', label: 'Kilns', icon: Flame },
                   { key: 'customers', label: 'Customers', icon: Users },
                   { key: 'overview', label: 'Overview', icon: TrendingUp },
+                  { key: 'turnaround', label: 'Turnaround', icon: Timer },
+                  { key: 'trash', label: 'Trash', icon: Trash2 },
                   { key: 'settings', label: 'Settings', icon: SettingsIcon }
-                ].map(({ key, label, icon: Icon }) => (
+                ].filter(({ key }) => {
+                  const permission = VIEW_PERMISSIONS[key as ViewMode];
+                  return !permission || can(permission);
+                }).map(({ key, label, icon: Icon }) => (
                   <button
                     key={key}
                     onClick={() => setViewMode(key as ViewMode)}
@@ -785,15 +1253,15 @@ export const Dashboard: React.FC = () => {
             getPiecesReadyForPickup={getPiecesReadyForPickup}
             getCustomerById={getCustomerById}
             onEditPiece={handleEditPiece}
-            onDeletePiece={handleDeletePiece}
+            onDeletePiece={canDelete ? handleDeletePiece : undefined}
             onNotifyCustomer={handleNotifyCustomer}
             onMarkPickedUp={handleMarkPickedUp}
             onViewPiece={handleViewPiece}
             onUpdatePieceStatus={handleUpdatePieceStatus}
             onUpdateCubicInches={handleUpdateCubicInches}
-            onUpdatePiecePayment={handleUpdatePiecePayment}
+            onUpdatePiecePayment={canMarkPaid ? handleUpdatePiecePayment : undefined}
             onEditCustomer={handleEditCustomer}
-            onDeleteCustomer={handleDeleteCustomer}
+            onDeleteCustomer={canDelete ? handleDeleteCustomer : undefined}
             onAddPiece={handleAddPiece}
             onViewCustomerPieces={handleViewCustomerPieces}
           />
@@ -805,7 +1273,7 @@ export const Dashboard: React.FC = () => {
             pieces={pieces}
             searchTerm={searchTerm}
             onEdit={handleEditCustomer}
-            onDelete={handleDeleteCustomer}
+            onDelete={canDelete ? handleDeleteCustomer : undefined}
             onAddPiece={handleAddPiece}
             onViewPieces={handleViewCustomerPieces}
             onAddCustomer={handleAddCustomer}
@@ -822,18 +1290,38 @@ export const Dashboard: React.FC = () => {
             sortMode={pieceSortMode}
             onSortChange={setPieceSortMode}
             onEdit={handleEditPiece}
-            onDelete={handleDeletePiece}
+            onDelete={canDelete ? handleDeletePiece : undefined}
             onNotify={handleNotifyCustomer}
             onMarkPickedUp={handleMarkPickedUp}
             onView={handleViewPiece}
             onStatusChange={handleUpdatePieceStatus}
             onCubicInchesChange={handleUpdateCubicInches}
-            onPaymentUpdate={handleUpdatePiecePayment}
+            onPaymentUpdate={canMarkPaid ? handleUpdatePiecePayment : undefined}
             onBulkStatusUpdate={handleBulkStatusUpdate}
-            onBulkPaymentUpdate={handleBulkPaymentUpdate}
-            onBulkDelete={handleBulkDelete}
+            onBulkPaymentUpdate={canMarkPaid ? handleBulkPaymentUpdate : undefined}
+            onBulkDelete={canDelete ? handleBulkDelete : undefined}
             onAddPiece={() => handleAddPiece()}
             getCustomerById={getCustomerById}
+            estimateReadyDate={estimateReadyDate}
+          />
+        )}
+
+        {viewMode === 'turnaround' && (
+          <TurnaroundViewSection pieces={pieces} events={events} />
+        )}
+
+        {viewMode === 'firings' && (
+          <FiringsViewSection
+            firings={firings}
+            pieces={pieces}
+            customers={customers}
+            searchTerm={searchTerm}
+            kilnShelfVolume={kilnShelfVolume}
+            onAdd={handleAddFiring}
+            onLoadProposal={handleLoadProposal}
+            onEdit={handleEditFiring}
+            onUnload={handleUnloadFiring}
+            onDelete={handleDeleteFiring}
           />
         )}
 
@@ -844,15 +1332,30 @@ export const Dashboard: React.FC = () => {
             eventBookings={eventBookings}
             searchTerm={searchTerm}
             onEdit={handleEditEvent}
-            onDelete={handleDeleteEvent}
+            onDelete={canDelete ? handleDeleteEvent : undefined}
             onViewRoster={handleViewEventRoster}
             onDuplicate={handleDuplicateEvent}
             onAddEvent={handleAddEvent}
+            onReschedule={(event, date, startTime, endTime) => setPendingReschedule({ event, date, startTime, endTime })}
           />
         )}
 
+        {viewMode === 'trash' && (
+          <ProtectedRoute permission={VIEW_PERMISSIONS.trash}>
+            <TrashViewSection
+              trash={trash}
+              customers={customers}
+              searchTerm={searchTerm}
+              onRestore={handleRestoreFromTrash}
+              onPurge={handlePurgeFromTrash}
+            />
+          </ProtectedRoute>
+        )}
+
         {viewMode === 'settings' && (
-          <Settings />
+          <ProtectedRoute permission={VIEW_PERMISSIONS.settings}>
+            <Settings />
+          </ProtectedRoute>
         )}
 
       </div>
@@ -884,6 +1387,39 @@ export const Dashboard: React.FC = () => {
         />
       </Modal>
 
+      <Modal
+        isOpen={showFiringModal}
+        onClose={() => setShowFiringModal(false)}
+        title={editingFiring ? 'Edit Kiln Load' : 'Load Kiln'}
+        size="lg"
+      >
+        <FiringForm
+          firing={editingFiring}
+          proposal={firingProposal}
+          firings={firings}
+          pieces={pieces}
+          customers={customers}
+          onSubmit={handleFiringSubmit}
+          onCancel={() => setShowFiringModal(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={!!pendingReschedule}
+        onClose={() => setPendingReschedule(null)}
+        title="Reschedule Event"
+        size="sm"
+      >
+        {pendingReschedule && (
+          <RescheduleConfirm
+            request={pendingReschedule}
+            bookedCount={getAffectedBookings(pendingReschedule.event.id).length}
+            onConfirm={handleConfirmReschedule}
+            onCancel={() => setPendingReschedule(null)}
+          />
+        )}
+      </Modal>
+
       <Modal
         isOpen={showEventBookingModal}
         onClose={() => setShowEventBookingModal(false)}
@@ -918,8 +1454,9 @@ export const Dashboard: React.FC = () => {
             pieces={pieces}
             onClose={() => setShowEventDetailsModal(false)}
             onRemoveBooking={handleRemoveBooking}
+            onCancelBooking={handleCancelBooking}
             onCheckIn={handleCustomerCheckIn}
-            onUpdatePayment={handleUpdatePiecePayment}
+            onUpdatePayment={canMarkPaid ? handleUpdatePiecePayment : undefined}
             onAddPiece={handleAddPiece}
             onEditPiece={handleEditPieceFromCustomerSummary}
             onDuplicateEvent={handleDuplicateEvent}
@@ -937,7 +1474,7 @@ export const Dashboard: React.FC = () => {
           pieces={pieces}
           onClose={() => setShowEventRosterModal(false)}
           onCheckIn={handleCustomerCheckIn}
-          onUpdatePayment={handleUpdatePayment}
+          onUpdatePayment={canMarkPaid ? handleUpdatePayment : undefined}
           onAddPiece={handleAddPieceFromRoster}
           onEditPiece={handleEditPieceFromCustomerSummary}
           onDuplicateEvent={handleDuplicateEvent}
@@ -948,7 +1485,7 @@ export const Dashboard: React.FC = () => {
 
       {showCustomerPiecesModal && selectedCustomerForPieces && (
         <CustomerPiecesSummary
-          customer={selectedCustomerForPieces}
+          customer={getCustomerById(selectedCustomerForPieces.id) || selectedCustomerForPieces}
           pieces={pieces}
           events={events}
           onClose={() => {
@@ -956,7 +1493,7 @@ export const Dashboard: React.FC = () => {
             setSelectedCustomerForPieces(undefined);
           }}
           onUpdatePieceStatus={handleUpdatePieceStatus}
-          onUpdatePayment={handleUpdatePiecePayment}
+          onUpdatePayment={canMarkPaid ? handleUpdatePiecePayment : undefined}
           onAddPiece={handleAddPiece}
           onEditPiece={handleEditPieceFromCustomerSummary}
           onNotifyCustomer={handleNotifyCustomer}
@@ -973,6 +1510,7 @@ export const Dashboard: React.FC = () => {
           studioSettings={studioSettings || undefined}
           customerId={selectedCustomerForPiece}
           eventId={selectedEvent?.id}
+          canMarkPaid={canMarkPaid}
           onSave={handlePieceModalSubmit}
           onClose={() => {
             setShowPieceModal(false);
@@ -982,6 +1520,8 @@ export const Dashboard: React.FC = () => {
         />
       )}
 
+      <SetPinModal isOpen={showSetPinModal} onClose={() => setShowSetPinModal(false)} />
+
       {/* Notification Modal (SMS & Email) */}
       {showNotificationModal && notificationPiece && (
         <NotificationModal
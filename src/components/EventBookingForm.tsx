@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Event, Customer, EventBooking } from '../types';
+import { Event, Customer, EventBooking, NewEventBooking } from '../types';
 import { Select } from './ui/Select';
 import { Button } from './ui/Button';
 import { formatShortDate } from '../utils/dateUtils';
@@ -8,7 +8,7 @@ interface EventBookingFormProps {
   event: Event;
   customers: Customer[];
   existingBookings: EventBooking[];
-  onSubmit: (booking: Omit<EventBooking, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSubmit: (booking: NewEventBooking) => void;
   onCancel: () => void;
 }
 
@@ -60,8 +60,6 @@ export const EventBookingForm: React.FC<EventBookingFormProps> = ({
     onSubmit({
       eventId: event.id,
       customerId: selectedCustomerId,
-      bookingDate: new Date(),
-      status: 'confirmed',
       notes: notes.trim() || undefined
     });
   };
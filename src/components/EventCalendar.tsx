@@ -0,0 +1,360 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { Event, EventBooking } from '../types';
+import { EVENT_TYPE_COLORS } from '../constants';
+import { minutesToTime, timeToMinutes } from '../utils/dateUtils';
+import { toDayKey } from '../utils/recurrence';
+import { Button } from './ui/Button';
+
+type CalendarMode = 'month' | 'week' | 'day';
+
+interface EventCalendarProps {
+  events: Event[];
+  eventBookings: EventBooking[];
+  onOpenEvent: (event: Event) => void;
+  onReschedule: (event: Event, date: Date, startTime: string, endTime: string) => void;
+}
+
+const CALENDAR_MODES: Array<{ value: CalendarMode; label: string }> = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' }
+];
+
+const HOUR_HEIGHT = 48; // Pixels per hour in the week and day grids
+const SNAP_MINUTES = 15;
+const LATEST_END = 24 * 60 - SNAP_MINUTES;
+const MONTH_CELL_LIMIT = 3;
+
+// Calendar cells are local days; the key matches how EventForm turns a picked day into event.date
+const cellKey = (day: Date): string => format(day, 'yyyy-MM-dd');
+
+// Finished and cancelled sessions stay where they happened
+const canReschedule = (event: Event): boolean => event.status === 'upcoming';
+
+const byStartTime = (a: Event, b: Event) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+
+// Side-by-side lanes for sessions that overlap on the same day
+const layoutDay = (dayEvents: Event[]): { placed: Array<{ event: Event; lane: number }>; lanes: number } => {
+  const laneEnds: number[] = [];
+  const placed = [...dayEvents].sort(byStartTime).map(event => {
+    const start = timeToMinutes(event.startTime);
+    let lane = laneEnds.findIndex(end => end <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = timeToMinutes(event.endTime);
+    return { event, lane };
+  });
+  return { placed, lanes: Math.max(1, laneEnds.length) };
+};
+
+export const EventCalendar: React.FC<EventCalendarProps> = ({
+  events,
+  eventBookings,
+  onOpenEvent,
+  onReschedule
+}) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Where in the block the pointer grabbed it, so a dropped session lands where it was drawn
+  const dragRef = useRef<{ eventId: string; grabOffset: number } | null>(null);
+
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, Event[]>();
+    events.forEach(event => {
+      const key = toDayKey(event.date);
+      map.set(key, [...(map.get(key) || []), event]);
+    });
+    return map;
+  }, [events]);
+
+  const bookedCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    eventBookings
+      .filter(b => b.status === 'confirmed')
+      .forEach(b => counts.set(b.eventId, (counts.get(b.eventId) || 0) + 1));
+    return counts;
+  }, [eventBookings]);
+
+  const [firstHour, lastHour] = useMemo(() => {
+    let first = 8;
+    let last = 21;
+    events.forEach(event => {
+      first = Math.min(first, Math.floor(timeToMinutes(event.startTime) / 60));
+      last = Math.max(last, Math.ceil(timeToMinutes(event.endTime) / 60));
+    });
+    return [first, Math.min(last, 24)];
+  }, [events]);
+
+  const eventsOn = (day: Date) => eventsByDay.get(cellKey(day)) || [];
+
+  const navigate = (direction: 1 | -1) => {
+    setCursor(prev =>
+      mode === 'month' ? addMonths(prev, direction) : mode === 'week' ? addWeeks(prev, direction) : addDays(prev, direction)
+    );
+  };
+
+  const openDay = (day: Date) => {
+    setCursor(day);
+    setMode('day');
+  };
+
+  const title = mode === 'month'
+    ? format(cursor, 'MMMM yyyy')
+    : mode === 'week'
+      ? `${format(startOfWeek(cursor), 'MMM d')} – ${format(endOfWeek(cursor), 'MMM d, yyyy')}`
+      : format(cursor, 'EEEE, MMMM d, yyyy');
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, event: Event, timed: boolean) => {
+    const grabOffset = timed
+      ? ((e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT) * 60
+      : 0;
+    dragRef.current = { eventId: event.id, grabOffset };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', event.id);
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, key: string) => {
+    if (!dragRef.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== key) setDropTarget(key);
+  };
+
+  const reschedule = (event: Event, day: Date, startMinutes: number) => {
+    const duration = Math.max(timeToMinutes(event.endTime) - timeToMinutes(event.startTime), SNAP_MINUTES);
+    const start = Math.min(Math.max(0, startMinutes), LATEST_END - duration);
+    const startTime = minutesToTime(start);
+    if (cellKey(day) === toDayKey(event.date) && startTime === event.startTime) return;
+    onReschedule(event, new Date(cellKey(day)), startTime, minutesToTime(start + duration));
+  };
+
+  const takeDraggedEvent = (e: React.DragEvent<HTMLDivElement>): { event: Event; grabOffset: number } | null => {
+    e.preventDefault();
+    const drag = dragRef.current;
+    handleDragEnd();
+    const event = drag ? events.find(ev => ev.id === drag.eventId) : undefined;
+    return drag && event ? { event, grabOffset: drag.grabOffset } : null;
+  };
+
+  const handleDayDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    const dragged = takeDraggedEvent(e);
+    if (dragged) reschedule(dragged.event, day, timeToMinutes(dragged.event.startTime));
+  };
+
+  const handleTimedDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dragged = takeDraggedEvent(e);
+    if (!dragged) return;
+    const pointer = firstHour * 60 + ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 - dragged.grabOffset;
+    reschedule(dragged.event, day, Math.round(pointer / SNAP_MINUTES) * SNAP_MINUTES);
+  };
+
+  const eventClasses = (event: Event) =>
+    `${EVENT_TYPE_COLORS[event.type]} ${event.status === 'cancelled' ? 'line-through opacity-60' : ''} ${
+      canReschedule(event) ? 'cursor-move' : 'cursor-pointer'
+    }`;
+
+  const eventTitle = (event: Event) =>
+    `${event.name} • ${event.startTime} - ${event.endTime} • ${bookedCounts.get(event.id) || 0}/${event.maxCapacity} booked`;
+
+  const renderMonth = () => {
+    const days = eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) });
+    return (
+      <div className="grid grid-cols-7 border-l border-t border-gray-200">
+        {days.slice(0, 7).map(day => (
+          <div key={`label-${cellKey(day)}`} className="px-2 py-1 text-xs font-medium text-gray-500 border-r border-b border-gray-200 bg-gray-50">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = cellKey(day);
+          const dayEvents = [...eventsOn(day)].sort(byStartTime);
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => handleDragOver(e, key)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDayDrop(e, day)}
+              className={`min-h-[6rem] p-1 border-r border-b border-gray-200 space-y-1 ${
+                dropTarget === key ? 'bg-amber-50' : isSameMonth(day, cursor) ? 'bg-white' : 'bg-gray-50'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => openDay(day)}
+                className={`text-xs w-6 h-6 rounded-full ${
+                  isSameDay(day, new Date()) ? 'bg-amber-600 text-white' : isSameMonth(day, cursor) ? 'text-gray-700 hover:bg-gray-100' : 'text-gray-400'
+                }`}
+              >
+                {format(day, 'd')}
+              </button>
+              {dayEvents.slice(0, MONTH_CELL_LIMIT).map(event => (
+                <div
+                  key={event.id}
+                  draggable={canReschedule(event)}
+                  onDragStart={(e) => handleDragStart(e, event, false)}
+                  onDragEnd={handleDragEnd}
+                  onClick={() => onOpenEvent(event)}
+                  title={eventTitle(event)}
+                  className={`px-1.5 py-0.5 rounded text-xs truncate ${eventClasses(event)}`}
+                >
+                  <span className="font-medium">{event.startTime}</span> {event.name}
+                </div>
+              ))}
+              {dayEvents.length > MONTH_CELL_LIMIT && (
+                <button type="button" onClick={() => openDay(day)} className="text-xs text-gray-500 hover:text-gray-700">
+                  +{dayEvents.length - MONTH_CELL_LIMIT} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderTimed = (days: Date[]) => {
+    const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+    return (
+      <div className="overflow-x-auto">
+        <div className={days.length > 1 ? 'min-w-[48rem]' : ''}>
+          <div className="flex border-b border-gray-200">
+            <div className="w-14 flex-shrink-0" />
+            {days.map(day => (
+              <button
+                key={cellKey(day)}
+                type="button"
+                onClick={() => openDay(day)}
+                className={`flex-1 py-2 text-sm text-center ${isSameDay(day, new Date()) ? 'text-amber-700 font-semibold' : 'text-gray-700'}`}
+              >
+                {format(day, days.length > 1 ? 'EEE d' : 'EEEE d')}
+              </button>
+            ))}
+          </div>
+          <div className="flex">
+            <div className="w-14 flex-shrink-0">
+              {hours.map(hour => (
+                <div key={hour} style={{ height: HOUR_HEIGHT }} className="text-xs text-gray-400 text-right pr-2 -mt-2">
+                  {minutesToTime(hour * 60)}
+                </div>
+              ))}
+            </div>
+            {days.map(day => {
+              const key = cellKey(day);
+              const { placed, lanes } = layoutDay(eventsOn(day));
+              return (
+                <div
+                  key={key}
+                  onDragOver={(e) => handleDragOver(e, key)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleTimedDrop(e, day)}
+                  className={`flex-1 relative border-l border-gray-200 ${dropTarget === key ? 'bg-amber-50' : ''}`}
+                  style={{ height: hours.length * HOUR_HEIGHT }}
+                >
+                  {hours.map(hour => (
+                    <div key={hour} style={{ height: HOUR_HEIGHT }} className="border-t border-gray-100" />
+                  ))}
+                  {placed.map(({ event, lane }) => {
+                    const start = timeToMinutes(event.startTime) - firstHour * 60;
+                    const length = timeToMinutes(event.endTime) - timeToMinutes(event.startTime);
+                    return (
+                      <div
+                        key={event.id}
+                        className="absolute p-0.5"
+                        style={{
+                          top: (start / 60) * HOUR_HEIGHT,
+                          height: Math.max((length / 60) * HOUR_HEIGHT, 24),
+                          left: `${(lane / lanes) * 100}%`,
+                          width: `${100 / lanes}%`
+                        }}
+                      >
+                        <div
+                          draggable={canReschedule(event)}
+                          onDragStart={(e) => handleDragStart(e, event, true)}
+                          onDragEnd={handleDragEnd}
+                          onClick={() => onOpenEvent(event)}
+                          title={eventTitle(event)}
+                          className={`h-full rounded-md px-2 py-1 text-xs overflow-hidden shadow-sm ${eventClasses(event)}`}
+                        >
+                          <div className="font-medium truncate">{event.name}</div>
+                          <div>{event.startTime} - {event.endTime}</div>
+                          <div>{bookedCounts.get(event.id) || 0}/{event.maxCapacity} booked</div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-3 sm:p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft size={16} />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight size={16} />
+          </Button>
+          <h3 className="text-lg font-semibold text-gray-900 ml-2">{title}</h3>
+        </div>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden self-start">
+          {CALENDAR_MODES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMode(option.value)}
+              className={`px-3 py-1.5 text-sm ${mode === option.value ? 'bg-amber-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'month' && renderMonth()}
+      {mode === 'week' && renderTimed(eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) }))}
+      {mode === 'day' && renderTimed([cursor])}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {(Object.keys(EVENT_TYPE_COLORS) as Array<Event['type']>).map(type => (
+          <span key={type} className={`px-2 py-0.5 rounded capitalize ${EVENT_TYPE_COLORS[type]}`}>
+            {type.replace('-', ' ')}
+          </span>
+        ))}
+        <span className="text-gray-500">Drag an upcoming event to move it.</span>
+      </div>
+    </div>
+  );
+};
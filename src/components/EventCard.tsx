@@ -1,17 +1,19 @@
 import React from 'react';
-import { Calendar, Clock, Users, MapPin, Edit, Trash2, Copy } from 'lucide-react';
+import { Calendar, Clock, Users, MapPin, Edit, Trash2, Copy, Repeat } from 'lucide-react';
 import { Event, Customer, EventBooking } from '../types';
 import { EVENT_TYPE_COLORS, getStatusColor } from '../constants';
 import { Button } from './ui/Button';
 import { format } from 'date-fns';
 import { ensureDate } from '../utils/dateUtils';
+import { describeRecurrence } from '../utils/recurrence';
 
 interface EventCardProps {
   event: Event;
   customers: Customer[];
   bookings: EventBooking[];
   onEdit: (event: Event) => void;
-  onDelete: (eventId: string) => void;
+  // Left out for roles that can't delete, which hides the button
+  onDelete?: (eventId: string) => void;
   onViewRoster: (event: Event) => void;
   onDuplicate: (event: Event) => void;
 }
@@ -28,6 +30,7 @@ export const EventCard: React.FC<EventCardProps> = ({
 }) => {
   const eventBookings = bookings.filter(b => b.eventId === event.id);
   const confirmedBookings = eventBookings.filter(b => b.status === 'confirmed');
+  const waitlistedCount = eventBookings.filter(b => b.status === 'waitlisted').length;
   const availableSpots = event.maxCapacity - confirmedBookings.length;
   const isFullyBooked = availableSpots <= 0;
 
@@ -77,6 +80,15 @@ export const EventCard: React.FC<EventCardProps> = ({
           <span>{event.startTime} - {event.endTime}</span>
         </div>
         
+        {event.recurrence && (
+          <div className="flex items-center space-x-3 text-sm text-gray-700">
+            <div className="p-1.5 bg-amber-100/80 rounded-lg">
+              <Repeat size={16} className="text-amber-600" />
+            </div>
+            <span>{describeRecurrence(event.recurrence, event.date)}</span>
+          </div>
+        )}
+
         {event.location && (
           <div className="flex items-center space-x-3 text-sm text-gray-700">
             <div className="p-1.5 bg-purple-100/80 rounded-lg">
@@ -114,6 +126,11 @@ export const EventCard: React.FC<EventCardProps> = ({
             <span className="text-sm font-medium text-gray-700">
               {isFullyBooked ? 'Fully Booked' : `${availableSpots} spots available`}
             </span>
+            {waitlistedCount > 0 && (
+              <span className="text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">
+                {waitlistedCount} waitlisted
+              </span>
+            )}
           </div>
           
           <div className="text-sm font-medium text-gray-600">
@@ -142,15 +159,17 @@ export const EventCard: React.FC<EventCardProps> = ({
           >
             <Edit size={16} />
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onDelete(event.id)}
-            className="text-red-600 hover:bg-red-100/80 rounded-full p-2 hover:scale-110"
-            title="Delete Event"
-          >
-            <Trash2 size={16} />
-          </Button>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(event.id)}
+              className="text-red-600 hover:bg-red-100/80 rounded-full p-2 hover:scale-110"
+              title="Delete Event"
+            >
+              <Trash2 size={16} />
+            </Button>
+          )}
         </div>
       </div>
     </div>
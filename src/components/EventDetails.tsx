@@ -17,7 +17,8 @@ import {
   CheckSquare
 } from 'lucide-react';
 import { Event, Customer, EventBooking, Piece } from '../types';
-import { STATUS_COLORS, EVENT_TYPE_COLORS, PIECE_STATUSES, getStatusColor, getPieceStatusInfo } from '../constants';
+import { STATUS_COLORS, EVENT_TYPE_COLORS, getStatusColor } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
 import { Button } from './ui/Button';
 import { format } from 'date-fns';
 import { ensureDate } from '../utils/dateUtils';
@@ -29,8 +30,9 @@ interface EventDetailsProps {
   pieces: Piece[];
   onClose: () => void;
   onRemoveBooking: (bookingId: string) => void;
+  onCancelBooking?: (bookingId: string) => void;
   onCheckIn: (customerId: string, checkedIn: boolean) => void;
-  onUpdatePayment: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  onUpdatePayment?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   onAddPiece: (customerId: string) => void;
   onEditPiece: (piece: Piece) => void;
   onDuplicateEvent: (event: Event) => void;
@@ -39,6 +41,7 @@ interface EventDetailsProps {
 
 const bookingStatusColors = {
   'confirmed': 'bg-green-100 text-green-800',
+  'waitlisted': 'bg-amber-100 text-amber-800',
   'cancelled': 'bg-red-100 text-red-800',
   'no-show': 'bg-yellow-100 text-yellow-800'
 };
@@ -50,6 +53,7 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
   pieces,
   onClose,
   onRemoveBooking,
+  onCancelBooking,
   onCheckIn,
   onUpdatePayment,
   onAddPiece,
@@ -59,8 +63,14 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
 }) => {
   const [selectedPieces, setSelectedPieces] = useState<string[]>([]);
   const [showBulkActions, setShowBulkActions] = useState(false);
-  const eventBookings = bookings.filter(b => b.eventId === event.id);
+  const { workflow } = usePieceWorkflow();
+  // Confirmed first, then the waitlist in line order, then everything else
+  const statusOrder: Record<EventBooking['status'], number> = { confirmed: 0, waitlisted: 1, 'no-show': 2, cancelled: 3 };
+  const eventBookings = bookings
+    .filter(b => b.eventId === event.id)
+    .sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || (a.waitlistPosition || 0) - (b.waitlistPosition || 0));
   const confirmedBookings = eventBookings.filter(b => b.status === 'confirmed');
+  const waitlistedCount = eventBookings.filter(b => b.status === 'waitlisted').length;
   const eventPieces = pieces.filter(p => p.eventId === event.id);
 
   const getCustomerById = (customerId: string) => {
@@ -152,6 +162,9 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
         <div className="bg-white p-4 rounded-lg border border-gray-200">
           <div className="text-sm text-gray-500">Capacity</div>
           <div className="text-lg font-semibold">{confirmedBookings.length}/{event.maxCapacity}</div>
+          {waitlistedCount > 0 && (
+            <div className="text-xs text-amber-700">+{waitlistedCount} waitlisted</div>
+          )}
         </div>
         <div className="bg-white p-4 rounded-lg border border-gray-200">
           <div className="text-sm text-gray-500">Checked In</div>
@@ -198,9 +211,9 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
                   }}
                 >
                   <option value="">Change Status...</option>
-                  {PIECE_STATUSES.map(status => (
-                    <option key={status.value} value={status.value}>
-                      {status.label}
+                  {workflow.stages.map(stage => (
+                    <option key={stage.id} value={stage.id}>
+                      {stage.label}
                     </option>
                   ))}
                 </select>
@@ -237,7 +250,9 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
                           {customer ? customer.name : 'Unknown Customer'}
                         </h4>
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${bookingStatusColors[booking.status]}`}>
-                          {booking.status}
+                          {booking.status === 'waitlisted' && booking.waitlistPosition
+                            ? `waitlisted #${booking.waitlistPosition}`
+                            : booking.status}
                         </span>
                       </div>
                       
@@ -269,14 +284,25 @@ export const EventDetails: React.FC<EventDetailsProps> = ({
                       )}
                     </div>
                     
-                    {booking.status === 'confirmed' && (
-                      <Button
-                        variant="danger"
-                        size="sm"
-                        onClick={() => onRemoveBooking(booking.id)}
-                      >
-                        Remove
-                      </Button>
+                    {(booking.status === 'confirmed' || booking.status === 'waitlisted') && (
+                      <div className="flex space-x-2">
+                        {onCancelBooking && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onCancelBooking(booking.id)}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={() => onRemoveBooking(booking.id)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
                     )}
                   </div>
                 </div>
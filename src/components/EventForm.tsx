@@ -1,24 +1,27 @@
-import React, { useEffect } from 'react';
-import { Event } from '../types';
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Event, RecurrenceRule, SeriesEditScope } from '../types';
 import { useForm } from '../hooks/useForm';
+import {
+  MAX_OCCURRENCES,
+  RECURRENCE_FREQUENCIES,
+  describeRecurrence,
+  fromDayKey,
+  generateOccurrenceDates,
+  toDayKey
+} from '../utils/recurrence';
+import { EVENT_TYPES } from '../constants';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { Button } from './ui/Button';
 
 interface EventFormProps {
   event?: Event;
-  onSubmit: (event: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSubmit: (event: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>, scope: SeriesEditScope) => void;
   onCancel: () => void;
 }
 
-const eventTypes = [
-  { value: 'workshop', label: 'Workshop' },
-  { value: 'open-studio', label: 'Open Studio' },
-  { value: 'private-party', label: 'Private Party' },
-  { value: 'class', label: 'Class' },
-  { value: 'special-event', label: 'Special Event' }
-];
-
 const eventStatuses = [
   { value: 'upcoming', label: 'Upcoming' },
   { value: 'in-progress', label: 'In Progress' },
@@ -26,11 +29,26 @@ const eventStatuses = [
   { value: 'cancelled', label: 'Cancelled' }
 ];
 
+const repeatOptions = [{ value: 'none', label: 'Does not repeat' }, ...RECURRENCE_FREQUENCIES];
+
+const endOptions = [
+  { value: 'date', label: 'On a date' },
+  { value: 'count', label: 'After a number of events' }
+];
+
+const PREVIEW_DATES = 6;
+
 export const EventForm: React.FC<EventFormProps> = ({
   event,
   onSubmit,
   onCancel
 }) => {
+  const isSeries = !!event?.seriesId;
+  const [scope, setScope] = useState<SeriesEditScope>('single');
+  const [exceptionInput, setExceptionInput] = useState('');
+  // One-off edits to an occurrence leave the series rule alone
+  const editsRule = !isSeries || scope === 'future';
+
   const initialData = {
     name: '',
     description: '',
@@ -43,7 +61,22 @@ export const EventForm: React.FC<EventFormProps> = ({
     status: 'upcoming' as Event['status'],
     instructor: '',
     location: '',
-    notes: ''
+    notes: '',
+    repeat: 'none' as RecurrenceRule['frequency'] | 'none',
+    endMode: 'date' as 'date' | 'count',
+    until: '',
+    count: '',
+    exceptions: [] as string[]
+  };
+
+  const buildRecurrence = (data: typeof initialData): RecurrenceRule | null => {
+    if (data.repeat === 'none') return null;
+    return {
+      frequency: data.repeat,
+      until: data.endMode === 'date' && data.until ? new Date(data.until) : undefined,
+      count: data.endMode === 'count' ? Number(data.count) : undefined,
+      exceptions: data.exceptions.map(day => new Date(day))
+    };
   };
 
   const validationRules = {
@@ -77,6 +110,20 @@ export const EventForm: React.FC<EventFormProps> = ({
           return 'Valid price is required';
         }
       }
+    },
+    repeat: {
+      custom: (value: string, formData: typeof initialData) => {
+        if (value === 'none' || !editsRule) return;
+        if (formData.endMode === 'date') {
+          if (!formData.until) return 'Choose when the series ends';
+          if (formData.date && formData.until < formData.date) return 'The series must end after it starts';
+        } else {
+          const count = Number(formData.count);
+          if (!Number.isInteger(count) || count < 2 || count > MAX_OCCURRENCES) {
+            return `Enter between 2 and ${MAX_OCCURRENCES} events`;
+          }
+        }
+      }
     }
   };
 
@@ -104,8 +151,9 @@ export const EventForm: React.FC<EventFormProps> = ({
         status: data.status,
         instructor: data.instructor.trim() || undefined,
         location: data.location.trim() || undefined,
-        notes: data.notes.trim() || undefined
-      });
+        notes: data.notes.trim() || undefined,
+        recurrence: editsRule ? buildRecurrence(data) : event?.recurrence
+      }, isSeries ? scope : 'single');
     },
     onCancel
   });
@@ -124,13 +172,48 @@ export const EventForm: React.FC<EventFormProps> = ({
         status: event.status,
         instructor: event.instructor || '',
         location: event.location || '',
-        notes: event.notes || ''
+        notes: event.notes || '',
+        repeat: event.recurrence?.frequency || 'none',
+        endMode: 'date',
+        until: event.recurrence?.until ? toDayKey(event.recurrence.until) : '',
+        count: '',
+        exceptions: (event.recurrence?.exceptions || []).map(toDayKey)
       });
     }
   }, [event, setFormData]);
 
+  const previewRule = editsRule && formData.date ? buildRecurrence(formData) : null;
+  const previewDates = previewRule && (formData.endMode === 'date' ? formData.until : Number(formData.count) > 0)
+    ? generateOccurrenceDates(new Date(formData.date), previewRule)
+    : [];
+
+  const handleAddException = () => {
+    if (!exceptionInput || formData.exceptions.includes(exceptionInput)) return;
+    handleChange('exceptions', [...formData.exceptions, exceptionInput].sort());
+    setExceptionInput('');
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      {isSeries && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md space-y-2">
+          <p className="text-sm font-medium text-gray-900">This event is part of a series. Apply changes to:</p>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" checked={scope === 'single'} onChange={() => setScope('single')} />
+              <span>This event only</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" checked={scope === 'future'} onChange={() => setScope('future')} />
+              <span>This and all following events</span>
+            </label>
+          </div>
+          {scope === 'single' && (
+            <p className="text-xs text-gray-600">Moving this event to another day takes it out of the series.</p>
+          )}
+        </div>
+      )}
+
       <Input
         label="Event Name *"
         value={formData.name}
@@ -181,12 +264,103 @@ export const EventForm: React.FC<EventFormProps> = ({
         </div>
       </div>
 
+      {editsRule && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Repeat"
+              value={formData.repeat}
+              onChange={(e) => handleChange('repeat', e.target.value)}
+              options={repeatOptions}
+              error={errors.repeat}
+            />
+
+            {formData.repeat !== 'none' && (
+              <Select
+                label="Ends"
+                value={formData.endMode}
+                onChange={(e) => handleChange('endMode', e.target.value)}
+                options={endOptions}
+              />
+            )}
+          </div>
+
+          {formData.repeat !== 'none' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {formData.endMode === 'date' ? (
+                  <Input
+                    label="Last Date *"
+                    type="date"
+                    value={formData.until}
+                    min={formData.date}
+                    onChange={(e) => handleChange('until', e.target.value)}
+                  />
+                ) : (
+                  <Input
+                    label="Number of Events *"
+                    type="number"
+                    min="2"
+                    max={MAX_OCCURRENCES}
+                    value={formData.count}
+                    onChange={(e) => handleChange('count', e.target.value)}
+                    placeholder="10"
+                  />
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Skip Dates</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="date"
+                      value={exceptionInput}
+                      min={formData.date}
+                      onChange={(e) => setExceptionInput(e.target.value)}
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-amber-500 focus:border-amber-500"
+                    />
+                    <Button type="button" variant="outline" onClick={handleAddException} disabled={!exceptionInput}>
+                      Skip
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {formData.exceptions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formData.exceptions.map(day => (
+                    <span key={day} className="inline-flex items-center px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                      {format(fromDayKey(day), 'MMM d, yyyy')}
+                      <button
+                        type="button"
+                        onClick={() => handleChange('exceptions', formData.exceptions.filter(d => d !== day))}
+                        className="ml-1 text-gray-400 hover:text-gray-600"
+                        aria-label="Don't skip this date"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {previewRule && previewDates.length > 0 && (
+                <p className="text-xs text-gray-600">
+                  {describeRecurrence(previewRule, new Date(formData.date))}: {previewDates.length} event{previewDates.length === 1 ? '' : 's'}
+                  {' '}({previewDates.slice(0, PREVIEW_DATES).map(date => format(fromDayKey(toDayKey(date)), 'MMM d')).join(', ')}
+                  {previewDates.length > PREVIEW_DATES ? ', …' : ''})
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <Select
           label="Event Type *"
           value={formData.type}
           onChange={(e) => handleChange('type', e.target.value)}
-          options={eventTypes}
+          options={EVENT_TYPES}
         />
 
         <Select
@@ -15,7 +15,8 @@ import {
   CheckSquare
 } from 'lucide-react';
 import { Event, Customer, EventBooking, Piece } from '../types';
-import { PIECE_STATUSES } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStage, getStageColors } from '../utils/pieceWorkflow';
 import { calculateCustomerPaymentStatus } from '../utils/paymentUtils';
 import { useBulkSelection } from '../hooks/useBulkSelection';
 import { Button } from './ui/Button';
@@ -29,7 +30,8 @@ interface EventRosterProps {
   pieces: Piece[];
   onClose: () => void;
   onCheckIn: (customerId: string, checkedIn: boolean) => void;
-  onUpdatePayment: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  // Left out for roles that can't take payments, which shows the payment read-only
+  onUpdatePayment?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   onAddPiece: (customerId: string) => void;
   onEditPiece: (piece: Piece) => void;
   onDuplicateEvent: (event: Event) => void;
@@ -53,6 +55,7 @@ export const EventRoster: React.FC<EventRosterProps> = ({
   onBulkStatusUpdate
 }) => {
   const [showAllPieces, setShowAllPieces] = useState(false);
+  const { workflow } = usePieceWorkflow();
 
   const confirmedBookings = bookings.filter(b => b.status === 'confirmed');
   const eventPieces = pieces.filter(p => p.eventId === event.id);
@@ -193,9 +196,9 @@ export const EventRoster: React.FC<EventRosterProps> = ({
                     }}
                   >
                     <option value="">Change Status...</option>
-                    {PIECE_STATUSES.map(status => (
-                      <option key={status.value} value={status.value}>
-                        {status.label}
+                    {workflow.stages.map(stage => (
+                      <option key={stage.id} value={stage.id}>
+                        {stage.label}
                       </option>
                     ))}
                   </select>
@@ -298,7 +301,8 @@ export const EventRoster: React.FC<EventRosterProps> = ({
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => onUpdatePayment(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                              onClick={() => onUpdatePayment?.(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                              disabled={!onUpdatePayment}
                               className={`ml-1 p-1 ${piece.paidGlaze ? 'text-green-600' : 'text-red-600'}`}
                             >
                               {piece.paidGlaze ? <CheckCircle size={12} /> : <XCircle size={12} />}
@@ -308,8 +312,8 @@ export const EventRoster: React.FC<EventRosterProps> = ({
                           {/* Status */}
                           <div className="text-sm">
                             <span className="text-gray-500">Status:</span>
-                            <span className="ml-1 capitalize text-xs bg-gray-100 px-2 py-1 rounded">
-                              {piece.status.replace('-', ' ')}
+                            <span className={`ml-1 text-xs px-2 py-1 rounded ${getStageColors(workflow, piece.status).badge}`}>
+                              {getStage(workflow, piece.status).label}
                             </span>
                           </div>
 
@@ -428,7 +432,8 @@ export const EventRoster: React.FC<EventRosterProps> = ({
                                   <Button
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => onUpdatePayment(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                                    onClick={() => onUpdatePayment?.(piece.id, 'paidGlaze', !piece.paidGlaze)}
+                                    disabled={!onUpdatePayment}
                                     className={`p-1 ${piece.paidGlaze ? 'text-green-600' : 'text-red-600'}`}
                                   >
                                     {piece.paidGlaze ? <CheckCircle size={14} /> : <XCircle size={14} />}
@@ -438,8 +443,8 @@ export const EventRoster: React.FC<EventRosterProps> = ({
                               
                               <div>
                                 <span className="text-gray-500">Status:</span>
-                                <div className="capitalize text-xs">
-                                  {piece.status.replace('-', ' ')}
+                                <div className="text-xs">
+                                  {getStage(workflow, piece.status).label}
                                 </div>
                               </div>
                               
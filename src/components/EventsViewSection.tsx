@@ -1,8 +1,11 @@
-import React from 'react';
-import { Calendar } from 'lucide-react';
+import React, { useState } from 'react';
+import { Calendar, CalendarDays, ExternalLink, LayoutGrid, Link2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { Event, Customer, EventBooking } from '../types';
 import { EventCard } from './EventCard';
+import { EventCalendar } from './EventCalendar';
 import { Button } from './ui/Button';
+import { buildBookingLink } from '../utils/bookingLink';
 
 interface EventsViewSectionProps {
   events: Event[];
@@ -10,12 +13,15 @@ interface EventsViewSectionProps {
   eventBookings: EventBooking[];
   searchTerm: string;
   onEdit: (event: Event) => void;
-  onDelete: (eventId: string) => void;
+  onDelete?: (eventId: string) => void;
   onViewRoster: (event: Event) => void;
   onDuplicate: (event: Event) => void;
   onAddEvent: () => void;
+  onReschedule: (event: Event, date: Date, startTime: string, endTime: string) => void;
 }
 
+type EventsLayout = 'cards' | 'calendar';
+
 export const EventsViewSection: React.FC<EventsViewSectionProps> = ({
   events,
   customers,
@@ -25,41 +31,106 @@ export const EventsViewSection: React.FC<EventsViewSectionProps> = ({
   onDelete,
   onViewRoster,
   onDuplicate,
-  onAddEvent
+  onAddEvent,
+  onReschedule
 }) => {
+  const [layout, setLayout] = useState<EventsLayout>('cards');
+
+  const handleCopyBookingLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildBookingLink());
+      toast.success('Booking link copied');
+    } catch (error) {
+      console.error('Error copying booking link:', error);
+      toast.error('Could not copy the booking link');
+    }
+  };
+
+  const bookingLinkBar = (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4 p-3 bg-white rounded-lg shadow-sm">
+      <p className="text-sm text-gray-600">
+        Customers can book upcoming events themselves from the online booking page.
+      </p>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setLayout(layout === 'cards' ? 'calendar' : 'cards')}
+          className="flex items-center space-x-1"
+        >
+          {layout === 'cards' ? <CalendarDays size={14} /> : <LayoutGrid size={14} />}
+          <span>{layout === 'cards' ? 'Calendar' : 'Cards'}</span>
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleCopyBookingLink} className="flex items-center space-x-1">
+          <Link2 size={14} />
+          <span>Copy Booking Link</span>
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => window.open(buildBookingLink(), '_blank', 'noopener')}
+          className="flex items-center space-x-1"
+        >
+          <ExternalLink size={14} />
+          <span>Open</span>
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (layout === 'calendar') {
+    return (
+      <>
+        {bookingLinkBar}
+        <EventCalendar
+          events={events}
+          eventBookings={eventBookings}
+          onOpenEvent={onViewRoster}
+          onReschedule={onReschedule}
+        />
+      </>
+    );
+  }
+
   if (events.length === 0) {
     return (
-      <div className="text-center py-12">
-        <div className="text-gray-400 mb-4">
-          <Calendar size={48} />
+      <>
+        {bookingLinkBar}
+        <div className="text-center py-12">
+          <div className="text-gray-400 mb-4">
+            <Calendar size={48} />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No events found
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {searchTerm ? 'Try adjusting your search terms' : 'Get started by adding your first event'}
+          </p>
+          <Button onClick={onAddEvent}>
+            Add Event
+          </Button>
         </div>
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          No events found
-        </h3>
-        <p className="text-gray-600 mb-4">
-          {searchTerm ? 'Try adjusting your search terms' : 'Get started by adding your first event'}
-        </p>
-        <Button onClick={onAddEvent}>
-          Add Event
-        </Button>
-      </div>
+      </>
     );
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {events.map(event => (
-        <EventCard
-          key={event.id}
-          event={event}
-          customers={customers}
-          bookings={eventBookings}
-          onEdit={onEdit}
-          onDelete={onDelete}
-          onViewRoster={onViewRoster}
-          onDuplicate={onDuplicate}
-        />
-      ))}
-    </div>
+    <>
+      {bookingLinkBar}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {events.map(event => (
+          <EventCard
+            key={event.id}
+            event={event}
+            customers={customers}
+            bookings={eventBookings}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onViewRoster={onViewRoster}
+            onDuplicate={onDuplicate}
+          />
+        ))}
+      </div>
+    </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Customer, Firing, FiringType, Piece } from '../types';
+import { FIRING_TYPES, getFiringTypeInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { describeFiringStages, getFiringStages } from '../utils/pieceWorkflow';
+import { useForm } from '../hooks/useForm';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Button } from './ui/Button';
+
+interface FiringFormProps {
+  firing?: Firing;
+  proposal?: { type: FiringType; pieceIds: string[] };
+  firings: Firing[];
+  pieces: Piece[];
+  customers: Customer[];
+  onSubmit: (firing: Omit<Firing, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const firingTypes = FIRING_TYPES.map(t => ({ value: t.value, label: t.label }));
+
+export const FiringForm: React.FC<FiringFormProps> = ({
+  firing,
+  proposal,
+  firings,
+  pieces,
+  customers,
+  onSubmit,
+  onCancel
+}) => {
+  const [pieceFilter, setPieceFilter] = useState('');
+  const { workflow } = usePieceWorkflow();
+
+  const initialData = {
+    kiln: '',
+    type: proposal?.type || ('bisque' as FiringType),
+    cone: getFiringTypeInfo(proposal?.type || 'bisque').defaultCone,
+    loadDate: format(new Date(), 'yyyy-MM-dd'),
+    notes: '',
+    pieceIds: proposal?.pieceIds || ([] as string[])
+  };
+
+  const validationRules = {
+    kiln: { required: true },
+    cone: { required: true },
+    loadDate: { required: true }
+  };
+
+  const {
+    formData,
+    errors,
+    isSubmitting,
+    handleChange,
+    handleSubmit,
+    handleCancel,
+    setFormData
+  } = useForm({
+    initialData,
+    validationRules,
+    onSubmit: async (data) => {
+      await onSubmit({
+        kiln: data.kiln.trim(),
+        type: data.type,
+        cone: data.cone.trim(),
+        loadDate: new Date(`${data.loadDate}T00:00`),
+        notes: data.notes.trim() || undefined,
+        pieceIds: data.pieceIds,
+        unloadDate: firing?.unloadDate || null
+      });
+    },
+    onCancel
+  });
+
+  useEffect(() => {
+    if (firing) {
+      setFormData({
+        kiln: firing.kiln,
+        type: firing.type,
+        cone: firing.cone,
+        loadDate: format(new Date(firing.loadDate), 'yyyy-MM-dd'),
+        notes: firing.notes || '',
+        pieceIds: firing.pieceIds
+      });
+    }
+  }, [firing, setFormData]);
+
+  const kilnNames = useMemo(
+    () => Array.from(new Set(firings.map(f => f.kiln))).sort(),
+    [firings]
+  );
+
+  const customerNames = useMemo(() => {
+    const names = new Map<string, string>();
+    customers.forEach(c => names.set(c.id, c.name));
+    return names;
+  }, [customers]);
+
+  // Pieces at the stage this firing takes that aren't already sitting in another open load
+  const eligiblePieces = useMemo(() => {
+    const waitingStages = getFiringStages(workflow, formData.type);
+    const inOtherLoads = new Set<string>();
+    firings
+      .filter(f => !f.unloadDate && f.id !== firing?.id)
+      .forEach(f => f.pieceIds.forEach(id => inOtherLoads.add(id)));
+    const alreadyLoaded = firing && firing.type === formData.type ? firing.pieceIds : [];
+
+    return pieces
+      .filter(p => alreadyLoaded.includes(p.id) || (waitingStages.includes(p.status) && !inOtherLoads.has(p.id)))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }, [pieces, firings, firing, formData.type, workflow]);
+
+  const term = pieceFilter.toLowerCase();
+  const visiblePieces = eligiblePieces.filter(p =>
+    !term ||
+    (customerNames.get(p.customerId) || '').toLowerCase().includes(term) ||
+    (p.notes || '').toLowerCase().includes(term)
+  );
+
+  const selectedVolume = eligiblePieces
+    .filter(p => formData.pieceIds.includes(p.id))
+    .reduce((total, p) => total + (p.cubicInches || 0), 0);
+
+  const handleTypeChange = (type: FiringType) => {
+    const info = getFiringTypeInfo(type);
+    setFormData(prev => ({
+      ...prev,
+      type,
+      // Keep a cone someone typed in; swap the default for the other firing's default
+      cone: FIRING_TYPES.some(t => t.defaultCone === prev.cone) ? info.defaultCone : prev.cone,
+      pieceIds: firing && firing.type === type ? firing.pieceIds : []
+    }));
+  };
+
+  const togglePiece = (pieceId: string) => {
+    handleChange(
+      'pieceIds',
+      formData.pieceIds.includes(pieceId)
+        ? formData.pieceIds.filter(id => id !== pieceId)
+        : [...formData.pieceIds, pieceId]
+    );
+  };
+
+  const allVisibleSelected = visiblePieces.length > 0 && visiblePieces.every(p => formData.pieceIds.includes(p.id));
+
+  const toggleAllVisible = () => {
+    const visibleIds = visiblePieces.map(p => p.id);
+    handleChange(
+      'pieceIds',
+      allVisibleSelected
+        ? formData.pieceIds.filter(id => !visibleIds.includes(id))
+        : Array.from(new Set([...formData.pieceIds, ...visibleIds]))
+    );
+  };
+
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Input
+            label="Kiln *"
+            value={formData.kiln}
+            onChange={(e) => handleChange('kiln', e.target.value)}
+            error={errors.kiln}
+            placeholder="e.g. Big Skutt"
+            list="kiln-names"
+          />
+          <datalist id="kiln-names">
+            {kilnNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+
+        <Input
+          label="Load Date *"
+          type="date"
+          value={formData.loadDate}
+          onChange={(e) => handleChange('loadDate', e.target.value)}
+          error={errors.loadDate}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          label="Firing Type *"
+          value={formData.type}
+          onChange={(e) => handleTypeChange(e.target.value as FiringType)}
+          options={firingTypes}
+        />
+
+        <Input
+          label="Cone *"
+          value={formData.cone}
+          onChange={(e) => handleChange('cone', e.target.value)}
+          error={errors.cone}
+          placeholder="04"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700">
+            Pieces ({formData.pieceIds.length} selected, {selectedVolume.toFixed(1)} in³)
+          </label>
+          {visiblePieces.length > 0 && (
+            <button type="button" onClick={toggleAllVisible} className="text-sm text-amber-700 hover:text-amber-800">
+              {allVisibleSelected ? 'Clear all' : 'Select all'}
+            </button>
+          )}
+        </div>
+        <Input
+          value={pieceFilter}
+          onChange={(e) => setPieceFilter(e.target.value)}
+          placeholder="Filter by customer or notes"
+        />
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+          {visiblePieces.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 text-center">
+              No pieces are {describeFiringStages(workflow, formData.type)} and waiting for a kiln
+            </p>
+          ) : (
+            visiblePieces.map(piece => (
+              <label key={piece.id} className="flex items-center p-2 space-x-3 hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.pieceIds.includes(piece.id)}
+                  onChange={() => togglePiece(piece.id)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {customerNames.get(piece.customerId) || 'Unknown customer'}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    Made {format(new Date(piece.createdAt), 'MMM d')}
+                    {piece.notes ? ` • ${piece.notes}` : ''}
+                  </div>
+                </div>
+                <span className="text-xs text-gray-600 whitespace-nowrap">
+                  {piece.cubicInches ? `${piece.cubicInches} in³` : 'No size'}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="firing-notes" className="block text-sm font-medium text-gray-700 mb-1">
+          Notes
+        </label>
+        <textarea
+          id="firing-notes"
+          value={formData.notes}
+          onChange={(e) => handleChange('notes', e.target.value)}
+          rows={2}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-amber-500 focus:border-amber-500"
+          placeholder="Schedule, witness cones, shelf layout..."
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <Button type="button" variant="outline" onClick={handleCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" disabled={isSubmitting || formData.pieceIds.length === 0}>
+          {firing ? 'Update Load' : 'Load Kiln'}
+        </Button>
+      </div>
+    </form>
+  );
+};
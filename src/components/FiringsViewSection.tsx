@@ -0,0 +1,170 @@
+import React from 'react';
+import { Edit, Flame, PackageOpen, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Customer, Firing, FiringType, Piece } from '../types';
+import { FIRING_TYPE_COLORS, getFiringTypeInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { describeFiringResults } from '../utils/pieceWorkflow';
+import { Button } from './ui/Button';
+import { KilnPlanner } from './KilnPlanner';
+
+interface FiringsViewSectionProps {
+  firings: Firing[];
+  pieces: Piece[];
+  customers: Customer[];
+  searchTerm: string;
+  kilnShelfVolume: number;
+  onAdd: () => void;
+  onLoadProposal: (type: FiringType, pieceIds: string[]) => void;
+  onEdit: (firing: Firing) => void;
+  onUnload: (firing: Firing) => void;
+  onDelete: (firing: Firing) => void;
+}
+
+export const FiringsViewSection: React.FC<FiringsViewSectionProps> = ({
+  firings,
+  pieces,
+  customers,
+  searchTerm,
+  kilnShelfVolume,
+  onAdd,
+  onLoadProposal,
+  onEdit,
+  onUnload,
+  onDelete
+}) => {
+  const { workflow } = usePieceWorkflow();
+  const piecesById = new Map<string, Piece>();
+  pieces.forEach(piece => piecesById.set(piece.id, piece));
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name || 'Unknown customer';
+
+  const term = searchTerm.toLowerCase();
+  const matches = (firing: Firing) =>
+    !term ||
+    firing.kiln.toLowerCase().includes(term) ||
+    firing.cone.toLowerCase().includes(term) ||
+    (firing.notes || '').toLowerCase().includes(term);
+
+  const openLoads = firings
+    .filter(f => !f.unloadDate && matches(f))
+    .sort((a, b) => new Date(a.loadDate).getTime() - new Date(b.loadDate).getTime());
+  const finished = firings
+    .filter(f => !!f.unloadDate && matches(f))
+    .sort((a, b) => new Date(b.unloadDate!).getTime() - new Date(a.unloadDate!).getTime());
+
+  const loadVolume = (firing: Firing) =>
+    firing.pieceIds.reduce((total, id) => total + (piecesById.get(id)?.cubicInches || 0), 0);
+
+  const renderTypeBadge = (firing: Firing) => (
+    <span className={`px-2 py-1 rounded text-xs font-medium ${FIRING_TYPE_COLORS[firing.type]}`}>
+      {getFiringTypeInfo(firing.type).label} • Cone {firing.cone}
+    </span>
+  );
+
+  return (
+    <div className="space-y-6">
+      <KilnPlanner
+        pieces={pieces}
+        firings={firings}
+        customers={customers}
+        shelfVolume={kilnShelfVolume}
+        onLoadProposal={onLoadProposal}
+      />
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">In the Kiln</h2>
+          <Button size="sm" onClick={onAdd} className="flex items-center space-x-1">
+            <Flame size={14} />
+            <span>Load Kiln</span>
+          </Button>
+        </div>
+
+        {openLoads.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+            {term ? 'No open loads match your search' : 'Nothing is in the kiln right now'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {openLoads.map(firing => {
+              const loaded = firing.pieceIds.map(id => piecesById.get(id)).filter((p): p is Piece => !!p);
+              const names = Array.from(new Set(loaded.map(p => customerName(p.customerId))));
+              return (
+                <div key={firing.id} className="bg-white rounded-lg shadow p-5 flex flex-col space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{firing.kiln}</h3>
+                      <p className="text-sm text-gray-500">Loaded {format(new Date(firing.loadDate), 'MMM d, yyyy')}</p>
+                    </div>
+                    {renderTypeBadge(firing)}
+                  </div>
+                  <div className="text-sm text-gray-700">
+                    {loaded.length} piece{loaded.length === 1 ? '' : 's'} • {loadVolume(firing).toFixed(1)} in³
+                  </div>
+                  {names.length > 0 && (
+                    <p className="text-xs text-gray-500 line-clamp-2">{names.join(', ')}</p>
+                  )}
+                  {firing.notes && <p className="text-xs text-gray-500 italic">{firing.notes}</p>}
+                  <div className="flex flex-wrap gap-2 pt-3 mt-auto border-t border-gray-100">
+                    <Button size="sm" onClick={() => onUnload(firing)} className="flex items-center space-x-1">
+                      <PackageOpen size={14} />
+                      <span>Unload → {describeFiringResults(workflow, firing.type)}</span>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => onEdit(firing)} aria-label="Edit load">
+                      <Edit size={14} />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onDelete(firing)}
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      aria-label="Remove load"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Firing History</h2>
+        {finished.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+            {term ? 'No past firings match your search' : 'Unloaded firings will be listed here'}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3">Kiln</th>
+                  <th className="px-4 py-3">Firing</th>
+                  <th className="px-4 py-3">Loaded</th>
+                  <th className="px-4 py-3">Unloaded</th>
+                  <th className="px-4 py-3 text-right">Pieces</th>
+                  <th className="px-4 py-3 text-right">Volume</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {finished.map(firing => (
+                  <tr key={firing.id} title={firing.notes}>
+                    <td className="px-4 py-3 font-medium text-gray-900">{firing.kiln}</td>
+                    <td className="px-4 py-3">{renderTypeBadge(firing)}</td>
+                    <td className="px-4 py-3 text-gray-600">{format(new Date(firing.loadDate), 'MMM d, yyyy')}</td>
+                    <td className="px-4 py-3 text-gray-600">{format(new Date(firing.unloadDate!), 'MMM d, yyyy')}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">{firing.pieceIds.length}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">{loadVolume(firing).toFixed(1)} in³</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
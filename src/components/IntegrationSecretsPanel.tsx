@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import {
+  secretsService,
+  IntegrationService,
+  SecretKey,
+  SecretStatus,
+  SECRET_DEFINITIONS
+} from '../services/secretsService';
+import { useAuth } from '../context/AuthContext';
+
+interface IntegrationSecretsPanelProps {
+  service: IntegrationService;
+}
+
+export const IntegrationSecretsPanel: React.FC<IntegrationSecretsPanelProps> = ({ service }) => {
+  const { can } = useAuth();
+  const canManage = can('manageIntegrations');
+  const keys = (Object.keys(SECRET_DEFINITIONS) as SecretKey[]).filter(key => SECRET_DEFINITIONS[key].service === service);
+  const [statuses, setStatuses] = useState<Partial<Record<SecretKey, SecretStatus>>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [editingKey, setEditingKey] = useState<SecretKey | null>(null);
+  const [value, setValue] = useState('');
+  const [busyKey, setBusyKey] = useState<SecretKey | null>(null);
+
+  const loadStatuses = useCallback(async () => {
+    try {
+      setStatuses(await secretsService.getStatuses(true));
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading credential status:', error);
+      setLoadError(error instanceof Error ? error.message : 'Could not reach the credentials service');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatuses();
+  }, [loadStatuses]);
+
+  const closeEditor = () => {
+    setEditingKey(null);
+    setValue('');
+  };
+
+  const handleSave = async (key: SecretKey) => {
+    setBusyKey(key);
+    try {
+      const status = await secretsService.setSecret(key, value);
+      setStatuses(prev => ({ ...prev, [key]: status }));
+      closeEditor();
+      toast.success(`${SECRET_DEFINITIONS[key].label} saved`);
+    } catch (error) {
+      console.error('Error saving credential:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save credential');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleClear = async (key: SecretKey) => {
+    if (!window.confirm(`Remove the ${SECRET_DEFINITIONS[key].label}? Sending will fall back to test mode.`)) return;
+    setBusyKey(key);
+    try {
+      await secretsService.clearSecret(key);
+      await loadStatuses();
+      toast.success(`${SECRET_DEFINITIONS[key].label} removed`);
+    } catch (error) {
+      console.error('Error removing credential:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove credential');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="lg:col-span-2 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700">Credentials</h3>
+        <p className="text-xs text-gray-500">
+          {canManage
+            ? 'Stored on the server and never sent back to this browser. Enter a new value to rotate one.'
+            : 'Stored on the server. Only the owner can set or change them.'}
+        </p>
+      </div>
+
+      {loadError && (
+        <p className="text-sm text-red-600">{loadError}</p>
+      )}
+
+      {keys.map(key => {
+        const status = statuses[key];
+        const { label, required } = SECRET_DEFINITIONS[key];
+        return (
+          <div key={key} className="p-3 border border-gray-200 rounded-xl space-y-2">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {label}
+                  {!required && <span className="text-gray-500 font-normal"> (optional)</span>}
+                </p>
+                <p className={`text-xs ${status?.configured ? 'text-green-700' : 'text-gray-500'}`}>
+                  {status?.configured ? 'Configured' : 'Not configured'}
+                </p>
+              </div>
+              {canManage && editingKey !== key && (
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditingKey(key);
+                      setValue('');
+                    }}
+                    disabled={!!loadError}
+                    className="flex items-center space-x-1"
+                  >
+                    {status?.configured ? <RefreshCw size={14} /> : <KeyRound size={14} />}
+                    <span>{status?.configured ? 'Rotate' : 'Set'}</span>
+                  </Button>
+                  {status?.configured && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleClear(key)}
+                      loading={busyKey === key}
+                      className="flex items-center space-x-1 text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      <Trash2 size={14} />
+                      <span>Remove</span>
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {editingKey === key && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <div className="flex-1">
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    placeholder={`New ${label}`}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    autoFocus
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={closeEditor} disabled={busyKey === key}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleSave(key)}
+                  loading={busyKey === key}
+                  disabled={!value.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, Flame } from 'lucide-react';
+import { format } from 'date-fns';
+import { Customer, Firing, FiringType, Piece } from '../types';
+import { FIRING_TYPE_COLORS, getFiringTypeInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { planKilnLoads } from '../utils/kilnPlanner';
+import { describeFiringStages } from '../utils/pieceWorkflow';
+import { Button } from './ui/Button';
+
+interface KilnPlannerProps {
+  pieces: Piece[];
+  firings: Firing[];
+  customers: Customer[];
+  shelfVolume: number;
+  onLoadProposal: (type: FiringType, pieceIds: string[]) => void;
+}
+
+export const KilnPlanner: React.FC<KilnPlannerProps> = ({
+  pieces,
+  firings,
+  customers,
+  shelfVolume,
+  onLoadProposal
+}) => {
+  const { workflow } = usePieceWorkflow();
+  const plans = useMemo(
+    () => planKilnLoads(pieces, firings, shelfVolume, workflow),
+    [pieces, firings, shelfVolume, workflow]
+  );
+
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name || 'Unknown customer';
+
+  if (shelfVolume <= 0) {
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start space-x-2 text-sm text-blue-800">
+        <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+        <p>
+          Set the kiln shelf volume in <span className="font-medium">Settings → Studio Info</span> to see how many
+          loads are waiting and get a suggested next load.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-900">Load Planner</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {plans.map(plan => {
+          const { label } = getFiringTypeInfo(plan.type);
+          const fill = Math.min(plan.proposalVolume / shelfVolume, 1);
+          const oldest = plan.waiting[0];
+          return (
+            <div key={plan.type} className="bg-white rounded-lg shadow p-5 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${FIRING_TYPE_COLORS[plan.type]}`}>
+                  {label} firing
+                </span>
+                <span className="text-xs text-gray-500">
+                  {plan.waiting.length} {describeFiringStages(workflow, plan.type)} piece{plan.waiting.length === 1 ? '' : 's'} waiting
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-center">
+                <div className="bg-gray-50 rounded-md p-3">
+                  <p className="text-xl font-semibold text-gray-900">{plan.volume.toFixed(0)} in³</p>
+                  <p className="text-xs text-gray-500">pending</p>
+                </div>
+                <div className="bg-gray-50 rounded-md p-3">
+                  <p className="text-xl font-semibold text-gray-900">{plan.queuedLoads.toFixed(1)}</p>
+                  <p className="text-xs text-gray-500">loads queued</p>
+                </div>
+              </div>
+
+              {oldest && (
+                <p className="text-xs text-gray-500">
+                  Oldest waiting since {format(new Date(oldest.createdAt), 'MMM d')} ({customerName(oldest.customerId)})
+                </p>
+              )}
+
+              {plan.proposal.length > 0 ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm text-gray-700">
+                    <span>Next load: {plan.proposal.length} oldest piece{plan.proposal.length === 1 ? '' : 's'}</span>
+                    <span>{Math.round(fill * 100)}% full</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${fill >= 1 || plan.queuedLoads >= 1 ? 'bg-green-500' : 'bg-amber-400'}`}
+                      style={{ width: `${fill * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {plan.queuedLoads >= 1
+                      ? 'There is enough waiting for a full load.'
+                      : `About ${(shelfVolume - plan.volume).toFixed(0)} in³ more fills the kiln.`}
+                  </p>
+                  <Button
+                    size="sm"
+                    variant={plan.queuedLoads >= 1 ? 'primary' : 'outline'}
+                    onClick={() => onLoadProposal(plan.type, plan.proposal.map(p => p.id))}
+                    className="flex items-center space-x-1"
+                  >
+                    <Flame size={14} />
+                    <span>Load These Pieces</span>
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Nothing with a recorded size is waiting for this firing.</p>
+              )}
+
+              {(plan.unsizedCount > 0 || plan.oversized.length > 0) && (
+                <div className="text-xs text-amber-700 space-y-1">
+                  {plan.unsizedCount > 0 && (
+                    <p>{plan.unsizedCount} piece{plan.unsizedCount === 1 ? ' has' : 's have'} no size yet and {plan.unsizedCount === 1 ? 'is' : 'are'} not counted.</p>
+                  )}
+                  {plan.oversized.length > 0 && (
+                    <p>{plan.oversized.length} piece{plan.oversized.length === 1 ? ' is' : 's are'} bigger than one load.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Lock, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import { database } from '../data/database';
+import { staffService, PIN_PATTERN } from '../services/staffService';
+import { getRoleLabel } from '../constants';
+import { StaffMember } from '../types';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+
+/**
+ * Covers the app when the shared device is locked, either by hand or after the studio's
+ * auto-lock delay. The page underneath stays mounted, so whoever unlocks picks up where the
+ * last person left off, and their changes are attributed to them from then on.
+ */
+export const LockScreen: React.FC = () => {
+  const { isAuthenticated, currentStaff, locked, lock, unlock, logout } = useAuth();
+  const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  // Re-read on every lock change so a new auto-lock delay applies from the next unlock
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    database.getStudioSettings()
+      .then(settings => setAutoLockMinutes(settings.autoLockMinutes || 0))
+      .catch(error => console.error('Error loading auto-lock setting:', error));
+  }, [isAuthenticated, locked]);
+
+  useIdleTimer(isAuthenticated && !locked && autoLockMinutes > 0 ? autoLockMinutes * 60 * 1000 : null, lock);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const unlockable = await staffService.listUnlockableMembers();
+      setMembers(unlockable);
+      const current = unlockable.find(member => member.id === currentStaff?.id);
+      setSelectedId(current ? current.id : unlockable.length === 1 ? unlockable[0].id : null);
+    } catch (error) {
+      console.error('Error loading staff for lock screen:', error);
+    }
+  }, [currentStaff]);
+
+  useEffect(() => {
+    if (locked) {
+      setPin('');
+      loadMembers();
+    }
+  }, [locked, loadMembers]);
+
+  if (!isAuthenticated || !locked) return null;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId) return;
+
+    setUnlocking(true);
+    try {
+      const result = await unlock(selectedId, pin);
+      if (result === 'unlocked') {
+        const member = members.find(m => m.id === selectedId);
+        toast.success(member ? `Welcome, ${member.name}` : 'Unlocked');
+        return;
+      }
+
+      setPin('');
+      toast.error(result === 'locked-out'
+        ? 'Too many wrong PINs. Sign in with your email and password to use your PIN again.'
+        : 'Wrong PIN. Please try again.');
+    } catch (error) {
+      console.error('Error unlocking:', error);
+      toast.error('Could not unlock. Please try again.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-70 bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center p-4 overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-xl p-6 sm:p-8 w-full max-w-md">
+        <div className="text-center mb-6">
+          <div className="bg-amber-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-amber-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Locked</h1>
+          <p className="text-gray-600 mt-2">
+            {members.length > 0 ? 'Pick your name and enter your PIN' : 'No one has set a PIN yet'}
+          </p>
+        </div>
+
+        {members.length > 0 && (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {members.map(member => (
+                <button
+                  key={member.id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(member.id);
+                    setPin('');
+                  }}
+                  className={`flex items-center space-x-2 p-3 rounded-xl border text-left transition-colors ${
+                    selectedId === member.id
+                      ? 'border-amber-500 bg-amber-50'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <User size={16} className="text-gray-400 flex-shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium text-gray-900 truncate">{member.name}</span>
+                    <span className="block text-xs text-gray-500">{getRoleLabel(member.role)}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder="PIN"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              disabled={!selectedId || unlocking}
+              autoFocus
+            />
+
+            <Button
+              type="submit"
+              className="w-full"
+              loading={unlocking}
+              disabled={!selectedId || !PIN_PATTERN.test(pin)}
+            >
+              Unlock
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={logout}
+            className="text-sm text-gray-500 hover:text-gray-700 underline"
+          >
+            Sign in with email and password instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,55 @@
 import React, { useState } from 'react';
 import { Lock, Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { MIN_PASSWORD_LENGTH } from '../services/staffService';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import toast from 'react-hot-toast';
 
 export const Login: React.FC = () => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, setupOwner, needsSetup, accountsError, sessionExpired } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (needsSetup && password !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
     setIsLoading(true);
+    try {
+      if (needsSetup) {
+        await setupOwner(name, email, password);
+        toast.success('Owner account created!');
+        return;
+      }
 
-    setTimeout(() => {
-      const success = login(password);
-      
+      const success = await login(email, password);
       if (success) {
         toast.success('Login successful!');
       } else {
-        toast.error('Invalid password. Please try again.');
+        toast.error('Invalid email or password. Please try again.');
         setPassword('');
       }
-      
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not sign in. Please try again.');
+    } finally {
       setIsLoading(false);
-    }, 500);
+    }
   };
 
+  const canSubmit = needsSetup
+    ? !!name.trim() && !!email.trim() && password.length >= MIN_PASSWORD_LENGTH && !!confirmPassword
+    : !!email.trim() && !!password;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-xl p-8 w-full max-w-md">
@@ -37,18 +58,56 @@ export const Login: React.FC = () => {
             <Lock className="w-8 h-8 text-amber-600" />
           </div>
           <h1 className="text-2xl font-bold text-gray-900">Clay Cafe Database</h1>
-          <p className="text-gray-600 mt-2">Enter password to access the system</p>
+          <p className="text-gray-600 mt-2">
+            {needsSetup
+              ? 'Create the owner account to get started'
+              : 'Sign in with your staff account'}
+          </p>
         </div>
 
+        {accountsError && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-800 text-center">
+            Couldn't reach the staff accounts. Check the connection and reload the page.
+          </div>
+        )}
+
+        {sessionExpired && !needsSetup && (
+          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 text-center">
+            Your session expired. Please sign in again.
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
+          {needsSetup && (
+            <Input
+              type="text"
+              placeholder="Your name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isLoading}
+              required
+            />
+          )}
+
+          <Input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isLoading}
+            autoComplete="username"
+            required
+          />
+
           <div className="relative">
             <Input
               type={showPassword ? 'text' : 'password'}
-              placeholder="Enter password"
+              placeholder={needsSetup ? `Choose a password (${MIN_PASSWORD_LENGTH}+ characters)` : 'Password'}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               className="pr-12"
               disabled={isLoading}
+              autoComplete={needsSetup ? 'new-password' : 'current-password'}
               required
             />
             <button
@@ -61,16 +120,30 @@ export const Login: React.FC = () => {
             </button>
           </div>
 
+          {needsSetup && (
+            <Input
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Confirm password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={isLoading}
+              autoComplete="new-password"
+              required
+            />
+          )}
+
           <Button
             type="submit"
             className="w-full"
-            disabled={isLoading || !password}
+            disabled={isLoading || !canSubmit}
           >
             {isLoading ? (
               <div className="flex items-center justify-center">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                 Verifying...
               </div>
+            ) : needsSetup ? (
+              'Create Owner Account'
             ) : (
               'Login'
             )}
@@ -78,9 +151,9 @@ export const Login: React.FC = () => {
         </form>
 
         <div className="mt-6 text-center text-sm text-gray-500">
-          <p>Authorized access only</p>
+          <p>{needsSetup ? 'The owner can add other staff from Settings' : 'Authorized access only'}</p>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -5,6 +5,8 @@ import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { smsService, SMSNotificationOptions } from '../services/smsService';
 import { emailService, EmailNotificationOptions } from '../services/emailService';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStage } from '../utils/pieceWorkflow';
 
 interface NotificationModalProps {
   isOpen: boolean;
@@ -21,6 +23,7 @@ export const NotificationModal: React.FC<NotificationModalProps> = ({
   piece,
   onSent
 }) => {
+  const { workflow } = usePieceWorkflow();
   const [message, setMessage] = useState('');
   const [subject, setSubject] = useState('');
   const [messageType, setMessageType] = useState<'ready-for-pickup' | 'ready-to-glaze'>('ready-for-pickup');
@@ -28,16 +31,10 @@ export const NotificationModal: React.FC<NotificationModalProps> = ({
   const [isSending, setIsSending] = useState(false);
   const [sendResult, setSendResult] = useState<{ success: boolean; error?: string } | null>(null);
 
-  // Determine appropriate message type based on piece status
+  // The piece's stage says which message it calls for
   useEffect(() => {
-    if (piece.status === 'ready-for-pickup') {
-      setMessageType('ready-for-pickup');
-    } else if (piece.status === 'bisque-fired' || piece.status === 'glazed') {
-      setMessageType('ready-to-glaze');
-    } else {
-      setMessageType('ready-for-pickup'); // Default
-    }
-  }, [piece.status]);
+    setMessageType(getStage(workflow, piece.status).notify || 'ready-for-pickup');
+  }, [piece.status, workflow]);
 
   // Generate default message when modal opens or settings change
   useEffect(() => {
@@ -238,7 +235,7 @@ export const NotificationModal: React.FC<NotificationModalProps> = ({
           {/* Piece Info */}
           <div className="text-sm text-gray-600">
             <span className="font-medium">Piece Status:</span>
-            <span className="ml-1 capitalize">{piece.status.replace('-', ' ')}</span>
+            <span className="ml-1">{getStage(workflow, piece.status).label}</span>
             {piece.cubicInches && (
               <>
                 <span className="mx-2">•</span>
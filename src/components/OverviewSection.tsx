@@ -12,15 +12,15 @@ interface OverviewSectionProps {
   getPiecesReadyForPickup: () => Piece[];
   getCustomerById: (id: string) => Customer | undefined;
   onEditPiece: (piece: Piece) => void;
-  onDeletePiece: (pieceId: string) => void;
+  onDeletePiece?: (pieceId: string) => void;
   onNotifyCustomer: (piece: Piece) => void;
   onMarkPickedUp: (pieceId: string) => void;
   onViewPiece: (piece: Piece) => void;
   onUpdatePieceStatus: (pieceId: string, status: Piece['status']) => void;
   onUpdateCubicInches: (pieceId: string, cubicInches: number) => void;
-  onUpdatePiecePayment: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  onUpdatePiecePayment?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   onEditCustomer: (customer: Customer) => void;
-  onDeleteCustomer: (customerId: string) => void;
+  onDeleteCustomer?: (customerId: string) => void;
   onAddPiece: (customerId?: string) => void;
   onViewCustomerPieces: (customer: Customer) => void;
 }
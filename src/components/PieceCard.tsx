@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Edit, Trash2, Bell, CheckCircle, Check } from 'lucide-react';
+import { Edit, Trash2, Bell, CheckCircle, Check, Clock } from 'lucide-react';
 import { Piece, Customer } from '../types';
-import { PIECE_STATUSES, getPieceStatusInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStage, getStageChoices, getStageColors } from '../utils/pieceWorkflow';
 import { Button } from './ui/Button';
 import { format } from 'date-fns';
 import { ensureDate } from '../utils/dateUtils';
@@ -10,14 +11,17 @@ interface PieceCardProps {
   piece: Piece;
   customer: Customer;
   onEdit: (piece: Piece) => void;
-  onDelete: (pieceId: string) => void;
+  // Left out for roles that can't delete, which hides the button
+  onDelete?: (pieceId: string) => void;
   onNotify: (piece: Piece) => void;
   onMarkPickedUp: (pieceId: string) => void;
   onView: (piece: Piece) => void;
   onStatusChange: (pieceId: string, status: Piece['status']) => void;
   onCubicInchesChange: (pieceId: string, cubicInches: number) => void;
-  onPaymentUpdate: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  // Left out for roles that can't take payments, which shows the payment read-only
+  onPaymentUpdate?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   viewMode?: 'large' | 'small';
+  estimatedReadyDate?: Date | null; // From studio turnaround times, for pieces not yet ready
 }
 
 
@@ -33,8 +37,12 @@ export const PieceCard: React.FC<PieceCardProps> = ({
   onStatusChange,
   onCubicInchesChange,
   onPaymentUpdate,
-  viewMode = 'large'
+  viewMode = 'large',
+  estimatedReadyDate
 }) => {
+  const { workflow } = usePieceWorkflow();
+  const stage = getStage(workflow, piece.status);
+  const stageColors = getStageColors(workflow, piece.status);
   const isReadyForPickup = piece.status === 'ready-for-pickup';
   const isPickedUp = piece.status === 'picked-up';
   const [localCubicInches, setLocalCubicInches] = useState(piece.cubicInches || 0);
@@ -113,15 +121,12 @@ export const PieceCard: React.FC<PieceCardProps> = ({
         <div className="p-3">
           <h5 className="font-semibold text-sm text-gray-900 truncate">{customer.name}</h5>
           <div className="flex items-center gap-2 mt-1">
-            <span className={`inline-block w-2 h-2 rounded-full ${
-              piece.status === 'ready-for-pickup' ? 'bg-green-400' :
-              piece.status === 'picked-up' ? 'bg-gray-400' :
-              piece.status === 'bisque-fired' ? 'bg-blue-400' :
-              piece.status === 'glazed' ? 'bg-purple-400' :
-              'bg-yellow-400'
-            }`} />
-            <p className="text-xs text-gray-600 capitalize truncate">{piece.status.replace('-', ' ')}</p>
+            <span className={`inline-block w-2 h-2 rounded-full ${stageColors.dot}`} />
+            <p className="text-xs text-gray-600 truncate">{stage.label}</p>
           </div>
+          {estimatedReadyDate && (
+            <p className="text-xs text-blue-700 mt-1">Est. ready {format(estimatedReadyDate, 'MMM d')}</p>
+          )}
           {(piece.cubicInches || piece.glazeTotal) && (
             <div className="text-xs text-gray-500 mt-2 bg-gray-100/80 rounded-lg px-2 py-1">
               {piece.cubicInches && `${piece.cubicInches} in³`}
@@ -154,19 +159,13 @@ export const PieceCard: React.FC<PieceCardProps> = ({
           <div className="space-y-1 sm:space-y-2 min-w-0 flex-1">
             <h4 className="font-bold text-base sm:text-lg text-gray-900 truncate">{customer.name}</h4>
             <div className="flex items-center gap-2">
-              <span className={`inline-block w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full ${
-                piece.status === 'ready-for-pickup' ? 'bg-green-400 animate-pulse' :
-                piece.status === 'picked-up' ? 'bg-gray-400' :
-                piece.status === 'bisque-fired' ? 'bg-blue-400' :
-                piece.status === 'glazed' ? 'bg-purple-400' :
-                'bg-yellow-400'
-              }`} />
-              <p className="text-xs sm:text-sm text-gray-600 capitalize font-medium">{piece.status.replace('-', ' ')}</p>
+              <span className={`inline-block w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full ${stageColors.dot} ${isReadyForPickup ? 'animate-pulse' : ''}`} />
+              <p className="text-xs sm:text-sm text-gray-600 font-medium">{stage.label}</p>
             </div>
           </div>
           
           <div className="flex space-x-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity duration-200 ml-2">
-            {isReadyForPickup && !isPickedUp && (
+            {stage.notify && !isPickedUp && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -194,14 +193,16 @@ export const PieceCard: React.FC<PieceCardProps> = ({
             >
               <Edit size={16} />
             </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => onDelete(piece.id)}
-              className="text-red-600 hover:bg-red-100 rounded-full p-2"
-            >
-              <Trash2 size={16} />
-            </Button>
+            {onDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(piece.id)}
+                className="text-red-600 hover:bg-red-100 rounded-full p-2"
+              >
+                <Trash2 size={16} />
+              </Button>
+            )}
           </div>
         </div>
 
@@ -212,11 +213,11 @@ export const PieceCard: React.FC<PieceCardProps> = ({
               <select
                 value={piece.status}
                 onChange={(e) => onStatusChange(piece.id, e.target.value as Piece['status'])}
-                className={`w-full sm:w-auto px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium border-2 bg-white/80 backdrop-blur-sm transition-all focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${getPieceStatusInfo(piece.status).color} border-gray-200 hover:border-gray-300`}
+                className={`w-full sm:w-auto px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium border-2 bg-white/80 backdrop-blur-sm transition-all focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${stageColors.badge} border-gray-200 hover:border-gray-300`}
               >
-                {PIECE_STATUSES.map(status => (
-                  <option key={status.value} value={status.value}>
-                    {status.label}
+                {getStageChoices(workflow, piece.status).map(choice => (
+                  <option key={choice.id} value={choice.id}>
+                    {choice.label}
                   </option>
                 ))}
               </select>
@@ -263,11 +264,12 @@ export const PieceCard: React.FC<PieceCardProps> = ({
             
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
               <span className="text-xs sm:text-sm font-semibold text-gray-700">Payment:</span>
-              <label className="relative flex items-center cursor-pointer group">
+              <label className={`relative flex items-center group ${onPaymentUpdate ? 'cursor-pointer' : ''}`}>
                 <input
                   type="checkbox"
                   checked={piece.paidGlaze || false}
-                  onChange={(e) => onPaymentUpdate(piece.id, 'paidGlaze', e.target.checked)}
+                  onChange={(e) => onPaymentUpdate?.(piece.id, 'paidGlaze', e.target.checked)}
+                  disabled={!onPaymentUpdate}
                   className="sr-only"
                 />
                 <div className={`w-6 h-6 rounded-lg border-2 flex items-center justify-center transition-all duration-200 ${
@@ -295,6 +297,15 @@ export const PieceCard: React.FC<PieceCardProps> = ({
           </div>
         )}
 
+        {estimatedReadyDate && (
+          <div className="mt-4 p-3 bg-blue-50/80 backdrop-blur-sm rounded-xl border border-blue-200/50">
+            <p className="text-xs font-medium text-blue-700 flex items-center">
+              <Clock size={12} className="mr-2" />
+              Estimated ready: {format(estimatedReadyDate, 'MMM dd, yyyy')}
+            </p>
+          </div>
+        )}
+
         {piece.readyForPickupDate && (() => {
           const date = ensureDate(piece.readyForPickupDate);
           return date ? (
@@ -1,11 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Piece, Customer, Event, StudioSettings } from '../types';
-import { PIECE_STATUSES } from '../constants';
+import { Piece, PieceWorkflow, Customer, Event, StudioSettings } from '../types';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getInitialStage, getStage } from '../utils/pieceWorkflow';
 import { calculateGlazeCost } from '../utils/glazeCalculations';
+import { VersionConflictError, versionOf } from '../data/storage/VersionConflictError';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { Button } from './ui/Button';
 import { ImageUpload } from './ui/ImageUpload';
+import { ConflictDialog, ConflictField } from './ConflictDialog';
+
+type PieceFormData = Omit<Piece, 'id' | 'createdAt' | 'updatedAt'>;
 
 interface PieceFormProps {
   piece?: Piece;
@@ -13,10 +18,22 @@ interface PieceFormProps {
   events: Event[];
   studioSettings?: StudioSettings;
   preSelectedCustomerId?: string;
-  onSubmit: (piece: Omit<Piece, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  // Rejecting with a VersionConflictError opens the conflict dialog instead of closing the form
+  onSubmit: (piece: PieceFormData, expectedVersion?: number) => void | Promise<void>;
   onCancel: () => void;
 }
 
+// The piece fields staff can edit, labelled for the conflict dialog
+export const getPieceConflictFields = (customers: Customer[], events: Event[], workflow: PieceWorkflow): ConflictField[] => [
+  { key: 'customerId', label: 'Customer', format: id => customers.find(c => c.id === id)?.name || '—' },
+  { key: 'eventId', label: 'Event', format: id => events.find(e => e.id === id)?.name || 'No Event' },
+  { key: 'status', label: 'Status', format: status => getStage(workflow, status).label },
+  { key: 'cubicInches', label: 'Cubic Inches', format: value => (value ? `${value} in³` : '—') },
+  { key: 'glazeTotal', label: 'Glaze Total', format: value => (value ? `$${Number(value).toFixed(2)}` : '—') },
+  { key: 'paidGlaze', label: 'Paid for Glaze', format: value => (value ? 'Yes' : 'No') },
+  { key: 'notes', label: 'Notes' },
+  { key: 'imageUrl', label: 'Photo', format: value => (value ? 'Photo attached' : 'No photo') }
+];
 
 
 export const PieceForm: React.FC<PieceFormProps> = ({
@@ -28,10 +45,11 @@ export const PieceForm: React.FC<PieceFormProps> = ({
   onSubmit,
   onCancel
 }) => {
+  const { workflow } = usePieceWorkflow();
   const [formData, setFormData] = useState({
     customerId: '',
     eventId: '',
-    status: 'in-progress' as Piece['status'],
+    status: getInitialStage(workflow) as Piece['status'],
     cubicInches: '',
     paidGlaze: false,
     glazeTotal: '',
@@ -40,6 +58,8 @@ export const PieceForm: React.FC<PieceFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<{ mine: PieceFormData; theirs: Piece } | null>(null);
+  const [resolving, setResolving] = useState(false);
 
   useEffect(() => {
     if (piece) {
@@ -90,6 +110,19 @@ export const PieceForm: React.FC<PieceFormProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
+  const submit = async (data: PieceFormData, expectedVersion?: number) => {
+    try {
+      await onSubmit(data, expectedVersion);
+      setConflict(null);
+    } catch (error) {
+      if (error instanceof VersionConflictError && error.current) {
+        setConflict({ mine: data, theirs: error.current });
+      } else {
+        console.error('Error saving piece:', error);
+      }
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -97,7 +130,7 @@ export const PieceForm: React.FC<PieceFormProps> = ({
       return;
     }
 
-    onSubmit({
+    submit({
       customerId: formData.customerId,
       eventId: formData.eventId || undefined,
       status: formData.status,
@@ -108,7 +141,19 @@ export const PieceForm: React.FC<PieceFormProps> = ({
       imageUrl: formData.imageUrl || undefined,
       readyForPickupDate: formData.status === 'ready-for-pickup' ? new Date() : undefined,
       pickedUpDate: formData.status === 'picked-up' ? new Date() : undefined
-    });
+    }, piece ? versionOf(piece) : undefined);
+  };
+
+  const handleResolveConflict = async (merged: Record<string, any>) => {
+    if (!conflict) return;
+    setResolving(true);
+    await submit({ ...conflict.mine, ...merged } as PieceFormData, versionOf(conflict.theirs));
+    setResolving(false);
+  };
+
+  const handleDiscardChanges = () => {
+    setConflict(null);
+    onCancel();
   };
 
   const handleChange = (field: string, value: string | boolean) => {
@@ -162,7 +207,7 @@ export const PieceForm: React.FC<PieceFormProps> = ({
         label="Status *"
         value={formData.status}
         onChange={(e) => handleChange('status', e.target.value)}
-        options={PIECE_STATUSES}
+        options={workflow.stages.map(stage => ({ value: stage.id, label: stage.label }))}
       />
 
 
@@ -240,6 +285,18 @@ export const PieceForm: React.FC<PieceFormProps> = ({
           {piece ? 'Update Piece' : 'Add Piece'}
         </Button>
       </div>
+
+      {conflict && (
+        <ConflictDialog
+          isOpen={true}
+          fields={getPieceConflictFields(customers, events, workflow)}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={resolving}
+          onResolve={handleResolveConflict}
+          onDiscard={handleDiscardChanges}
+        />
+      )}
     </form>
   );
 };
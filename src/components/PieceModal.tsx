@@ -1,12 +1,22 @@
 import React, { useState, useEffect } from 'react';
+import { Flame, History, Clock } from 'lucide-react';
+import { format } from 'date-fns';
 import { Piece, Customer, Event, StudioSettings } from '../types';
-import { PIECE_STATUSES } from '../constants';
+import { FIRING_TYPE_COLORS, getFiringTypeInfo } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { checkStageMove, getInitialStage, getStage, getStageColors } from '../utils/pieceWorkflow';
+import { formatStageDuration, getStageVisits } from '../utils/stageHistory';
 import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
 import { Select } from './ui/Select';
 import { ImageUpload } from './ui/ImageUpload';
+import { AuditHistory } from './AuditHistory';
+import { ConflictDialog } from './ConflictDialog';
+import { getPieceConflictFields } from './PieceForm';
 import { calculateGlazeCost } from '../utils/glazeCalculations';
 import { database } from '../data/database';
+import { VersionConflictError, versionOf } from '../data/storage/VersionConflictError';
+import { StageTransitionError } from '../data/StageTransitionError';
 
 interface PieceModalProps {
   mode: 'create' | 'edit';
@@ -16,6 +26,8 @@ interface PieceModalProps {
   studioSettings?: StudioSettings;
   customerId?: string;
   eventId?: string;
+  // Staff without the markGlazePaid permission see the payment status but can't change it
+  canMarkPaid?: boolean;
   onSave: (piece: any) => void;
   onClose: () => void;
 }
@@ -28,9 +40,11 @@ export const PieceModal: React.FC<PieceModalProps> = ({
   studioSettings,
   customerId,
   eventId,
+  canMarkPaid = true,
   onSave,
   onClose
 }) => {
+  const { workflow } = usePieceWorkflow();
   const [formData, setFormData] = useState(() => {
     if (mode === 'edit' && piece) {
       return { ...piece };
@@ -40,7 +54,7 @@ export const PieceModal: React.FC<PieceModalProps> = ({
     return {
       customerId: defaultCustomerId,
       eventId: eventId || '',
-      status: 'in-progress' as Piece['status'],
+      status: getInitialStage(workflow) as Piece['status'],
       cubicInches: 0,
       paidGlaze: false,
       glazeTotal: 0,
@@ -52,6 +66,8 @@ export const PieceModal: React.FC<PieceModalProps> = ({
   const [glazeRate, setGlazeRate] = useState(0.20);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [createdPieceId, setCreatedPieceId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [conflictPiece, setConflictPiece] = useState<Piece | null>(null);
 
   useEffect(() => {
     if (studioSettings) {
@@ -82,16 +98,26 @@ export const PieceModal: React.FC<PieceModalProps> = ({
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // A status change that skips stages or goes backwards is saved only once staff confirm it
+  const savePiece = async (id: string, updates: Partial<Piece>, expectedVersion?: number) => {
+    try {
+      return await database.updatePiece(id, updates, expectedVersion);
+    } catch (error) {
+      if (!(error instanceof StageTransitionError) || !window.confirm(`${error.message}. Save anyway?`)) throw error;
+      return await database.updatePiece(id, updates, expectedVersion, { allowAnyStage: true });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
 
     try {
       if (mode === 'edit' && piece) {
-        const updatedPiece = await database.updatePiece(piece.id, {
+        const updatedPiece = await savePiece(piece.id, {
           ...formData,
           updatedAt: new Date()
-        });
+        }, versionOf(piece));
         onSave(updatedPiece);
       } else {
         if (!createdPieceId) {
@@ -99,11 +125,17 @@ export const PieceModal: React.FC<PieceModalProps> = ({
           setCreatedPieceId(newPiece.id);
           onSave(formData);
         } else {
-          await database.updatePiece(createdPieceId, formData);
+          await savePiece(createdPieceId, formData);
           onClose();
         }
       }
     } catch (error) {
+      if (error instanceof VersionConflictError && error.current) {
+        setConflictPiece(error.current);
+        return;
+      }
+      // Staff decided against the move; the form stays open to pick another stage
+      if (error instanceof StageTransitionError) return;
       console.error(`Error ${mode === 'edit' ? 'updating' : 'creating'} piece:`, error);
       alert(`Failed to ${mode === 'edit' ? 'update' : 'create'} piece. Please try again.`);
     } finally {
@@ -111,7 +143,35 @@ export const PieceModal: React.FC<PieceModalProps> = ({
     }
   };
 
+  const handleResolveConflict = async (merged: Record<string, any>) => {
+    if (!piece || !conflictPiece) return;
+    const resolved = { ...formData, ...merged };
+    setFormData(resolved);
+    setIsSubmitting(true);
+
+    try {
+      const updatedPiece = await savePiece(piece.id, {
+        ...resolved,
+        updatedAt: new Date()
+      }, versionOf(conflictPiece));
+      setConflictPiece(null);
+      onSave(updatedPiece);
+    } catch (error) {
+      if (error instanceof VersionConflictError && error.current) {
+        // Saved yet again while resolving; compare against the newest copy
+        setConflictPiece(error.current);
+        return;
+      }
+      if (error instanceof StageTransitionError) return;
+      console.error('Error updating piece:', error);
+      alert('Failed to update piece. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const isCreate = mode === 'create';
+  const stageVisits = piece ? getStageVisits(piece) : [];
   const title = isCreate ? 'Add New Piece' : 'Edit Piece';
   const submitText = isSubmitting 
     ? 'Saving...' 
@@ -165,9 +225,9 @@ export const PieceModal: React.FC<PieceModalProps> = ({
             value={formData.status}
             onChange={(e) => handleInputChange('status', e.target.value)}
           >
-            {PIECE_STATUSES.map(status => (
-              <option key={status.value} value={status.value}>
-                {status.label}
+            {workflow.stages.map(stage => (
+              <option key={stage.id} value={stage.id}>
+                {stage.label}
               </option>
             ))}
           </select>
@@ -213,11 +273,15 @@ export const PieceModal: React.FC<PieceModalProps> = ({
               className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
               checked={formData.paidGlaze}
               onChange={(e) => handleInputChange('paidGlaze', e.target.checked)}
+              disabled={!canMarkPaid}
             />
             <label htmlFor="paidGlaze" className="ml-2 block text-sm text-gray-900">
               Glaze payment received
             </label>
           </div>
+          {!canMarkPaid && (
+            <p className="text-xs text-gray-500">Only front desk staff and owners can change payment status</p>
+          )}
         </div>
 
         {/* Price Summary */}
@@ -242,6 +306,80 @@ export const PieceModal: React.FC<PieceModalProps> = ({
           />
         </div>
 
+        {/* Stage History */}
+        {!isCreate && piece && stageVisits.length > 0 && (
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+              <Clock size={16} />
+              <span>Stage History</span>
+            </label>
+            <ul className="space-y-1">
+              {stageVisits.map((visit, index) => {
+                const movedBack = index > 0 && checkStageMove(workflow, stageVisits[index - 1].stage, visit.stage) === 'backward';
+                return (
+                  <li key={`${visit.stage}-${visit.enteredAt.getTime()}`} className="flex items-center justify-between text-sm text-gray-700">
+                    <span className="flex items-center space-x-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${getStageColors(workflow, visit.stage).badge}`}>
+                        {getStage(workflow, visit.stage).label}
+                      </span>
+                      <span className="text-xs text-gray-500">{format(visit.enteredAt, 'MMM d, yyyy h:mm a')}</span>
+                      {movedBack && <span className="text-xs text-amber-700">moved back</span>}
+                    </span>
+                    {/* A piece stays in a final stage like Picked Up for good, so there's nothing to time */}
+                    {(visit.leftAt || getStage(workflow, visit.stage).transitions.length > 0) && (
+                      <span className="text-xs text-gray-500">
+                        {formatStageDuration(visit.duration)}{visit.leftAt ? '' : ' so far'}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {/* Firing History */}
+        {!isCreate && piece?.firingHistory && piece.firingHistory.length > 0 && (
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+              <Flame size={16} />
+              <span>Firing History</span>
+            </label>
+            <ul className="space-y-1">
+              {piece.firingHistory.map(record => (
+                <li key={record.firingId} className="flex items-center justify-between text-sm text-gray-700">
+                  <span className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${FIRING_TYPE_COLORS[record.type]}`}>
+                      {getFiringTypeInfo(record.type).label}
+                    </span>
+                    <span>{record.kiln} • Cone {record.cone}</span>
+                  </span>
+                  <span className="text-xs text-gray-500">{format(new Date(record.unloadDate), 'MMM d, yyyy')}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Change History */}
+        {!isCreate && piece && (
+          <div className="pt-4 border-t">
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              <History size={16} />
+              <span>{showHistory ? 'Hide history' : 'Show history'}</span>
+            </button>
+            {showHistory && (
+              <div className="mt-3">
+                <AuditHistory recordIds={[piece.id]} />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex justify-end space-x-3 pt-4 border-t">
           <Button
@@ -261,6 +399,18 @@ export const PieceModal: React.FC<PieceModalProps> = ({
           </Button>
         </div>
       </form>
+
+      {conflictPiece && (
+        <ConflictDialog
+          isOpen={true}
+          fields={getPieceConflictFields(customers, events, workflow)}
+          mine={formData}
+          theirs={conflictPiece}
+          saving={isSubmitting}
+          onResolve={handleResolveConflict}
+          onDiscard={onClose}
+        />
+      )}
     </Modal>
   );
 };
\ No newline at end of file
@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, RotateCcw, Save, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { DEFAULT_PIECE_WORKFLOW, FIRING_TYPES, STAGE_COLORS, STAGE_NOTIFICATIONS } from '../constants';
+import { FiringType, StageColor, StageNotification, WorkflowStage } from '../types';
+import { BUILT_IN_STAGE_IDS, slugifyStageLabel, validateWorkflow } from '../utils/pieceWorkflow';
+
+const COLOR_OPTIONS = Object.keys(STAGE_COLORS).map(color => ({
+  value: color,
+  label: STAGE_COLORS[color as StageColor].label
+}));
+
+const FIRING_OPTIONS = [
+  { value: '', label: 'No firing' },
+  ...FIRING_TYPES.map(type => ({ value: type.value, label: `${type.label} firing` }))
+];
+
+const NOTIFY_OPTIONS = [{ value: '', label: 'No notification' }, ...STAGE_NOTIFICATIONS];
+
+export const PieceWorkflowEditor: React.FC = () => {
+  const { workflow, saveWorkflow } = usePieceWorkflow();
+  const [stages, setStages] = useState<WorkflowStage[]>(workflow.stages);
+  const [newStageLabel, setNewStageLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setStages(workflow.stages);
+  }, [workflow]);
+
+  const errors = validateWorkflow({ stages });
+  const changed = JSON.stringify(stages) !== JSON.stringify(workflow.stages);
+  // Custom stages stay ahead of the built-in ones
+  const lastMovableIndex = stages.length - BUILT_IN_STAGE_IDS.length - 1;
+
+  const updateStage = (index: number, changes: Partial<WorkflowStage>) => {
+    setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const toggleTransition = (index: number, targetId: string) => {
+    const { transitions } = stages[index];
+    updateStage(index, {
+      transitions: transitions.includes(targetId)
+        ? transitions.filter(id => id !== targetId)
+        : [...transitions, targetId]
+    });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setStages(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeStage = (index: number) => {
+    const removed = stages[index];
+    if (!window.confirm(`Remove the ${removed.label} stage? Pieces can no longer be moved into it.`)) return;
+    setStages(prev => prev
+      .filter((_, i) => i !== index)
+      .map(stage => ({ ...stage, transitions: stage.transitions.filter(id => id !== removed.id) })));
+  };
+
+  const addStage = () => {
+    const label = newStageLabel.trim();
+    const base = slugifyStageLabel(label);
+    if (!base) return;
+
+    const taken = new Set(stages.map(stage => stage.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+
+    // New stages go just before Ready for Pickup, between the last custom stage and the built-ins
+    const insertAt = lastMovableIndex + 1;
+    const previous = stages[insertAt - 1];
+    const stage: WorkflowStage = { id, label, color: 'gray', transitions: [stages[insertAt].id] };
+
+    setStages(prev => [
+      ...prev.slice(0, insertAt).map(s => (s === previous ? { ...s, transitions: [...s.transitions, id] } : s)),
+      stage,
+      ...prev.slice(insertAt)
+    ]);
+    setNewStageLabel('');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace these stages with the default workflow? Nothing is saved until you click Save.')) return;
+    setStages(DEFAULT_PIECE_WORKFLOW.stages);
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveWorkflow({ stages: stages.map(stage => ({ ...stage, label: stage.label.trim() })) });
+      toast.success('Piece stages saved');
+    } catch (error) {
+      console.error('Error saving piece workflow:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save piece stages');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Piece Stages</h2>
+          <p className="text-sm text-gray-600">
+            The stages a piece moves through, in order. Ready for Pickup and Picked Up are always the last two.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReset}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <RotateCcw size={14} />
+          <span>Reset to Defaults</span>
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {stages.map((stage, index) => {
+          const builtIn = BUILT_IN_STAGE_IDS.includes(stage.id);
+          return (
+            <div key={stage.id} className="p-3 sm:p-4 border border-gray-200 rounded-xl space-y-3">
+              <div className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full flex-shrink-0 ${STAGE_COLORS[stage.color]?.dot || STAGE_COLORS.gray.dot}`} />
+                <div className="flex-1">
+                  <Input
+                    value={stage.label}
+                    onChange={(e) => updateStage(index, { label: e.target.value })}
+                    aria-label={`Stage ${index + 1} name`}
+                  />
+                </div>
+                {builtIn ? (
+                  <span className="text-xs text-gray-500 px-2">Built in</span>
+                ) : (
+                  <div className="flex items-center">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => moveStage(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${stage.label} up`}
+                    >
+                      <ArrowUp size={14} />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => moveStage(index, 1)}
+                      disabled={index >= lastMovableIndex}
+                      aria-label={`Move ${stage.label} down`}
+                    >
+                      <ArrowDown size={14} />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => removeStage(index)}
+                      aria-label={`Remove ${stage.label}`}
+                      className="text-red-600"
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Select
+                  label="Color"
+                  options={COLOR_OPTIONS}
+                  value={stage.color}
+                  onChange={(e) => updateStage(index, { color: e.target.value as StageColor })}
+                />
+                <Select
+                  label="Waits for"
+                  options={FIRING_OPTIONS}
+                  value={stage.firing || ''}
+                  disabled={builtIn}
+                  onChange={(e) => updateStage(index, { firing: (e.target.value as FiringType) || null })}
+                />
+                <Select
+                  label="Notify customer"
+                  options={NOTIFY_OPTIONS}
+                  value={stage.notify || ''}
+                  onChange={(e) => updateStage(index, { notify: (e.target.value as StageNotification) || null })}
+                />
+              </div>
+
+              {stages.length > 1 && (
+                <div>
+                  <p className="text-sm font-semibold text-gray-700 mb-1">Can move to</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {stages.filter(target => target.id !== stage.id).map(target => (
+                      <label key={target.id} className="flex items-center space-x-1 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={stage.transitions.includes(target.id)}
+                          onChange={() => toggleTransition(index, target.id)}
+                          className="rounded border-gray-300"
+                        />
+                        <span>{target.label || 'Unnamed stage'}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1">
+          <Input
+            label="New stage"
+            placeholder="e.g. Drying"
+            value={newStageLabel}
+            onChange={(e) => setNewStageLabel(e.target.value)}
+            hint="Added just before Ready for Pickup"
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addStage}
+          disabled={!slugifyStageLabel(newStageLabel)}
+          className="flex items-center space-x-2"
+        >
+          <Plus size={14} />
+          <span>Add Stage</span>
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+          {errors.map(error => (
+            <p key={error} className="flex items-start space-x-2">
+              <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end pt-4 sm:pt-6 border-t border-gray-200/50">
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          loading={saving}
+          disabled={!changed}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <Save size={16} />
+          <span>Save Stages</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
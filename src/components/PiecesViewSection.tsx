@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Palette, LayoutGrid, Grid, List, Edit } from 'lucide-react';
 import { Piece, Customer, Event } from '../types';
-import { PIECE_STATUSES } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStage, getStageColors } from '../utils/pieceWorkflow';
 import { PieceCard } from './PieceCard';
 import { Button } from './ui/Button';
 import { useBulkSelection } from '../hooks/useBulkSelection';
@@ -17,18 +18,20 @@ interface PiecesViewSectionProps {
   sortMode: PieceSortMode;
   onSortChange: (mode: PieceSortMode) => void;
   onEdit: (piece: Piece) => void;
-  onDelete: (pieceId: string) => void;
+  onDelete?: (pieceId: string) => void;
   onNotify: (piece: Piece) => void;
   onMarkPickedUp: (pieceId: string) => void;
   onView: (piece: Piece) => void;
   onStatusChange: (pieceId: string, status: Piece['status']) => void;
   onCubicInchesChange: (pieceId: string, cubicInches: number) => void;
-  onPaymentUpdate: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
+  onPaymentUpdate?: (pieceId: string, field: 'paidGlaze', value: boolean) => void;
   onBulkStatusUpdate: (pieceIds: string[], status: Piece['status']) => void;
-  onBulkPaymentUpdate: (pieceIds: string[], paid: boolean) => void;
-  onBulkDelete: (pieceIds: string[]) => void;
+  // Bulk actions left out for roles that can't take them are hidden
+  onBulkPaymentUpdate?: (pieceIds: string[], paid: boolean) => void;
+  onBulkDelete?: (pieceIds: string[]) => void;
   onAddPiece: () => void;
   getCustomerById: (id: string) => Customer | undefined;
+  estimateReadyDate?: (piece: Piece) => Date | null;
 }
 
 export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
@@ -50,9 +53,11 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
   onBulkPaymentUpdate,
   onBulkDelete,
   onAddPiece,
-  getCustomerById
+  getCustomerById,
+  estimateReadyDate
 }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('large');
+  const { workflow } = usePieceWorkflow();
   
   const bulkSelection = useBulkSelection({
     items: pieces,
@@ -65,12 +70,17 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
     
     switch (sortMode) {
       case 'status':
-        PIECE_STATUSES.forEach(status => {
-          const statusPieces = pieces.filter(p => p.status === status.value);
+        // Workflow order first, then any stage that has since been removed from the workflow
+        const stageIds = workflow.stages.map(stage => stage.id);
+        pieces.forEach(p => {
+          if (!stageIds.includes(p.status)) stageIds.push(p.status);
+        });
+        stageIds.forEach(stageId => {
+          const statusPieces = pieces.filter(p => p.status === stageId);
           if (statusPieces.length > 0) {
             groups.push({
-              key: status.value,
-              title: status.label,
+              key: stageId,
+              title: getStage(workflow, stageId).label,
               pieces: statusPieces.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
             });
           }
@@ -152,7 +162,7 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
     }
     
     return groups;
-  }, [pieces, sortMode, getCustomerById, events]);
+  }, [pieces, sortMode, getCustomerById, events, workflow]);
 
   const sortOptions = [
     { value: 'status' as PieceSortMode, label: 'By Status' },
@@ -280,28 +290,34 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
                     defaultValue=""
                   >
                     <option value="">Update Status...</option>
-                    {PIECE_STATUSES.map(status => (
-                      <option key={status.value} value={status.value}>{status.label}</option>
+                    {workflow.stages.map(stage => (
+                      <option key={stage.id} value={stage.id}>{stage.label}</option>
                     ))}
                   </select>
-                  <button
-                    onClick={() => onBulkPaymentUpdate(bulkSelection.selectedIds, true)}
-                    className="text-sm px-3 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200"
-                  >
-                    Mark Paid
-                  </button>
-                  <button
-                    onClick={() => onBulkPaymentUpdate(bulkSelection.selectedIds, false)}
-                    className="text-sm px-3 py-1 bg-yellow-100 text-yellow-700 rounded hover:bg-yellow-200"
-                  >
-                    Mark Unpaid
-                  </button>
-                  <button
-                    onClick={() => onBulkDelete(bulkSelection.selectedIds)}
-                    className="text-sm px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
-                  >
-                    Delete
-                  </button>
+                  {onBulkPaymentUpdate && (
+                    <>
+                      <button
+                        onClick={() => onBulkPaymentUpdate(bulkSelection.selectedIds, true)}
+                        className="text-sm px-3 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200"
+                      >
+                        Mark Paid
+                      </button>
+                      <button
+                        onClick={() => onBulkPaymentUpdate(bulkSelection.selectedIds, false)}
+                        className="text-sm px-3 py-1 bg-yellow-100 text-yellow-700 rounded hover:bg-yellow-200"
+                      >
+                        Mark Unpaid
+                      </button>
+                    </>
+                  )}
+                  {onBulkDelete && (
+                    <button
+                      onClick={() => onBulkDelete(bulkSelection.selectedIds)}
+                      className="text-sm px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -339,14 +355,8 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2">
                         <h3 className="font-medium text-gray-900 truncate">{customer.name}</h3>
-                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                          piece.status === 'ready-for-pickup' ? 'bg-green-100 text-green-800' :
-                          piece.status === 'picked-up' ? 'bg-gray-100 text-gray-800' :
-                          piece.status === 'bisque-fired' ? 'bg-blue-100 text-blue-800' :
-                          piece.status === 'glazed' ? 'bg-purple-100 text-purple-800' :
-                          'bg-yellow-100 text-yellow-800'
-                        }`}>
-                          {piece.status.replace('-', ' ')}
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStageColors(workflow, piece.status).badge}`}>
+                          {getStage(workflow, piece.status).label}
                         </span>
                       </div>
                       <div className="text-sm text-gray-600">
@@ -406,6 +416,7 @@ export const PiecesViewSection: React.FC<PiecesViewSectionProps> = ({
                       onCubicInchesChange={onCubicInchesChange}
                       onPaymentUpdate={onPaymentUpdate}
                       viewMode={viewMode}
+                      estimatedReadyDate={estimateReadyDate?.(piece)}
                     />
                   </div>
                 ) : null;
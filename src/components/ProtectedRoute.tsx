@@ -1,17 +1,47 @@
 import React from 'react';
+import { ShieldOff } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { getRoleLabel } from '../constants';
+import { Permission } from '../types';
 import { Login } from './Login';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Without it, any signed-in staff member gets through
+  permission?: Permission;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, loading, currentStaff, can } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
     return <Login />;
   }
 
+  if (permission && !can(permission)) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 mb-4 flex justify-center">
+          <ShieldOff size={48} />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          You don't have access to this
+        </h3>
+        <p className="text-gray-600">
+          {currentStaff && `${getRoleLabel(currentStaff.role)} accounts can't open this page. `}
+          Ask the studio owner if you need it.
+        </p>
+      </div>
+    );
+  }
+
   return <>{children}</>;
-};
\ No newline at end of file
+};
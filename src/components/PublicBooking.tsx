@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Calendar, CheckCircle, Clock, DollarSign, MapPin, User, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PublicBookingResult, PublicEvent } from '../types';
+import { EVENT_TYPE_COLORS } from '../constants';
+import { formatEventDate, formatTime } from '../utils/dateUtils';
+import { bookingService } from '../services/bookingService';
+import { emailService } from '../services/emailService';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+
+/**
+ * Public page for reserving a spot at an upcoming event, rendered instead of the staff app when
+ * the URL carries ?book. Capacity is enforced server-side; the spot counts shown here are only
+ * a guide and are refreshed after every attempt.
+ */
+export const PublicBooking: React.FC = () => {
+  const [events, setEvents] = useState<PublicEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<PublicEvent | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<PublicBookingResult | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const list = await bookingService.listEvents();
+      setEvents(list);
+      // Keep an open booking form in step with the latest spot count
+      setSelectedEvent(prev => (prev ? list.find(event => event.id === prev.id) || prev : prev));
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading events:', error);
+      setLoadError(error instanceof Error ? error.message : 'Could not load events');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedEvent) return;
+    if (!emailService.validateEmail(email.trim())) {
+      toast.error('Please enter a valid email address');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await bookingService.reserve({
+        eventId: selectedEvent.id,
+        name,
+        email,
+        phone,
+        joinWaitlist: selectedEvent.spotsLeft <= 0
+      });
+      setConfirmation(result);
+      // The function sends the confirmation itself; the spot is held even if that failed
+      if (!result.confirmationSent) {
+        toast.error(result.status === 'waitlisted'
+          ? "You're on the waitlist, but we couldn't send the confirmation email."
+          : "You're booked, but we couldn't send the confirmation email.");
+      }
+    } catch (error) {
+      console.error('Error booking event:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not complete your booking');
+    } finally {
+      setSubmitting(false);
+      loadEvents();
+    }
+  };
+
+  const handleBookAnother = () => {
+    setConfirmation(null);
+    setSelectedEvent(null);
+  };
+
+  const renderEventDetails = (event: PublicEvent) => (
+    <div className="space-y-1 text-sm text-gray-600">
+      <div className="flex items-center">
+        <Calendar size={14} className="mr-2" />
+        {formatEventDate(event.date)}
+      </div>
+      <div className="flex items-center">
+        <Clock size={14} className="mr-2" />
+        {formatTime(event.startTime)} - {formatTime(event.endTime)}
+      </div>
+      {event.location && (
+        <div className="flex items-center">
+          <MapPin size={14} className="mr-2" />
+          {event.location}
+        </div>
+      )}
+      {event.instructor && (
+        <div className="flex items-center">
+          <User size={14} className="mr-2" />
+          {event.instructor}
+        </div>
+      )}
+      <div className="flex items-center">
+        <DollarSign size={14} className="mr-2" />
+        {event.price > 0 ? `$${event.price.toFixed(2)}` : 'Free'}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Book a Class</h1>
+          <p className="text-gray-600 mt-2">Reserve your spot at an upcoming event</p>
+        </div>
+
+        {confirmation ? (
+          <div className="bg-white rounded-lg shadow-xl p-6 sm:p-8 max-w-md mx-auto text-center space-y-4">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              {confirmation.status === 'waitlisted'
+                ? `You're on the waitlist, ${confirmation.customerName.split(' ')[0]}`
+                : `You're booked, ${confirmation.customerName.split(' ')[0]}!`}
+            </h2>
+            {confirmation.status === 'waitlisted' && (
+              <p className="text-sm text-amber-800 bg-amber-50 rounded-lg p-3">
+                You're number {confirmation.waitlistPosition} in line. We'll email you if a spot opens up.
+              </p>
+            )}
+            <p className="font-medium text-gray-900">{confirmation.event.name}</p>
+            <div className="text-left inline-block">{renderEventDetails(confirmation.event)}</div>
+            <p className="text-sm text-gray-500">A confirmation is on its way to {email.trim()}.</p>
+            <Button variant="outline" onClick={handleBookAnother}>
+              Book Another Event
+            </Button>
+          </div>
+        ) : selectedEvent ? (
+          <div className="bg-white rounded-lg shadow-xl p-6 sm:p-8 max-w-md mx-auto space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{selectedEvent.name}</h2>
+              {selectedEvent.description && (
+                <p className="text-sm text-gray-600 mt-1">{selectedEvent.description}</p>
+              )}
+              <div className="mt-3">{renderEventDetails(selectedEvent)}</div>
+              {selectedEvent.spotsLeft <= 0 && (
+                <p className="mt-3 text-sm text-amber-800 bg-amber-50 rounded-lg p-3">
+                  This event is full. Join the waitlist and we'll let you know if a spot opens up.
+                </p>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Input
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                disabled={submitting}
+                required
+              />
+              <Input
+                label="Email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                disabled={submitting}
+                hint="Use the email you've booked with before so we can find your pieces"
+                required
+              />
+              <Input
+                label="Phone (optional)"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                autoComplete="tel"
+                disabled={submitting}
+              />
+              <div className="flex flex-col sm:flex-row gap-2 sm:justify-end pt-2">
+                <Button type="button" variant="outline" onClick={() => setSelectedEvent(null)} disabled={submitting}>
+                  Back
+                </Button>
+                <Button type="submit" loading={submitting} disabled={!name.trim() || !email.trim()}>
+                  {selectedEvent.spotsLeft > 0 ? 'Reserve My Spot' : 'Join Waitlist'}
+                </Button>
+              </div>
+            </form>
+          </div>
+        ) : loadError ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center space-y-4">
+            <p className="text-red-600">{loadError}</p>
+            <Button variant="outline" onClick={loadEvents}>
+              Try Again
+            </Button>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+            No upcoming events right now. Check back soon!
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {events.map(event => {
+              const full = event.spotsLeft <= 0;
+              return (
+                <div key={event.id} className="bg-white rounded-lg shadow p-5 flex flex-col">
+                  <div className="flex items-start justify-between mb-2 gap-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{event.name}</h3>
+                    <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${EVENT_TYPE_COLORS[event.type]}`}>
+                      {event.type.replace('-', ' ')}
+                    </span>
+                  </div>
+                  {event.description && (
+                    <p className="text-sm text-gray-600 mb-3">{event.description}</p>
+                  )}
+                  {renderEventDetails(event)}
+                  <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
+                    <span className={`flex items-center text-sm ${full ? 'text-red-600' : 'text-gray-600'}`}>
+                      <Users size={14} className="mr-1" />
+                      {full ? 'Full' : `${event.spotsLeft} of ${event.maxCapacity} spots left`}
+                    </span>
+                    <Button size="sm" variant={full ? 'outline' : 'primary'} onClick={() => setSelectedEvent(event)}>
+                      {full ? 'Join Waitlist' : 'Book'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Event } from '../types';
+import { formatEventDate } from '../utils/dateUtils';
+import { toDayKey } from '../utils/recurrence';
+import { Button } from './ui/Button';
+
+export interface RescheduleRequest {
+  event: Event;
+  date: Date;
+  startTime: string;
+  endTime: string;
+}
+
+interface RescheduleConfirmProps {
+  request: RescheduleRequest;
+  bookedCount: number;
+  onConfirm: (notifyCustomers: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const RescheduleConfirm: React.FC<RescheduleConfirmProps> = ({
+  request,
+  bookedCount,
+  onConfirm,
+  onCancel
+}) => {
+  const [notifyCustomers, setNotifyCustomers] = useState(bookedCount > 0);
+  const [saving, setSaving] = useState(false);
+  const { event } = request;
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await onConfirm(notifyCustomers && bookedCount > 0);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="font-medium text-gray-900">{event.name}</p>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+        <div className="p-3 bg-gray-50 rounded-md text-gray-600">
+          <div>{formatEventDate(event.date)}</div>
+          <div>{event.startTime} - {event.endTime}</div>
+        </div>
+        <ArrowRight size={16} className="text-gray-400 hidden sm:block" />
+        <div className="p-3 bg-amber-50 rounded-md text-gray-900">
+          <div>{formatEventDate(request.date)}</div>
+          <div>{request.startTime} - {request.endTime}</div>
+        </div>
+      </div>
+
+      {event.seriesId && toDayKey(request.date) !== toDayKey(event.date) && (
+        <p className="text-xs text-gray-600">Only this event moves. It will be taken out of its series.</p>
+      )}
+
+      {bookedCount > 0 ? (
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={notifyCustomers}
+            onChange={(e) => setNotifyCustomers(e.target.checked)}
+          />
+          <span>
+            Let the {bookedCount} booked customer{bookedCount === 1 ? '' : 's'} know by email and text
+          </span>
+        </label>
+      ) : (
+        <p className="text-sm text-gray-500">No one is booked on this event yet.</p>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleConfirm} loading={saving}>
+          Move Event
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import { staffService, PIN_PATTERN } from '../services/staffService';
+import { EdgeFunctionError } from '../services/edgeFunctions';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+
+interface SetPinModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+export const SetPinModal: React.FC<SetPinModalProps> = ({ isOpen, onClose }) => {
+  const { currentStaff, refreshStaff } = useAuth();
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleClose = () => {
+    setPassword('');
+    setPin('');
+    setConfirmPin('');
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!currentStaff) return;
+    if (pin !== confirmPin) {
+      toast.error('PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Someone walking up to an unlocked tablet shouldn't be able to take over the account,
+      // so the password is checked along with the new PIN
+      await staffService.setPin(password, pin);
+      await refreshStaff();
+      toast.success('PIN saved. You can now unlock with it.');
+      handleClose();
+    } catch (error) {
+      console.error('Error setting PIN:', error);
+      if (error instanceof EdgeFunctionError && error.status === 401) setPassword('');
+      toast.error(error instanceof Error ? error.message : 'Failed to save PIN');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={currentStaff?.hasPin ? 'Change Your PIN' : 'Set Your PIN'} size="sm">
+      <div className="space-y-3 sm:space-y-4">
+        <p className="text-sm text-gray-600">
+          Your PIN unlocks this device as you from the lock screen. Use 4 to 6 digits.
+        </p>
+        <Input
+          label="Your Password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <Input
+          label="New PIN"
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={6}
+          value={pin}
+          onChange={(e) => setPin(digitsOnly(e.target.value))}
+        />
+        <Input
+          label="Confirm PIN"
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={6}
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(digitsOnly(e.target.value))}
+        />
+        <div className="flex flex-col sm:flex-row gap-2 sm:justify-end pt-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            loading={saving}
+            disabled={!password || !PIN_PATTERN.test(pin) || !confirmPin}
+          >
+            Save PIN
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
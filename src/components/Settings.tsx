@@ -11,18 +11,36 @@ import {
   Plus,
   Edit,
   Trash2,
-  Eye,
-  EyeOff,
-  AlertCircle
+  AlertCircle,
+  HardDrive,
+  UserCog,
+  ListOrdered
 } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { Modal } from './ui/Modal';
-import { StudioSettings, EmailTemplate, SMSTemplate } from '../types';
+import { BackupRestorePanel } from './BackupRestorePanel';
+import { SnapshotsPanel } from './SnapshotsPanel';
+import { StaffAccountsPanel } from './StaffAccountsPanel';
+import { IntegrationSecretsPanel } from './IntegrationSecretsPanel';
+import { PieceWorkflowEditor } from './PieceWorkflowEditor';
+import { StudioSettings, EmailTemplate, SMSTemplate, Permission } from '../types';
 import { SettingsService } from '../services/settingsService';
+import { useAuth } from '../context/AuthContext';
 
-type SettingsTab = 'studio' | 'pricing' | 'hours' | 'email' | 'sms' | 'notifications' | 'templates';
+type SettingsTab = 'studio' | 'pricing' | 'hours' | 'email' | 'sms' | 'notifications' | 'templates' | 'workflow' | 'backup' | 'staff';
+
+// Tabs beyond the viewSettings permission that opening Settings already requires
+const TAB_PERMISSIONS: Partial<Record<SettingsTab, Permission>> = {
+  pricing: 'editPricing',
+  workflow: 'manageData',
+  backup: 'manageData',
+  staff: 'manageStaff'
+};
+
+// Tabs that manage their own saving instead of using the shared Save Settings button
+const SELF_SAVING_TABS: SettingsTab[] = ['workflow', 'backup', 'staff'];
 
 interface TemplateFormData {
   templateName: string;
@@ -33,13 +51,13 @@ interface TemplateFormData {
 }
 
 export const Settings: React.FC = () => {
+  const { can, currentStaff, refreshStaff } = useAuth();
   const [activeTab, setActiveTab] = useState<SettingsTab>('studio');
   const [settings, setSettings] = useState<StudioSettings | null>(null);
   const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([]);
   const [smsTemplates, setSMSTemplates] = useState<SMSTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [showPasswordFields, setShowPasswordFields] = useState(false);
   
   // Modal states
   const [showEmailTemplateModal, setShowEmailTemplateModal] = useState(false);
@@ -66,8 +84,8 @@ export const Settings: React.FC = () => {
     loadSettings();
   }, []);
 
-  const loadSettings = async () => {
-    setLoading(true);
+  const loadSettings = async (showLoading = true) => {
+    if (showLoading) setLoading(true);
     try {
       const [studioSettings, emailTemplateData, smsTemplateData] = await Promise.all([
         SettingsService.getStudioSettings(),
@@ -230,7 +248,7 @@ export const Settings: React.FC = () => {
     }
   };
 
-  const tabs: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
+  const allTabs: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
     { id: 'studio', label: 'Studio Info', icon: <Building size={18} /> },
     { id: 'hours', label: 'Business Hours', icon: <Clock size={18} /> },
     { id: 'pricing', label: 'Pricing', icon: <DollarSign size={18} /> },
@@ -238,7 +256,14 @@ export const Settings: React.FC = () => {
     { id: 'sms', label: 'SMS Setup', icon: <MessageSquare size={18} /> },
     { id: 'notifications', label: 'Notifications', icon: <Bell size={18} /> },
     { id: 'templates', label: 'Templates', icon: <Globe size={18} /> },
+    { id: 'workflow', label: 'Piece Stages', icon: <ListOrdered size={18} /> },
+    { id: 'backup', label: 'Backup & Restore', icon: <HardDrive size={18} /> },
+    { id: 'staff', label: 'Staff', icon: <UserCog size={18} /> },
   ];
+  const tabs = allTabs.filter(tab => {
+    const permission = TAB_PERMISSIONS[tab.id];
+    return !permission || can(permission);
+  });
 
   const daysOfWeek = [
     { field: 'mondayHours' as keyof StudioSettings, label: 'Monday' },
@@ -342,6 +367,36 @@ export const Settings: React.FC = () => {
                     placeholder="123 Clay Street, Art District, City, State 12345"
                   />
                 </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                  <Input
+                    label="Keep deleted items for (days)"
+                    type="number"
+                    min="0"
+                    value={formData.trashRetentionDays ?? ''}
+                    onChange={(e) => handleInputChange('trashRetentionDays', parseInt(e.target.value) || 0)}
+                    placeholder="30"
+                    hint="Items in the trash are deleted forever after this many days. Use 0 to keep them until you delete them yourself."
+                  />
+                  <Input
+                    label="Lock shared devices after (minutes idle)"
+                    type="number"
+                    min="0"
+                    value={formData.autoLockMinutes ?? ''}
+                    onChange={(e) => handleInputChange('autoLockMinutes', parseInt(e.target.value) || 0)}
+                    placeholder="5"
+                    hint="Staff unlock again with their PIN. Use 0 to only lock by hand."
+                  />
+                  <Input
+                    label="Kiln shelf volume (cubic inches per load)"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={formData.kilnShelfVolume ?? ''}
+                    onChange={(e) => handleInputChange('kilnShelfVolume', parseFloat(e.target.value) || 0)}
+                    placeholder="6000"
+                    hint="The usable space on the shelves of one full load. The Kilns tab uses it to plan loads."
+                  />
+                </div>
               </div>
             )}
 
@@ -371,7 +426,7 @@ export const Settings: React.FC = () => {
               </div>
             )}
 
-            {activeTab === 'pricing' && (
+            {activeTab === 'pricing' && can('editPricing') && (
               <div className="space-y-4 sm:space-y-6">
                 <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-4">Pricing Settings</h2>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -437,13 +492,6 @@ export const Settings: React.FC = () => {
                         onChange={(e) => handleInputChange('emailjsTemplateId', e.target.value)}
                         placeholder="template_xxxxxxx"
                       />
-                      <Input
-                        label="EmailJS Public Key"
-                        type={showPasswordFields ? 'text' : 'password'}
-                        value={formData.emailjsPublicKey || ''}
-                        onChange={(e) => handleInputChange('emailjsPublicKey', e.target.value)}
-                        placeholder="••••••••••••••••"
-                      />
                       <Input
                         label="From Name"
                         value={formData.emailFromName || ''}
@@ -457,16 +505,7 @@ export const Settings: React.FC = () => {
                         onChange={(e) => handleInputChange('emailReplyTo', e.target.value)}
                         placeholder="replies@claycafe.com"
                       />
-                      <div className="flex items-end">
-                        <Button
-                          variant="outline"
-                          onClick={() => setShowPasswordFields(!showPasswordFields)}
-                          className="flex items-center space-x-2"
-                        >
-                          {showPasswordFields ? <EyeOff size={16} /> : <Eye size={16} />}
-                          <span>{showPasswordFields ? 'Hide' : 'Show'} Keys</span>
-                        </Button>
-                      </div>
+                      <IntegrationSecretsPanel service="email" />
                     </div>
                   )}
                 </div>
@@ -492,25 +531,13 @@ export const Settings: React.FC = () => {
                   
                   {formData.smsServiceEnabled && (
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mt-6">
-                      <Input
-                        label="Twilio Account SID"
-                        value={formData.twilioAccountSid || ''}
-                        onChange={(e) => handleInputChange('twilioAccountSid', e.target.value)}
-                        placeholder="ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
-                      />
-                      <Input
-                        label="Twilio Auth Token"
-                        type={showPasswordFields ? 'text' : 'password'}
-                        value={formData.twilioAuthToken || ''}
-                        onChange={(e) => handleInputChange('twilioAuthToken', e.target.value)}
-                        placeholder="••••••••••••••••••••••••••••••••"
-                      />
                       <Input
                         label="Twilio Phone Number"
                         value={formData.twilioPhoneNumber || ''}
                         onChange={(e) => handleInputChange('twilioPhoneNumber', e.target.value)}
                         placeholder="+1234567890"
                       />
+                      <IntegrationSecretsPanel service="sms" />
                     </div>
                   )}
                 </div>
@@ -695,18 +722,33 @@ export const Settings: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'workflow' && can('manageData') && <PieceWorkflowEditor />}
+
+            {activeTab === 'backup' && can('manageData') && (
+              <div className="space-y-6 sm:space-y-8">
+                <BackupRestorePanel onRestored={() => loadSettings(false)} />
+                <SnapshotsPanel onRestored={() => loadSettings(false)} />
+              </div>
+            )}
+
+            {activeTab === 'staff' && can('manageStaff') && (
+              <StaffAccountsPanel currentStaffId={currentStaff?.id} onChanged={refreshStaff} />
+            )}
+
             {/* Save Button */}
-            <div className="flex justify-end pt-4 sm:pt-6 border-t border-gray-200/50 mt-6 sm:mt-8">
-              <Button
-                variant="primary"
-                onClick={handleSave}
-                loading={saving}
-                className="flex items-center space-x-2 w-full sm:w-auto"
-              >
-                <Save size={16} />
-                <span>Save Settings</span>
-              </Button>
-            </div>
+            {!SELF_SAVING_TABS.includes(activeTab) && (
+              <div className="flex justify-end pt-4 sm:pt-6 border-t border-gray-200/50 mt-6 sm:mt-8">
+                <Button
+                  variant="primary"
+                  onClick={handleSave}
+                  loading={saving}
+                  className="flex items-center space-x-2 w-full sm:w-auto"
+                >
+                  <Save size={16} />
+                  <span>Save Settings</span>
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
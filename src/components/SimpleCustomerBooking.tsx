@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Event, Customer, EventBooking } from '../types';
+import { Event, Customer, EventBooking, NewEventBooking } from '../types';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Search, User, UserCheck, Users } from 'lucide-react';
@@ -8,7 +8,7 @@ interface SimpleCustomerBookingProps {
   event: Event;
   customers: Customer[];
   existingBookings: EventBooking[];
-  onSubmit: (booking: Omit<EventBooking, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSubmit: (booking: NewEventBooking) => void | Promise<void>;
   onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Customer>;
   onRemoveBooking?: (bookingId: string) => void;
   onCancel: () => void;
@@ -42,6 +42,16 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
     return bookedIds;
   }, [existingBookings, event.id]);
 
+  const waitlistPositions = useMemo(() => {
+    const positions = new Map<string, number>();
+    existingBookings.forEach(booking => {
+      if (booking.status === 'waitlisted' && booking.eventId === event.id) {
+        positions.set(booking.customerId, booking.waitlistPosition || 0);
+      }
+    });
+    return positions;
+  }, [existingBookings, event.id]);
+
   // Filter customers by search term
   const filteredCustomers = useMemo(() => {
     if (!searchTerm.trim()) return customers;
@@ -55,11 +65,14 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
 
   // Available spots calculation
   const availableSpots = event.maxCapacity - bookedCustomerIds.size;
+  // Once full, new bookings join the waitlist instead of being turned away
+  const isFull = availableSpots <= 0;
+  const selectionLimit = isFull ? Number.MAX_SAFE_INTEGER : availableSpots;
 
   // Available customers for bulk selection
   const availableCustomers = useMemo(() => {
-    return filteredCustomers.filter(customer => !bookedCustomerIds.has(customer.id));
-  }, [filteredCustomers, bookedCustomerIds]);
+    return filteredCustomers.filter(customer => !bookedCustomerIds.has(customer.id) && !waitlistPositions.has(customer.id));
+  }, [filteredCustomers, bookedCustomerIds, waitlistPositions]);
 
   // Handle individual customer selection in bulk mode
   const handleCustomerToggle = (customerId: string) => {
@@ -69,7 +82,7 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
         newSelected.delete(customerId);
       } else {
         // Check if we have enough spots
-        if (newSelected.size < availableSpots) {
+        if (newSelected.size < selectionLimit) {
           newSelected.add(customerId);
         }
       }
@@ -82,7 +95,7 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
 
   // Select all available customers
   const handleSelectAll = () => {
-    const maxSelectable = Math.min(availableCustomers.length, availableSpots);
+    const maxSelectable = Math.min(availableCustomers.length, selectionLimit);
     const customersToSelect = availableCustomers.slice(0, maxSelectable).map(c => c.id);
     setSelectedCustomerIds(new Set(customersToSelect));
   };
@@ -98,20 +111,13 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
     setSelectedCustomerIds(new Set()); // Clear selections when switching modes
   };
 
-  const handleBookCustomers = () => {
+  const handleBookCustomers = async () => {
     if (selectedCustomerIds.size === 0) return;
     
-    // Submit bookings for all selected customers
-    selectedCustomerIds.forEach(customerId => {
-      const booking = {
-        eventId: event.id,
-        customerId: customerId,
-        bookingDate: new Date(),
-        status: 'confirmed' as EventBooking['status'],
-        notes: ''
-      };
-      onSubmit(booking);
-    });
+    // Submit bookings for all selected customers, one at a time so waitlist positions don't collide
+    for (const customerId of Array.from(selectedCustomerIds)) {
+      await onSubmit({ eventId: event.id, customerId, notes: '', joinWaitlist: isFull });
+    }
     
     setSelectedCustomerIds(new Set());
   };
@@ -137,7 +143,7 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
 
   const handleRemoveCustomer = (customerId: string) => {
     const booking = existingBookings.find(b => 
-      b.customerId === customerId && b.eventId === event.id && b.status === 'confirmed'
+      b.customerId === customerId && b.eventId === event.id && (b.status === 'confirmed' || b.status === 'waitlisted')
     );
     if (booking && onRemoveBooking) {
       onRemoveBooking(booking.id);
@@ -155,176 +161,182 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
         <p className="text-sm font-medium">
           {bookedCustomerIds.size}/{event.maxCapacity} spots filled 
           {availableSpots > 0 && <span className="text-green-600"> ({availableSpots} available)</span>}
+          {waitlistPositions.size > 0 && <span className="text-amber-700"> • {waitlistPositions.size} on waitlist</span>}
         </p>
       </div>
 
-      {availableSpots > 0 && (
-        <>
-          {/* Customer Search */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Search Customers
-            </label>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
-              <Input
-                type="text"
-                placeholder="Search by name, email, or phone..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-          </div>
+      {isFull && (
+        <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg text-center">
+          <p className="text-yellow-800">This event is at full capacity. Customers you add will join the waitlist.</p>
+        </div>
+      )}
 
-          {/* Bulk Mode Toggle */}
-          <div className="flex items-center justify-between">
-            <label className="block text-sm font-medium text-gray-700">
-              {bulkMode ? 'Select Customers to Book' : 'Select Customer to Book'}
-            </label>
-            <div className="flex items-center space-x-2">
-              <Button
-                size="sm"
-                variant={bulkMode ? "primary" : "outline"}
-                onClick={handleToggleBulkMode}
-                className="flex items-center space-x-1"
-              >
-                <Users size={14} />
-                <span>{bulkMode ? 'Bulk Mode' : 'Single Mode'}</span>
-              </Button>
-            </div>
+      {/* Customer Search */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Search Customers
+        </label>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+          <Input
+            type="text"
+            placeholder="Search by name, email, or phone..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      {/* Bulk Mode Toggle */}
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          {isFull
+            ? (bulkMode ? 'Select Customers to Waitlist' : 'Select Customer to Waitlist')
+            : (bulkMode ? 'Select Customers to Book' : 'Select Customer to Book')}
+        </label>
+        <div className="flex items-center space-x-2">
+          <Button
+            size="sm"
+            variant={bulkMode ? "primary" : "outline"}
+            onClick={handleToggleBulkMode}
+            className="flex items-center space-x-1"
+          >
+            <Users size={14} />
+            <span>{bulkMode ? 'Bulk Mode' : 'Single Mode'}</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Bulk Selection Controls */}
+      {bulkMode && availableCustomers.length > 0 && (
+        <div className="flex items-center justify-between bg-gray-50 p-2 rounded">
+          <span className="text-sm text-gray-600">
+            {selectedCustomerIds.size} of {Math.min(availableCustomers.length, selectionLimit)} customers selected
+          </span>
+          <div className="space-x-2">
+            <Button size="sm" variant="outline" onClick={handleSelectAll}>
+              Select All
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleClearAll}>
+              Clear All
+            </Button>
           </div>
+        </div>
+      )}
 
-          {/* Bulk Selection Controls */}
-          {bulkMode && availableCustomers.length > 0 && (
-            <div className="flex items-center justify-between bg-gray-50 p-2 rounded">
-              <span className="text-sm text-gray-600">
-                {selectedCustomerIds.size} of {Math.min(availableCustomers.length, availableSpots)} customers selected
-              </span>
-              <div className="space-x-2">
-                <Button size="sm" variant="outline" onClick={handleSelectAll}>
-                  Select All
-                </Button>
-                <Button size="sm" variant="outline" onClick={handleClearAll}>
-                  Clear All
-                </Button>
-              </div>
+      {/* Customer Selection */}
+      <div>
+        <div className="max-h-80 overflow-y-auto border rounded-lg">
+          {filteredCustomers.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">
+              No customers found
             </div>
-          )}
-
-          {/* Customer Selection */}
-          <div>
-            <div className="max-h-80 overflow-y-auto border rounded-lg">
-              {filteredCustomers.length === 0 ? (
-                <div className="p-4 text-center text-gray-500">
-                  No customers found
-                </div>
-              ) : (
-                filteredCustomers.map(customer => {
-                  const isBooked = bookedCustomerIds.has(customer.id);
-                  return (
-                    <div
-                      key={customer.id}
-                      className={`p-3 border-b last:border-b-0 flex items-center justify-between ${
-                        isBooked ? 'bg-green-50' : 'hover:bg-gray-50 cursor-pointer'
-                      }`}
-                      onClick={!isBooked ? () => handleCustomerToggle(customer.id) : undefined}
-                    >
-                      <div className="flex items-center space-x-3">
-                        <input
-                          type={bulkMode ? "checkbox" : "radio"}
-                          name="customer"
-                          value={customer.id}
-                          checked={selectedCustomerIds.has(customer.id)}
-                          onChange={() => !isBooked && handleCustomerToggle(customer.id)}
-                          disabled={isBooked || (!selectedCustomerIds.has(customer.id) && selectedCustomerIds.size >= availableSpots && bulkMode)}
-                          className="h-4 w-4"
-                        />
-                        <div>
-                          <p className="font-medium">{customer.name}</p>
-                          <p className="text-sm text-gray-600">{customer.email}</p>
-                        </div>
-                      </div>
-                      {isBooked ? (
-                        <div className="flex items-center space-x-2">
+          ) : (
+            filteredCustomers.map(customer => {
+              const waitlistPosition = waitlistPositions.get(customer.id);
+              const isBooked = bookedCustomerIds.has(customer.id) || waitlistPosition !== undefined;
+              return (
+                <div
+                  key={customer.id}
+                  className={`p-3 border-b last:border-b-0 flex items-center justify-between ${
+                    isBooked ? (waitlistPosition !== undefined ? 'bg-amber-50' : 'bg-green-50') : 'hover:bg-gray-50 cursor-pointer'
+                  }`}
+                  onClick={!isBooked ? () => handleCustomerToggle(customer.id) : undefined}
+                >
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type={bulkMode ? "checkbox" : "radio"}
+                      name="customer"
+                      value={customer.id}
+                      checked={selectedCustomerIds.has(customer.id)}
+                      onChange={() => !isBooked && handleCustomerToggle(customer.id)}
+                      disabled={isBooked || (!selectedCustomerIds.has(customer.id) && selectedCustomerIds.size >= selectionLimit && bulkMode)}
+                      className="h-4 w-4"
+                    />
+                    <div>
+                      <p className="font-medium">{customer.name}</p>
+                      <p className="text-sm text-gray-600">{customer.email}</p>
+                    </div>
+                  </div>
+                  {isBooked ? (
+                    <div className="flex items-center space-x-2">
+                      {waitlistPosition !== undefined ? (
+                        <span className="text-sm text-amber-700">Waitlist #{waitlistPosition}</span>
+                      ) : (
+                        <>
                           <UserCheck className="text-green-600" size={16} />
                           <span className="text-sm text-green-600">Booked</span>
-                          {onRemoveBooking && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleRemoveCustomer(customer.id);
-                              }}
-                            >
-                              Remove
-                            </Button>
-                          )}
-                        </div>
-                      ) : (
-                        <User className="text-gray-400" size={16} />
+                        </>
+                      )}
+                      {onRemoveBooking && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRemoveCustomer(customer.id);
+                          }}
+                        >
+                          Remove
+                        </Button>
                       )}
                     </div>
-                  );
-                })
-              )}
-            </div>
-          </div>
-
-          {/* New Customer Form */}
-          {!showNewCustomerForm ? (
-            <Button
-              variant="outline"
-              onClick={() => setShowNewCustomerForm(true)}
-              className="w-full"
-            >
-              Add New Customer
-            </Button>
-          ) : (
-            <div className="bg-gray-50 p-4 rounded-lg space-y-4">
-              <h4 className="font-medium">Add New Customer</h4>
-              <form onSubmit={handleAddNewCustomer} className="space-y-3">
-                <Input
-                  type="text"
-                  placeholder="Full Name *"
-                  value={newCustomerData.name}
-                  onChange={(e) => setNewCustomerData(prev => ({ ...prev, name: e.target.value }))}
-                  required
-                />
-                <Input
-                  type="email"
-                  placeholder="Email *"
-                  value={newCustomerData.email}
-                  onChange={(e) => setNewCustomerData(prev => ({ ...prev, email: e.target.value }))}
-                  required
-                />
-                <Input
-                  type="tel"
-                  placeholder="Phone"
-                  value={newCustomerData.phone}
-                  onChange={(e) => setNewCustomerData(prev => ({ ...prev, phone: e.target.value }))}
-                />
-                <div className="flex space-x-2">
-                  <Button type="submit" size="sm">Add Customer</Button>
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => setShowNewCustomerForm(false)}
-                  >
-                    Cancel
-                  </Button>
+                  ) : (
+                    <User className="text-gray-400" size={16} />
+                  )}
                 </div>
-              </form>
-            </div>
+              );
+            })
           )}
-        </>
-      )}
+        </div>
+      </div>
 
-      {availableSpots === 0 && (
-        <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg text-center">
-          <p className="text-yellow-800">This event is at full capacity</p>
+      {/* New Customer Form */}
+      {!showNewCustomerForm ? (
+        <Button
+          variant="outline"
+          onClick={() => setShowNewCustomerForm(true)}
+          className="w-full"
+        >
+          Add New Customer
+        </Button>
+      ) : (
+        <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+          <h4 className="font-medium">Add New Customer</h4>
+          <form onSubmit={handleAddNewCustomer} className="space-y-3">
+            <Input
+              type="text"
+              placeholder="Full Name *"
+              value={newCustomerData.name}
+              onChange={(e) => setNewCustomerData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+            <Input
+              type="email"
+              placeholder="Email *"
+              value={newCustomerData.email}
+              onChange={(e) => setNewCustomerData(prev => ({ ...prev, email: e.target.value }))}
+              required
+            />
+            <Input
+              type="tel"
+              placeholder="Phone"
+              value={newCustomerData.phone}
+              onChange={(e) => setNewCustomerData(prev => ({ ...prev, phone: e.target.value }))}
+            />
+            <div className="flex space-x-2">
+              <Button type="submit" size="sm">Add Customer</Button>
+              <Button 
+                type="button" 
+                variant="outline" 
+                size="sm"
+                onClick={() => setShowNewCustomerForm(false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
         </div>
       )}
 
@@ -333,9 +345,11 @@ export const SimpleCustomerBooking: React.FC<SimpleCustomerBookingProps> = ({
         <Button variant="outline" onClick={onCancel}>
           Cancel
         </Button>
-        {selectedCustomerIds.size > 0 && availableSpots > 0 && (
+        {selectedCustomerIds.size > 0 && (
           <Button onClick={handleBookCustomers}>
-            {selectedCustomerIds.size === 1 ? 'Book Selected Customer' : `Book ${selectedCustomerIds.size} Customers`}
+            {isFull
+              ? (selectedCustomerIds.size === 1 ? 'Add to Waitlist' : `Waitlist ${selectedCustomerIds.size} Customers`)
+              : (selectedCustomerIds.size === 1 ? 'Book Selected Customer' : `Book ${selectedCustomerIds.size} Customers`)}
           </Button>
         )}
       </div>
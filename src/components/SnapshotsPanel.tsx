@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, RotateCcw, Camera } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from './ui/Button';
+import { database } from '../data/database';
+import { SnapshotInfo, SnapshotReason } from '../data/backup';
+
+interface SnapshotsPanelProps {
+  onRestored: () => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  'scheduled': 'Scheduled',
+  'manual': 'Manual',
+  'before-clear': 'Before clearing data',
+  'before-restore': 'Before restore',
+  'before-bulk-delete': 'Before bulk delete'
+};
+
+const formatSize = (size: number): string =>
+  size < 1024 * 1024 ? `${Math.max(1, Math.round(size / 1024))} KB` : `${(size / (1024 * 1024)).toFixed(1)} MB`;
+
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ onRestored }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const settings = database.getSnapshotSettings();
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await database.listSnapshots());
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      toast.error('Failed to load snapshots');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await database.createSnapshot();
+      await loadSnapshots();
+      toast.success('Snapshot saved');
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      toast.error('Failed to save snapshot');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDownload = async (snapshot: SnapshotInfo) => {
+    setBusyId(snapshot.id);
+    try {
+      const backup = await database.getSnapshot(snapshot.id);
+      if (!backup) {
+        toast.error('Snapshot not found');
+        return;
+      }
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `clay-cafe-snapshot-${format(snapshot.createdAt, 'yyyy-MM-dd-HHmm')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading snapshot:', error);
+      toast.error('Failed to download snapshot');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRollback = async (snapshot: SnapshotInfo) => {
+    const when = format(snapshot.createdAt, 'MMM d, yyyy h:mm a');
+    if (!window.confirm(`Roll back all data to ${when}? Changes made since then will be lost.`)) return;
+
+    setBusyId(snapshot.id);
+    try {
+      await database.rollbackToSnapshot(snapshot.id);
+      toast.success(`Rolled back to ${when}`);
+      await loadSnapshots();
+      onRestored();
+    } catch (error) {
+      console.error('Error rolling back to snapshot:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200/50 pt-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 mb-2">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Automatic Snapshots</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          loading={creating}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <Camera size={14} />
+          <span>Take Snapshot Now</span>
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {settings.autoBackup
+          ? `A snapshot is saved on this device every ${settings.backupIntervalMinutes} minutes when data has changed, and before clearing data, restoring or bulk deleting. The last ${settings.maxBackups} are kept.`
+          : 'Automatic snapshots are turned off. You can still take one manually.'}
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading snapshots...</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">No snapshots yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {snapshots.map(snapshot => (
+            <div
+              key={snapshot.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border border-gray-200 rounded-xl"
+            >
+              <div>
+                <p className="font-medium text-sm text-gray-900">
+                  {format(snapshot.createdAt, 'MMM d, yyyy h:mm a')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {REASON_LABELS[snapshot.reason]} • {snapshot.recordCount} records • {formatSize(snapshot.size)}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDownload(snapshot)}
+                  disabled={busyId !== null}
+                  className="flex items-center space-x-1"
+                >
+                  <Download size={14} />
+                  <span>Download</span>
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleRollback(snapshot)}
+                  loading={busyId === snapshot.id}
+                  disabled={busyId !== null}
+                  className="flex items-center space-x-1"
+                >
+                  <RotateCcw size={14} />
+                  <span>Roll Back</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UserPlus, KeyRound, UserX, UserCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { Modal } from './ui/Modal';
+import { staffService, MIN_PASSWORD_LENGTH } from '../services/staffService';
+import { STAFF_ROLES } from '../constants';
+import { Permission, StaffMember, StaffRole } from '../types';
+
+interface StaffAccountsPanelProps {
+  currentStaffId?: string;
+  // Called after any change, so the signed-in account picks up its own edits
+  onChanged: () => void;
+}
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  viewSettings: 'studio settings',
+  editPricing: 'pricing',
+  manageStaff: 'staff accounts',
+  manageIntegrations: 'email and SMS credentials',
+  manageData: 'backups and piece stages',
+  deleteRecords: 'deleting records',
+  markGlazePaid: 'glaze payments'
+};
+
+const describeRole = (permissions: Permission[]): string =>
+  permissions.length > 0
+    ? `Can manage ${permissions.map(p => PERMISSION_LABELS[p]).join(', ')}`
+    : 'Day-to-day work with customers, pieces and events';
+
+const emptyForm = { name: '', email: '', role: 'instructor' as StaffRole, password: '' };
+
+export const StaffAccountsPanel: React.FC<StaffAccountsPanelProps> = ({ currentStaffId, onChanged }) => {
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  // What each role allows, as the staff-auth function enforces it
+  const [roles, setRoles] = useState<Partial<Record<StaffRole, Permission[]>>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [passwordTarget, setPasswordTarget] = useState<StaffMember | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const directory = await staffService.listMembers();
+      setMembers(directory.members);
+      setRoles(directory.roles);
+    } catch (error) {
+      console.error('Error loading staff accounts:', error);
+      toast.error('Failed to load staff accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const updateMember = async (member: StaffMember, updates: Partial<Pick<StaffMember, 'role' | 'active'>>, message: string) => {
+    setBusyId(member.id);
+    try {
+      await staffService.updateMember(member.id, updates);
+      await loadMembers();
+      onChanged();
+      toast.success(message);
+    } catch (error) {
+      console.error('Error updating staff account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update staff account');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = (member: StaffMember) => {
+    if (member.active && !window.confirm(`Deactivate ${member.name}? They won't be able to sign in.`)) return;
+    updateMember(member, { active: !member.active }, member.active ? `${member.name} deactivated` : `${member.name} reactivated`);
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const member = await staffService.createAccount(form);
+      await loadMembers();
+      setShowAddModal(false);
+      setForm(emptyForm);
+      toast.success(`Account created for ${member.name}`);
+    } catch (error) {
+      console.error('Error creating staff account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create staff account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetPassword = async () => {
+    if (!passwordTarget) return;
+    setSaving(true);
+    try {
+      await staffService.setPassword(passwordTarget.id, newPassword);
+      toast.success(`Password updated for ${passwordTarget.name}`);
+      setPasswordTarget(null);
+      setNewPassword('');
+    } catch (error) {
+      console.error('Error setting password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Staff Accounts</h2>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => setShowAddModal(true)}
+          className="flex items-center space-x-2 w-full sm:w-auto"
+        >
+          <UserPlus size={14} />
+          <span>Add Staff Member</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {STAFF_ROLES.map(role => (
+          <div key={role.value} className="p-3 bg-gray-50 rounded-xl text-sm">
+            <p className="font-medium text-gray-900">{role.label}</p>
+            {roles[role.value] && <p className="text-gray-600">{describeRole(roles[role.value]!)}</p>}
+          </div>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading staff accounts...</p>
+      ) : (
+        <div className="space-y-2">
+          {members.map(member => (
+            <div
+              key={member.id}
+              className={`flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-3 border border-gray-200 rounded-xl ${
+                member.active ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-sm text-gray-900 truncate">
+                  {member.name}
+                  {member.id === currentStaffId && <span className="text-gray-500 font-normal"> (you)</span>}
+                  {!member.active && <span className="text-red-600 font-normal"> • Deactivated</span>}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{member.email}</p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                <div className="sm:w-40">
+                  <Select
+                    options={STAFF_ROLES}
+                    value={member.role}
+                    disabled={busyId === member.id}
+                    onChange={(e) => updateMember(member, { role: e.target.value as StaffRole }, `${member.name} is now ${STAFF_ROLES.find(r => r.value === e.target.value)?.label}`)}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPasswordTarget(member)}
+                  className="flex items-center space-x-1"
+                >
+                  <KeyRound size={14} />
+                  <span>Set Password</span>
+                </Button>
+                <Button
+                  variant={member.active ? 'danger' : 'secondary'}
+                  size="sm"
+                  onClick={() => handleToggleActive(member)}
+                  loading={busyId === member.id}
+                  className="flex items-center space-x-1"
+                >
+                  {member.active ? <UserX size={14} /> : <UserCheck size={14} />}
+                  <span>{member.active ? 'Deactivate' : 'Reactivate'}</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={showAddModal}
+        onClose={() => {
+          setShowAddModal(false);
+          setForm(emptyForm);
+        }}
+        title="Add Staff Member"
+      >
+        <div className="space-y-3 sm:space-y-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <Input
+            label="Email"
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+          />
+          <Select
+            label="Role"
+            options={STAFF_ROLES}
+            value={form.role}
+            onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value as StaffRole }))}
+          />
+          <Input
+            label="Temporary Password"
+            type="text"
+            value={form.password}
+            onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+            hint={`At least ${MIN_PASSWORD_LENGTH} characters. Share it with them in person.`}
+          />
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-end pt-2">
+            <Button variant="outline" onClick={() => setShowAddModal(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleAdd}
+              loading={saving}
+              disabled={!form.name.trim() || !form.email.trim() || form.password.length < MIN_PASSWORD_LENGTH}
+            >
+              Create Account
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!passwordTarget}
+        onClose={() => {
+          setPasswordTarget(null);
+          setNewPassword('');
+        }}
+        title={passwordTarget ? `Set Password for ${passwordTarget.name}` : 'Set Password'}
+        size="sm"
+      >
+        <div className="space-y-3 sm:space-y-4">
+          <Input
+            label="New Password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            hint={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          />
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-end pt-2">
+            <Button variant="outline" onClick={() => setPasswordTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSetPassword}
+              loading={saving}
+              disabled={newPassword.length < MIN_PASSWORD_LENGTH}
+            >
+              Save Password
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
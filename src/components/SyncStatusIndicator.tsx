@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Check } from 'lucide-react';
+import { SyncConflict, SyncStatus } from '../types';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import toast from 'react-hot-toast';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  onSyncNow: () => Promise<void>;
+  onResolveConflict: (conflictId: string, keep: 'local' | 'remote') => Promise<void>;
+}
+
+// Bookkeeping fields that always differ between versions and would only add noise
+const IGNORED_FIELDS = ['updatedAt', 'createdAt'];
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && value.startsWith('data:')) return '[image]';
+  return String(value);
+};
+
+const getChangedFields = (conflict: SyncConflict): string[] => {
+  const local = conflict.localData || {};
+  const remote = conflict.remoteData || {};
+  const fields = Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]));
+  return fields.filter(field =>
+    !IGNORED_FIELDS.includes(field) && formatValue(local[field]) !== formatValue(remote[field])
+  );
+};
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
+  status,
+  onSyncNow,
+  onResolveConflict
+}) => {
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  // Changes stay queued on this device until the server can take them, so say why once
+  useEffect(() => {
+    if (status.error) toast.error(status.error, { id: 'sync-error', duration: 8000 });
+  }, [status.error]);
+
+  const handleSyncNow = async () => {
+    try {
+      await onSyncNow();
+    } catch (error) {
+      toast.error('Sync failed');
+    }
+  };
+
+  const handleResolve = async (conflictId: string, keep: 'local' | 'remote') => {
+    setResolvingId(conflictId);
+    try {
+      await onResolveConflict(conflictId, keep);
+      toast.success(keep === 'local' ? 'Kept this device\'s version' : 'Kept the server version');
+    } catch (error) {
+      toast.error('Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  let statusLabel: string;
+  let statusClasses: string;
+  let StatusIcon = Check;
+
+  if (!status.online) {
+    statusLabel = status.pendingChanges > 0 ? `Offline · ${status.pendingChanges} pending` : 'Offline';
+    statusClasses = 'bg-red-100 text-red-800';
+    StatusIcon = CloudOff;
+  } else if (status.error) {
+    statusLabel = status.pendingChanges > 0 ? `Not saving · ${status.pendingChanges} pending` : 'Not saving';
+    statusClasses = 'bg-red-100 text-red-800';
+    StatusIcon = AlertTriangle;
+  } else if (status.syncing) {
+    statusLabel = 'Syncing...';
+    statusClasses = 'bg-blue-100 text-blue-800';
+    StatusIcon = RefreshCw;
+  } else if (status.pendingChanges > 0) {
+    statusLabel = `${status.pendingChanges} pending`;
+    statusClasses = 'bg-yellow-100 text-yellow-800';
+    StatusIcon = Cloud;
+  } else {
+    statusLabel = 'Synced';
+    statusClasses = 'bg-green-100 text-green-800';
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        type="button"
+        onClick={handleSyncNow}
+        disabled={status.syncing}
+        title={status.error || (status.lastSyncedAt ? `Last synced ${status.lastSyncedAt.toLocaleTimeString()}` : 'Sync now')}
+        className={`flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs font-medium ${statusClasses}`}
+      >
+        <StatusIcon size={14} className={status.syncing ? 'animate-spin' : ''} />
+        <span>{statusLabel}</span>
+      </button>
+
+      {status.conflicts.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowConflicts(true)}
+          className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 hover:bg-amber-200"
+        >
+          <AlertTriangle size={14} />
+          <span>{status.conflicts.length} conflict{status.conflicts.length === 1 ? '' : 's'}</span>
+        </button>
+      )}
+
+      <Modal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        title="Sync Conflicts"
+        size="lg"
+      >
+        {status.conflicts.length === 0 ? (
+          <p className="text-sm text-gray-600">All conflicts have been resolved.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              These records were changed on this device while offline and also changed elsewhere,
+              or the server turned this device's change down. Choose which version to keep.
+            </p>
+            {status.conflicts.map(conflict => {
+              const changedFields = getChangedFields(conflict);
+              return (
+                <div key={conflict.id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <p className="font-semibold text-gray-900 capitalize">{conflict.collection}</p>
+                      <p className="text-xs text-gray-500">Record {conflict.recordId}</p>
+                      {conflict.error && (
+                        <p className="text-xs text-red-600 mt-1">The server turned this change down: {conflict.error}</p>
+                      )}
+                    </div>
+                  </div>
+                  <table className="w-full text-sm mb-3">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-2 font-medium">Field</th>
+                        <th className="py-1 pr-2 font-medium">This device</th>
+                        <th className="py-1 font-medium">Server</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedFields.map(field => (
+                        <tr key={field} className="border-t border-gray-100">
+                          <td className="py-1 pr-2 text-gray-700">{field}</td>
+                          <td className="py-1 pr-2 text-gray-900">{formatValue(conflict.localData?.[field])}</td>
+                          <td className="py-1 text-gray-900">{formatValue(conflict.remoteData?.[field])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      loading={resolvingId === conflict.id}
+                      onClick={() => handleResolve(conflict.id, 'local')}
+                    >
+                      Keep this device
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      loading={resolvingId === conflict.id}
+                      onClick={() => handleResolve(conflict.id, 'remote')}
+                    >
+                      Keep server
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
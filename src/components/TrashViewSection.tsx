@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw } from 'lucide-react';
+import { format, differenceInCalendarDays, addDays } from 'date-fns';
+import { Customer, TrashContents } from '../types';
+import { TrashCollection, database } from '../data/database';
+import { Button } from './ui/Button';
+
+interface TrashViewSectionProps {
+  trash: TrashContents;
+  customers: Customer[];
+  searchTerm: string;
+  onRestore: (collection: TrashCollection, id: string) => void;
+  onPurge: (collection: TrashCollection, id: string) => void;
+}
+
+interface TrashItem {
+  collection: TrashCollection;
+  id: string;
+  title: string;
+  detail: string;
+  deletedAt: Date;
+}
+
+const SECTION_TITLES: Record<TrashCollection, string> = {
+  customers: 'Customers',
+  events: 'Events',
+  pieces: 'Pieces'
+};
+
+export const TrashViewSection: React.FC<TrashViewSectionProps> = ({
+  trash,
+  customers,
+  searchTerm,
+  onRestore,
+  onPurge
+}) => {
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    database.getTrashRetentionDays()
+      .then(setRetentionDays)
+      .catch(error => console.error('Error loading trash retention:', error));
+  }, []);
+
+  const customerName = (customerId: string) =>
+    (customers.find(c => c.id === customerId) || trash.customers.find(c => c.id === customerId))?.name || 'Unknown customer';
+
+  const items: Record<TrashCollection, TrashItem[]> = {
+    customers: trash.customers.map(customer => ({
+      collection: 'customers' as const,
+      id: customer.id,
+      title: customer.name,
+      detail: customer.email || customer.phone || '',
+      deletedAt: new Date(customer.deletedAt!)
+    })),
+    events: trash.events.map(event => ({
+      collection: 'events' as const,
+      id: event.id,
+      title: event.name,
+      detail: format(new Date(event.date), 'MMM d, yyyy'),
+      deletedAt: new Date(event.deletedAt!)
+    })),
+    pieces: trash.pieces.map(piece => ({
+      collection: 'pieces' as const,
+      id: piece.id,
+      title: `${customerName(piece.customerId)}'s piece`,
+      detail: piece.notes || '',
+      deletedAt: new Date(piece.deletedAt!)
+    }))
+  };
+
+  const term = searchTerm.toLowerCase();
+  const matches = (item: TrashItem) =>
+    !term || item.title.toLowerCase().includes(term) || item.detail.toLowerCase().includes(term);
+
+  const purgeNote = (deletedAt: Date) => {
+    if (!retentionDays) return null;
+    const daysLeft = differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date());
+    return daysLeft > 0 ? `deleted forever in ${daysLeft} day${daysLeft === 1 ? '' : 's'}` : 'deleted forever soon';
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    const cascade = item.collection === 'customers'
+      ? ' Their pieces and bookings will be deleted too.'
+      : item.collection === 'events'
+        ? ' Its bookings will be deleted too.'
+        : '';
+    if (window.confirm(`Permanently delete "${item.title}"? This can't be undone.${cascade}`)) {
+      onPurge(item.collection, item.id);
+    }
+  };
+
+  const sections = (Object.keys(SECTION_TITLES) as TrashCollection[])
+    .map(collection => ({ collection, items: items[collection].filter(matches) }))
+    .filter(section => section.items.length > 0);
+
+  if (sections.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-400 mb-4">
+          <Trash2 size={48} />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          Trash is empty
+        </h3>
+        <p className="text-gray-600">
+          {searchTerm ? 'Try adjusting your search terms' : 'Deleted customers, pieces and events show up here until they are purged'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        {retentionDays
+          ? `Items are permanently deleted ${retentionDays} days after they were moved to the trash.`
+          : 'Items stay here until you delete them forever.'}
+      </p>
+
+      {sections.map(section => (
+        <div key={section.collection} className="bg-white rounded-lg shadow p-3 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3">
+            {SECTION_TITLES[section.collection]} ({section.items.length})
+          </h3>
+          <div className="space-y-2">
+            {section.items.map(item => (
+              <div
+                key={item.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border border-gray-200 rounded-xl"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm text-gray-900 truncate">{item.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.detail && `${item.detail} • `}
+                    Deleted {format(item.deletedAt, 'MMM d, yyyy h:mm a')}
+                    {purgeNote(item.deletedAt) && ` • ${purgeNote(item.deletedAt)}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => onRestore(item.collection, item.id)}
+                    className="flex items-center space-x-1"
+                  >
+                    <RotateCcw size={14} />
+                    <span>Restore</span>
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handlePurge(item)}
+                    className="flex items-center space-x-1"
+                  >
+                    <Trash2 size={14} />
+                    <span>Delete Forever</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
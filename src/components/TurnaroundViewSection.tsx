@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Event, Piece } from '../types';
+import { EVENT_TYPES } from '../constants';
+import { usePieceWorkflow } from '../context/PieceWorkflowContext';
+import { getStageColors } from '../utils/pieceWorkflow';
+import { formatStageDuration } from '../utils/stageHistory';
+import {
+  NO_EVENT_KEY,
+  StageStats,
+  TurnaroundGrouping,
+  buildTurnaroundReport,
+  typicalTurnaround
+} from '../utils/turnaround';
+import { Select } from './ui/Select';
+
+interface TurnaroundViewSectionProps {
+  pieces: Piece[];
+  events: Event[];
+}
+
+const GROUPING_OPTIONS: Array<{ value: TurnaroundGrouping; label: string }> = [
+  { value: 'eventType', label: 'Event type' },
+  { value: 'month', label: 'Month the stage started' }
+];
+
+const groupLabel = (grouping: TurnaroundGrouping, key: string): string => {
+  if (grouping === 'month') return format(new Date(`${key}-01T00:00:00`), 'MMMM yyyy');
+  if (key === NO_EVENT_KEY) return 'No event';
+  return EVENT_TYPES.find(type => type.value === key)?.label || key;
+};
+
+export const TurnaroundViewSection: React.FC<TurnaroundViewSectionProps> = ({ pieces, events }) => {
+  const { workflow } = usePieceWorkflow();
+  const [grouping, setGrouping] = useState<TurnaroundGrouping>('eventType');
+
+  const report = useMemo(() => buildTurnaroundReport(pieces, events, grouping), [pieces, events, grouping]);
+
+  // A final stage like Picked Up is never left, so it has no time to measure
+  const timedStages = workflow.stages.filter(stage => stage.transitions.length > 0);
+  const hasData = Object.keys(report.overall).length > 0;
+
+  const renderCell = (stats: StageStats, stageId: string) => {
+    const stageStats = stats[stageId];
+    if (!stageStats) return <span className="text-gray-300">—</span>;
+    return (
+      <div>
+        <p className="font-medium text-gray-900">{formatStageDuration(stageStats.median)}</p>
+        <p className="text-xs text-gray-500">90%: {formatStageDuration(stageStats.p90)}</p>
+        <p className="text-xs text-gray-400">{stageStats.count} piece{stageStats.count === 1 ? '' : 's'}</p>
+      </div>
+    );
+  };
+
+  const renderRow = (key: string, label: string, stats: StageStats, emphasis = false) => {
+    const total = typicalTurnaround(stats, workflow);
+    return (
+      <tr key={key} className={emphasis ? 'bg-blue-50/50' : undefined}>
+        <td className={`px-4 py-3 whitespace-nowrap ${emphasis ? 'font-semibold text-gray-900' : 'font-medium text-gray-700'}`}>{label}</td>
+        {timedStages.map(stage => (
+          <td key={stage.id} className="px-4 py-3 align-top">{renderCell(stats, stage.id)}</td>
+        ))}
+        <td className="px-4 py-3 align-top font-medium text-gray-900 whitespace-nowrap">
+          {total === null ? <span className="text-gray-300">—</span> : formatStageDuration(total)}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Turnaround Times</h2>
+          <p className="text-sm text-gray-600">
+            Median time pieces spend in each stage, with the 90th percentile below it. Only finished stays count.
+          </p>
+        </div>
+        <div className="sm:w-64">
+          <Select
+            label="Break down by"
+            options={GROUPING_OPTIONS}
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as TurnaroundGrouping)}
+          />
+        </div>
+      </div>
+
+      {!hasData ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          Times appear here once pieces have moved through a stage.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3">{grouping === 'month' ? 'Month' : 'Event type'}</th>
+                {timedStages.map(stage => (
+                  <th key={stage.id} className="px-4 py-3 whitespace-nowrap">
+                    <span className="flex items-center space-x-1">
+                      <span className={`w-2 h-2 rounded-full ${getStageColors(workflow, stage.id).dot}`} />
+                      <span>{stage.label}</span>
+                    </span>
+                  </th>
+                ))}
+                <th className="px-4 py-3 whitespace-nowrap">Total to Ready</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {renderRow('all', 'All pieces', report.overall, true)}
+              {report.groups.map(group => renderRow(group.key, groupLabel(grouping, group.key), group.stats))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,37 @@
-export const PIECE_STATUSES = [
-  { value: 'in-progress', label: 'In Progress' },
-  { value: 'bisque-fired', label: 'Bisque Fired' },
-  { value: 'glazed', label: 'Glazed' },
-  { value: 'glaze-fired', label: 'Glaze Fired' },
-  { value: 'ready-for-pickup', label: 'Ready for Pickup' },
-  { value: 'picked-up', label: 'Picked Up' }
+import { Event, FiringType, PieceWorkflow, StageColor, StageNotification, StaffRole } from '../types';
+
+// The piece lifecycle a studio starts with; Settings → Piece Stages saves its own copy
+export const DEFAULT_PIECE_WORKFLOW: PieceWorkflow = {
+  stages: [
+    { id: 'in-progress', label: 'In Progress', color: 'blue', transitions: ['bisque-fired'], firing: 'bisque' },
+    { id: 'bisque-fired', label: 'Bisque Fired', color: 'orange', transitions: ['glazed'], notify: 'ready-to-glaze' },
+    { id: 'glazed', label: 'Glazed', color: 'purple', transitions: ['glaze-fired'], firing: 'glaze' },
+    { id: 'glaze-fired', label: 'Glaze Fired', color: 'indigo', transitions: ['ready-for-pickup'] },
+    { id: 'ready-for-pickup', label: 'Ready for Pickup', color: 'green', transitions: ['picked-up'], notify: 'ready-for-pickup' },
+    { id: 'picked-up', label: 'Picked Up', color: 'gray', transitions: [] }
+  ]
+};
+
+// Written out in full so Tailwind keeps every class a stage can pick
+export const STAGE_COLORS: Record<StageColor, { label: string; badge: string; dot: string }> = {
+  blue: { label: 'Blue', badge: 'bg-blue-100 text-blue-800', dot: 'bg-blue-400' },
+  yellow: { label: 'Yellow', badge: 'bg-yellow-100 text-yellow-800', dot: 'bg-yellow-400' },
+  orange: { label: 'Orange', badge: 'bg-orange-100 text-orange-800', dot: 'bg-orange-400' },
+  red: { label: 'Red', badge: 'bg-red-100 text-red-800', dot: 'bg-red-400' },
+  pink: { label: 'Pink', badge: 'bg-pink-100 text-pink-800', dot: 'bg-pink-400' },
+  purple: { label: 'Purple', badge: 'bg-purple-100 text-purple-800', dot: 'bg-purple-400' },
+  indigo: { label: 'Indigo', badge: 'bg-indigo-100 text-indigo-800', dot: 'bg-indigo-400' },
+  teal: { label: 'Teal', badge: 'bg-teal-100 text-teal-800', dot: 'bg-teal-400' },
+  green: { label: 'Green', badge: 'bg-green-100 text-green-800', dot: 'bg-green-400' },
+  gray: { label: 'Gray', badge: 'bg-gray-100 text-gray-500', dot: 'bg-gray-400' }
+};
+
+export const STAGE_NOTIFICATIONS: Array<{ value: StageNotification; label: string }> = [
+  { value: 'ready-for-pickup', label: 'Ready for pickup' },
+  { value: 'ready-to-glaze', label: 'Ready to glaze' }
 ];
 
 export const STATUS_COLORS = {
-  piece: {
-    'in-progress': 'bg-blue-100 text-blue-800',
-    'bisque-fired': 'bg-orange-100 text-orange-800',
-    'glazed': 'bg-purple-100 text-purple-800',
-    'glaze-fired': 'bg-indigo-100 text-indigo-800',
-    'ready-for-pickup': 'bg-green-100 text-green-800',
-    'picked-up': 'bg-gray-100 text-gray-500'
-  },
   event: {
     'upcoming': 'bg-blue-100 text-blue-800',
     'in-progress': 'bg-yellow-100 text-yellow-800',
@@ -24,11 +40,34 @@ export const STATUS_COLORS = {
   },
   booking: {
     'confirmed': 'bg-green-100 text-green-800',
+    'waitlisted': 'bg-amber-100 text-amber-800',
     'pending': 'bg-yellow-100 text-yellow-800',
     'cancelled': 'bg-red-100 text-red-800'
   }
 } as const;
 
+// Which stages a firing takes pieces from is part of the piece workflow
+export const FIRING_TYPES: Array<{ value: FiringType; label: string; defaultCone: string }> = [
+  { value: 'bisque', label: 'Bisque', defaultCone: '04' },
+  { value: 'glaze', label: 'Glaze', defaultCone: '6' }
+];
+
+export const FIRING_TYPE_COLORS: Record<FiringType, string> = {
+  bisque: 'bg-orange-100 text-orange-800',
+  glaze: 'bg-indigo-100 text-indigo-800'
+};
+
+export const getFiringTypeInfo = (type: FiringType) =>
+  FIRING_TYPES.find(t => t.value === type) || FIRING_TYPES[0];
+
+export const EVENT_TYPES: Array<{ value: Event['type']; label: string }> = [
+  { value: 'workshop', label: 'Workshop' },
+  { value: 'open-studio', label: 'Open Studio' },
+  { value: 'private-party', label: 'Private Party' },
+  { value: 'class', label: 'Class' },
+  { value: 'special-event', label: 'Special Event' }
+];
+
 export const EVENT_TYPE_COLORS = {
   'workshop': 'bg-blue-100 text-blue-800',
   'open-studio': 'bg-green-100 text-green-800',
@@ -38,14 +77,15 @@ export const EVENT_TYPE_COLORS = {
 } as const;
 
 // Helper functions
-export const getStatusColor = (type: 'piece' | 'event' | 'booking', status: string): string => {
+export const getStatusColor = (type: 'event' | 'booking', status: string): string => {
   return STATUS_COLORS[type][status as keyof typeof STATUS_COLORS[typeof type]] || 'bg-gray-100 text-gray-800';
 };
 
-export const getPieceStatusInfo = (status: string) => {
-  const statusInfo = PIECE_STATUSES.find(s => s.value === status) || PIECE_STATUSES[0];
-  return {
-    ...statusInfo,
-    color: getStatusColor('piece', status)
-  };
-};
\ No newline at end of file
+export const STAFF_ROLES: Array<{ value: StaffRole; label: string }> = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'instructor', label: 'Instructor' },
+  { value: 'front-desk', label: 'Front Desk' }
+];
+
+export const getRoleLabel = (role: StaffRole): string =>
+  STAFF_ROLES.find(r => r.value === role)?.label || role;
@@ -1,42 +1,210 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useLayoutEffect, useCallback } from 'react';
+import { database } from '../data/database';
+import { staffService, StaffSession, UnlockFailure } from '../services/staffService';
+import { setStaffSessionToken } from '../services/edgeFunctions';
+import { Permission, StaffMember } from '../types';
+
+export type UnlockResult = 'unlocked' | UnlockFailure;
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (password: string) => boolean;
+  // True until the saved session has been checked against the stored accounts
+  loading: boolean;
+  // No staff accounts exist yet, so the first sign-in creates the owner
+  needsSetup: boolean;
+  // The accounts couldn't be checked, so neither sign-in nor first-time setup is offered as certain
+  accountsError: boolean;
+  currentStaff: StaffMember | null;
+  staffName: string | null;
+  // The device stays signed in behind the lock screen; unlocking with a PIN can switch staff
+  locked: boolean;
+  // Set when the last session ran out rather than being logged out by hand
+  sessionExpired: boolean;
+  login: (email: string, password: string) => Promise<boolean>;
+  setupOwner: (name: string, email: string, password: string) => Promise<void>;
+  lock: () => void;
+  unlock: (staffId: string, pin: string) => Promise<UnlockResult>;
   logout: () => void;
+  can: (permission: Permission) => boolean;
+  refreshStaff: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
-const CORRECT_PASSWORD = 'claycafe2025';
 const AUTH_KEY = 'claycafe_auth';
+// Kept across reloads so refreshing the page doesn't get around the lock screen
+const LOCK_KEY = 'claycafe_locked';
+// Wrong-PIN counts used to be kept here; the server counts them per account now
+const LEGACY_PIN_ATTEMPTS_KEY = 'claycafe_pin_attempts';
+// Left behind by the old shared-password sign-in
+const LEGACY_STAFF_KEY = 'claycafe_staff';
+
+// The member is kept so the app still opens offline; the token is what the server trusts
+const readSession = (): StaffSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(AUTH_KEY) || 'null');
+    if (!session || typeof session.token !== 'string' || typeof session.expiresAt !== 'number' || !session.member) {
+      return null;
+    }
+    // Sessions saved before the server sent permissions allow nothing until the member is refreshed
+    return { ...session, member: { ...session.member, permissions: session.member.permissions || [] } };
+  } catch (error) {
+    // Older versions stored a bare flag or staff id here
+    return null;
+  }
+};
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [currentStaff, setCurrentStaff] = useState<StaffMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [accountsError, setAccountsError] = useState(false);
+  const [locked, setLocked] = useState(() => localStorage.getItem(LOCK_KEY) === 'true');
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  const clearSession = () => {
+    setCurrentStaff(null);
+    setExpiresAt(null);
+    setLocked(false);
+    setStaffSessionToken(null);
+    localStorage.removeItem(AUTH_KEY);
+    localStorage.removeItem(LOCK_KEY);
+  };
 
   useEffect(() => {
-    const savedAuth = localStorage.getItem(AUTH_KEY);
-    if (savedAuth === 'authenticated') {
-      setIsAuthenticated(true);
-    }
+    localStorage.removeItem(LEGACY_STAFF_KEY);
+    localStorage.removeItem(LEGACY_PIN_ATTEMPTS_KEY);
+    const session = readSession();
+
+    const restore = async () => {
+      try {
+        if (!session) {
+          clearSession();
+          setNeedsSetup(!(await staffService.hasAccounts()));
+          return;
+        }
+        if (session.expiresAt <= Date.now()) {
+          clearSession();
+          setSessionExpired(true);
+          return;
+        }
+        setStaffSessionToken(session.token);
+        setCurrentStaff(session.member);
+        setExpiresAt(session.expiresAt);
+        const member = await staffService.getSessionMember();
+        if (member) {
+          setCurrentStaff(member);
+        } else {
+          clearSession();
+        }
+      } catch (error) {
+        // Offline, the saved member stays signed in until the server can be asked again
+        console.error('Error restoring session:', error);
+        if (!session) setAccountsError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    restore();
   }, []);
 
-  const login = (password: string): boolean => {
-    if (password === CORRECT_PASSWORD) {
-      setIsAuthenticated(true);
-      localStorage.setItem(AUTH_KEY, 'authenticated');
-      return true;
-    }
-    return false;
+  // Changes made while signed in are attributed to this name in the audit log. A layout effect, so
+  // it is set before the effects of the pages underneath start writing.
+  useLayoutEffect(() => {
+    database.setActor(currentStaff ? currentStaff.name : null);
+  }, [currentStaff]);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const timer = setTimeout(() => {
+      clearSession();
+      setSessionExpired(true);
+    }, Math.max(0, expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
+
+  // PIN unlocks come back with the device session's expiry, so they don't extend it
+  const signIn = (session: StaffSession) => {
+    setStaffSessionToken(session.token);
+    setCurrentStaff(session.member);
+    setExpiresAt(session.expiresAt);
+    setNeedsSetup(false);
+    setAccountsError(false);
+    setLocked(false);
+    setSessionExpired(false);
+    localStorage.setItem(AUTH_KEY, JSON.stringify(session));
+    localStorage.removeItem(LOCK_KEY);
   };
 
+  const login = async (email: string, password: string): Promise<boolean> => {
+    const session = await staffService.login(email, password);
+    if (!session) return false;
+    signIn(session);
+    return true;
+  };
+
+  const setupOwner = async (name: string, email: string, password: string): Promise<void> => {
+    signIn(await staffService.createFirstOwner({ name, email, password }));
+  };
+
+  const lock = useCallback(() => {
+    setLocked(true);
+    localStorage.setItem(LOCK_KEY, 'true');
+  }, []);
+
   const logout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem(AUTH_KEY);
+    clearSession();
+    setSessionExpired(false);
   };
 
+  // A locked-out member stays out until they sign in with their password; others can still unlock
+  const unlock = async (staffId: string, pin: string): Promise<UnlockResult> => {
+    const result = await staffService.unlock(staffId, pin);
+    if (typeof result === 'string') return result;
+    signIn(result);
+    return 'unlocked';
+  };
+
+  // Picks up role or name changes made to the signed-in account, and signs out if it was deactivated
+  const refreshStaff = useCallback(async () => {
+    if (!currentStaff) return;
+    const member = await staffService.getSessionMember();
+    if (member) {
+      setCurrentStaff(member);
+      const session = readSession();
+      if (session) localStorage.setItem(AUTH_KEY, JSON.stringify({ ...session, member }));
+    } else {
+      clearSession();
+    }
+  }, [currentStaff]);
+
+  // The permissions come from staff-auth, which enforces the same role table on its side
+  const can = useCallback(
+    (permission: Permission) => !!currentStaff && currentStaff.permissions.includes(permission),
+    [currentStaff]
+  );
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated: !!currentStaff,
+        loading,
+        needsSetup,
+        accountsError,
+        currentStaff,
+        staffName: currentStaff ? currentStaff.name : null,
+        locked,
+        sessionExpired,
+        login,
+        setupOwner,
+        lock,
+        unlock,
+        logout,
+        can,
+        refreshStaff
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -48,4 +216,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
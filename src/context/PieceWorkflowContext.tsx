@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { database } from '../data/database';
+import { DEFAULT_PIECE_WORKFLOW } from '../constants';
+import { PieceWorkflow } from '../types';
+
+interface PieceWorkflowContextType {
+  workflow: PieceWorkflow;
+  saveWorkflow: (workflow: PieceWorkflow) => Promise<void>;
+}
+
+const PieceWorkflowContext = createContext<PieceWorkflowContextType | null>(null);
+
+export const PieceWorkflowProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Screens render with the default stages until the studio's own have loaded
+  const [workflow, setWorkflow] = useState<PieceWorkflow>(DEFAULT_PIECE_WORKFLOW);
+
+  useEffect(() => {
+    database.getPieceWorkflow()
+      .then(setWorkflow)
+      .catch(error => console.error('Error loading piece workflow:', error));
+  }, []);
+
+  const saveWorkflow = useCallback(async (updated: PieceWorkflow) => {
+    setWorkflow(await database.updatePieceWorkflow(updated));
+  }, []);
+
+  return (
+    <PieceWorkflowContext.Provider value={{ workflow, saveWorkflow }}>
+      {children}
+    </PieceWorkflowContext.Provider>
+  );
+};
+
+export const usePieceWorkflow = () => {
+  const context = useContext(PieceWorkflowContext);
+  if (!context) {
+    throw new Error('usePieceWorkflow must be used within a PieceWorkflowProvider');
+  }
+  return context;
+};
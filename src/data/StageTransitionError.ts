@@ -0,0 +1,18 @@
+import { StageMove } from '../types';
+
+/**
+ * Thrown when a status change skips stages or goes backwards in the piece workflow and the
+ * caller didn't confirm it. The message describes the move so it can be shown as-is.
+ */
+export class StageTransitionError extends Error {
+  readonly pieceId: string;
+  readonly move: Exclude<StageMove, 'allowed'>;
+
+  constructor(pieceId: string, move: Exclude<StageMove, 'allowed'>, description: string) {
+    super(description);
+    this.name = 'StageTransitionError';
+    this.pieceId = pieceId;
+    this.move = move;
+    Object.setPrototypeOf(this, StageTransitionError.prototype);
+  }
+}
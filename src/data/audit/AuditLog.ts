@@ -0,0 +1,116 @@
+import { AuditAction, AuditChange, AuditEntry } from '../../types';
+import { IStorageAdapter } from '../storage/IStorageAdapter';
+import { idService } from '../../services/idService';
+
+const AUDIT_COLLECTION = 'auditLog';
+
+// Bumped on every write, so recording them would add a change to every entry
+const IGNORED_FIELDS = ['updatedAt', 'version'];
+// Logged as changed without their values
+const SECRET_FIELDS = ['passwordHash', 'passwordSalt', 'pinHash', 'pinSalt'];
+const SECRET_PLACEHOLDER = '[hidden]';
+
+export interface AuditFilter {
+  collection?: string;
+  recordIds?: string[];
+  action?: AuditAction;
+  actor?: string;
+  since?: Date;
+}
+
+const normalizeValue = (value: any): any => {
+  if (value === '' || value === null) return undefined;
+  // Photos are stored inline as data URIs; keep the log readable and small
+  if (typeof value === 'string' && value.startsWith('data:')) return '[image]';
+  return value;
+};
+
+const isSameValue = (a: any, b: any): boolean => {
+  if (a instanceof Date || b instanceof Date) {
+    return a !== undefined && b !== undefined && new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+};
+
+export const diffRecords = (before: Record<string, any> | null, after: Record<string, any> | null): AuditChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+  const changes: AuditChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const oldValue = normalizeValue(before?.[field]);
+    const newValue = normalizeValue(after?.[field]);
+    if (!isSameValue(oldValue, newValue)) {
+      const secret = SECRET_FIELDS.includes(field);
+      changes.push({
+        field,
+        ...(oldValue !== undefined ? { before: secret ? SECRET_PLACEHOLDER : oldValue } : {}),
+        ...(newValue !== undefined ? { after: secret ? SECRET_PLACEHOLDER : newValue } : {})
+      });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Append-only record of who changed what. Entries are written through the same storage
+ * adapter as the data, so they sync and survive offline edits like any other record.
+ * Logging failures are reported but never fail the change being logged.
+ */
+export class AuditLog {
+  private storage: IStorageAdapter;
+  private getActor: () => string;
+
+  constructor(storage: IStorageAdapter, getActor: () => string) {
+    this.storage = storage;
+    this.getActor = getActor;
+  }
+
+  async record(
+    collection: string,
+    action: AuditAction,
+    recordId: string,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): Promise<void> {
+    const changes = diffRecords(before, after);
+    if (action === 'update' && changes.length === 0) return;
+
+    const entry: AuditEntry = {
+      id: idService.generate(),
+      collection,
+      recordId,
+      action,
+      changes,
+      actor: this.getActor(),
+      timestamp: new Date()
+    };
+
+    try {
+      await this.storage.writeOne(AUDIT_COLLECTION, entry.id, entry);
+    } catch (error) {
+      console.error(`Error recording audit entry for ${collection}:${recordId}:`, error);
+    }
+  }
+
+  async getEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const recordIds = filter.recordIds;
+    const entries = recordIds && recordIds.length === 1
+      ? await this.storage.query<AuditEntry>(AUDIT_COLLECTION, { where: { recordId: recordIds[0] } })
+      : await this.storage.read<AuditEntry>(AUDIT_COLLECTION);
+
+    return entries
+      .filter(entry =>
+        (!recordIds || recordIds.includes(entry.recordId)) &&
+        (!filter.collection || entry.collection === filter.collection) &&
+        (!filter.action || entry.action === filter.action) &&
+        (!filter.actor || entry.actor === filter.actor) &&
+        (!filter.since || new Date(entry.timestamp).getTime() >= filter.since.getTime())
+      )
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+}
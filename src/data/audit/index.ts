@@ -0,0 +1,2 @@
+export { AuditLog, diffRecords } from './AuditLog';
+export type { AuditFilter } from './AuditLog';
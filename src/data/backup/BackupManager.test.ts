@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { MemoryAdapter } from '../storage/MemoryAdapter';
+import { BackupManager } from './BackupManager';
+import { BackupFile } from './backupFormat';
+
+const customer = (name: string, version: number, updatedAt: string) => ({
+  id: 'c1',
+  name,
+  email: 'ada@example.com',
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date(updatedAt),
+  version
+});
+
+const backupOf = (customers: Record<string, any>[]): BackupFile => ({
+  format: 'clay-cafe-backup',
+  version: 1,
+  schemaVersion: 1,
+  exportedAt: new Date('2024-03-01'),
+  collections: { customers }
+});
+
+describe('BackupManager restore', () => {
+  let storage: MemoryAdapter;
+  let manager: BackupManager;
+
+  beforeEach(() => {
+    storage = new MemoryAdapter();
+    manager = new BackupManager(storage, 1);
+  });
+
+  it('writes a merged record under a newer version than the one it replaces', async () => {
+    await storage.writeOne('customers', 'c1', customer('Ada', 4, '2024-01-01'));
+
+    await manager.restore(backupOf([customer('Ada Lovelace', 2, '2024-02-01')]), { collections: ['customers'], mode: 'merge' });
+
+    expect(await storage.readOne('customers', 'c1')).toMatchObject({ name: 'Ada Lovelace', version: 5 });
+  });
+
+  it('bumps replaced records but leaves unchanged ones at their version', async () => {
+    const unchanged = { ...customer('Grace', 3, '2024-01-01'), id: 'c2' };
+    await storage.write('customers', [customer('Ada', 4, '2024-01-01'), unchanged]);
+
+    await manager.restore(
+      backupOf([customer('Ada Lovelace', 2, '2024-02-01'), unchanged]),
+      { collections: ['customers'], mode: 'replace' }
+    );
+
+    expect(await storage.readOne('customers', 'c1')).toMatchObject({ name: 'Ada Lovelace', version: 5 });
+    expect(await storage.readOne('customers', 'c2')).toMatchObject({ name: 'Grace', version: 3 });
+  });
+
+  it('keeps the version of records that are new to this studio', async () => {
+    await manager.restore(backupOf([customer('Ada', 2, '2024-02-01')]), { collections: ['customers'], mode: 'merge' });
+
+    expect(await storage.readOne('customers', 'c1')).toMatchObject({ version: 2 });
+  });
+});
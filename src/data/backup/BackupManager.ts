@@ -0,0 +1,164 @@
+import { IStorageAdapter } from '../storage/IStorageAdapter';
+import { versionOf } from '../storage/VersionConflictError';
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BackupCollection,
+  BackupFile,
+  CollectionDiff,
+  RestoreOptions
+} from './backupFormat';
+import { redactSecrets } from './redactSecrets';
+
+interface RestorePlan {
+  diff: CollectionDiff;
+  restored: Record<string, any>[];
+  toWrite: Record<string, any>[];
+  toDelete: string[];
+}
+
+// Event templates were historically keyed by name and may not carry an id of their own
+const getRecordKey = (record: Record<string, any>): string => String(record.id ?? record.name);
+
+const getVersionTime = (record: Record<string, any>): number => {
+  const value = record.updatedAt ?? record.createdAt;
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+// A restored record replaces one that may have been edited since the backup was taken. Writing it
+// under a newer version than either side makes devices holding the current one see the change,
+// rather than later saves passing the version check against the backup's old number.
+const asNewerVersion = (record: Record<string, any>, existing: Record<string, any>): Record<string, any> =>
+  'version' in record || 'version' in existing
+    ? { ...record, version: Math.max(versionOf(record), versionOf(existing)) + 1 }
+    : record;
+
+// Key-order independent comparison; null and missing fields are treated the same
+const stableStringify = (value: any): string => {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== null && value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Exports the studio's data as a portable, versioned JSON document and restores it again,
+ * either wholesale or per collection. Unlike the adapter-level backup/restore, a restore can be
+ * previewed first and can merge into existing data instead of replacing it.
+ */
+export class BackupManager {
+  private storage: IStorageAdapter;
+  private schemaVersion: number;
+
+  constructor(storage: IStorageAdapter, schemaVersion: number) {
+    this.storage = storage;
+    this.schemaVersion = schemaVersion;
+  }
+
+  async export(): Promise<BackupFile> {
+    const collections: BackupFile['collections'] = {};
+    for (const collection of BACKUP_COLLECTIONS) {
+      const records = await this.storage.read<Record<string, any>>(collection);
+      collections[collection] = records.map(record => redactSecrets({ ...record, id: getRecordKey(record) }));
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      schemaVersion: this.schemaVersion,
+      exportedAt: new Date(),
+      collections
+    };
+  }
+
+  private async plan(backup: BackupFile, collection: BackupCollection, options: RestoreOptions): Promise<RestorePlan> {
+    const incoming = backup.collections[collection] || [];
+    const current = await this.storage.read<Record<string, any>>(collection);
+    const currentByKey = new Map<string, Record<string, any>>();
+    current.forEach(record => currentByKey.set(getRecordKey(record), record));
+
+    const diff: CollectionDiff = { collection, added: 0, updated: 0, unchanged: 0, removed: 0 };
+    const restored: Record<string, any>[] = [];
+    const toWrite: Record<string, any>[] = [];
+    const incomingKeys = new Set<string>();
+
+    for (const record of incoming) {
+      const key = getRecordKey(record);
+      incomingKeys.add(key);
+      const existing = currentByKey.get(key);
+
+      if (!existing) {
+        diff.added++;
+        restored.push(record);
+        toWrite.push(record);
+      } else if (stableStringify(existing) === stableStringify(record)) {
+        diff.unchanged++;
+        restored.push(record);
+      } else if (options.mode === 'merge' && getVersionTime(existing) >= getVersionTime(record)) {
+        // Merging keeps whichever side was edited last
+        diff.unchanged++;
+        restored.push(record);
+      } else {
+        diff.updated++;
+        const updated = asNewerVersion(record, existing);
+        restored.push(updated);
+        toWrite.push(updated);
+      }
+    }
+
+    const toDelete = options.mode === 'replace'
+      ? Array.from(currentByKey.keys()).filter(key => !incomingKeys.has(key))
+      : [];
+    diff.removed = toDelete.length;
+
+    return { diff, restored, toWrite, toDelete };
+  }
+
+  private selectedCollections(backup: BackupFile, options: RestoreOptions): BackupCollection[] {
+    return options.collections.filter(collection => backup.collections[collection] !== undefined);
+  }
+
+  /**
+   * Dry run: what a restore with these options would change, without touching any data.
+   */
+  async preview(backup: BackupFile, options: RestoreOptions): Promise<CollectionDiff[]> {
+    const diffs: CollectionDiff[] = [];
+    for (const collection of this.selectedCollections(backup, options)) {
+      diffs.push((await this.plan(backup, collection, options)).diff);
+    }
+    return diffs;
+  }
+
+  async restore(backup: BackupFile, options: RestoreOptions): Promise<CollectionDiff[]> {
+    const diffs: CollectionDiff[] = [];
+
+    for (const collection of this.selectedCollections(backup, options)) {
+      const { diff, restored, toWrite, toDelete } = await this.plan(backup, collection, options);
+
+      try {
+        if (options.mode === 'replace') {
+          // Local adapters replace the collection on write; remote ones upsert, so delete explicitly
+          await this.storage.write(collection, restored);
+          for (const id of toDelete) {
+            await this.storage.deleteOne(collection, id);
+          }
+        } else {
+          for (const record of toWrite) {
+            await this.storage.writeOne(collection, getRecordKey(record), record);
+          }
+        }
+      } catch (error) {
+        throw new Error(`Restoring ${collection} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      diffs.push(diff);
+    }
+
+    return diffs;
+  }
+}
@@ -0,0 +1,135 @@
+import { IStorageAdapter, StorageConfig } from '../storage/IStorageAdapter';
+import { IndexedDBAdapter } from '../storage/IndexedDBAdapter';
+import { idService } from '../../services/idService';
+import { BackupFile, BACKUP_COLLECTIONS } from './backupFormat';
+
+const SNAPSHOT_COLLECTION = 'snapshots';
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'before-clear' | 'before-restore' | 'before-bulk-delete';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: Date;
+  reason: SnapshotReason;
+  recordCount: number;
+  size: number;
+}
+
+interface StoredSnapshot extends SnapshotInfo {
+  checksum: string;
+  backup: BackupFile;
+}
+
+// djb2 over the serialized data; only used to skip scheduled snapshots when nothing changed
+const checksum = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return `${value.length}:${(hash >>> 0).toString(16)}`;
+};
+
+const toInfo = ({ id, createdAt, reason, recordCount, size }: StoredSnapshot): SnapshotInfo => ({
+  id,
+  createdAt,
+  reason,
+  recordCount,
+  size
+});
+
+/**
+ * Keeps rolling point-in-time copies of the studio's data on this device, driven by the local
+ * adapter's StorageConfig (autoBackup, maxBackups, backupIntervalMinutes). Snapshots live in
+ * their own IndexedDB database: localStorage quotas are too small once piece photos are
+ * included, and keeping them apart stops one snapshot from containing the previous ones.
+ */
+export class SnapshotManager {
+  private store: IStorageAdapter;
+  private config: StorageConfig;
+  private createBackup: () => Promise<BackupFile>;
+  private timer: number | null = null;
+
+  constructor(createBackup: () => Promise<BackupFile>, config: StorageConfig) {
+    this.createBackup = createBackup;
+    this.config = {
+      autoBackup: true,
+      maxBackups: 5,
+      backupIntervalMinutes: 60,
+      ...config
+    };
+    this.store = new IndexedDBAdapter({ baseKey: `${config.baseKey || 'clay-cafe'}-snapshots` });
+  }
+
+  get autoBackupEnabled(): boolean {
+    return !!this.config.autoBackup;
+  }
+
+  getSettings(): Pick<StorageConfig, 'autoBackup' | 'maxBackups' | 'backupIntervalMinutes'> {
+    const { autoBackup, maxBackups, backupIntervalMinutes } = this.config;
+    return { autoBackup, maxBackups, backupIntervalMinutes };
+  }
+
+  start(): void {
+    if (!this.config.autoBackup || this.timer !== null || typeof window === 'undefined') return;
+
+    const intervalMs = Math.max(1, this.config.backupIntervalMinutes || 60) * 60 * 1000;
+    this.timer = window.setInterval(() => {
+      this.create('scheduled', true).catch(error => console.error('Scheduled snapshot failed:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async readAll(): Promise<StoredSnapshot[]> {
+    const snapshots = await this.store.read<StoredSnapshot>(SNAPSHOT_COLLECTION);
+    return snapshots.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Take a snapshot now. With skipIfUnchanged, nothing is stored when the data is identical to
+   * the newest snapshot, so an idle studio doesn't push its history out of the retention window.
+   */
+  async create(reason: SnapshotReason, skipIfUnchanged = false): Promise<SnapshotInfo | null> {
+    const backup = await this.createBackup();
+    const serialized = JSON.stringify(backup.collections);
+    const dataChecksum = checksum(serialized);
+
+    const existing = await this.readAll();
+    if (skipIfUnchanged && existing.length > 0 && existing[0].checksum === dataChecksum) {
+      return null;
+    }
+
+    const snapshot: StoredSnapshot = {
+      id: idService.generate(),
+      createdAt: new Date(),
+      reason,
+      recordCount: BACKUP_COLLECTIONS.reduce((sum, collection) => sum + (backup.collections[collection]?.length || 0), 0),
+      size: serialized.length,
+      checksum: dataChecksum,
+      backup
+    };
+    await this.store.writeOne(SNAPSHOT_COLLECTION, snapshot.id, snapshot);
+
+    const maxBackups = Math.max(1, this.config.maxBackups || 5);
+    const expired = [snapshot, ...existing].slice(maxBackups);
+    for (const old of expired) {
+      await this.store.deleteOne(SNAPSHOT_COLLECTION, old.id);
+    }
+
+    return toInfo(snapshot);
+  }
+
+  async list(): Promise<SnapshotInfo[]> {
+    return (await this.readAll()).map(toInfo);
+  }
+
+  async get(id: string): Promise<BackupFile | null> {
+    const snapshot = await this.store.readOne<StoredSnapshot>(SNAPSHOT_COLLECTION, id);
+    return snapshot ? snapshot.backup : null;
+  }
+}
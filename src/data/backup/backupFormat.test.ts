@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import { BACKUP_FORMAT, parseBackup } from './backupFormat';
+
+const customer = (overrides: Record<string, any> = {}) => ({
+  id: 'c1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  checkedIn: false,
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+  ...overrides
+});
+
+const backupJson = (collections: Record<string, any>, overrides: Record<string, any> = {}) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: 1,
+    schemaVersion: 3,
+    exportedAt: '2024-03-05T12:00:00.000Z',
+    collections,
+    ...overrides
+  });
+
+describe('parseBackup', () => {
+  it('rejects text that is not JSON', () => {
+    expect(parseBackup('{oops')).toEqual({ errors: ['File is not valid JSON'] });
+  });
+
+  it('rejects JSON that is not a backup', () => {
+    expect(parseBackup(JSON.stringify({ customers: [] })).errors).toEqual(['File is not a Clay Cafe backup']);
+  });
+
+  it('rejects backups from a newer version of the app', () => {
+    expect(parseBackup(backupJson({}, { version: 2 })).errors).toEqual([
+      'Backup format version 2 is not supported by this version of the app'
+    ]);
+  });
+
+  it('revives dates and turns numeric ids into strings', () => {
+    const { backup, errors } = parseBackup(backupJson({ customers: [customer({ id: 1700000000000 })] }));
+
+    expect(errors).toEqual([]);
+    const [restored] = backup!.collections.customers!;
+    expect(restored.id).toBe('1700000000000');
+    expect(restored.createdAt).toEqual(new Date('2024-03-01T10:00:00.000Z'));
+    expect(backup!.schemaVersion).toBe(3);
+    expect(backup!.exportedAt).toEqual(new Date('2024-03-05T12:00:00.000Z'));
+  });
+
+  it('keeps fields the schema does not know about', () => {
+    const { backup } = parseBackup(backupJson({ customers: [customer({ favouriteGlaze: 'celadon' })] }));
+    expect(backup!.collections.customers![0].favouriteGlaze).toBe('celadon');
+  });
+
+  it('leaves out collections the file does not have', () => {
+    const { backup } = parseBackup(backupJson({ customers: [customer()] }));
+    expect(Object.keys(backup!.collections)).toEqual(['customers']);
+  });
+
+  it('reports each bad field with where it is, and imports nothing', () => {
+    const result = parseBackup(backupJson({
+      customers: [customer({ name: '' }), customer({ createdAt: 'someday' })],
+      eventBookings: [{ id: 'b1', eventId: 'e1', customerId: 'c1', bookingDate: '2024-03-01', status: 'maybe', createdAt: '2024-03-01', updatedAt: '2024-03-01' }],
+      pieces: 'not a list'
+    }));
+
+    expect(result.backup).toBeUndefined();
+    expect(result.errors).toEqual([
+      'customers[0].name: missing',
+      'customers[1].createdAt: expected a date',
+      'pieces: expected a list of records',
+      'eventBookings[0].status: expected one of confirmed, waitlisted, cancelled, no-show'
+    ]);
+  });
+
+  it('lists the first errors and counts the rest', () => {
+    const broken = Array.from({ length: 30 }, (_, index) => customer({ id: `c${index}`, email: undefined }));
+    const { errors } = parseBackup(backupJson({ customers: broken }));
+
+    expect(errors).toHaveLength(26);
+    expect(errors[25]).toBe('...and 5 more');
+  });
+});
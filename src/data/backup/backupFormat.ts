@@ -0,0 +1,265 @@
+export const BACKUP_FORMAT = 'clay-cafe-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const BACKUP_COLLECTIONS = [
+  'customers',
+  'pieces',
+  'events',
+  'eventBookings',
+  'firings',
+  'studioSettings',
+  'eventTemplates',
+  'emailTemplates',
+  'smsTemplates',
+  'notificationHistory'
+] as const;
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  customers: 'Customers',
+  pieces: 'Pieces',
+  events: 'Events',
+  eventBookings: 'Event Bookings',
+  firings: 'Kiln Firings',
+  studioSettings: 'Studio Settings',
+  eventTemplates: 'Event Templates',
+  emailTemplates: 'Email Templates',
+  smsTemplates: 'SMS Templates',
+  notificationHistory: 'Notification History'
+};
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: Date;
+  collections: Partial<Record<BackupCollection, Record<string, any>[]>>;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreOptions {
+  collections: BackupCollection[];
+  mode: RestoreMode;
+}
+
+export interface CollectionDiff {
+  collection: BackupCollection;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'array';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  oneOf?: readonly string[];
+}
+
+const TEMPLATE_TYPES = ['ready_for_pickup', 'glazing_reminder', 'custom'];
+
+const SCHEMAS: Record<BackupCollection, Record<string, FieldRule>> = {
+  customers: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    email: { type: 'string', required: true },
+    phone: { type: 'string' },
+    instagram: { type: 'string' },
+    checkedIn: { type: 'boolean' },
+    createdAt: { type: 'date', required: true },
+    updatedAt: { type: 'date', required: true },
+    deletedAt: { type: 'date' }
+  },
+  pieces: {
+    id: { type: 'string', required: true },
+    customerId: { type: 'string', required: true },
+    eventId: { type: 'string' },
+    status: { type: 'string', required: true }, // A stage id, and each studio defines its own stages
+    cubicInches: { type: 'number' },
+    paidGlaze: { type: 'boolean', required: true },
+    glazeTotal: { type: 'number' },
+    createdAt: { type: 'date', required: true },
+    updatedAt: { type: 'date', required: true },
+    readyForPickupDate: { type: 'date' },
+    pickedUpDate: { type: 'date' },
+    firingHistory: { type: 'array' },
+    stageHistory: { type: 'array' },
+    deletedAt: { type: 'date' }
+  },
+  events: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    date: { type: 'date', required: true },
+    startTime: { type: 'string', required: true },
+    endTime: { type: 'string', required: true },
+    maxCapacity: { type: 'number', required: true },
+    price: { type: 'number', required: true },
+    type: { type: 'string', required: true, oneOf: ['workshop', 'open-studio', 'private-party', 'class', 'special-event'] },
+    status: { type: 'string', required: true, oneOf: ['upcoming', 'in-progress', 'completed', 'cancelled'] },
+    seriesId: { type: 'string' },
+    createdAt: { type: 'date', required: true },
+    updatedAt: { type: 'date', required: true },
+    deletedAt: { type: 'date' }
+  },
+  eventBookings: {
+    id: { type: 'string', required: true },
+    eventId: { type: 'string', required: true },
+    customerId: { type: 'string', required: true },
+    bookingDate: { type: 'date', required: true },
+    status: { type: 'string', required: true, oneOf: ['confirmed', 'waitlisted', 'cancelled', 'no-show'] },
+    waitlistPosition: { type: 'number' },
+    promotedAt: { type: 'date' },
+    createdAt: { type: 'date', required: true },
+    updatedAt: { type: 'date', required: true },
+    deletedAt: { type: 'date' }
+  },
+  studioSettings: {
+    id: { type: 'string', required: true },
+    studioName: { type: 'string' },
+    baseGlazeRate: { type: 'number' },
+    createdAt: { type: 'date' },
+    updatedAt: { type: 'date' }
+  },
+  eventTemplates: {
+    id: { type: 'string', required: true },
+    name: { type: 'string' },
+    maxCapacity: { type: 'number' },
+    price: { type: 'number' }
+  },
+  emailTemplates: {
+    id: { type: 'string', required: true },
+    templateName: { type: 'string', required: true },
+    templateType: { type: 'string', required: true, oneOf: TEMPLATE_TYPES },
+    subjectTemplate: { type: 'string' },
+    bodyTemplate: { type: 'string', required: true },
+    isActive: { type: 'boolean' },
+    availableVariables: { type: 'array' }
+  },
+  smsTemplates: {
+    id: { type: 'string', required: true },
+    templateName: { type: 'string', required: true },
+    templateType: { type: 'string', required: true, oneOf: TEMPLATE_TYPES },
+    messageTemplate: { type: 'string', required: true },
+    isActive: { type: 'boolean' },
+    availableVariables: { type: 'array' }
+  },
+  firings: {
+    id: { type: 'string', required: true },
+    kiln: { type: 'string', required: true },
+    type: { type: 'string', required: true, oneOf: ['bisque', 'glaze'] },
+    cone: { type: 'string', required: true },
+    pieceIds: { type: 'array', required: true },
+    loadDate: { type: 'date', required: true },
+    unloadDate: { type: 'date' },
+    createdAt: { type: 'date', required: true },
+    updatedAt: { type: 'date', required: true }
+  },
+  notificationHistory: {
+    id: { type: 'string', required: true },
+    customerId: { type: 'string', required: true },
+    notificationType: { type: 'string', required: true, oneOf: ['email', 'sms'] },
+    recipient: { type: 'string', required: true },
+    message: { type: 'string', required: true },
+    status: { type: 'string', required: true, oneOf: ['sent', 'failed', 'pending'] },
+    sentAt: { type: 'date' },
+    createdAt: { type: 'date', required: true }
+  }
+};
+
+const MAX_REPORTED_ERRORS = 25;
+
+const coerceField = (value: any, rule: FieldRule): { value: any; error?: string } => {
+  switch (rule.type) {
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value);
+      return isNaN(date.getTime()) ? { value, error: 'expected a date' } : { value: date };
+    }
+    case 'array':
+      return Array.isArray(value) ? { value } : { value, error: 'expected a list' };
+    case 'string':
+      if (typeof value === 'number') return { value: String(value) };
+      if (typeof value !== 'string') return { value, error: 'expected text' };
+      if (rule.oneOf && !rule.oneOf.includes(value)) {
+        return { value, error: `expected one of ${rule.oneOf.join(', ')}` };
+      }
+      return { value };
+    default:
+      return typeof value === rule.type ? { value } : { value, error: `expected a ${rule.type}` };
+  }
+};
+
+/**
+ * Parse and validate an exported backup. Date fields are revived and numeric ids coerced to
+ * strings; anything else that doesn't match the schema is reported rather than imported.
+ */
+export const parseBackup = (json: string): { backup?: BackupFile; errors: string[] } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    return { errors: ['File is not valid JSON'] };
+  }
+
+  if (!raw || raw.format !== BACKUP_FORMAT || typeof raw.collections !== 'object') {
+    return { errors: ['File is not a Clay Cafe backup'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_FORMAT_VERSION) {
+    return { errors: [`Backup format version ${raw.version} is not supported by this version of the app`] };
+  }
+
+  const errors: string[] = [];
+  const collections: BackupFile['collections'] = {};
+
+  for (const collection of BACKUP_COLLECTIONS) {
+    const records = raw.collections[collection];
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      errors.push(`${collection}: expected a list of records`);
+      continue;
+    }
+
+    collections[collection] = records.map((record: any, index: number) => {
+      if (!record || typeof record !== 'object') {
+        errors.push(`${collection}[${index}]: expected a record`);
+        return record;
+      }
+
+      const coerced = { ...record };
+      for (const [field, rule] of Object.entries(SCHEMAS[collection])) {
+        const value = record[field];
+        if (value === undefined || value === null || value === '') {
+          if (rule.required) errors.push(`${collection}[${index}].${field}: missing`);
+          continue;
+        }
+        const result = coerceField(value, rule);
+        if (result.error) {
+          errors.push(`${collection}[${index}].${field}: ${result.error}`);
+        }
+        coerced[field] = result.value;
+      }
+      return coerced;
+    });
+  }
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`] : errors
+    };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0,
+      exportedAt: new Date(raw.exportedAt),
+      collections
+    },
+    errors: []
+  };
+};
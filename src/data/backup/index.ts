@@ -0,0 +1,6 @@
+export { BackupManager } from './BackupManager';
+export { SnapshotManager } from './SnapshotManager';
+export type { SnapshotInfo, SnapshotReason } from './SnapshotManager';
+export { redactSecrets } from './redactSecrets';
+export { parseBackup, BACKUP_COLLECTIONS, BACKUP_COLLECTION_LABELS } from './backupFormat';
+export type { BackupFile, BackupCollection, CollectionDiff, RestoreMode, RestoreOptions } from './backupFormat';
@@ -0,0 +1,41 @@
+// Integration credentials, under every name they have been stored as
+const SECRET_FIELDS = new Set([
+  'twilioAccountSid',
+  'twilioAuthToken',
+  'emailjsPublicKey',
+  'emailjsPrivateKey',
+  'twilio_account_sid',
+  'twilio_auth_token',
+  'emailjs_public_key',
+  'emailjs_private_key'
+]);
+
+const looksLikeJson = (value: string): boolean => /^\s*[[{]/.test(value);
+
+/**
+ * Returns a copy of value with integration credentials removed at any depth, so backups can be
+ * shared without handing out the studio's Twilio or EmailJS keys. Adapter-level dumps keep some
+ * records as JSON strings, so those are parsed and cleaned too.
+ */
+export const redactSecrets = (value: any): any => {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value instanceof Date) return value;
+  if (value && typeof value === 'object') {
+    const clean: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      if (!SECRET_FIELDS.has(key)) clean[key] = redactSecrets(value[key]);
+    });
+    return clean;
+  }
+  if (typeof value === 'string' && looksLikeJson(value)) {
+    try {
+      const parsed = JSON.parse(value);
+      const cleaned = JSON.stringify(redactSecrets(parsed));
+      // Leave strings untouched unless something was actually removed
+      return cleaned === JSON.stringify(parsed) ? value : cleaned;
+    } catch (error) {
+      return value;
+    }
+  }
+  return value;
+};
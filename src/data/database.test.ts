@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { EventBooking } from '../types';
+import { Database } from './database';
+import { MemoryAdapter } from './storage/MemoryAdapter';
+import { SyncingAdapter } from './storage/SyncingAdapter';
+import { VersionConflictError } from './storage/VersionConflictError';
+
+const mockInvokeEdgeFunction = jest.fn<Promise<unknown>, [string, Record<string, unknown>]>();
+
+// The real modules connect to Supabase as soon as they load
+jest.mock('../services/edgeFunctions', () => ({
+  invokeEdgeFunction: (name: string, body: Record<string, unknown>) => mockInvokeEdgeFunction(name, body)
+}));
+jest.mock('../services/settingsService', () => ({ SettingsService: { getStudioSettings: async () => null } }));
+jest.mock('./storage/SupabaseAdapter', () => ({ SupabaseAdapter: class {} }));
+
+const newCustomer = { name: 'Ada', email: 'ada@example.com', checkedIn: false };
+
+describe('Database version checks', () => {
+  let storage: MemoryAdapter;
+  let database: Database;
+
+  beforeEach(() => {
+    // The first use runs the schema migrations, which log what they did
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    storage = new MemoryAdapter();
+    database = new Database(storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('bumps the version on every save', async () => {
+    const customer = await database.addCustomer(newCustomer);
+    expect(customer.version).toBe(1);
+
+    const updated = await database.updateCustomer(customer.id, { name: 'Ada Lovelace' }, 1);
+    expect(updated).toMatchObject({ name: 'Ada Lovelace', version: 2 });
+    expect(await database.getCustomer(customer.id)).toMatchObject({ name: 'Ada Lovelace', version: 2 });
+  });
+
+  it('turns down an edit based on an older version and hands back the stored copy', async () => {
+    const customer = await database.addCustomer(newCustomer);
+    await database.updateCustomer(customer.id, { name: 'Saved elsewhere' }, 1);
+
+    const stale = database.updateCustomer(customer.id, { name: 'Saved here' }, 1);
+
+    await expect(stale).rejects.toBeInstanceOf(VersionConflictError);
+    await expect(stale).rejects.toMatchObject({
+      collection: 'customers',
+      recordIds: [customer.id],
+      current: { name: 'Saved elsewhere', version: 2 }
+    });
+    expect(await database.getCustomer(customer.id)).toMatchObject({ name: 'Saved elsewhere', version: 2 });
+  });
+
+  it('fills in the stored copy when the storage finds the conflict', async () => {
+    const customer = await database.addCustomer(newCustomer);
+    // Saved by another device between Database reading the record and writing it
+    const readOne = storage.readOne.bind(storage);
+    jest.spyOn(storage, 'readOne').mockImplementationOnce(async <T>(collection: string, id: string) => {
+      const record = await readOne<T>(collection, id);
+      await storage.updatePartial(collection, id, { name: 'Saved elsewhere', version: 2 });
+      return record;
+    });
+
+    await expect(database.updateCustomer(customer.id, { name: 'Saved here' }, 1)).rejects.toMatchObject({
+      current: { name: 'Saved elsewhere', version: 2 }
+    });
+  });
+
+  it('saves without a check when no version is given', async () => {
+    const customer = await database.addCustomer(newCustomer);
+    await database.updateCustomer(customer.id, { name: 'Saved elsewhere' }, 1);
+
+    expect(await database.updateCustomer(customer.id, { name: 'Saved here' })).toMatchObject({ name: 'Saved here', version: 3 });
+  });
+
+  it('reports every stale piece in a bulk update and writes none of them', async () => {
+    const customer = await database.addCustomer(newCustomer);
+    const piece = await database.addPiece({ customerId: customer.id, status: 'greenware', cubicInches: 10, paidGlaze: false });
+    const other = await database.addPiece({ customerId: customer.id, status: 'greenware', cubicInches: 12, paidGlaze: false });
+    await database.updatePiece(other.id, { cubicInches: 14 }, 1);
+
+    const bulk = database.updatePiecesBulk([
+      { id: piece.id, data: { paidGlaze: true }, expectedVersion: 1 },
+      { id: other.id, data: { paidGlaze: true }, expectedVersion: 1 }
+    ]);
+
+    await expect(bulk).rejects.toMatchObject({ collection: 'pieces', recordIds: [other.id] });
+    expect((await database.getPiece(piece.id))?.paidGlaze).toBe(false);
+  });
+});
+
+describe('Database waitlist', () => {
+  let storage: MemoryAdapter;
+  let database: Database;
+
+  const booking = (id: string, status: EventBooking['status'], waitlistPosition: number | null = null): EventBooking => ({
+    id,
+    eventId: 'e1',
+    customerId: `customer-${id}`,
+    bookingDate: new Date('2024-03-01T10:00:00Z'),
+    status,
+    waitlistPosition,
+    version: 1,
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:00:00Z')
+  });
+
+  // Stands in for the waitlist function: confirms whoever is first in line
+  const promoteFirstInLine = async (name: string, body: Record<string, unknown>) => {
+    expect(name).toBe('waitlist');
+    expect(body).toEqual({ action: 'promote', eventId: 'e1' });
+    const [first] = await database.getWaitlist('e1');
+    if (!first) return { promotedIds: [] };
+    await storage.updatePartial<EventBooking>('eventBookings', first.id, { status: 'confirmed', waitlistPosition: null });
+    return { promotedIds: [first.id] };
+  };
+
+  // One spot, taken by b1, with b2 first in line. Bookings are made on the server, so they are
+  // put straight into storage here.
+  const setUp = async (adapter: MemoryAdapter | SyncingAdapter) => {
+    database = new Database(adapter);
+    await database.getEvents();
+    await storage.writeOne('events', 'e1', {
+      id: 'e1',
+      name: 'Wheel night',
+      date: new Date('2024-03-10T00:00:00Z'),
+      startTime: '18:00',
+      endTime: '20:00',
+      maxCapacity: 1,
+      price: 30,
+      type: 'workshop',
+      status: 'upcoming',
+      version: 1,
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      updatedAt: new Date('2024-03-01T10:00:00Z')
+    });
+    await storage.writeOne('eventBookings', 'b1', booking('b1', 'confirmed'));
+    await storage.writeOne('eventBookings', 'b2', booking('b2', 'waitlisted', 1));
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    storage = new MemoryAdapter();
+    mockInvokeEdgeFunction.mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('books through the waitlist function and reads the booking back', async () => {
+    await setUp(storage);
+    mockInvokeEdgeFunction.mockImplementation(async () => {
+      await storage.writeOne('eventBookings', 'b3', booking('b3', 'waitlisted', 2));
+      return { bookingId: 'b3' };
+    });
+
+    const added = await database.addEventBooking({ eventId: 'e1', customerId: 'customer-b3', notes: 'Left-handed', joinWaitlist: true });
+
+    expect(mockInvokeEdgeFunction).toHaveBeenCalledWith('waitlist', {
+      action: 'book',
+      eventId: 'e1',
+      customerId: 'customer-b3',
+      notes: 'Left-handed',
+      joinWaitlist: true
+    });
+    expect(added).toMatchObject({ id: 'b3', status: 'waitlisted', waitlistPosition: 2 });
+  });
+
+  it('promotes and reports it whenever a confirmed booking is cancelled', async () => {
+    await setUp(storage);
+    mockInvokeEdgeFunction.mockImplementation(promoteFirstInLine);
+    const listener = jest.fn<void, [EventBooking[]]>();
+    database.subscribeToPromotions(listener);
+
+    await database.updateEventBooking('b1', { status: 'cancelled' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toEqual([expect.objectContaining({ id: 'b2', status: 'confirmed' })]);
+  });
+
+  it('leaves the waitlist alone when the change frees no spot', async () => {
+    await setUp(storage);
+    mockInvokeEdgeFunction.mockImplementation(promoteFirstInLine);
+
+    await database.updateEventBooking('b1', { notes: 'Bringing a friend' });
+    await database.updateEventBooking('b2', { status: 'cancelled' });
+
+    expect(mockInvokeEdgeFunction).not.toHaveBeenCalled();
+  });
+
+  it('promotes when the event gets more room', async () => {
+    await setUp(storage);
+    mockInvokeEdgeFunction.mockImplementation(promoteFirstInLine);
+
+    await database.updateEvent('e1', { maxCapacity: 2 });
+
+    expect((await database.getEventBooking('b2'))?.status).toBe('confirmed');
+  });
+
+  it('moves a removed booking to the trash, promotes, and can bring it back', async () => {
+    await setUp(storage);
+    mockInvokeEdgeFunction.mockImplementation(promoteFirstInLine);
+
+    expect(await database.deleteEventBooking('b1')).toBe(true);
+
+    expect((await storage.readOne<EventBooking>('eventBookings', 'b1'))?.deletedAt).toBeInstanceOf(Date);
+    expect((await database.getBookingsByEvent('e1')).map(b => b.id)).toEqual(['b2']);
+    expect((await database.getEventBooking('b2'))?.status).toBe('confirmed');
+
+    expect(await database.restoreEventBooking('b1')).toBe(true);
+    expect((await database.getBookingsByEvent('e1')).map(b => b.id).sort()).toEqual(['b1', 'b2']);
+  });
+
+  it('promotes once the device is back online if it could not reach the server', async () => {
+    // storage stays the server's copy, which the promotion changes
+    const adapter = new SyncingAdapter(new MemoryAdapter(), storage);
+    await setUp(adapter);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockInvokeEdgeFunction.mockRejectedValueOnce(new Error('Failed to fetch'));
+    mockInvokeEdgeFunction.mockImplementation(promoteFirstInLine);
+    const listener = jest.fn<void, [EventBooking[]]>();
+    database.subscribeToPromotions(listener);
+
+    await database.updateEventBooking('b1', { status: 'cancelled' });
+    expect(listener).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event('offline'));
+    window.dispatchEvent(new Event('online'));
+    await adapter.flush();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    adapter.dispose();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
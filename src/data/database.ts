@@ -1,11 +1,83 @@
-import { Customer, Piece, Event, EventBooking, StudioSettings } from '../types';
+import {
+  Customer,
+  Piece,
+  Event,
+  EventBooking,
+  NewEventBooking,
+  StudioSettings,
+  SyncStatus,
+  AuditEntry,
+  TrashContents,
+  SeriesUpdateResult,
+  Firing,
+  FiringRecord,
+  PieceWorkflow
+} from '../types';
+import { getFiringTypeInfo } from '../constants';
+import {
+  checkStageMove,
+  describeFiringStages,
+  describeStageMove,
+  getFiringStages,
+  getStage,
+  getStageAfterFiring,
+  resolveWorkflow,
+  validateWorkflow
+} from '../utils/pieceWorkflow';
+import { enterStage } from '../utils/stageHistory';
 import { calculateGlazeCost } from '../utils/glazeCalculations';
-import { IStorageAdapter } from './storage/IStorageAdapter';
+import { addDays, daysBetween, generateOccurrenceDates, resolveRecurrence, toDayKey } from '../utils/recurrence';
+import { idService } from '../services/idService';
+import { invokeEdgeFunction } from '../services/edgeFunctions';
+import { SettingsService } from '../services/settingsService';
+import { BulkUpdate, IStorageAdapter, StorageChangeListener } from './storage/IStorageAdapter';
+import { VersionConflictError, versionOf } from './storage/VersionConflictError';
+import { StageTransitionError } from './StageTransitionError';
 import { LocalStorageAdapter } from './storage/LocalStorageAdapter';
 import { SupabaseAdapter } from './storage/SupabaseAdapter';
+import { IndexedDBAdapter } from './storage/IndexedDBAdapter';
+import { SyncingAdapter } from './storage/SyncingAdapter';
+import { MigrationRunner, MigrationReport, MIGRATIONS } from './migrations';
+import { AuditLog, AuditFilter } from './audit';
+import {
+  BackupManager,
+  SnapshotManager,
+  redactSecrets,
+  BACKUP_COLLECTIONS,
+  BackupFile,
+  CollectionDiff,
+  RestoreOptions,
+  SnapshotInfo,
+  SnapshotReason
+} from './backup';
 // import { DataSeeder } from './seeds/DataSeeder';
 
 
+export type RestorableCollection = 'customers' | 'pieces' | 'events' | 'eventBookings';
+
+// Collections the Dashboard keeps live across devices and tabs
+const LIVE_COLLECTIONS = ['customers', 'pieces', 'events', 'eventBookings', 'firings'];
+export type TrashCollection = 'customers' | 'pieces' | 'events';
+
+export interface PieceUpdateOptions {
+  allowAnyStage?: boolean; // Staff confirmed a move that skips stages or goes backwards
+  restoring?: boolean; // Undo and redo: write the status and stage history as given, recording no new move
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Records in the trash stay in storage with a deletedAt marker until purged
+const isActive = (record: { deletedAt?: Date | null }): boolean => !record.deletedAt;
+
+const deletedAtTime = (record: { deletedAt?: Date | null }): number =>
+  record.deletedAt ? new Date(record.deletedAt).getTime() : 0;
+
+// Only a live confirmed booking takes up one of an event's spots
+const holdsSpot = (booking: EventBooking): boolean => booking.status === 'confirmed' && isActive(booking);
+
+export type PromotionListener = (promoted: EventBooking[]) => void;
+
 const defaultStudioSettings: Partial<StudioSettings> = {
   glazeRatePerCubicInch: 0.20,
   defaultTicketPrice: 15
@@ -15,10 +87,25 @@ class Database {
   private storage: IStorageAdapter;
   // private seeder: DataSeeder;
   private initialized = false;
+  private migrationPromise: Promise<MigrationReport> | null = null;
+  private migrationReport: MigrationReport | null = null;
+  private snapshots: SnapshotManager;
+  private audit: AuditLog;
+  private actor: string | null = null;
+  private promotionListeners = new Set<PromotionListener>();
+  // Events whose waitlist couldn't be checked yet, usually because the device was offline
+  private pendingPromotions = new Set<string>();
+  private stopPromotionRetry: (() => void) | null = null;
+  private retryingPromotions = false;
 
   constructor(storageAdapter?: IStorageAdapter) {
     //this.storage = storageAdapter || new LocalStorageAdapter();
-    this.storage = storageAdapter || new SupabaseAdapter();
+    this.storage = storageAdapter || new SyncingAdapter(new IndexedDBAdapter(), new SupabaseAdapter());
+    this.snapshots = new SnapshotManager(
+      () => this.exportBackup(),
+      this.storage.getConfig ? this.storage.getConfig() : {}
+    );
+    this.audit = new AuditLog(this.storage, () => this.actor || 'Unknown');
     // this.seeder = new DataSeeder(this.storage);
   }
 
@@ -27,74 +114,82 @@ class Database {
       // if (!(await this.seeder.isSeeded())) {
       //   await this.seeder.seedAll();
       // }
+      await this.runMigrations();
       this.initialized = true;
     }
   }
 
-  async migrateFromLegacy(): Promise<void> {
-    const legacyKey = 'clay-cafe-database';
-    const legacyData = localStorage.getItem(legacyKey);
-    
-    if (legacyData /* && !(await this.seeder.isSeeded()) */) {
-      try {
-        const parsed = JSON.parse(legacyData);
-        
-        if (parsed.customers) {
-          const customers = parsed.customers.map((c: any) => ({
-            ...c,
-            createdAt: new Date(c.createdAt),
-            updatedAt: new Date(c.updatedAt)
-          }));
-          await this.storage.write('customers', customers);
+  // Schema migrations
+  async runMigrations(): Promise<MigrationReport> {
+    if (!this.migrationPromise) {
+      const runner = new MigrationRunner(this.storage, MIGRATIONS);
+      this.migrationPromise = runner.run().then(report => {
+        this.migrationReport = report;
+        if (report.error) {
+          console.error('Schema migration failed:', report.error);
+        } else if (report.applied.length > 0) {
+          console.log(`Schema migrated from v${report.fromVersion} to v${report.toVersion}:`, report.applied);
         }
+        return report;
+      });
+    }
+    return this.migrationPromise;
+  }
 
-        if (parsed.pieces) {
-          const pieces = parsed.pieces.map((p: any) => ({
-            ...p,
-            createdAt: new Date(p.createdAt),
-            updatedAt: new Date(p.updatedAt),
-            readyForPickupDate: p.readyForPickupDate ? new Date(p.readyForPickupDate) : undefined,
-            pickedUpDate: p.pickedUpDate ? new Date(p.pickedUpDate) : undefined
-          }));
-          await this.storage.write('pieces', pieces);
-        }
+  getMigrationReport(): MigrationReport | null {
+    return this.migrationReport;
+  }
 
-        if (parsed.events) {
-          const events = parsed.events.map((e: any) => ({
-            ...e,
-            date: new Date(e.date),
-            createdAt: new Date(e.createdAt),
-            updatedAt: new Date(e.updatedAt)
-          }));
-          await this.storage.write('events', events);
-        }
+  // Audit trail
+  setActor(actor: string | null): void {
+    this.actor = actor;
+  }
 
-        if (parsed.eventBookings) {
-          const eventBookings = parsed.eventBookings.map((b: any) => ({
-            ...b,
-            bookingDate: new Date(b.bookingDate),
-            createdAt: new Date(b.createdAt),
-            updatedAt: new Date(b.updatedAt)
-          }));
-          await this.storage.write('eventBookings', eventBookings);
-        }
+  async getAuditHistory(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    await this.ensureInitialized();
+    return await this.audit.getEntries(filter);
+  }
 
-        if (parsed.notificationSettings) {
-          await this.storage.writeOne('notificationSettings', 'default', parsed.notificationSettings);
-        }
+  /**
+   * Merge updates onto a record and bump its version. With expectedVersion the write is
+   * conditional: a record saved by someone else since then raises VersionConflictError, carrying
+   * the stored copy so the caller can show both versions.
+   */
+  private async updateVersioned<T extends { id: string; version?: number; updatedAt: Date }>(
+    collection: string,
+    existing: T,
+    updates: Partial<T>,
+    expectedVersion?: number
+  ): Promise<T> {
+    if (expectedVersion !== undefined && versionOf(existing) !== expectedVersion) {
+      throw new VersionConflictError(collection, [existing.id], existing);
+    }
 
-        localStorage.removeItem(legacyKey);
-        this.initialized = true;
-      } catch (error) {
-        console.error('Error migrating legacy data:', error);
+    const versionedUpdates: Partial<T> = { ...updates, version: versionOf(existing) + 1 };
+    const updated: T = { ...existing, ...versionedUpdates, updatedAt: new Date() };
+
+    try {
+      // Use partial update if available (more efficient)
+      if (this.storage.updatePartial) {
+        await this.storage.updatePartial(collection, existing.id, versionedUpdates, expectedVersion);
+      } else {
+        await this.storage.writeOne(collection, existing.id, updated);
+      }
+    } catch (error) {
+      if (error instanceof VersionConflictError && !error.current) {
+        error.current = await this.storage.readOne<T>(collection, existing.id);
       }
+      throw error;
     }
+
+    await this.audit.record(collection, 'update', existing.id, existing, updated);
+    return updated;
   }
 
   // Customer CRUD operations
   async getCustomers(): Promise<Customer[]> {
     await this.ensureInitialized();
-    return await this.storage.read<Customer>('customers');
+    return (await this.storage.read<Customer>('customers')).filter(isActive);
   }
 
   async getCustomer(id: string): Promise<Customer | null> {
@@ -106,53 +201,51 @@ class Database {
     await this.ensureInitialized();
     const newCustomer: Customer = {
       ...customer,
-      id: Date.now().toString(),
+      id: idService.generate(),
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     await this.storage.writeOne('customers', newCustomer.id, newCustomer);
+    await this.audit.record('customers', 'create', newCustomer.id, null, newCustomer);
     return newCustomer;
   }
 
-  async updateCustomer(id: string, updates: Partial<Customer>): Promise<Customer | null> {
+  /**
+   * Pass expectedVersion (the version the edit started from) to have the update rejected with a
+   * VersionConflictError if someone else saved the customer in the meantime.
+   */
+  async updateCustomer(id: string, updates: Partial<Customer>, expectedVersion?: number): Promise<Customer | null> {
     await this.ensureInitialized();
     const existingCustomer = await this.storage.readOne<Customer>('customers', id);
     if (!existingCustomer) return null;
-    
-    const updatedCustomer = {
-      ...existingCustomer,
-      ...updates,
-      updatedAt: new Date()
-    };
-
-    // Use partial update if available (more efficient)
-    if (this.storage.updatePartial) {
-      await this.storage.updatePartial('customers', id, updates);
-    } else {
-      await this.storage.writeOne('customers', id, updatedCustomer);
-    }
-    
-    return updatedCustomer;
+    return await this.updateVersioned('customers', existingCustomer, updates, expectedVersion);
   }
 
   async deleteCustomer(id: string): Promise<boolean> {
     await this.ensureInitialized();
-    const success = await this.storage.deleteOne('customers', id);
-    if (success) {
-      // Also delete associated pieces
-      const pieces = await this.storage.read<Piece>('pieces');
-      const associatedPieces = pieces.filter(p => p.customerId === id);
-      for (const piece of associatedPieces) {
-        await this.storage.deleteOne('pieces', piece.id);
-      }
+    const customer = await this.storage.readOne<Customer>('customers', id);
+    if (!customer || !isActive(customer)) return false;
+
+    // Pieces and bookings share the customer's deletedAt, so restoring brings back exactly these
+    const deletedAt = new Date();
+    await this.moveToTrash('customers', customer, deletedAt);
+    const pieces = await this.storage.query<Piece>('pieces', { where: { customerId: id } });
+    for (const piece of pieces.filter(isActive)) {
+      await this.moveToTrash('pieces', piece, deletedAt);
     }
-    return success;
+    const bookings = await this.storage.query<EventBooking>('eventBookings', { where: { customerId: id } });
+    for (const booking of bookings.filter(isActive)) {
+      await this.moveToTrash('eventBookings', booking, deletedAt);
+    }
+    await this.fillOpenSpots(bookings.filter(holdsSpot).map(booking => booking.eventId));
+    return true;
   }
 
   // Piece CRUD operations
   async getPieces(): Promise<Piece[]> {
     await this.ensureInitialized();
-    return await this.storage.read<Piece>('pieces');
+    return (await this.storage.read<Piece>('pieces')).filter(isActive);
   }
 
   async getPiece(id: string): Promise<Piece | null> {
@@ -161,69 +254,151 @@ class Database {
   }
 
   async getPiecesByCustomer(customerId: string): Promise<Piece[]> {
-    const pieces = await this.getPieces();
-    return pieces.filter(p => p.customerId === customerId);
+    await this.ensureInitialized();
+    return (await this.storage.query<Piece>('pieces', { where: { customerId } })).filter(isActive);
   }
 
   async addPiece(piece: Omit<Piece, 'id' | 'createdAt' | 'updatedAt'>): Promise<Piece> {
     await this.ensureInitialized();
+    const createdAt = new Date();
     const newPiece: Piece = {
       ...piece,
-      id: Date.now().toString(),
-      createdAt: new Date(),
-      updatedAt: new Date()
+      id: idService.generate(),
+      // The starting stage is the first entry in the piece's stage history
+      stageHistory: [{ stage: piece.status, enteredAt: createdAt }],
+      version: 1,
+      createdAt,
+      updatedAt: createdAt
     };
     await this.storage.writeOne('pieces', newPiece.id, newPiece);
+    await this.audit.record('pieces', 'create', newPiece.id, null, newPiece);
     return newPiece;
   }
 
-  async updatePiece(id: string, updates: Partial<Piece>): Promise<Piece | null> {
+  async updatePiece(
+    id: string,
+    updates: Partial<Piece>,
+    expectedVersion?: number,
+    options: PieceUpdateOptions = {}
+  ): Promise<Piece | null> {
     await this.ensureInitialized();
     const existingPiece = await this.storage.readOne<Piece>('pieces', id);
     if (!existingPiece) return null;
-    
-    const updatedPiece = {
-      ...existingPiece,
-      ...updates,
-      updatedAt: new Date()
-    };
+    const stagedUpdates = await this.withStageChange(existingPiece, updates, options);
+    return await this.updateVersioned('pieces', existingPiece, stagedUpdates, expectedVersion);
+  }
 
-    // Use partial update if available (more efficient)
-    if (this.storage.updatePartial) {
-      await this.storage.updatePartial('pieces', id, updates);
-    } else {
-      await this.storage.writeOne('pieces', id, updatedPiece);
+  /**
+   * Checks a status change against the piece workflow and adds what it writes besides the
+   * status: the stage history entry and pickup dates. Skipped and backward moves are refused
+   * unless the caller passes allowAnyStage; restoring writes the stage fields exactly as given.
+   */
+  private async withStageChange(
+    piece: Piece,
+    updates: Partial<Piece>,
+    options: PieceUpdateOptions,
+    workflow?: PieceWorkflow
+  ): Promise<Partial<Piece>> {
+    if (options.restoring || !updates.status || updates.status === piece.status) return updates;
+
+    const stages = workflow || await this.getPieceWorkflow();
+    if (!options.allowAnyStage) {
+      if (!stages.stages.some(stage => stage.id === updates.status)) {
+        throw new Error(`${getStage(stages, updates.status).label} is not a stage in the piece workflow`);
+      }
+      const move = checkStageMove(stages, piece.status, updates.status);
+      if (move !== 'allowed') {
+        throw new StageTransitionError(piece.id, move, describeStageMove(stages, piece.status, updates.status));
+      }
     }
-    
-    return updatedPiece;
+    return { ...updates, ...enterStage(piece, updates.status, stages) };
   }
 
   async deletePiece(id: string): Promise<boolean> {
     await this.ensureInitialized();
-    return await this.storage.deleteOne('pieces', id);
+    const piece = await this.storage.readOne<Piece>('pieces', id);
+    if (!piece || !isActive(piece)) return false;
+    await this.moveToTrash('pieces', piece, new Date());
+    return true;
   }
 
-  async updatePiecesBulk(updates: Array<{id: string, data: Partial<Piece>}>): Promise<Piece[]> {
+  async deletePiecesBulk(ids: string[]): Promise<string[]> {
     await this.ensureInitialized();
+    await this.snapshotBefore('before-bulk-delete');
+
+    const deletedAt = new Date();
+    const deleted: string[] = [];
+    for (const id of ids) {
+      const piece = await this.storage.readOne<Piece>('pieces', id);
+      if (piece && isActive(piece)) {
+        await this.moveToTrash('pieces', piece, deletedAt);
+        deleted.push(id);
+      }
+    }
+    return deleted;
+  }
+
+  async updatePiecesBulk(updates: Array<BulkUpdate<Piece>>, options: PieceUpdateOptions = {}): Promise<Piece[]> {
+    await this.ensureInitialized();
+
+    // Read the current versions first so the audit log has something to diff against
+    const existingPieces = new Map<string, Piece>();
+    for (const { id } of updates) {
+      const existingPiece = await this.storage.readOne<Piece>('pieces', id);
+      if (existingPiece) {
+        existingPieces.set(id, existingPiece);
+      }
+    }
+
+    const staleIds = updates
+      .filter(({ id, expectedVersion }) =>
+        existingPieces.has(id) && expectedVersion !== undefined && versionOf(existingPieces.get(id)) !== expectedVersion
+      )
+      .map(({ id }) => id);
+    if (staleIds.length > 0) {
+      throw new VersionConflictError('pieces', staleIds);
+    }
+
+    // Every status change is checked before anything is written, so one bad move stops the batch
+    const workflow = updates.some(({ data }) => data.status) ? await this.getPieceWorkflow() : undefined;
+    const stagedUpdates: Array<BulkUpdate<Piece>> = [];
+    for (const update of updates) {
+      const existingPiece = existingPieces.get(update.id);
+      stagedUpdates.push(existingPiece
+        ? { ...update, data: await this.withStageChange(existingPiece, update.data, options, workflow) }
+        : update);
+    }
+
+    const versionedUpdates = stagedUpdates.map(update => ({
+      ...update,
+      data: { ...update.data, version: versionOf(existingPieces.get(update.id)) + 1 }
+    }));
     
     if (this.storage.updateBulk) {
       // Use efficient bulk update if available
-      await this.storage.updateBulk('pieces', updates);
+      await this.storage.updateBulk('pieces', versionedUpdates);
     } else {
-      // Fallback to sequential updates
-      await Promise.all(updates.map(({ id, data }) => this.updatePiece(id, data)));
+      // Fallback to sequential updates (updatePiece records its own audit entries). The stage
+      // fields are already in the data, so they are written as they are.
+      await Promise.all(stagedUpdates.map(({ id, data, expectedVersion }) =>
+        this.updatePiece(id, data, expectedVersion, { restoring: true })
+      ));
     }
     
     // Return updated pieces (for optimistic updates)
     const updatedPieces: Piece[] = [];
-    for (const { id, data } of updates) {
-      const existingPiece = await this.storage.readOne<Piece>('pieces', id);
+    for (const { id, data } of versionedUpdates) {
+      const existingPiece = existingPieces.get(id);
       if (existingPiece) {
-        updatedPieces.push({
+        const updatedPiece = {
           ...existingPiece,
           ...data,
           updatedAt: new Date()
-        });
+        };
+        if (this.storage.updateBulk) {
+          await this.audit.record('pieces', 'update', id, existingPiece, updatedPiece);
+        }
+        updatedPieces.push(updatedPiece);
       }
     }
     
@@ -231,10 +406,24 @@ class Database {
   }
 
 
-  // Studio settings
-  async getStudioSettings(): Promise<StudioSettings> {
+  /**
+   * Write deleted records back exactly as they were, for undo. Pass parents before children
+   * (customers and events before their pieces and bookings) so remote foreign keys resolve.
+   */
+  async restoreRecords(records: Array<{ collection: RestorableCollection; record: { id: string; version?: number } }>): Promise<void> {
     await this.ensureInitialized();
-    const settings = await this.storage.readOne<StudioSettings>('studioSettings', 'default');
+    for (const { collection, record } of records) {
+      // Never hand out a version number again, or an edit based on the deleted copy would pass
+      const restored = { ...record, version: versionOf(record) + 1 };
+      await this.storage.writeOne(collection, record.id, restored);
+      await this.audit.record(collection, 'create', record.id, null, restored);
+    }
+  }
+
+  // Studio settings. The Settings screen saves them through SettingsService, so everything here
+  // reads and writes them there too.
+  async getStudioSettings(): Promise<StudioSettings> {
+    const settings = await SettingsService.getStudioSettings();
     
     if (settings) {
       return settings;
@@ -265,13 +454,10 @@ class Database {
       emailServiceEnabled: false,
       emailjsServiceId: '',
       emailjsTemplateId: '',
-      emailjsPublicKey: '',
       emailFromName: 'Clay Cafe',
       emailReplyTo: '',
       
       smsServiceEnabled: false,
-      twilioAccountSid: '',
-      twilioAuthToken: '',
       twilioPhoneNumber: '',
       
       autoNotifyReadyPieces: true,
@@ -282,6 +468,10 @@ class Database {
       currency: 'USD',
       dateFormat: 'MM/dd/yyyy',
       
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+      autoLockMinutes: 5,
+      kilnShelfVolume: 0,
+      
       createdAt: new Date(),
       updatedAt: new Date(),
       
@@ -296,11 +486,34 @@ class Database {
   async updateStudioSettings(settings: Partial<StudioSettings>): Promise<StudioSettings> {
     await this.ensureInitialized();
     const currentSettings = await this.getStudioSettings();
-    const updatedSettings = { ...currentSettings, ...settings };
-    await this.storage.writeOne('studioSettings', 'default', updatedSettings);
+    const updatedSettings = (await SettingsService.updateStudioSettings(settings)) || { ...currentSettings, ...settings };
+    await this.audit.record('studioSettings', 'update', updatedSettings.id, currentSettings, updatedSettings);
     return updatedSettings;
   }
 
+  // Piece workflow. Kept with the rest of the studio settings that the Settings screen edits.
+  async getPieceWorkflow(): Promise<PieceWorkflow> {
+    return resolveWorkflow(await this.getStudioSettings());
+  }
+
+  async updatePieceWorkflow(workflow: PieceWorkflow): Promise<PieceWorkflow> {
+    await this.ensureInitialized();
+    const errors = validateWorkflow(workflow);
+    if (errors.length > 0) throw new Error(errors[0]);
+
+    const current = await this.getPieceWorkflow();
+    const stageIds = workflow.stages.map(stage => stage.id);
+    const stranded = (await this.storage.read<Piece>('pieces')).filter(p => isActive(p) && !stageIds.includes(p.status));
+    if (stranded.length > 0) {
+      const label = getStage(current, stranded[0].status).label;
+      throw new Error(`${stranded.length} piece${stranded.length === 1 ? ' is' : 's are'} still ${label}. Move ${stranded.length === 1 ? 'it' : 'them'} to another stage first.`);
+    }
+
+    await SettingsService.updateStudioSettings({ pieceWorkflow: workflow });
+    await this.audit.record('studioSettings', 'update', 'pieceWorkflow', current, workflow);
+    return workflow;
+  }
+
   async calculateGlazePrice(cubicInches: number): Promise<number> {
     const studioSettings = await this.getStudioSettings();
     return calculateGlazeCost(cubicInches, studioSettings.glazeRatePerCubicInch);
@@ -309,7 +522,7 @@ class Database {
   // Event CRUD operations
   async getEvents(): Promise<Event[]> {
     await this.ensureInitialized();
-    return await this.storage.read<Event>('events');
+    return (await this.storage.read<Event>('events')).filter(isActive);
   }
 
   async getEvent(id: string): Promise<Event | null> {
@@ -321,48 +534,41 @@ class Database {
     await this.ensureInitialized();
     const newEvent: Event = {
       ...event,
-      id: Date.now().toString(),
+      id: idService.generate(),
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     await this.storage.writeOne('events', newEvent.id, newEvent);
+    await this.audit.record('events', 'create', newEvent.id, null, newEvent);
     return newEvent;
   }
 
-  async updateEvent(id: string, updates: Partial<Event>): Promise<Event | null> {
+  async updateEvent(id: string, updates: Partial<Event>, expectedVersion?: number): Promise<Event | null> {
     await this.ensureInitialized();
     const existingEvent = await this.storage.readOne<Event>('events', id);
     if (!existingEvent) return null;
-    
-    const updatedEvent = {
-      ...existingEvent,
-      ...updates,
-      updatedAt: new Date()
-    };
-    await this.storage.writeOne('events', id, updatedEvent);
-    return updatedEvent;
+    const updated = await this.updateVersioned('events', existingEvent, updates, expectedVersion);
+    // More room, or a change of status, moves the waitlist along or tidies it
+    if (updated.maxCapacity > existingEvent.maxCapacity || updated.status !== existingEvent.status) {
+      await this.fillOpenSpots([id]);
+    }
+    return updated;
   }
 
   async deleteEvent(id: string): Promise<boolean> {
     await this.ensureInitialized();
-    const success = await this.storage.deleteOne('events', id);
-    if (success) {
-      // Also delete associated bookings
-      const eventBookings = await this.storage.read<EventBooking>('eventBookings');
-      const associatedBookings = eventBookings.filter(b => b.eventId === id);
-      for (const booking of associatedBookings) {
-        await this.storage.deleteOne('eventBookings', booking.id);
-      }
-      
-      // Update pieces to remove eventId reference
-      const pieces = await this.storage.read<Piece>('pieces');
-      const associatedPieces = pieces.filter(p => p.eventId === id);
-      for (const piece of associatedPieces) {
-        const updatedPiece = { ...piece, eventId: undefined, updatedAt: new Date() };
-        await this.storage.writeOne('pieces', piece.id, updatedPiece);
-      }
+    const event = await this.storage.readOne<Event>('events', id);
+    if (!event || !isActive(event)) return false;
+
+    // Bookings go to the trash with the event; pieces keep their eventId until it is purged
+    const deletedAt = new Date();
+    await this.moveToTrash('events', event, deletedAt);
+    const bookings = await this.storage.query<EventBooking>('eventBookings', { where: { eventId: id } });
+    for (const booking of bookings.filter(isActive)) {
+      await this.moveToTrash('eventBookings', booking, deletedAt);
     }
-    return success;
+    return true;
   }
 
   async duplicateEvent(id: string, newDate?: Date, overrides?: Partial<Event>): Promise<Event> {
@@ -374,24 +580,31 @@ class Database {
 
     const duplicatedEvent: Event = {
       ...originalEvent,
+      // A copy stands on its own rather than joining the original's series
+      seriesId: null,
+      recurrence: null,
       ...overrides,
-      id: Date.now().toString(),
+      id: idService.generate(),
       date: newDate || new Date(originalEvent.date.getTime() + 7 * 24 * 60 * 60 * 1000), // Default to next week
       status: 'upcoming',
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
     await this.storage.writeOne('events', duplicatedEvent.id, duplicatedEvent);
+    await this.audit.record('events', 'create', duplicatedEvent.id, null, duplicatedEvent);
     return duplicatedEvent;
   }
 
   async createEventTemplate(name: string, eventData: Omit<Event, 'id' | 'date' | 'createdAt' | 'updatedAt' | 'status'>): Promise<void> {
-    await this.storage.writeOne('eventTemplates', name, {
+    const template = {
       ...eventData,
       createdAt: new Date(),
       updatedAt: new Date()
-    });
+    };
+    await this.storage.writeOne('eventTemplates', name, template);
+    await this.audit.record('eventTemplates', 'create', name, null, template);
   }
 
   async getEventTemplates(): Promise<Record<string, any>> {
@@ -425,21 +638,137 @@ class Database {
       location: template.location,
       notes: template.notes,
       ...overrides,
-      id: Date.now().toString(),
+      id: idService.generate(),
       date,
       status: 'upcoming',
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
     await this.storage.writeOne('events', newEvent.id, newEvent);
+    await this.audit.record('events', 'create', newEvent.id, null, newEvent);
     return newEvent;
   }
 
+  // Recurring event series
+  async addEventSeries(event: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>): Promise<Event[]> {
+    if (!event.recurrence) return [await this.addEvent(event)];
+
+    const recurrence = resolveRecurrence(event.date, event.recurrence);
+    const seriesId = idService.generate();
+    const created: Event[] = [];
+    for (const date of generateOccurrenceDates(event.date, recurrence)) {
+      created.push(await this.addEvent({ ...event, date, seriesId, recurrence }));
+    }
+    return created;
+  }
+
+  /**
+   * Applies an edit to an occurrence and every later one in its series. The later occurrences
+   * are regenerated from the (possibly new) rule: existing ones that still fall on a generated
+   * date keep their id and bookings, new dates are created, and dates the rule no longer reaches
+   * are trashed, unless someone is booked on them. Earlier occurrences split off into their own
+   * series ending the day before. Trashed occurrences hold their date so a deleted session
+   * doesn't come back.
+   */
+  async updateEventSeries(id: string, updates: Partial<Event>): Promise<SeriesUpdateResult> {
+    await this.ensureInitialized();
+    const anchor = await this.storage.readOne<Event>('events', id);
+    if (!anchor) throw new Error('Event not found');
+
+    const result: SeriesUpdateResult = { updated: [], created: [], removed: [], detached: [] };
+    const shift = updates.date ? daysBetween(anchor.date, updates.date) : 0;
+    const start = addDays(anchor.date, shift);
+    const requested = updates.recurrence !== undefined ? updates.recurrence : anchor.recurrence;
+    const recurrence = requested ? resolveRecurrence(start, requested) : null;
+
+    const members = anchor.seriesId
+      ? await this.storage.query<Event>('events', { where: { seriesId: anchor.seriesId }, orderBy: { field: 'date' } })
+      : [anchor];
+    const anchorKey = toDayKey(anchor.date);
+    const earlier = members.filter(event => toDayKey(event.date) < anchorKey);
+    const later = members.filter(event => toDayKey(event.date) >= anchorKey);
+
+    for (const event of earlier) {
+      if (!isActive(event) || !event.recurrence) continue;
+      await this.updateEvent(event.id, { recurrence: { ...event.recurrence, until: addDays(anchor.date, -1) } });
+    }
+
+    const seriesId = !recurrence ? null : earlier.length > 0 || !anchor.seriesId ? idService.generate() : anchor.seriesId;
+    // Status belongs to a single session; everything else carries across the series
+    const { date: _date, status, ...shared } = updates;
+    const pending = new Map<string, Date>();
+    (recurrence ? generateOccurrenceDates(start, recurrence) : [start]).forEach(date => pending.set(toDayKey(date), date));
+
+    for (const event of later) {
+      const date = addDays(event.date, shift);
+      const key = toDayKey(date);
+      const isAnchor = event.id === anchor.id;
+
+      if (isAnchor || pending.has(key) || !isActive(event)) {
+        pending.delete(key);
+        const saved = await this.updateEvent(event.id, {
+          ...shared,
+          ...(isAnchor && status ? { status } : {}),
+          date,
+          seriesId,
+          recurrence
+        });
+        if (saved && isActive(saved)) result.updated.push(saved);
+        continue;
+      }
+
+      const bookings = await this.getBookingsByEvent(event.id);
+      if (bookings.some(b => b.status === 'confirmed' || b.status === 'waitlisted')) {
+        const kept = await this.updateEvent(event.id, { seriesId: null, recurrence: null });
+        if (kept) result.detached.push(kept);
+      } else if (await this.deleteEvent(event.id)) {
+        result.removed.push(event);
+      }
+    }
+
+    const template = { ...anchor, ...shared };
+    const remaining = Array.from(pending.values());
+    for (let i = 0; i < remaining.length; i++) {
+      result.created.push(await this.addEvent({
+        ...template,
+        date: remaining[i],
+        status: 'upcoming',
+        seriesId,
+        recurrence,
+        deletedAt: null
+      }));
+    }
+    return result;
+  }
+
+  /**
+   * Saves changes to one occurrence of a series. Moving it to another day takes it out of the
+   * series, and its old date becomes an exception so later series edits don't fill it back in.
+   */
+  async detachOccurrence(id: string, updates: Partial<Event>): Promise<Event | null> {
+    await this.ensureInitialized();
+    const event = await this.storage.readOne<Event>('events', id);
+    if (!event) return null;
+
+    if (event.seriesId) {
+      const members = await this.storage.query<Event>('events', { where: { seriesId: event.seriesId } });
+      for (const member of members) {
+        if (member.id === id || !member.recurrence) continue;
+        const rule = member.recurrence;
+        await this.updateEvent(member.id, {
+          recurrence: { ...rule, exceptions: [...(rule.exceptions || []), event.date] }
+        });
+      }
+    }
+    return await this.updateEvent(id, { ...updates, seriesId: null, recurrence: null });
+  }
+
   // Event Booking CRUD operations
   async getEventBookings(): Promise<EventBooking[]> {
     await this.ensureInitialized();
-    return await this.storage.read<EventBooking>('eventBookings');
+    return (await this.storage.read<EventBooking>('eventBookings')).filter(isActive);
   }
 
   async getEventBooking(id: string): Promise<EventBooking | null> {
@@ -448,101 +777,546 @@ class Database {
   }
 
   async getBookingsByEvent(eventId: string): Promise<EventBooking[]> {
-    const eventBookings = await this.getEventBookings();
-    return eventBookings.filter(b => b.eventId === eventId);
+    await this.ensureInitialized();
+    return (await this.storage.query<EventBooking>('eventBookings', { where: { eventId } })).filter(isActive);
   }
 
   async getBookingsByCustomer(customerId: string): Promise<EventBooking[]> {
-    const eventBookings = await this.getEventBookings();
-    return eventBookings.filter(b => b.customerId === customerId);
+    await this.ensureInitialized();
+    return (await this.storage.query<EventBooking>('eventBookings', { where: { customerId } })).filter(isActive);
   }
 
-  async addEventBooking(booking: Omit<EventBooking, 'id' | 'createdAt' | 'updatedAt'>): Promise<EventBooking> {
+  /**
+   * Books a customer through the `waitlist` edge function, which counts the spots with the event
+   * locked, so a staff booking can't take the same last spot as an online one. Needs a
+   * connection; the server records the booking in the audit log.
+   */
+  async addEventBooking(booking: NewEventBooking): Promise<EventBooking> {
     await this.ensureInitialized();
-    const newBooking: EventBooking = {
-      ...booking,
-      id: Date.now().toString(),
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    await this.storage.writeOne('eventBookings', newBooking.id, newBooking);
-    
+    const { bookingId } = await invokeEdgeFunction<{ bookingId: string }>('waitlist', {
+      action: 'book',
+      eventId: booking.eventId,
+      customerId: booking.customerId,
+      notes: booking.notes || '',
+      joinWaitlist: !!booking.joinWaitlist
+    });
+    const newBooking = await this.storage.readOne<EventBooking>('eventBookings', bookingId);
+    if (!newBooking) throw new Error('The booking was made but could not be loaded. Refresh to see it.');
     return newBooking;
   }
 
-  async updateEventBooking(id: string, updates: Partial<EventBooking>): Promise<EventBooking | null> {
+  async updateEventBooking(id: string, updates: Partial<EventBooking>, expectedVersion?: number): Promise<EventBooking | null> {
     await this.ensureInitialized();
     const existingBooking = await this.storage.readOne<EventBooking>('eventBookings', id);
     if (!existingBooking) return null;
-    
-    const updatedBooking = {
-      ...existingBooking,
-      ...updates,
-      updatedAt: new Date()
-    };
-    await this.storage.writeOne('eventBookings', id, updatedBooking);
-    return updatedBooking;
+    const updated = await this.updateVersioned('eventBookings', existingBooking, updates, expectedVersion);
+    if (holdsSpot(existingBooking) && !holdsSpot(updated)) {
+      await this.fillOpenSpots([updated.eventId]);
+    }
+    return updated;
   }
 
+  // Removed bookings go to the trash like everything else, and are purged with it
   async deleteEventBooking(id: string): Promise<boolean> {
     await this.ensureInitialized();
     const booking = await this.storage.readOne<EventBooking>('eventBookings', id);
-    if (!booking) return false;
-    
-    const success = await this.storage.deleteOne('eventBookings', id);
-    
+    if (!booking || !isActive(booking)) return false;
+
+    await this.moveToTrash('eventBookings', booking, new Date());
+    if (holdsSpot(booking)) {
+      await this.fillOpenSpots([booking.eventId]);
+    }
+    return true;
+  }
+
+  // Undoes deleteEventBooking
+  async restoreEventBooking(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const booking = await this.storage.readOne<EventBooking>('eventBookings', id);
+    if (!booking || isActive(booking)) return false;
+    await this.takeOutOfTrash('eventBookings', booking);
+    return true;
+  }
+
+  async getWaitlist(eventId: string): Promise<EventBooking[]> {
+    const bookings = await this.getBookingsByEvent(eventId);
+    return bookings
+      .filter(b => b.status === 'waitlisted')
+      .sort((a, b) =>
+        (a.waitlistPosition || Number.MAX_SAFE_INTEGER) - (b.waitlistPosition || Number.MAX_SAFE_INTEGER) ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+  }
+
+  /**
+   * Moves waitlisted bookings into any open spots, first in line first, and closes the gaps in
+   * the remaining positions. Returns the bookings that were confirmed.
+   *
+   * The `waitlist` edge function does the counting and promoting with the event locked, so it
+   * can't race an online booking for the last spot.
+   */
+  async promoteFromWaitlist(eventId: string): Promise<EventBooking[]> {
+    await this.ensureInitialized();
+    // Reading pushes queued changes first, so the server sees the drop-out that freed the spot
+    await this.getBookingsByEvent(eventId);
+
+    const { promotedIds } = await invokeEdgeFunction<{ promotedIds: string[] }>('waitlist', { action: 'promote', eventId });
+    const promoted: EventBooking[] = [];
+    for (const id of promotedIds) {
+      const booking = await this.storage.readOne<EventBooking>('eventBookings', id);
+      if (booking) promoted.push(booking);
+    }
+    return promoted;
+  }
+
+  // Told about every promotion, whichever change freed the spot, so customers can be notified
+  subscribeToPromotions(listener: PromotionListener): () => void {
+    this.promotionListeners.add(listener);
+    return () => {
+      this.promotionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Runs after every write that frees a spot or changes an event, so no screen has to remember
+   * to. Events that can't be checked now, e.g. while offline, are tried again once the device
+   * comes back online with nothing queued, so the server has seen the change first. Only that
+   * change of status retries, so a server that keeps failing isn't asked in a loop.
+   */
+  private async fillOpenSpots(eventIds: string[]): Promise<void> {
+    for (const eventId of Array.from(new Set(eventIds))) {
+      try {
+        const promoted = await this.promoteFromWaitlist(eventId);
+        this.pendingPromotions.delete(eventId);
+        if (promoted.length > 0) {
+          this.promotionListeners.forEach(listener => listener(promoted));
+        }
+      } catch (error) {
+        console.error(`Checking the waitlist for ${eventId} failed, will retry:`, error);
+        this.pendingPromotions.add(eventId);
+      }
+    }
+
+    if (this.pendingPromotions.size === 0) {
+      if (this.stopPromotionRetry) this.stopPromotionRetry();
+      this.stopPromotionRetry = null;
+    } else if (!this.stopPromotionRetry) {
+      let waiting = false;
+      this.stopPromotionRetry = this.subscribeToSyncStatus(status => {
+        if (!status.online || status.pendingChanges > 0) {
+          waiting = true;
+          return;
+        }
+        if (!waiting || status.syncing || this.retryingPromotions) return;
+        waiting = false;
+        this.retryingPromotions = true;
+        this.fillOpenSpots(Array.from(this.pendingPromotions))
+          .finally(() => { this.retryingPromotions = false; });
+      });
+    }
+  }
+
+  // Kiln firings
+  async getFirings(): Promise<Firing[]> {
+    await this.ensureInitialized();
+    return await this.storage.read<Firing>('firings');
+  }
+
+  async addFiring(firing: Omit<Firing, 'id' | 'createdAt' | 'updatedAt'>): Promise<Firing> {
+    await this.ensureInitialized();
+    await this.checkLoadable(firing.type, firing.pieceIds);
+    const newFiring: Firing = {
+      ...firing,
+      id: idService.generate(),
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await this.storage.writeOne('firings', newFiring.id, newFiring);
+    await this.audit.record('firings', 'create', newFiring.id, null, newFiring);
+    return newFiring;
+  }
+
+  async updateFiring(id: string, updates: Partial<Firing>): Promise<Firing | null> {
+    await this.ensureInitialized();
+    const existingFiring = await this.storage.readOne<Firing>('firings', id);
+    if (!existingFiring) return null;
+    if (updates.pieceIds || updates.type) {
+      await this.checkLoadable(updates.type || existingFiring.type, updates.pieceIds || existingFiring.pieceIds, id);
+    }
+    return await this.updateVersioned('firings', existingFiring, updates);
+  }
+
+  // Only a load that hasn't been unloaded can be removed; finished firings are piece history
+  async deleteFiring(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const firing = await this.storage.readOne<Firing>('firings', id);
+    if (!firing) return false;
+    if (firing.unloadDate) throw new Error('Unloaded firings are kept as piece history');
+
+    const success = await this.storage.deleteOne('firings', id);
+    if (success) {
+      await this.audit.record('firings', 'delete', id, firing, null);
+    }
     return success;
   }
 
+  /**
+   * Closes a kiln load: every piece in it gets a FiringRecord and, if it's still at the stage
+   * this firing takes, moves on to the next one, all in a single bulk update.
+   */
+  async unloadFiring(id: string, unloadDate: Date = new Date()): Promise<{ firing: Firing; pieces: Piece[] }> {
+    await this.ensureInitialized();
+    const firing = await this.storage.readOne<Firing>('firings', id);
+    if (!firing) throw new Error('Firing not found');
+    if (firing.unloadDate) throw new Error('This load has already been unloaded');
+
+    const workflow = await this.getPieceWorkflow();
+    const waitingStages = getFiringStages(workflow, firing.type);
+    const record: FiringRecord = {
+      firingId: firing.id,
+      kiln: firing.kiln,
+      type: firing.type,
+      cone: firing.cone,
+      loadDate: firing.loadDate,
+      unloadDate
+    };
+
+    const updates: Array<BulkUpdate<Piece>> = [];
+    for (const pieceId of firing.pieceIds) {
+      const piece = await this.storage.readOne<Piece>('pieces', pieceId);
+      if (!piece || !isActive(piece)) continue;
+      // A piece someone already moved on by hand keeps its status
+      const nextStage = waitingStages.includes(piece.status) ? getStageAfterFiring(workflow, piece.status) : null;
+      updates.push({
+        id: piece.id,
+        expectedVersion: versionOf(piece),
+        data: {
+          ...(nextStage ? { status: nextStage } : {}),
+          firingHistory: [...(piece.firingHistory || []), record]
+        }
+      });
+    }
+
+    // Firings move pieces on by the stage order, whatever transitions the stage lists
+    const pieces = updates.length > 0 ? await this.updatePiecesBulk(updates, { allowAnyStage: true }) : [];
+    const updatedFiring = await this.updateVersioned('firings', firing, { unloadDate });
+    return { firing: updatedFiring, pieces };
+  }
+
+  private async checkLoadable(type: Firing['type'], pieceIds: string[], firingId?: string): Promise<void> {
+    const { label } = getFiringTypeInfo(type);
+    const workflow = await this.getPieceWorkflow();
+    const waitingStages = getFiringStages(workflow, type);
+    const openLoads = (await this.storage.read<Firing>('firings')).filter(f => !f.unloadDate && f.id !== firingId);
+    const loaded = new Set<string>();
+    openLoads.forEach(f => f.pieceIds.forEach(pieceId => loaded.add(pieceId)));
+
+    const existing = firingId ? await this.storage.readOne<Firing>('firings', firingId) : null;
+    for (const pieceId of pieceIds) {
+      if (loaded.has(pieceId)) {
+        throw new Error('A selected piece is already in another kiln load');
+      }
+      // Pieces already in this load stay put even if their status has since changed
+      if (existing && existing.type === type && existing.pieceIds.includes(pieceId)) continue;
+      const piece = await this.storage.readOne<Piece>('pieces', pieceId);
+      if (!piece || !isActive(piece) || !waitingStages.includes(piece.status)) {
+        throw new Error(`${label} loads can only take pieces that are ${describeFiringStages(workflow, type)}`);
+      }
+    }
+  }
+
   // Utility methods
   async getPiecesReadyForPickup(): Promise<Piece[]> {
-    const pieces = await this.getPieces();
-    return pieces.filter(p => p.status === 'ready-for-pickup');
+    return await this.getPiecesByStatus('ready-for-pickup');
   }
 
   async getPiecesByStatus(status: Piece['status']): Promise<Piece[]> {
-    const pieces = await this.getPieces();
-    return pieces.filter(p => p.status === status);
+    await this.ensureInitialized();
+    return (await this.storage.query<Piece>('pieces', { where: { status } })).filter(isActive);
   }
 
   async getPiecesByEvent(eventId: string): Promise<Piece[]> {
-    const pieces = await this.getPieces();
-    return pieces.filter(p => p.eventId === eventId);
+    await this.ensureInitialized();
+    return (await this.storage.query<Piece>('pieces', { where: { eventId } })).filter(isActive);
   }
 
   async getUpcomingEvents(): Promise<Event[]> {
-    const events = await this.getEvents();
+    await this.ensureInitialized();
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    return events.filter(e => e.date >= today && e.status === 'upcoming');
+    const events = await this.storage.query<Event>('events', {
+      where: { status: 'upcoming' },
+      range: { date: { gte: today } },
+      orderBy: { field: 'date' }
+    });
+    return events.filter(isActive);
   }
 
   async getEventsByDate(date: Date): Promise<Event[]> {
-    const events = await this.getEvents();
+    await this.ensureInitialized();
     const targetDate = new Date(date);
     targetDate.setHours(0, 0, 0, 0);
     const nextDay = new Date(targetDate);
     nextDay.setDate(nextDay.getDate() + 1);
-    
-    return events.filter(e => {
-      const eventDate = new Date(e.date);
-      eventDate.setHours(0, 0, 0, 0);
-      return eventDate >= targetDate && eventDate < nextDay;
+
+    const events = await this.storage.query<Event>('events', {
+      range: { date: { gte: targetDate, lt: nextDay } },
+      orderBy: { field: 'startTime' }
     });
+    return events.filter(isActive);
+  }
+
+  // Trash
+  private async moveToTrash<T extends { id: string; version?: number }>(collection: string, record: T, deletedAt: Date): Promise<void> {
+    const version = versionOf(record) + 1;
+    const trashed = { ...record, deletedAt, version, updatedAt: new Date() };
+    if (this.storage.updatePartial) {
+      await this.storage.updatePartial(collection, record.id, { deletedAt, version });
+    } else {
+      await this.storage.writeOne(collection, record.id, trashed);
+    }
+    await this.audit.record(collection, 'delete', record.id, record, trashed);
+  }
+
+  private async takeOutOfTrash<T extends { id: string; version?: number }>(collection: string, record: T): Promise<void> {
+    // null rather than undefined so the cleared marker survives the trip to Supabase
+    const version = versionOf(record) + 1;
+    const restored = { ...record, deletedAt: null, version, updatedAt: new Date() };
+    if (this.storage.updatePartial) {
+      await this.storage.updatePartial(collection, record.id, { deletedAt: null, version });
+    } else {
+      await this.storage.writeOne(collection, record.id, restored);
+    }
+    await this.audit.record(collection, 'update', record.id, record, restored);
+  }
+
+  async getTrash(): Promise<TrashContents> {
+    await this.ensureInitialized();
+    const [customers, pieces, events] = await Promise.all([
+      this.storage.read<Customer>('customers'),
+      this.storage.read<Piece>('pieces'),
+      this.storage.read<Event>('events')
+    ]);
+    const trashed = <T extends { deletedAt?: Date | null }>(records: T[]): T[] =>
+      records.filter(record => !isActive(record)).sort((a, b) => deletedAtTime(b) - deletedAtTime(a));
+
+    return {
+      customers: trashed(customers),
+      pieces: trashed(pieces),
+      events: trashed(events)
+    };
+  }
+
+  async restoreFromTrash(collection: TrashCollection, id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const record = await this.storage.readOne<Customer | Piece | Event>(collection, id);
+    if (!record || isActive(record)) return false;
+
+    await this.takeOutOfTrash(collection, record);
+
+    // Bring back whatever was trashed together with it
+    const deletedAt = deletedAtTime(record);
+    const restoreCascaded = async <T extends { id: string; deletedAt?: Date | null }>(childCollection: string, children: T[]) => {
+      for (const child of children.filter(c => deletedAtTime(c) === deletedAt)) {
+        await this.takeOutOfTrash(childCollection, child);
+      }
+    };
+
+    if (collection === 'customers') {
+      await restoreCascaded('pieces', await this.storage.query<Piece>('pieces', { where: { customerId: id } }));
+      await restoreCascaded('eventBookings', await this.storage.query<EventBooking>('eventBookings', { where: { customerId: id } }));
+    } else if (collection === 'events') {
+      await restoreCascaded('eventBookings', await this.storage.query<EventBooking>('eventBookings', { where: { eventId: id } }));
+    } else {
+      // A piece can't come back without its customer
+      const customer = await this.storage.readOne<Customer>('customers', (record as Piece).customerId);
+      if (customer && !isActive(customer)) {
+        await this.takeOutOfTrash('customers', customer);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Permanently delete a trashed record, along with everything that depends on it: a customer's
+   * pieces and bookings, or an event's bookings (its pieces are kept and just lose the link).
+   * Dependents go first, so a purge that fails partway never leaves them pointing at nothing.
+   */
+  async purgeFromTrash(collection: TrashCollection, id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    const record = await this.storage.readOne<Customer | Piece | Event>(collection, id);
+    if (!record || isActive(record)) return false;
+
+    const purgeAll = async <T extends { id: string }>(childCollection: string, children: T[]) => {
+      for (const child of children) {
+        if (await this.storage.deleteOne(childCollection, child.id)) {
+          await this.audit.record(childCollection, 'delete', child.id, child, null);
+        }
+      }
+    };
+
+    if (collection === 'customers') {
+      await purgeAll('pieces', await this.storage.query<Piece>('pieces', { where: { customerId: id } }));
+      await purgeAll('eventBookings', await this.storage.query<EventBooking>('eventBookings', { where: { customerId: id } }));
+    } else if (collection === 'events') {
+      await purgeAll('eventBookings', await this.storage.query<EventBooking>('eventBookings', { where: { eventId: id } }));
+
+      // null rather than undefined so the cleared link survives the trip to Supabase
+      const pieces = await this.storage.query<Piece>('pieces', { where: { eventId: id } });
+      for (const piece of pieces) {
+        await this.updateVersioned('pieces', piece, { eventId: null });
+      }
+    }
+
+    const success = await this.storage.deleteOne(collection, id);
+    if (!success) return false;
+    await this.audit.record(collection, 'delete', id, record, null);
+    return true;
+  }
+
+  async getTrashRetentionDays(): Promise<number> {
+    return (await this.getStudioSettings()).trashRetentionDays;
+  }
+
+  /**
+   * Purge everything that has been in the trash longer than the studio's retention period.
+   * Returns how many trashed records were purged. The Dashboard runs this for signed-in staff
+   * who may delete records; without an actor it refuses, so purges are never logged as Unknown.
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    if (!this.actor) throw new Error('Sign in before purging the trash');
+    const retentionDays = await this.getTrashRetentionDays();
+    if (retentionDays <= 0) return 0;
+
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const trash = await this.getTrash();
+    let purged = 0;
+
+    // Parents first: purging a customer already takes its trashed pieces with it
+    const expired: Array<[TrashCollection, Array<Customer | Piece | Event>]> = [
+      ['events', trash.events],
+      ['customers', trash.customers],
+      ['pieces', trash.pieces]
+    ];
+    for (const [collection, records] of expired) {
+      for (const record of records.filter(r => deletedAtTime(r) < cutoff)) {
+        if (await this.purgeFromTrash(collection, record.id)) {
+          purged++;
+        }
+      }
+    }
+
+    // Bookings removed on their own aren't listed in the trash, so they go once they expire too
+    const bookings = await this.storage.read<EventBooking>('eventBookings');
+    for (const booking of bookings.filter(b => !isActive(b) && deletedAtTime(b) < cutoff)) {
+      if (await this.storage.deleteOne('eventBookings', booking.id)) {
+        await this.audit.record('eventBookings', 'delete', booking.id, booking, null);
+        purged++;
+      }
+    }
+
+    return purged;
   }
 
   // Database management
   async backup(): Promise<string> {
-    return await this.storage.backup();
+    const dump = await this.storage.backup();
+    try {
+      return JSON.stringify(redactSecrets(JSON.parse(dump)));
+    } catch (error) {
+      // Every adapter writes JSON today; refuse rather than hand out a dump that wasn't cleaned
+      throw new Error('Could not remove integration credentials from the backup');
+    }
   }
 
   async restore(backupData: string): Promise<void> {
+    await this.snapshotBefore('before-restore');
     await this.storage.restore(backupData);
+    // A restored backup may predate the current schema, so run migrations against it again
     this.initialized = false;
+    this.migrationPromise = null;
     await this.ensureInitialized();
   }
 
+  // Portable JSON export/import
+  private createBackupManager(): BackupManager {
+    return new BackupManager(this.storage, new MigrationRunner(this.storage, MIGRATIONS).latestVersion);
+  }
+
+  async exportBackup(): Promise<BackupFile> {
+    await this.ensureInitialized();
+    return await this.createBackupManager().export();
+  }
+
+  async previewBackupRestore(backup: BackupFile, options: RestoreOptions): Promise<CollectionDiff[]> {
+    await this.ensureInitialized();
+    return await this.createBackupManager().preview(backup, options);
+  }
+
+  async restoreFromBackup(backup: BackupFile, options: RestoreOptions): Promise<CollectionDiff[]> {
+    await this.ensureInitialized();
+    await this.snapshotBefore('before-restore');
+    const diffs = await this.createBackupManager().restore(backup, options);
+
+    // Records exported under an older schema need the newer migrations applied to them
+    const runner = new MigrationRunner(this.storage, MIGRATIONS);
+    if (backup.schemaVersion < runner.latestVersion) {
+      await runner.rewindTo(backup.schemaVersion);
+      this.initialized = false;
+      this.migrationPromise = null;
+      await this.ensureInitialized();
+    }
+
+    return diffs;
+  }
+
+  // Automatic local snapshots
+  startAutoBackup(): void {
+    this.snapshots.start();
+  }
+
+  stopAutoBackup(): void {
+    this.snapshots.stop();
+  }
+
+  private async snapshotBefore(reason: SnapshotReason): Promise<void> {
+    if (!this.snapshots.autoBackupEnabled) return;
+    try {
+      await this.snapshots.create(reason);
+    } catch (error) {
+      console.error('Error creating safety snapshot:', error);
+      throw new Error('Could not save a snapshot of the current data, so nothing was changed');
+    }
+  }
+
+  getSnapshotSettings() {
+    return this.snapshots.getSettings();
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return await this.snapshots.list();
+  }
+
+  async createSnapshot(): Promise<SnapshotInfo | null> {
+    return await this.snapshots.create('manual');
+  }
+
+  async getSnapshot(id: string): Promise<BackupFile | null> {
+    return await this.snapshots.get(id);
+  }
+
+  async rollbackToSnapshot(id: string): Promise<CollectionDiff[]> {
+    const backup = await this.snapshots.get(id);
+    if (!backup) {
+      throw new Error('Snapshot not found');
+    }
+    return await this.restoreFromBackup(backup, { collections: [...BACKUP_COLLECTIONS], mode: 'replace' });
+  }
+
   async clearAllData(): Promise<void> {
+    await this.snapshotBefore('before-clear');
     // await this.seeder.clearAll();
     
     // Also clear any legacy data
@@ -560,6 +1334,35 @@ class Database {
     this.initialized = true;
   }
 
+  // Offline sync
+  getSyncStatus(): SyncStatus | null {
+    return this.storage instanceof SyncingAdapter ? this.storage.getStatus() : null;
+  }
+
+  subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    if (this.storage instanceof SyncingAdapter) {
+      return this.storage.subscribe(listener);
+    }
+    return () => {};
+  }
+
+  // Live updates
+  subscribeToChanges(listener: StorageChangeListener): () => void {
+    return this.storage.watch ? this.storage.watch(LIVE_COLLECTIONS, listener) : () => {};
+  }
+
+  async syncNow(): Promise<void> {
+    if (this.storage instanceof SyncingAdapter) {
+      await this.storage.flush();
+    }
+  }
+
+  async resolveSyncConflict(conflictId: string, keep: 'local' | 'remote'): Promise<void> {
+    if (this.storage instanceof SyncingAdapter) {
+      await this.storage.resolveConflict(conflictId, keep);
+    }
+  }
+
   getStorageInfo() {
     if (this.storage instanceof LocalStorageAdapter) {
       return this.storage.getStorageInfo();
@@ -570,7 +1373,4 @@ class Database {
 
 const database = new Database();
 
-// Initialize and migrate on first use
-database.migrateFromLegacy().catch(console.error);
-
-export { database };
+export { database, Database };
@@ -0,0 +1,144 @@
+import { describe, expect, it } from '@jest/globals';
+import { IStorageAdapter, StorageQuery } from '../storage/IStorageAdapter';
+import { applyQuery } from '../storage/queryUtils';
+import { Migration, MigrationRunner } from './MigrationRunner';
+
+// Just enough of a store to run migrations against; writes to failingCollection throw
+class MemoryAdapter implements IStorageAdapter {
+  failingCollection: string | null = null;
+  private collections = new Map<string, Map<string, any>>();
+
+  private collection(name: string): Map<string, any> {
+    if (!this.collections.has(name)) this.collections.set(name, new Map());
+    return this.collections.get(name)!;
+  }
+
+  async read<T>(collection: string): Promise<T[]> {
+    return Array.from(this.collection(collection).values());
+  }
+
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    return applyQuery(await this.read<T>(collection), query);
+  }
+
+  async write<T>(collection: string, data: T[]): Promise<void> {
+    this.collections.set(collection, new Map(data.map((item: any) => [item.id, item])));
+  }
+
+  async readOne<T>(collection: string, id: string): Promise<T | null> {
+    return this.collection(collection).get(id) || null;
+  }
+
+  async writeOne<T>(collection: string, id: string, data: T): Promise<void> {
+    if (collection === this.failingCollection) throw new Error(`${collection} is read-only`);
+    this.collection(collection).set(id, data);
+  }
+
+  async deleteOne(collection: string, id: string): Promise<boolean> {
+    return this.collection(collection).delete(id);
+  }
+
+  async exists(collection: string): Promise<boolean> {
+    return this.collections.has(collection);
+  }
+
+  async clear(collection: string): Promise<void> {
+    this.collections.delete(collection);
+  }
+
+  async backup(): Promise<string> {
+    return '{}';
+  }
+
+  async restore(): Promise<void> {}
+}
+
+// Each step appends its version to a log record, so tests can see what ran and how often
+const step = (version: number, up?: Migration['up']): Migration => ({
+  version,
+  name: `step-${version}`,
+  description: `Step ${version}`,
+  up: up || (async storage => {
+    const log = (await storage.readOne<{ id: string; ran: number[] }>('log', 'default')) || { id: 'default', ran: [] };
+    await storage.writeOne('log', 'default', { ...log, ran: [...log.ran, version] });
+    return `ran ${version}`;
+  })
+});
+
+const ranSteps = async (storage: IStorageAdapter): Promise<number[]> =>
+  ((await storage.readOne<{ ran: number[] }>('log', 'default')) || { ran: [] }).ran;
+
+describe('MigrationRunner', () => {
+  it('runs pending steps in version order and records them', async () => {
+    const storage = new MemoryAdapter();
+    const runner = new MigrationRunner(storage, [step(2), step(1), step(3)]);
+
+    const report = await runner.run();
+
+    expect(await ranSteps(storage)).toEqual([1, 2, 3]);
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: 3 });
+    expect(report.error).toBeUndefined();
+    expect(report.applied.map(applied => applied.details)).toEqual(['ran 1', 'ran 2', 'ran 3']);
+    expect(await runner.getCurrentVersion()).toBe(3);
+    expect((await runner.getHistory()).map(applied => applied.version)).toEqual([1, 2, 3]);
+  });
+
+  it('only runs steps newer than the saved version', async () => {
+    const storage = new MemoryAdapter();
+    await new MigrationRunner(storage, [step(1), step(2)]).run();
+
+    const report = await new MigrationRunner(storage, [step(1), step(2), step(3)]).run();
+
+    expect(await ranSteps(storage)).toEqual([1, 2, 3]);
+    expect(report.applied.map(applied => applied.version)).toEqual([3]);
+    expect(report.fromVersion).toBe(2);
+  });
+
+  it('stops at a failing step and keeps the version of the last one that worked', async () => {
+    const storage = new MemoryAdapter();
+    const failing = step(2, async () => {
+      throw new Error('bad data');
+    });
+    const runner = new MigrationRunner(storage, [step(1), failing, step(3)]);
+
+    const report = await runner.run();
+
+    expect(await ranSteps(storage)).toEqual([1]);
+    expect(report.toVersion).toBe(1);
+    expect(report.error).toBe('Migration 2 (step-2) failed: bad data');
+    expect(await runner.getCurrentVersion()).toBe(1);
+  });
+
+  it('reports a step that ran even when its version could not be saved, and runs it again next time', async () => {
+    const storage = new MemoryAdapter();
+    storage.failingCollection = 'schemaMeta';
+    const runner = new MigrationRunner(storage, [step(1), step(2)]);
+
+    const report = await runner.run();
+
+    expect(await ranSteps(storage)).toEqual([1]);
+    expect(report.applied.map(applied => applied.version)).toEqual([1]);
+    expect(report.toVersion).toBe(0);
+    expect(report.error).toBe('Migration 1 (step-1) ran, but the schema version could not be saved: schemaMeta is read-only');
+    expect(await runner.getCurrentVersion()).toBe(0);
+
+    storage.failingCollection = null;
+    const retry = await runner.run();
+
+    expect(await ranSteps(storage)).toEqual([1, 1, 2]);
+    expect(retry.toVersion).toBe(2);
+    expect(retry.error).toBeUndefined();
+  });
+
+  it('runs later steps again after rewinding', async () => {
+    const storage = new MemoryAdapter();
+    const runner = new MigrationRunner(storage, [step(1), step(2)]);
+    await runner.run();
+
+    await runner.rewindTo(1);
+    await runner.run();
+
+    expect(await ranSteps(storage)).toEqual([1, 2, 2]);
+    expect(await runner.getCurrentVersion()).toBe(2);
+  });
+});
@@ -0,0 +1,136 @@
+import { IStorageAdapter } from '../storage/IStorageAdapter';
+
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  // Returns a short human-readable summary of what changed, if anything
+  up: (storage: IStorageAdapter) => Promise<string | void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+  details?: string;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+  error?: string;
+}
+
+interface SchemaMeta {
+  id: string;
+  version: number;
+  history: AppliedMigration[];
+  updatedAt: Date;
+}
+
+const META_COLLECTION = 'schemaMeta';
+const META_ID = 'default';
+
+/**
+ * Applies ordered schema migrations to any storage adapter. The current schema version and a
+ * history of applied steps are stored alongside the data, so each step normally runs once per
+ * studio and a failed step leaves the version at the last step that succeeded.
+ *
+ * A step can still run twice: when the version can't be saved after it ran, or after rewindTo.
+ * Every migration's `up` must therefore be idempotent, leaving already-migrated data as it is.
+ */
+export class MigrationRunner {
+  private storage: IStorageAdapter;
+  private migrations: Migration[];
+
+  constructor(storage: IStorageAdapter, migrations: Migration[]) {
+    this.storage = storage;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  private async readMeta(): Promise<SchemaMeta> {
+    const meta = await this.storage.readOne<SchemaMeta>(META_COLLECTION, META_ID);
+    return meta || { id: META_ID, version: 0, history: [], updatedAt: new Date() };
+  }
+
+  async getCurrentVersion(): Promise<number> {
+    return (await this.readMeta()).version;
+  }
+
+  async getHistory(): Promise<AppliedMigration[]> {
+    return (await this.readMeta()).history || [];
+  }
+
+  /**
+   * Move the recorded version back so later steps run again, e.g. after restoring data that
+   * was exported under an older schema. Every migration must therefore stay idempotent.
+   */
+  async rewindTo(version: number): Promise<void> {
+    const meta = await this.readMeta();
+    if (version >= meta.version) return;
+    await this.storage.writeOne(META_COLLECTION, META_ID, { ...meta, version, updatedAt: new Date() });
+  }
+
+  async run(): Promise<MigrationReport> {
+    let meta: SchemaMeta;
+    try {
+      meta = await this.readMeta();
+    } catch (error) {
+      return {
+        fromVersion: 0,
+        toVersion: 0,
+        applied: [],
+        error: `Could not read schema version: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+
+    const report: MigrationReport = {
+      fromVersion: meta.version,
+      toVersion: meta.version,
+      applied: []
+    };
+
+    for (const migration of this.migrations) {
+      if (migration.version <= meta.version) continue;
+
+      let applied: AppliedMigration;
+      try {
+        const details = await migration.up(this.storage);
+        applied = {
+          version: migration.version,
+          name: migration.name,
+          appliedAt: new Date(),
+          ...(details ? { details } : {})
+        };
+      } catch (error) {
+        report.error = `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        break;
+      }
+
+      // The step did run, so it is reported as applied even if the version can't be saved.
+      // It runs again next time, which is safe because migrations are idempotent.
+      report.applied.push(applied);
+      const next: SchemaMeta = {
+        ...meta,
+        version: migration.version,
+        history: [...(meta.history || []), applied],
+        updatedAt: new Date()
+      };
+      try {
+        await this.storage.writeOne(META_COLLECTION, META_ID, next);
+      } catch (error) {
+        report.error = `Migration ${migration.version} (${migration.name}) ran, but the schema version could not be saved: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        break;
+      }
+      meta = next;
+      report.toVersion = migration.version;
+    }
+
+    return report;
+  }
+}
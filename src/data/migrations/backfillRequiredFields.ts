@@ -0,0 +1,87 @@
+import { Migration } from './MigrationRunner';
+import { IStorageAdapter } from '../storage/IStorageAdapter';
+import { ensureDate } from '../../utils/dateUtils';
+
+type Backfill = (record: Record<string, any>) => Record<string, any>;
+
+const DATE_FIELDS: Record<string, string[]> = {
+  customers: ['createdAt', 'updatedAt'],
+  pieces: ['createdAt', 'updatedAt', 'readyForPickupDate', 'pickedUpDate'],
+  events: ['date', 'createdAt', 'updatedAt'],
+  eventBookings: ['bookingDate', 'createdAt', 'updatedAt']
+};
+
+const DEFAULTS: Record<string, Backfill> = {
+  customers: (customer) => ({
+    checkedIn: customer.checkedIn ?? false
+  }),
+  pieces: (piece) => ({
+    paidGlaze: piece.paidGlaze ?? false,
+    status: piece.status || 'in-progress'
+  }),
+  events: (event) => ({
+    status: event.status || 'upcoming',
+    type: event.type || 'workshop',
+    maxCapacity: event.maxCapacity ?? 10,
+    price: event.price ?? 0
+  }),
+  eventBookings: (booking) => ({
+    status: booking.status || 'confirmed'
+  })
+};
+
+const backfillCollection = async (storage: IStorageAdapter, collection: string): Promise<number> => {
+  const records = await storage.read<Record<string, any>>(collection);
+  const updates: Array<{id: string, data: Record<string, any>}> = [];
+
+  for (const record of records) {
+    const changes: Record<string, any> = {};
+
+    for (const [field, value] of Object.entries(DEFAULTS[collection](record))) {
+      if (record[field] !== value) changes[field] = value;
+    }
+
+    // Older records were saved with ISO strings where the types now expect Date objects
+    for (const field of DATE_FIELDS[collection]) {
+      if (record[field] !== undefined && !(record[field] instanceof Date)) {
+        const date = ensureDate(record[field]);
+        if (date) changes[field] = date;
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      updates.push({ id: record.id, data: changes });
+    }
+  }
+
+  if (updates.length === 0) return 0;
+
+  if (storage.updateBulk) {
+    await storage.updateBulk(collection, updates);
+  } else {
+    const byId = new Map(records.map(record => [record.id, record]));
+    for (const { id, data } of updates) {
+      await storage.writeOne(collection, id, { ...byId.get(id), ...data });
+    }
+  }
+
+  return updates.length;
+};
+
+/**
+ * Gives every stored record the fields that later versions of the types made required, so
+ * records written by older versions of the app don't break the current UI.
+ */
+export const backfillRequiredFields: Migration = {
+  version: 2,
+  name: 'backfill-required-fields',
+  description: 'Fill in required fields and convert stored date strings to dates',
+  up: async (storage) => {
+    const summary: string[] = [];
+    for (const collection of Object.keys(DEFAULTS)) {
+      const updated = await backfillCollection(storage, collection);
+      if (updated > 0) summary.push(`${updated} ${collection}`);
+    }
+    return summary.length > 0 ? `Updated ${summary.join(', ')}` : 'All records already up to date';
+  }
+};
@@ -0,0 +1,74 @@
+import { Migration } from './MigrationRunner';
+
+const LEGACY_KEY = 'clay-cafe-database';
+
+/**
+ * Moves the single 'clay-cafe-database' localStorage blob used by the first version of the app
+ * into per-collection storage.
+ */
+export const importLegacyData: Migration = {
+  version: 1,
+  name: 'import-legacy-data',
+  description: "Import the original 'clay-cafe-database' localStorage blob",
+  up: async (storage) => {
+    if (typeof localStorage === 'undefined') return;
+
+    const legacyData = localStorage.getItem(LEGACY_KEY);
+    if (!legacyData) return 'No legacy data found';
+
+    const parsed = JSON.parse(legacyData);
+    const imported: string[] = [];
+
+    if (parsed.customers) {
+      const customers = parsed.customers.map((c: any) => ({
+        ...c,
+        createdAt: new Date(c.createdAt),
+        updatedAt: new Date(c.updatedAt)
+      }));
+      await storage.write('customers', customers);
+      imported.push(`${customers.length} customers`);
+    }
+
+    if (parsed.pieces) {
+      const pieces = parsed.pieces.map((p: any) => ({
+        ...p,
+        createdAt: new Date(p.createdAt),
+        updatedAt: new Date(p.updatedAt),
+        readyForPickupDate: p.readyForPickupDate ? new Date(p.readyForPickupDate) : undefined,
+        pickedUpDate: p.pickedUpDate ? new Date(p.pickedUpDate) : undefined
+      }));
+      await storage.write('pieces', pieces);
+      imported.push(`${pieces.length} pieces`);
+    }
+
+    if (parsed.events) {
+      const events = parsed.events.map((e: any) => ({
+        ...e,
+        date: new Date(e.date),
+        createdAt: new Date(e.createdAt),
+        updatedAt: new Date(e.updatedAt)
+      }));
+      await storage.write('events', events);
+      imported.push(`${events.length} events`);
+    }
+
+    if (parsed.eventBookings) {
+      const eventBookings = parsed.eventBookings.map((b: any) => ({
+        ...b,
+        bookingDate: new Date(b.bookingDate),
+        createdAt: new Date(b.createdAt),
+        updatedAt: new Date(b.updatedAt)
+      }));
+      await storage.write('eventBookings', eventBookings);
+      imported.push(`${eventBookings.length} bookings`);
+    }
+
+    if (parsed.notificationSettings) {
+      await storage.writeOne('notificationSettings', 'default', parsed.notificationSettings);
+      imported.push('notification settings');
+    }
+
+    localStorage.removeItem(LEGACY_KEY);
+    return `Imported ${imported.join(', ') || 'nothing'}`;
+  }
+};
@@ -0,0 +1,14 @@
+import { Migration } from './MigrationRunner';
+import { importLegacyData } from './importLegacyData';
+import { backfillRequiredFields } from './backfillRequiredFields';
+import { normalizeRecordIds } from './normalizeRecordIds';
+
+// Append new steps to the end with the next version number; never reorder or renumber
+export const MIGRATIONS: Migration[] = [
+  importLegacyData,
+  backfillRequiredFields,
+  normalizeRecordIds
+];
+
+export { MigrationRunner } from './MigrationRunner';
+export type { Migration, MigrationReport, AppliedMigration } from './MigrationRunner';
@@ -0,0 +1,53 @@
+import { Migration } from './MigrationRunner';
+import { idService } from '../../services/idService';
+
+// Fields holding ids of records in other collections
+const REFERENCE_FIELDS: Record<string, string[]> = {
+  customers: [],
+  pieces: ['customerId', 'eventId'],
+  events: [],
+  eventBookings: ['customerId', 'eventId']
+};
+
+const normalizeId = (value: any): any => {
+  return typeof value === 'number' ? String(value) : value;
+};
+
+/**
+ * New records get ULIDs from idService; existing millisecond ids stay exactly as they are so
+ * links, bookings and piece references keep resolving. Records imported from the legacy blob
+ * can carry numeric ids, which this step turns into strings (along with references to them),
+ * and any record without an id is given one.
+ */
+export const normalizeRecordIds: Migration = {
+  version: 3,
+  name: 'normalize-record-ids',
+  description: 'Store every record id and reference as a string, keeping existing ids',
+  up: async (storage) => {
+    const summary: string[] = [];
+
+    for (const [collection, referenceFields] of Object.entries(REFERENCE_FIELDS)) {
+      const records = await storage.read<Record<string, any>>(collection);
+      let changed = 0;
+
+      const normalized = records.map(record => {
+        const updated: Record<string, any> = { ...record, id: record.id ? normalizeId(record.id) : idService.generate() };
+        for (const field of referenceFields) {
+          updated[field] = normalizeId(record[field]);
+        }
+        if (updated.id !== record.id || referenceFields.some(field => updated[field] !== record[field])) {
+          changed++;
+        }
+        return updated;
+      });
+
+      // Ids are storage keys, so re-keyed records need the collection rewritten, not patched
+      if (changed > 0) {
+        await storage.write(collection, normalized);
+        summary.push(`${changed} ${collection}`);
+      }
+    }
+
+    return summary.length > 0 ? `Normalized ids on ${summary.join(', ')}` : 'All ids already normalized';
+  }
+};
@@ -1,15 +1,52 @@
+export type QueryValue = string | number | boolean | Date | null;
+
+export interface QueryRange {
+  gt?: QueryValue;
+  gte?: QueryValue;
+  lt?: QueryValue;
+  lte?: QueryValue;
+}
+
+export interface StorageQuery<T> {
+  where?: { [K in keyof T]?: T[K] | null };
+  range?: { [K in keyof T]?: QueryRange };
+  orderBy?: { field: keyof T & string; direction?: 'asc' | 'desc' };
+  limit?: number;
+  offset?: number;
+}
+
+export interface BulkUpdate<T> {
+  id: string;
+  data: Partial<T>;
+  expectedVersion?: number;
+}
+
+export interface StorageChange {
+  collection: string;
+  // 'reset' means the whole collection may have changed (bulk write, clear or restore)
+  type: 'upsert' | 'delete' | 'reset';
+  id?: string;
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
 export interface IStorageAdapter {
   read<T>(collection: string): Promise<T[]>;
+  query<T>(collection: string, query: StorageQuery<T>): Promise<T[]>;
   write<T>(collection: string, data: T[]): Promise<void>;
   readOne<T>(collection: string, id: string): Promise<T | null>;
   writeOne<T>(collection: string, id: string, data: T): Promise<void>;
-  updatePartial?<T>(collection: string, id: string, updates: Partial<T>): Promise<void>;
-  updateBulk?<T>(collection: string, updates: Array<{id: string, data: Partial<T>}>): Promise<void>;
+  // With expectedVersion, these throw VersionConflictError instead of overwriting a newer record
+  updatePartial?<T>(collection: string, id: string, updates: Partial<T>, expectedVersion?: number): Promise<void>;
+  updateBulk?<T>(collection: string, updates: Array<BulkUpdate<T>>): Promise<void>;
   deleteOne(collection: string, id: string): Promise<boolean>;
   exists(collection: string): Promise<boolean>;
   clear(collection: string): Promise<void>;
   backup(): Promise<string>;
   restore(backupData: string): Promise<void>;
+  getConfig?(): StorageConfig;
+  // Reports changes made elsewhere (other devices or tabs) to the given collections
+  watch?(collections: string[], listener: StorageChangeListener): () => void;
 }
 
 export interface StorageConfig {
@@ -18,4 +55,5 @@ export interface StorageConfig {
   encryptionEnabled?: boolean;
   autoBackup?: boolean;
   maxBackups?: number;
+  backupIntervalMinutes?: number;
 }
\ No newline at end of file
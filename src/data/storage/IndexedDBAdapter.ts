@@ -0,0 +1,396 @@
+import { BulkUpdate, IStorageAdapter, StorageConfig, StorageQuery } from './IStorageAdapter';
+import { VersionConflictError, versionOf } from './VersionConflictError';
+import { applyQuery } from './queryUtils';
+
+// Every collection the app stores. All of them get their object store in the same upgrade, so
+// nothing at startup has to bump the database version while other reads are in flight.
+const COLLECTIONS = [
+  'customers',
+  'pieces',
+  'events',
+  'eventBookings',
+  'firings',
+  'notificationSettings',
+  'studioSettings',
+  'eventTemplates',
+  'auditLog',
+  'schemaMeta',
+  'syncQueue',
+  'syncConflicts',
+  'syncRemoteVersions',
+  'snapshots'
+];
+
+// Fields that get a secondary index when a collection's records carry them
+const INDEXED_FIELDS: Record<string, string[]> = {
+  pieces: ['customerId', 'eventId', 'status'],
+  eventBookings: ['customerId', 'eventId', 'status'],
+  events: ['status'],
+  auditLog: ['recordId']
+};
+
+export class IndexedDBAdapter implements IStorageAdapter {
+  private config: StorageConfig;
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private extraCollections = new Set<string>();
+
+  constructor(config: StorageConfig = {}) {
+    this.config = {
+      baseKey: 'clay-cafe',
+      compressionEnabled: false,
+      encryptionEnabled: false,
+      autoBackup: true,
+      maxBackups: 5,
+      backupIntervalMinutes: 60,
+      ...config
+    };
+    this.dbName = this.config.baseKey!;
+  }
+
+  getConfig(): StorageConfig {
+    return { ...this.config };
+  }
+
+  private openAtVersion(collections: string[], version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = version ? indexedDB.open(this.dbName, version) : indexedDB.open(this.dbName);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const collection of collections) {
+          if (!db.objectStoreNames.contains(collection)) {
+            const store = db.createObjectStore(collection, { keyPath: 'id' });
+            for (const field of INDEXED_FIELDS[collection] || []) {
+              store.createIndex(field, field, { unique: false });
+            }
+          }
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab bumping the version must not be blocked by this connection
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`Opening ${this.dbName} is blocked by another connection`));
+    });
+  }
+
+  /**
+   * Opens at whatever version the database is at, then upgrades once if any store is missing.
+   * Databases made by older builds have a version that depends on the order their stores were
+   * first used, so there is no fixed number to open at.
+   */
+  private async openDatabase(): Promise<IDBDatabase> {
+    const collections = [...COLLECTIONS, ...Array.from(this.extraCollections)];
+    const db = await this.openAtVersion(collections);
+    if (collections.every(collection => db.objectStoreNames.contains(collection))) {
+      return db;
+    }
+    db.close();
+    return this.openAtVersion(collections, db.version + 1);
+  }
+
+  // Every open and upgrade goes through this one promise, so two callers never race a version bump
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStoreDatabase(collection: string): Promise<IDBDatabase> {
+    const db = await this.getDatabase();
+    if (db.objectStoreNames.contains(collection)) {
+      return db;
+    }
+
+    // A collection outside COLLECTIONS gets its store in an upgrade queued behind the open
+    // connection, so callers asking for different new stores at once take turns
+    this.extraCollections.add(collection);
+    const current = this.dbPromise || Promise.resolve(db);
+    this.dbPromise = current
+      .then(latest => {
+        if (latest.objectStoreNames.contains(collection)) return latest;
+        latest.close();
+        return this.openDatabase();
+      })
+      .catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    return this.dbPromise;
+  }
+
+  private promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private transactionComplete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+  }
+
+  private serializeData(data: any): string {
+    return JSON.stringify(data, function (this: any, key: string, value: any) {
+      // JSON.stringify calls toJSON before the replacer, so read the raw value from the holder
+      const rawValue = this[key];
+      if (rawValue instanceof Date) {
+        return { __type: 'Date', value: rawValue.toISOString() };
+      }
+      return value;
+    });
+  }
+
+  private deserializeData<T>(data: string): T {
+    return JSON.parse(data, (key, value) => {
+      if (value && typeof value === 'object' && value.__type === 'Date') {
+        return new Date(value.value);
+      }
+      return value;
+    });
+  }
+
+  async read<T>(collection: string): Promise<T[]> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const store = db.transaction(collection, 'readonly').objectStore(collection);
+      return await this.promisifyRequest<T[]>(store.getAll());
+    } catch (error) {
+      // Thrown rather than answered with [], which callers would take for an empty collection
+      console.error(`Error reading collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const store = db.transaction(collection, 'readonly').objectStore(collection);
+
+      // Narrow with the first indexed equality filter, then finish the query in memory
+      const where = (query.where || {}) as Record<string, any>;
+      const indexedField = Object.keys(where).find(field =>
+        store.indexNames.contains(field) && (typeof where[field] === 'string' || typeof where[field] === 'number')
+      );
+      const candidates = indexedField
+        ? await this.promisifyRequest<T[]>(store.index(indexedField).getAll(where[indexedField]))
+        : await this.promisifyRequest<T[]>(store.getAll());
+
+      return applyQuery(candidates, query);
+    } catch (error) {
+      console.error(`Error querying collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async write<T>(collection: string, data: T[]): Promise<void> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const transaction = db.transaction(collection, 'readwrite');
+      const store = transaction.objectStore(collection);
+
+      store.clear();
+      for (const item of data) {
+        if ((item as any).id) {
+          store.put(item);
+        }
+      }
+
+      await this.transactionComplete(transaction);
+    } catch (error) {
+      console.error(`Error writing collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async readOne<T>(collection: string, id: string): Promise<T | null> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const store = db.transaction(collection, 'readonly').objectStore(collection);
+      const item = await this.promisifyRequest<T | undefined>(store.get(id));
+      return item ?? null;
+    } catch (error) {
+      console.error(`Error reading item ${id} from collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async writeOne<T>(collection: string, id: string, data: T): Promise<void> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const transaction = db.transaction(collection, 'readwrite');
+      transaction.objectStore(collection).put({ ...data, id });
+      await this.transactionComplete(transaction);
+    } catch (error) {
+      console.error(`Error writing item ${id} to collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async updatePartial<T>(collection: string, id: string, updates: Partial<T>, expectedVersion?: number): Promise<void> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const transaction = db.transaction(collection, 'readwrite');
+      const store = transaction.objectStore(collection);
+
+      // The version check and the write share a transaction, so nothing can slip in between
+      const existing = await this.promisifyRequest<any>(store.get(id));
+      if (existing && expectedVersion !== undefined && versionOf(existing) !== expectedVersion) {
+        transaction.abort();
+        throw new VersionConflictError(collection, [id], existing);
+      }
+      if (existing) {
+        store.put({ ...existing, ...updates, id, updatedAt: new Date() });
+      }
+
+      await this.transactionComplete(transaction);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) {
+        console.error(`Error updating item ${id} in collection ${collection}:`, error);
+      }
+      throw error;
+    }
+  }
+
+  async updateBulk<T>(collection: string, updates: Array<BulkUpdate<T>>): Promise<void> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const transaction = db.transaction(collection, 'readwrite');
+      const store = transaction.objectStore(collection);
+      const timestamp = new Date();
+
+      // All reads and writes share one transaction so a failure rolls back the whole batch
+      const existingRecords = await Promise.all(updates.map(({ id }) => this.promisifyRequest<any>(store.get(id))));
+      const staleIds = updates
+        .filter(({ expectedVersion }, index) =>
+          existingRecords[index] && expectedVersion !== undefined && versionOf(existingRecords[index]) !== expectedVersion
+        )
+        .map(({ id }) => id);
+      if (staleIds.length > 0) {
+        transaction.abort();
+        throw new VersionConflictError(collection, staleIds);
+      }
+
+      updates.forEach(({ id, data }, index) => {
+        if (existingRecords[index]) {
+          store.put({ ...existingRecords[index], ...data, id, updatedAt: timestamp });
+        }
+      });
+
+      await this.transactionComplete(transaction);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) {
+        console.error(`Error bulk updating collection ${collection}:`, error);
+      }
+      throw error;
+    }
+  }
+
+  async deleteOne(collection: string, id: string): Promise<boolean> {
+    try {
+      const db = await this.getStoreDatabase(collection);
+      const transaction = db.transaction(collection, 'readwrite');
+      const store = transaction.objectStore(collection);
+
+      const count = await this.promisifyRequest(store.count(id));
+      store.delete(id);
+      await this.transactionComplete(transaction);
+
+      return count > 0;
+    } catch (error) {
+      console.error(`Error deleting item ${id} from collection ${collection}:`, error);
+      return false;
+    }
+  }
+
+  async exists(collection: string): Promise<boolean> {
+    try {
+      const db = await this.getDatabase();
+      if (!db.objectStoreNames.contains(collection)) {
+        return false;
+      }
+      const store = db.transaction(collection, 'readonly').objectStore(collection);
+      return (await this.promisifyRequest(store.count())) > 0;
+    } catch (error) {
+      console.error(`Error checking collection ${collection}:`, error);
+      return false;
+    }
+  }
+
+  async clear(collection: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      if (!db.objectStoreNames.contains(collection)) {
+        return;
+      }
+      const transaction = db.transaction(collection, 'readwrite');
+      transaction.objectStore(collection).clear();
+      await this.transactionComplete(transaction);
+    } catch (error) {
+      console.error(`Error clearing collection ${collection}:`, error);
+      throw error;
+    }
+  }
+
+  async backup(): Promise<string> {
+    try {
+      const db = await this.getDatabase();
+      const backupData: Record<string, any[]> = {};
+
+      for (const collection of Array.from(db.objectStoreNames)) {
+        backupData[collection] = await this.read(collection);
+      }
+
+      return this.serializeData({
+        timestamp: new Date().toISOString(),
+        version: '1.0',
+        data: backupData
+      });
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      throw error;
+    }
+  }
+
+  async restore(backupData: string): Promise<void> {
+    try {
+      const backup = this.deserializeData<any>(backupData);
+
+      if (!backup.data || typeof backup.data !== 'object') {
+        throw new Error('Invalid backup format');
+      }
+
+      const db = await this.getDatabase();
+      for (const collection of Array.from(db.objectStoreNames)) {
+        if (!(collection in backup.data)) {
+          await this.clear(collection);
+        }
+      }
+
+      for (const [collection, items] of Object.entries(backup.data)) {
+        if (Array.isArray(items)) {
+          await this.write(collection, items);
+        }
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,10 @@
-import { IStorageAdapter, StorageConfig } from './IStorageAdapter';
+import { IStorageAdapter, StorageChange, StorageChangeListener, StorageConfig, StorageQuery } from './IStorageAdapter';
+import { applyQuery } from './queryUtils';
 
 export class LocalStorageAdapter implements IStorageAdapter {
   private config: StorageConfig;
   private baseKey: string;
+  private channel: BroadcastChannel | null = null;
 
   constructor(config: StorageConfig = {}) {
     this.config = {
@@ -11,11 +13,44 @@ export class LocalStorageAdapter implements IStorageAdapter {
       encryptionEnabled: false,
       autoBackup: true,
       maxBackups: 5,
+      backupIntervalMinutes: 60,
       ...config
     };
     this.baseKey = this.config.baseKey!;
   }
 
+  getConfig(): StorageConfig {
+    return { ...this.config };
+  }
+
+  // Tabs share localStorage but not in-memory state; BroadcastChannel tells the others what changed
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`${this.baseKey}:changes`);
+    }
+    return this.channel;
+  }
+
+  private broadcast(change: StorageChange): void {
+    try {
+      this.getChannel()?.postMessage(change);
+    } catch (error) {
+      console.warn('Could not broadcast storage change:', error);
+    }
+  }
+
+  watch(collections: string[], listener: StorageChangeListener): () => void {
+    // A channel never receives its own messages, so listen on a separate instance
+    if (typeof BroadcastChannel === 'undefined') return () => {};
+    const channel = new BroadcastChannel(`${this.baseKey}:changes`);
+    channel.onmessage = (message: MessageEvent<StorageChange>) => {
+      if (collections.includes(message.data.collection)) {
+        listener(message.data);
+      }
+    };
+    return () => channel.close();
+  }
+
   private getCollectionKey(collection: string): string {
     return `${this.baseKey}:${collection}`;
   }
@@ -99,16 +134,39 @@ export class LocalStorageAdapter implements IStorageAdapter {
     }
   }
 
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    // localStorage has no secondary indexes, so this is still a full scan: every record in the
+    // collection index is read and parsed. Filtering as we go only avoids holding the records
+    // that don't match; it saves no reads.
+    try {
+      const index = this.getIndex(collection);
+      const items: T[] = [];
+
+      for (const id of index) {
+        const item = await this.readOne<T>(collection, id);
+        if (item !== null && applyQuery([item], { where: query.where, range: query.range }).length > 0) {
+          items.push(item);
+        }
+      }
+
+      return applyQuery(items, { orderBy: query.orderBy, limit: query.limit, offset: query.offset });
+    } catch (error) {
+      console.error(`Error querying collection ${collection}:`, error);
+      return [];
+    }
+  }
+
   async write<T>(collection: string, data: T[]): Promise<void> {
     try {
-      await this.clear(collection);
+      this.removeAll(collection);
       
       for (const item of data) {
         const id = (item as any).id;
         if (id) {
-          await this.writeOne(collection, id, item);
+          this.putItem(collection, id, item);
         }
       }
+      this.broadcast({ collection, type: 'reset' });
     } catch (error) {
       console.error(`Error writing collection ${collection}:`, error);
       throw error;
@@ -131,13 +189,18 @@ export class LocalStorageAdapter implements IStorageAdapter {
     }
   }
 
+  private putItem<T>(collection: string, id: string, data: T): void {
+    const key = this.getItemKey(collection, id);
+    const serializedData = this.serializeData(data);
+
+    localStorage.setItem(key, serializedData);
+    this.addToIndex(collection, id);
+  }
+
   async writeOne<T>(collection: string, id: string, data: T): Promise<void> {
     try {
-      const key = this.getItemKey(collection, id);
-      const serializedData = this.serializeData(data);
-      
-      localStorage.setItem(key, serializedData);
-      this.addToIndex(collection, id);
+      this.putItem(collection, id, data);
+      this.broadcast({ collection, type: 'upsert', id });
     } catch (error) {
       console.error(`Error writing item ${id} to collection ${collection}:`, error);
       throw error;
@@ -151,6 +214,9 @@ export class LocalStorageAdapter implements IStorageAdapter {
       
       localStorage.removeItem(key);
       this.removeFromIndex(collection, id);
+      if (existed) {
+        this.broadcast({ collection, type: 'delete', id });
+      }
       
       return existed;
     } catch (error) {
@@ -164,17 +230,22 @@ export class LocalStorageAdapter implements IStorageAdapter {
     return localStorage.getItem(indexKey) !== null;
   }
 
+  private removeAll(collection: string): void {
+    const index = this.getIndex(collection);
+
+    for (const id of index) {
+      const key = this.getItemKey(collection, id);
+      localStorage.removeItem(key);
+    }
+
+    const indexKey = this.getIndexKey(collection);
+    localStorage.removeItem(indexKey);
+  }
+
   async clear(collection: string): Promise<void> {
     try {
-      const index = this.getIndex(collection);
-      
-      for (const id of index) {
-        const key = this.getItemKey(collection, id);
-        localStorage.removeItem(key);
-      }
-      
-      const indexKey = this.getIndexKey(collection);
-      localStorage.removeItem(indexKey);
+      this.removeAll(collection);
+      this.broadcast({ collection, type: 'reset' });
     } catch (error) {
       console.error(`Error clearing collection ${collection}:`, error);
       throw error;
@@ -223,11 +294,14 @@ export class LocalStorageAdapter implements IStorageAdapter {
         }
       }
 
+      const collections = new Set<string>();
       for (const [key, value] of Object.entries(backup.data)) {
         if (typeof value === 'string') {
           localStorage.setItem(key, value);
+          collections.add(key.slice(this.baseKey.length + 1).split(':')[0]);
         }
       }
+      collections.forEach(collection => this.broadcast({ collection, type: 'reset' }));
     } catch (error) {
       console.error('Error restoring backup:', error);
       throw error;
@@ -0,0 +1,125 @@
+import { BulkUpdate, IStorageAdapter, StorageQuery } from './IStorageAdapter';
+import { VersionConflictError, versionOf } from './VersionConflictError';
+import { applyQuery } from './queryUtils';
+
+// Deep copy that keeps Dates, so callers never share objects with what is stored
+const copy = <T>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as any;
+  if (Array.isArray(value)) return value.map(copy) as any;
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = copy((value as any)[key]);
+    });
+    return result as T;
+  }
+  return value;
+};
+
+/**
+ * Keeps every collection in memory and loses it on reload. Stands in for the local and remote
+ * stores in tests; `failure` lets a test make the store unreachable or turn operations down.
+ */
+export class MemoryAdapter implements IStorageAdapter {
+  failure: ((operation: string, collection: string) => Error | undefined) | null = null;
+  private collections = new Map<string, Map<string, any>>();
+
+  private check(operation: string, collection: string): void {
+    const error = this.failure ? this.failure(operation, collection) : undefined;
+    if (error) throw error;
+  }
+
+  private collection(name: string): Map<string, any> {
+    if (!this.collections.has(name)) this.collections.set(name, new Map());
+    return this.collections.get(name)!;
+  }
+
+  async read<T>(collection: string): Promise<T[]> {
+    this.check('read', collection);
+    return copy(Array.from(this.collection(collection).values()));
+  }
+
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    this.check('query', collection);
+    return applyQuery(copy(Array.from(this.collection(collection).values())), query);
+  }
+
+  async write<T>(collection: string, data: T[]): Promise<void> {
+    this.check('write', collection);
+    this.collections.set(collection, new Map(data.filter((item: any) => item.id).map((item: any) => [item.id, copy(item)])));
+  }
+
+  async readOne<T>(collection: string, id: string): Promise<T | null> {
+    this.check('readOne', collection);
+    const record = this.collection(collection).get(id);
+    return record ? copy(record) : null;
+  }
+
+  async writeOne<T>(collection: string, id: string, data: T): Promise<void> {
+    this.check('writeOne', collection);
+    this.collection(collection).set(id, copy({ ...data, id }));
+  }
+
+  async updatePartial<T>(collection: string, id: string, updates: Partial<T>, expectedVersion?: number): Promise<void> {
+    this.check('updatePartial', collection);
+    const existing = this.collection(collection).get(id);
+    if (existing && expectedVersion !== undefined && versionOf(existing) !== expectedVersion) {
+      throw new VersionConflictError(collection, [id], copy(existing));
+    }
+    if (existing) {
+      this.collection(collection).set(id, copy({ ...existing, ...updates, id, updatedAt: new Date() }));
+    }
+  }
+
+  async updateBulk<T>(collection: string, updates: Array<BulkUpdate<T>>): Promise<void> {
+    this.check('updateBulk', collection);
+    const records = this.collection(collection);
+    const staleIds = updates
+      .filter(({ id, expectedVersion }) =>
+        records.has(id) && expectedVersion !== undefined && versionOf(records.get(id)) !== expectedVersion
+      )
+      .map(({ id }) => id);
+    if (staleIds.length > 0) throw new VersionConflictError(collection, staleIds);
+
+    const timestamp = new Date();
+    updates.forEach(({ id, data }) => {
+      if (records.has(id)) records.set(id, copy({ ...records.get(id), ...data, id, updatedAt: timestamp }));
+    });
+  }
+
+  async deleteOne(collection: string, id: string): Promise<boolean> {
+    this.check('deleteOne', collection);
+    return this.collection(collection).delete(id);
+  }
+
+  async exists(collection: string): Promise<boolean> {
+    this.check('exists', collection);
+    return this.collection(collection).size > 0;
+  }
+
+  async clear(collection: string): Promise<void> {
+    this.check('clear', collection);
+    this.collections.delete(collection);
+  }
+
+  async backup(): Promise<string> {
+    this.check('backup', '');
+    const data: Record<string, any[]> = {};
+    this.collections.forEach((records, collection) => {
+      data[collection] = Array.from(records.values());
+    });
+    return JSON.stringify({ timestamp: new Date().toISOString(), version: '1.0', data });
+  }
+
+  async restore(backupData: string): Promise<void> {
+    this.check('restore', '');
+    const backup = JSON.parse(backupData);
+    const data = backup.data && typeof backup.data === 'object' ? backup.data : backup;
+    this.collections.clear();
+    Object.keys(data).forEach(collection => {
+      if (Array.isArray(data[collection])) {
+        this.collections.set(collection, new Map(data[collection].map((item: any) => [item.id, item])));
+      }
+    });
+  }
+}
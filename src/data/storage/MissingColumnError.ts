@@ -0,0 +1,17 @@
+/**
+ * Thrown when the server's table has no column for a field being written, i.e. the database is
+ * behind the app. The write is refused rather than saved without the field; DATABASE_SETUP.md and
+ * the feature setup guides list the columns to add.
+ */
+export class MissingColumnError extends Error {
+  readonly table: string;
+  readonly column: string;
+
+  constructor(table: string, column: string) {
+    super(`The ${table} table has no ${column} column. Add it to the database (see DATABASE_SETUP.md) so changes can be saved.`);
+    this.name = 'MissingColumnError';
+    this.table = table;
+    this.column = column;
+    Object.setPrototypeOf(this, MissingColumnError.prototype);
+  }
+}
@@ -1,5 +1,8 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { IStorageAdapter } from './IStorageAdapter';
+import { BACKUP_COLLECTIONS } from '../backup/backupFormat';
+import { BulkUpdate, IStorageAdapter, QueryRange, QueryValue, StorageChangeListener, StorageQuery } from './IStorageAdapter';
+import { MissingColumnError } from './MissingColumnError';
+import { VersionConflictError } from './VersionConflictError';
 
 const supabaseUrl = process.env.REACT_APP_SUPABASE_URL;
 const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY;
@@ -10,21 +13,34 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey);
 
+type WriteResult = { error: { code?: string; message: string } | null };
+
+// An update that sets a field to undefined clears it, as it does in the local adapters. JSON
+// drops undefined, so those fields are sent as null.
+const withNullsForUndefined = <T>(updates: Partial<T>): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  Object.keys(updates).forEach(key => {
+    const value = updates[key as keyof T];
+    row[key] = value === undefined ? null : value;
+  });
+  return row;
+};
+
+// Each watcher gets its own channel topic so unsubscribing one doesn't close the others
+let channelCount = 0;
+
 export class SupabaseAdapter implements IStorageAdapter {
+  // Columns PostgREST reported missing, per table, so the app can say what the schema lacks
+  private missingColumns: Record<string, Set<string>> = {};
+
   private convertToSnakeCase(obj: any): any {
     if (obj === null || obj === undefined) return obj;
     if (obj instanceof Date) return obj.toISOString();
     if (typeof obj !== 'object') return obj;
     if (Array.isArray(obj)) return obj.map(item => this.convertToSnakeCase(item));
     
-    // Fields that should be excluded from database writes (UI-only fields or missing from schema)
-    const excludeFields = ['checkedIn', 'checked_in', 'instagram'];
-    
     const converted: any = {};
     for (const [key, value] of Object.entries(obj)) {
-      // Skip excluded fields
-      if (excludeFields.includes(key)) continue;
-      
       const snakeKey = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
       converted[snakeKey] = this.convertToSnakeCase(value);
     }
@@ -54,10 +70,83 @@ export class SupabaseAdapter implements IStorageAdapter {
       'eventBookings': 'event_bookings',
       'notificationSettings': 'notification_settings',
       'studioSettings': 'studio_settings',
-      'eventTemplates': 'event_templates'
+      'eventTemplates': 'event_templates',
+      'emailTemplates': 'email_templates',
+      'smsTemplates': 'sms_templates',
+      'notificationHistory': 'notification_history',
+      'auditLog': 'audit_log',
+      'schemaMeta': 'schema_meta'
     };
     return mapping[collection] || collection;
   }
+
+  /**
+   * Send a write and turn "column not found" into a MissingColumnError. Older studio schemas lack
+   * columns added since (e.g. deleted_at, version). Saving the rest of the row would quietly lose
+   * the field, and the next sync would bring back the old value, so the write is refused until the
+   * column is added. PostgREST reports unknown columns in the row as PGRST204; Postgres reports
+   * unknown columns in a filter, such as the version check, as 42703.
+   */
+  private async sendWrite(tableName: string, row: any, send: (row: any) => PromiseLike<WriteResult>): Promise<WriteResult['error']> {
+    const { error } = await send(row);
+    const missingColumn = error?.code === 'PGRST204'
+      ? error.message.match(/'([^']+)' column/)?.[1]
+      : error?.code === '42703'
+        ? error.message.match(/column (?:\w+\.)?"?(\w+)"? does not exist/)?.[1]
+        : undefined;
+    if (!missingColumn) return error;
+
+    this.missingColumns[tableName] = this.missingColumns[tableName] || new Set<string>();
+    this.missingColumns[tableName].add(missingColumn);
+    throw new MissingColumnError(tableName, missingColumn);
+  }
+
+  getMissingColumns(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    for (const [tableName, columns] of Object.entries(this.missingColumns)) {
+      result[tableName] = Array.from(columns);
+    }
+    return result;
+  }
+
+  /**
+   * Listen for inserts, updates and deletes through Supabase Realtime. Tables only emit changes
+   * once they are added to the supabase_realtime publication in the project's database.
+   */
+  watch(collections: string[], listener: StorageChangeListener): () => void {
+    const channel = supabase.channel(`storage-changes-${++channelCount}`);
+
+    for (const collection of collections) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: this.mapCollectionName(collection) },
+        payload => {
+          const deleted = payload.eventType === 'DELETE';
+          const row = (deleted ? payload.old : payload.new) as { id?: string };
+          listener({ collection, type: deleted ? 'delete' : 'upsert', id: row?.id });
+        }
+      );
+    }
+
+    channel.subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn(`Realtime updates unavailable (${status}):`, error);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel).catch(console.error);
+    };
+  }
+
+  private toColumnName(field: string): string {
+    return field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  }
+
+  private toColumnValue(value: QueryValue): string | number | boolean | null {
+    return value instanceof Date ? value.toISOString() : value;
+  }
+
   async read<T>(collection: string): Promise<T[]> {
     try {
       const tableName = this.mapCollectionName(collection);
@@ -69,14 +158,60 @@ export class SupabaseAdapter implements IStorageAdapter {
     }
   }
 
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    try {
+      const tableName = this.mapCollectionName(collection);
+      let request = supabase.from(tableName).select('*');
+
+      for (const [field, value] of Object.entries(query.where || {})) {
+        if (value === undefined) continue;
+        const column = this.toColumnName(field);
+        request = value === null
+          ? request.is(column, null)
+          : request.eq(column, this.toColumnValue(value as QueryValue));
+      }
+
+      for (const [field, range] of Object.entries(query.range || {}) as Array<[string, QueryRange | undefined]>) {
+        if (!range) continue;
+        const column = this.toColumnName(field);
+        if (range.gt !== undefined) request = request.gt(column, this.toColumnValue(range.gt));
+        if (range.gte !== undefined) request = request.gte(column, this.toColumnValue(range.gte));
+        if (range.lt !== undefined) request = request.lt(column, this.toColumnValue(range.lt));
+        if (range.lte !== undefined) request = request.lte(column, this.toColumnValue(range.lte));
+      }
+
+      if (query.orderBy) {
+        request = request.order(this.toColumnName(query.orderBy.field), {
+          ascending: (query.orderBy.direction || 'asc') === 'asc'
+        });
+      }
+
+      if (query.limit !== undefined || query.offset !== undefined) {
+        const offset = query.offset || 0;
+        // PostgREST ranges are inclusive; without a limit just skip ahead to the default page size
+        const end = query.limit !== undefined ? offset + query.limit - 1 : offset + 999;
+        request = request.range(offset, end);
+      }
+
+      const { data, error } = await request;
+      if (error) throw new Error(`Failed to query ${collection}: ${error.message}`);
+      return this.convertToCamelCase(data || []) as T[];
+    } catch (error) {
+      throw new Error(`Database query error for ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async write<T>(collection: string, data: T[]): Promise<void> {
     try {
       if (!Array.isArray(data) || data.length === 0) return;
       const tableName = this.mapCollectionName(collection);
       const convertedData = this.convertToSnakeCase(data);
-      const { error } = await supabase.from(tableName).upsert(convertedData, { onConflict: 'id' });
+      const error = await this.sendWrite(tableName, convertedData, rows =>
+        supabase.from(tableName).upsert(rows, { onConflict: 'id' })
+      );
       if (error) throw new Error(`Failed to write to ${collection}: ${error.message}`);
     } catch (error) {
+      if (error instanceof MissingColumnError) throw error;
       throw new Error(`Database write error for ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -100,51 +235,66 @@ export class SupabaseAdapter implements IStorageAdapter {
     try {
       const tableName = this.mapCollectionName(collection);
       const convertedData = this.convertToSnakeCase({ ...data, id });
-      const { error } = await supabase.from(tableName).upsert([convertedData], { onConflict: 'id' });
+      const error = await this.sendWrite(tableName, convertedData, row =>
+        supabase.from(tableName).upsert([row], { onConflict: 'id' })
+      );
       if (error) throw new Error(`Failed to write ${id} to ${collection}: ${error.message}`);
     } catch (error) {
+      if (error instanceof MissingColumnError) throw error;
       throw new Error(`Database writeOne error for ${collection}:${id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updatePartial<T>(collection: string, id: string, updates: Partial<T>): Promise<void> {
+  async updatePartial<T>(collection: string, id: string, updates: Partial<T>, expectedVersion?: number): Promise<void> {
     try {
       const tableName = this.mapCollectionName(collection);
       const convertedUpdates = this.convertToSnakeCase({
-        ...updates,
+        ...withNullsForUndefined(updates),
         updated_at: new Date().toISOString()
       });
-      const { error } = await supabase
-        .from(tableName)
-        .update(convertedUpdates)
-        .eq('id', id);
+
+      // The version filter makes the update conditional; zero rows back means someone saved first
+      let matched = true;
+      const error = await this.sendWrite(tableName, convertedUpdates, async row => {
+        const request = supabase.from(tableName).update(row).eq('id', id);
+        if (expectedVersion === undefined) {
+          return await request;
+        }
+        const result = await (expectedVersion === 0
+          ? request.or('version.is.null,version.eq.0')
+          : request.eq('version', expectedVersion)
+        ).select('id');
+        matched = !!result.data && result.data.length > 0;
+        return result;
+      });
       if (error) throw new Error(`Failed to update ${id} in ${collection}: ${error.message}`);
+
+      if (!matched) {
+        const current = await this.readOne<T>(collection, id);
+        if (current) throw new VersionConflictError(collection, [id], current);
+      }
     } catch (error) {
+      if (error instanceof VersionConflictError || error instanceof MissingColumnError) throw error;
       throw new Error(`Database updatePartial error for ${collection}:${id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async updateBulk<T>(collection: string, updates: Array<{id: string, data: Partial<T>}>): Promise<void> {
-    try {
-      const tableName = this.mapCollectionName(collection);
-      const timestamp = new Date().toISOString();
-      
-      // Convert all updates to snake_case with timestamp
-      const convertedUpdates = updates.map(update => ({
-        ...this.convertToSnakeCase(update.data),
-        id: update.id,
-        updated_at: timestamp
-      }));
-
-      // Use upsert for bulk operations (more efficient than multiple update calls)
-      const { error } = await supabase
-        .from(tableName)
-        .upsert(convertedUpdates, { onConflict: 'id' });
-      
-      if (error) throw new Error(`Failed to bulk update ${collection}: ${error.message}`);
-    } catch (error) {
-      throw new Error(`Database updateBulk error for ${collection}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Upserts can't be conditional, so each row is sent as its own conditional update. A stale row
+   * is never overwritten; rows that were still current are saved, and the stale ones are reported
+   * together afterwards.
+   */
+  async updateBulk<T>(collection: string, updates: Array<BulkUpdate<T>>): Promise<void> {
+    const staleIds: string[] = [];
+    for (const update of updates) {
+      try {
+        await this.updatePartial(collection, update.id, update.data, update.expectedVersion);
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) throw error;
+        staleIds.push(update.id);
+      }
     }
+    if (staleIds.length > 0) throw new VersionConflictError(collection, staleIds);
   }
 
   async deleteOne(collection: string, id: string): Promise<boolean> {
@@ -185,13 +335,13 @@ export class SupabaseAdapter implements IStorageAdapter {
 
   async backup(): Promise<string> {
     try {
-      const collections = ['customers', 'pieces', 'events', 'eventBookings', 'notificationSettings', 'studioSettings', 'eventTemplates'];
       const backup: Record<string, any> = {
         timestamp: new Date().toISOString(),
         version: '1.0.0'
       };
 
-      for (const collection of collections) {
+      // The same collections as the portable export, so neither kind of backup leaves any out
+      for (const collection of BACKUP_COLLECTIONS) {
         try {
           const data = await this.read(collection);
           backup[collection] = data;
@@ -210,9 +360,8 @@ export class SupabaseAdapter implements IStorageAdapter {
   async restore(backupData: string): Promise<void> {
     try {
       const backup = JSON.parse(backupData);
-      const collections = ['customers', 'pieces', 'events', 'eventBookings', 'notificationSettings', 'studioSettings', 'eventTemplates'];
 
-      for (const collection of collections) {
+      for (const collection of BACKUP_COLLECTIONS) {
         if (backup[collection]) {
           try {
             await this.clear(collection);
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MemoryAdapter } from './MemoryAdapter';
+import { MissingColumnError } from './MissingColumnError';
+import { SyncingAdapter } from './SyncingAdapter';
+
+interface Customer {
+  id: string;
+  name: string;
+  version: number;
+}
+
+const NETWORK_ERROR = 'Failed to fetch';
+
+describe('SyncingAdapter', () => {
+  let local: MemoryAdapter;
+  let remote: MemoryAdapter;
+  let adapter: SyncingAdapter;
+  let remoteCalls: string[];
+  let offline: boolean;
+
+  beforeEach(() => {
+    local = new MemoryAdapter();
+    remote = new MemoryAdapter();
+    remoteCalls = [];
+    offline = false;
+    remote.failure = (operation, collection) => {
+      if (offline) return new Error(NETWORK_ERROR);
+      remoteCalls.push(`${operation} ${collection}`);
+      return undefined;
+    };
+    adapter = new SyncingAdapter(local, remote);
+  });
+
+  afterEach(() => {
+    adapter.dispose();
+    jest.restoreAllMocks();
+  });
+
+  const reconnect = async () => {
+    offline = false;
+    window.dispatchEvent(new Event('online'));
+    await adapter.flush();
+  };
+
+  // Both sides hold the record at version 1, as after a normal pull
+  const seed = async (customer: Customer) => {
+    await remote.writeOne('customers', customer.id, customer);
+    await adapter.read('customers');
+  };
+
+  // An edit made the way Database makes them: bump the version, expect the one it started from
+  const edit = (id: string, name: string, fromVersion: number) =>
+    adapter.updatePartial<Customer>('customers', id, { name, version: fromVersion + 1 }, fromVersion);
+
+  // Straight to the server, as another device would, even while this one can't reach it
+  const onServer = async <T>(action: () => Promise<T>): Promise<T> => {
+    const failure = remote.failure;
+    remote.failure = null;
+    try {
+      return await action();
+    } finally {
+      remote.failure = failure;
+    }
+  };
+
+  const saveElsewhere = (id: string, name: string, version: number) =>
+    onServer(() => remote.updatePartial<Customer>('customers', id, { name, version }));
+
+  const remoteName = async (id: string) => (await onServer(() => remote.readOne<Customer>('customers', id)))?.name;
+
+  it('writes straight through while online', async () => {
+    await adapter.writeOne('customers', 'c1', { id: 'c1', name: 'Ada', version: 1 });
+
+    expect(await remoteName('c1')).toBe('Ada');
+    expect(adapter.getStatus().pendingChanges).toBe(0);
+  });
+
+  it('queues changes while offline and sends them in order on reconnect', async () => {
+    offline = true;
+    await adapter.writeOne('customers', 'c1', { id: 'c1', name: 'Ada', version: 1 });
+    await edit('c1', 'Ada Lovelace', 1);
+    await adapter.writeOne('customers', 'c2', { id: 'c2', name: 'Grace', version: 1 });
+    await adapter.deleteOne('customers', 'c2');
+
+    expect(adapter.getStatus()).toMatchObject({ online: false, pendingChanges: 4 });
+    expect((await local.readOne<Customer>('customers', 'c1'))?.name).toBe('Ada Lovelace');
+    expect(await onServer(() => remote.read('customers'))).toEqual([]);
+
+    await reconnect();
+
+    expect(remoteCalls.filter(call => !call.startsWith('read'))).toEqual([
+      'writeOne customers',
+      'updatePartial customers',
+      'writeOne customers',
+      'deleteOne customers'
+    ]);
+    expect(await remote.readOne<Customer>('customers', 'c1')).toMatchObject({ name: 'Ada Lovelace', version: 2 });
+    expect(await remote.readOne('customers', 'c2')).toBeNull();
+    expect(adapter.getStatus()).toMatchObject({ online: true, pendingChanges: 0, conflicts: [] });
+  });
+
+  it('keeps the queue across restarts', async () => {
+    offline = true;
+    await adapter.writeOne('customers', 'c1', { id: 'c1', name: 'Ada', version: 1 });
+    adapter.dispose();
+
+    adapter = new SyncingAdapter(local, remote);
+    offline = false;
+    await adapter.flush();
+
+    expect(await remoteName('c1')).toBe('Ada');
+  });
+
+  it('holds back a queued edit to a record that changed on the server meanwhile', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    offline = true;
+    await edit('c1', 'Ada (this device)', 1);
+    await saveElsewhere('c1', 'Ada (elsewhere)', 2);
+
+    await reconnect();
+
+    const { conflicts, pendingChanges } = adapter.getStatus();
+    expect(pendingChanges).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      collection: 'customers',
+      recordId: 'c1',
+      localData: { name: 'Ada (this device)' },
+      remoteData: { name: 'Ada (elsewhere)' }
+    });
+    expect(await remoteName('c1')).toBe('Ada (elsewhere)');
+  });
+
+  it('holds back a second queued edit whose version number happens to match the server', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    offline = true;
+    // Local goes 1 -> 2 -> 3; the server went 1 -> 2 in between
+    await edit('c1', 'First edit', 1);
+    await edit('c1', 'Second edit', 2);
+    await saveElsewhere('c1', 'Ada (elsewhere)', 2);
+
+    await reconnect();
+
+    const { conflicts } = adapter.getStatus();
+    expect(await remoteName('c1')).toBe('Ada (elsewhere)');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].localData).toMatchObject({ name: 'Second edit', version: 3 });
+  });
+
+  it('sends later edits once a conflict is resolved in favour of this device', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    offline = true;
+    await edit('c1', 'Ada (this device)', 1);
+    await saveElsewhere('c1', 'Ada (elsewhere)', 2);
+    await reconnect();
+
+    await adapter.resolveConflict(adapter.getStatus().conflicts[0].id, 'local');
+    expect(await remote.readOne<Customer>('customers', 'c1')).toMatchObject({ name: 'Ada (this device)', version: 3 });
+
+    offline = true;
+    await edit('c1', 'Ada, later', 3);
+    await reconnect();
+
+    expect(await remoteName('c1')).toBe('Ada, later');
+    expect(adapter.getStatus().conflicts).toEqual([]);
+  });
+
+  it('sets aside a change the server turns down instead of dropping it', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    offline = true;
+    await edit('c1', 'Ada Lovelace', 1);
+
+    remote.failure = operation => (operation === 'updatePartial' ? new Error('value too long for column name') : undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await reconnect();
+
+    const { conflicts, pendingChanges } = adapter.getStatus();
+    expect(pendingChanges).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      recordId: 'c1',
+      error: 'value too long for column name',
+      localData: { name: 'Ada Lovelace' },
+      remoteData: { name: 'Ada' }
+    });
+  });
+
+  it('keeps queued edits when a read pulls the rest of the collection', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    await remote.writeOne('customers', 'c2', { id: 'c2', name: 'Grace', version: 1 });
+    await adapter.read('customers');
+
+    await saveElsewhere('c2', 'Grace Hopper', 2);
+    // The server can't take the edit yet, so it stays queued
+    remote.failure = operation =>
+      operation === 'updatePartial' ? new MissingColumnError('customers', 'nickname') : undefined;
+    await edit('c1', 'Ada Lovelace', 1);
+
+    const customers = await adapter.read<Customer>('customers');
+
+    expect(adapter.getStatus().pendingChanges).toBe(1);
+    expect(customers.map(customer => customer.name).sort()).toEqual(['Ada Lovelace', 'Grace Hopper']);
+    expect((await local.readOne<Customer>('customers', 'c1'))?.name).toBe('Ada Lovelace');
+  });
+
+  it('reads from the local copy while offline', async () => {
+    await seed({ id: 'c1', name: 'Ada', version: 1 });
+    offline = true;
+    await edit('c1', 'Ada Lovelace', 1);
+
+    expect((await adapter.read<Customer>('customers')).map(customer => customer.name)).toEqual(['Ada Lovelace']);
+    expect((await adapter.readOne<Customer>('customers', 'c1'))?.name).toBe('Ada Lovelace');
+  });
+});
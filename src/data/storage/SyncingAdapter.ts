@@ -0,0 +1,779 @@
+import { BulkUpdate, IStorageAdapter, StorageChangeListener, StorageConfig, StorageQuery } from './IStorageAdapter';
+import { MissingColumnError } from './MissingColumnError';
+import { VersionConflictError, versionOf } from './VersionConflictError';
+import { SyncConflict, SyncStatus } from '../../types';
+import { idService } from '../../services/idService';
+
+const QUEUE_COLLECTION = 'syncQueue';
+const CONFLICTS_COLLECTION = 'syncConflicts';
+// One record per collection: the remote version each local record was last pulled or pushed at
+const REMOTE_VERSIONS_COLLECTION = 'syncRemoteVersions';
+const SYNC_COLLECTIONS = [QUEUE_COLLECTION, CONFLICTS_COLLECTION, REMOTE_VERSIONS_COLLECTION];
+const RETRY_INTERVAL_MS = 30000;
+
+type QueuedOperation =
+  | { type: 'write'; collection: string; data: any[] }
+  | { type: 'writeOne'; collection: string; recordId: string; data: any }
+  | { type: 'updatePartial'; collection: string; recordId: string; data: any; expectedVersion?: number }
+  | { type: 'updateBulk'; collection: string; updates: Array<BulkUpdate<any>> }
+  | { type: 'deleteOne'; collection: string; recordId: string }
+  | { type: 'clear'; collection: string };
+
+interface QueuedChange {
+  id: string;
+  operation: QueuedOperation;
+  // Remote version of each touched record when the change was made. Only used for records with no
+  // remote version on file; changes queued by older releases hold updatedAt strings and skip the check.
+  baseVersions: Record<string, number | string | null>;
+  queuedAt: Date;
+}
+
+interface RemoteVersions {
+  id: string; // The collection
+  versions: Record<string, number>;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|network|load failed|timeout|offline/i.test(message);
+};
+
+const toTimestamp = (value: any): number => {
+  if (!value) return 0;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const reviveTaggedDate = (key: string, value: any): any =>
+  value && typeof value === 'object' && value.__type === 'Date' ? new Date(value.value) : value;
+
+// The records an operation names; whole-collection writes name what they write
+const operationRecordIds = (operation: QueuedOperation): string[] => {
+  switch (operation.type) {
+    case 'write':
+      return operation.data.filter(item => item && item.id).map(item => item.id);
+    case 'updateBulk':
+      return operation.updates.map(update => update.id);
+    case 'clear':
+      return [];
+    default:
+      return [operation.recordId];
+  }
+};
+
+const versionsOf = (records: any[]): Record<string, number> =>
+  records.reduce((versions: Record<string, number>, record) => {
+    if (record && record.id) versions[record.id] = versionOf(record);
+    return versions;
+  }, {});
+
+/**
+ * Offline-first adapter: every write lands in the local adapter first and is pushed to the
+ * remote adapter when reachable. Writes made while offline are queued (and persisted locally)
+ * then replayed in order on reconnect.
+ *
+ * For each local record it remembers the remote version that copy came from. Local and remote
+ * version numbers climb independently, so a queued change is only sent if the remote is still at
+ * that version; otherwise it is held back as a conflict for staff to resolve. Changes the remote
+ * turns down outright are set aside the same way, with the server's reason.
+ */
+export class SyncingAdapter implements IStorageAdapter {
+  private local: IStorageAdapter;
+  private remote: IStorageAdapter;
+  private queue: QueuedChange[] = [];
+  private conflicts: SyncConflict[] = [];
+  private remoteVersions = new Map<string, Record<string, number>>();
+  private loaded: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private online: boolean;
+  private lastSyncedAt?: Date;
+  private syncError?: string;
+  private listeners = new Set<SyncListener>();
+  private retryTimer: number | null = null;
+
+  constructor(local: IStorageAdapter, remote: IStorageAdapter) {
+    this.local = local;
+    this.remote = remote;
+    this.online = typeof navigator === 'undefined' ? true : navigator.onLine;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+      this.retryTimer = window.setInterval(() => {
+        if (this.queue.length > 0) {
+          this.flush().catch(console.error);
+        }
+      }, RETRY_INTERVAL_MS);
+    }
+  }
+
+  private handleOnline = (): void => {
+    this.setOnline(true);
+    this.flush().catch(console.error);
+  };
+
+  private handleOffline = (): void => this.setOnline(false);
+
+  // Stops the retry timer and connectivity listeners; the adapter shouldn't be used afterwards
+  dispose(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    if (this.retryTimer !== null) {
+      window.clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.listeners.clear();
+  }
+
+  // Backup settings belong to the device-local store
+  getConfig(): StorageConfig {
+    return this.local.getConfig ? this.local.getConfig() : {};
+  }
+
+  // Other devices write to the remote, so that's where their changes show up. The local cache is
+  // rewritten on every remote read, so echoing its changes would bounce reloads between tabs.
+  watch(collections: string[], listener: StorageChangeListener): () => void {
+    return this.remote.watch ? this.remote.watch(collections, listener) : () => {};
+  }
+
+  // Status reporting
+  getStatus(): SyncStatus {
+    return {
+      online: this.online,
+      syncing: this.flushing !== null,
+      pendingChanges: this.queue.length,
+      conflicts: [...this.conflicts],
+      lastSyncedAt: this.lastSyncedAt,
+      error: this.syncError
+    };
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    this.ensureLoaded().then(() => listener(this.getStatus())).catch(console.error);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private setOnline(online: boolean): void {
+    if (this.online !== online) {
+      this.online = online;
+      this.notify();
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const [queue, conflicts, remoteVersions] = await Promise.all([
+          this.local.read<QueuedChange>(QUEUE_COLLECTION),
+          this.local.read<SyncConflict>(CONFLICTS_COLLECTION),
+          this.local.read<RemoteVersions>(REMOTE_VERSIONS_COLLECTION)
+        ]);
+        // Ids are ULIDs, so they break ties between changes queued in the same millisecond
+        this.queue = queue.sort((a, b) =>
+          toTimestamp(a.queuedAt) - toTimestamp(b.queuedAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+        );
+        this.conflicts = conflicts;
+        remoteVersions.forEach(entry => this.remoteVersions.set(entry.id, entry.versions));
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Records whose local copy hasn't reached the remote: queued changes and open conflicts. Null
+   * when a whole-collection write or clear is still queued, so every record is pending.
+   */
+  private pendingRecordIds(collection: string): Set<string> | null {
+    const ids = new Set<string>();
+    for (const { operation } of this.queue) {
+      if (operation.collection !== collection) continue;
+      if (operation.type === 'write' || operation.type === 'clear') return null;
+      operationRecordIds(operation).forEach(id => ids.add(id));
+    }
+    this.conflicts.filter(conflict => conflict.collection === collection).forEach(conflict => ids.add(conflict.recordId));
+    return ids;
+  }
+
+  private hasPendingChanges(collection: string): boolean {
+    const pending = this.pendingRecordIds(collection);
+    return !pending || pending.size > 0;
+  }
+
+  private isPending(collection: string, recordId: string): boolean {
+    const pending = this.pendingRecordIds(collection);
+    return !pending || pending.has(recordId);
+  }
+
+  private knownRemoteVersion(collection: string, recordId: string): number | undefined {
+    const versions = this.remoteVersions.get(collection);
+    return versions && recordId in versions ? versions[recordId] : undefined;
+  }
+
+  private async saveRemoteVersions(collection: string, versions: Record<string, number>): Promise<void> {
+    this.remoteVersions.set(collection, versions);
+    await this.local.writeOne<RemoteVersions>(REMOTE_VERSIONS_COLLECTION, collection, { id: collection, versions });
+  }
+
+  // null forgets a record, e.g. once its delete has reached the remote
+  private async updateRemoteVersions(collection: string, updates: Record<string, number | null>): Promise<void> {
+    const versions = { ...(this.remoteVersions.get(collection) || {}) };
+    Object.keys(updates).forEach(recordId => {
+      const version = updates[recordId];
+      if (version === null) {
+        delete versions[recordId];
+      } else {
+        versions[recordId] = version;
+      }
+    });
+    await this.saveRemoteVersions(collection, versions);
+  }
+
+  // The remote version a new change builds on; falls back to the local version for records never pulled
+  private async readBaseVersions(collection: string, recordIds: string[]): Promise<Record<string, number | null>> {
+    const versions: Record<string, number | null> = {};
+    for (const recordId of recordIds) {
+      const known = this.knownRemoteVersion(collection, recordId);
+      if (known !== undefined) {
+        versions[recordId] = known;
+      } else {
+        const record = await this.local.readOne<any>(collection, recordId);
+        versions[recordId] = typeof record?.version === 'number' ? record.version : null;
+      }
+    }
+    return versions;
+  }
+
+  // Once an operation has reached the remote, its records are at the versions it sent
+  private async rememberPushed(operation: QueuedOperation): Promise<void> {
+    const { collection } = operation;
+    const sentVersion = async (recordId: string, data: any): Promise<number> =>
+      typeof data?.version === 'number' ? data.version : versionOf(await this.local.readOne<any>(collection, recordId));
+
+    switch (operation.type) {
+      case 'write':
+        await this.saveRemoteVersions(collection, versionsOf(operation.data));
+        break;
+      case 'clear':
+        await this.saveRemoteVersions(collection, {});
+        break;
+      case 'deleteOne':
+        await this.updateRemoteVersions(collection, { [operation.recordId]: null });
+        break;
+      case 'writeOne':
+        await this.updateRemoteVersions(collection, { [operation.recordId]: versionOf(operation.data) });
+        break;
+      case 'updatePartial':
+        await this.updateRemoteVersions(collection, { [operation.recordId]: await sentVersion(operation.recordId, operation.data) });
+        break;
+      case 'updateBulk': {
+        const updates: Record<string, number> = {};
+        for (const { id, data } of operation.updates) {
+          updates[id] = await sentVersion(id, data);
+        }
+        await this.updateRemoteVersions(collection, updates);
+        break;
+      }
+    }
+  }
+
+  private async enqueue(operation: QueuedOperation, baseVersions: Record<string, number | null> = {}): Promise<void> {
+    const change: QueuedChange = {
+      id: idService.generate(),
+      operation,
+      baseVersions,
+      queuedAt: new Date()
+    };
+    this.queue.push(change);
+    await this.local.writeOne(QUEUE_COLLECTION, change.id, change);
+    this.notify();
+  }
+
+  private async dequeue(change: QueuedChange): Promise<void> {
+    this.queue = this.queue.filter(c => c.id !== change.id);
+    await this.local.deleteOne(QUEUE_COLLECTION, change.id);
+  }
+
+  private async applyRemote(operation: QueuedOperation): Promise<void> {
+    switch (operation.type) {
+      case 'write':
+        await this.remote.write(operation.collection, operation.data);
+        break;
+      case 'writeOne':
+        await this.remote.writeOne(operation.collection, operation.recordId, operation.data);
+        break;
+      case 'updatePartial':
+        if (this.remote.updatePartial) {
+          await this.remote.updatePartial(operation.collection, operation.recordId, operation.data, operation.expectedVersion);
+        } else {
+          const record = await this.local.readOne(operation.collection, operation.recordId);
+          if (record) await this.remote.writeOne(operation.collection, operation.recordId, record);
+        }
+        break;
+      case 'updateBulk':
+        if (this.remote.updateBulk) {
+          await this.remote.updateBulk(operation.collection, operation.updates);
+        } else {
+          for (const { id } of operation.updates) {
+            const record = await this.local.readOne(operation.collection, id);
+            if (record) await this.remote.writeOne(operation.collection, id, record);
+          }
+        }
+        break;
+      case 'deleteOne':
+        await this.remote.deleteOne(operation.collection, operation.recordId);
+        break;
+      case 'clear':
+        await this.remote.clear(operation.collection);
+        break;
+    }
+  }
+
+  /**
+   * Push a local write straight through when nothing is queued ahead of it, otherwise queue it
+   * so the remote sees changes in the order they were made.
+   */
+  private async pushOrQueue(operation: QueuedOperation, baseVersions: Record<string, number | null> = {}): Promise<void> {
+    await this.ensureLoaded();
+
+    if (this.online && this.queue.length === 0) {
+      try {
+        await this.applyRemote(operation);
+        await this.rememberPushed(operation);
+        this.lastSyncedAt = new Date();
+        return;
+      } catch (error) {
+        if (error instanceof MissingColumnError) {
+          // Kept locally and queued until the column exists, instead of being lost on the next sync
+          this.syncError = error.message;
+        } else if (isNetworkError(error)) {
+          this.setOnline(false);
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    await this.enqueue(operation, baseVersions);
+  }
+
+  private async buildConflict(collection: string, recordId: string, remoteRecord: any, error?: string): Promise<SyncConflict> {
+    return {
+      id: idService.generate(),
+      collection,
+      recordId,
+      localData: await this.local.readOne<any>(collection, recordId),
+      remoteData: remoteRecord,
+      detectedAt: new Date(),
+      ...(error ? { error } : {})
+    };
+  }
+
+  /**
+   * A change conflicts when the remote has moved past the version this device last pulled. That
+   * version only moves on a pull or a successful push, so after one queued edit conflicts, later
+   * edits to the same record conflict too instead of slipping through on a matching number.
+   */
+  private async findConflicts(change: QueuedChange): Promise<SyncConflict[]> {
+    const { collection } = change.operation;
+    const conflicts: SyncConflict[] = [];
+    const recordIds = Array.from(new Set([...operationRecordIds(change.operation), ...Object.keys(change.baseVersions)]));
+
+    for (const recordId of recordIds) {
+      const known = this.knownRemoteVersion(collection, recordId);
+      const baseVersion = known !== undefined ? known : change.baseVersions[recordId];
+      if (typeof baseVersion !== 'number') continue;
+      const remoteRecord = await this.remote.readOne<any>(collection, recordId);
+      if (remoteRecord && versionOf(remoteRecord) > baseVersion) {
+        conflicts.push(await this.buildConflict(collection, recordId, remoteRecord));
+      }
+    }
+
+    return conflicts;
+  }
+
+  // A newer conflict on the same record replaces the open one, which holds older local data
+  private async recordConflicts(conflicts: SyncConflict[]): Promise<void> {
+    for (const conflict of conflicts) {
+      const replaced = this.conflicts.filter(c => c.collection === conflict.collection && c.recordId === conflict.recordId);
+      for (const old of replaced) {
+        await this.local.deleteOne(CONFLICTS_COLLECTION, old.id);
+      }
+      this.conflicts = [...this.conflicts.filter(c => !replaced.includes(c)), conflict];
+      await this.local.writeOne(CONFLICTS_COLLECTION, conflict.id, conflict);
+    }
+  }
+
+  /**
+   * Sending a change the remote turned down would fail the same way every time and hold up the
+   * queue, so each record it touched becomes a conflict carrying the server's reason. Staff then
+   * see it, and can send this device's copy again or take the server's.
+   */
+  private async setAside(change: QueuedChange, reason: unknown): Promise<void> {
+    const { operation } = change;
+    const error = reason instanceof Error ? reason.message : String(reason);
+    const recordIds = new Set(operationRecordIds(operation));
+    if (operation.type === 'write' || operation.type === 'clear') {
+      (await this.remote.read<any>(operation.collection)).forEach(record => recordIds.add(record.id));
+    }
+
+    const conflicts: SyncConflict[] = [];
+    for (const recordId of Array.from(recordIds)) {
+      const conflict = await this.buildConflict(
+        operation.collection,
+        recordId,
+        await this.remote.readOne<any>(operation.collection, recordId),
+        error
+      );
+      // Nothing is lost where both sides already match
+      if (JSON.stringify(conflict.localData) !== JSON.stringify(conflict.remoteData)) conflicts.push(conflict);
+    }
+    await this.recordConflicts(conflicts);
+  }
+
+  // After the remote turns down a stale write, bring the local cache back in line with it
+  private async refreshFromRemote(collection: string, recordIds: string[]): Promise<void> {
+    for (const recordId of recordIds) {
+      try {
+        const remoteRecord = await this.remote.readOne<any>(collection, recordId);
+        if (remoteRecord) {
+          await this.local.writeOne(collection, recordId, remoteRecord);
+          await this.updateRemoteVersions(collection, { [recordId]: versionOf(remoteRecord) });
+        }
+      } catch (error) {
+        console.warn(`Could not refresh ${collection}:${recordId} from remote:`, error);
+      }
+    }
+  }
+
+  /**
+   * Mirror a full remote read into the local store. Records with queued changes or an open
+   * conflict keep this device's copy, and their remote version on file, so unpushed edits survive.
+   */
+  private async mergeIntoLocal<T>(collection: string, remoteRecords: T[]): Promise<T[]> {
+    const pending = this.pendingRecordIds(collection);
+    // A whole-collection write is still queued; the local copy is the newest there is
+    if (!pending) return this.local.read<T>(collection);
+
+    const localCopies = new Map<string, T>();
+    for (const recordId of Array.from(pending)) {
+      const record = await this.local.readOne<T>(collection, recordId);
+      if (record) localCopies.set(recordId, record);
+    }
+
+    const idOf = (record: T): string => (record as any).id;
+    const remoteIds = new Set(remoteRecords.map(idOf));
+    const merged = remoteRecords
+      .filter(record => !pending.has(idOf(record)) || localCopies.has(idOf(record)))
+      .map(record => localCopies.get(idOf(record)) || record);
+    localCopies.forEach((record, recordId) => {
+      if (!remoteIds.has(recordId)) merged.push(record);
+    });
+    await this.local.write(collection, merged);
+
+    const versions = versionsOf(remoteRecords.filter(record => !pending.has(idOf(record))));
+    pending.forEach(recordId => {
+      const known = this.knownRemoteVersion(collection, recordId);
+      if (known !== undefined) versions[recordId] = known;
+    });
+    await this.saveRemoteVersions(collection, versions);
+    return merged;
+  }
+
+  /**
+   * Replay queued changes against the remote adapter, stopping at the first network failure or
+   * at a change the server's schema can't hold yet.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+
+    this.flushing = (async () => {
+      await this.ensureLoaded();
+      this.notify();
+
+      for (const change of [...this.queue]) {
+        try {
+          const conflicts = await this.findConflicts(change);
+          if (conflicts.length > 0) {
+            await this.recordConflicts(conflicts);
+          } else {
+            try {
+              await this.applyRemote(change.operation);
+              await this.rememberPushed(change.operation);
+            } catch (error) {
+              if (!(error instanceof VersionConflictError)) throw error;
+              // Saved elsewhere between the check above and the write; let staff choose
+              const versionConflicts: SyncConflict[] = [];
+              for (const recordId of error.recordIds) {
+                const remoteRecord = await this.remote.readOne<any>(error.collection, recordId);
+                versionConflicts.push(await this.buildConflict(error.collection, recordId, remoteRecord));
+              }
+              await this.recordConflicts(versionConflicts);
+            }
+          }
+          await this.dequeue(change);
+          this.setOnline(true);
+          this.lastSyncedAt = new Date();
+          this.syncError = undefined;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            this.setOnline(false);
+            break;
+          }
+          // Later changes may depend on this one, so the queue waits until the schema is fixed
+          if (error instanceof MissingColumnError) {
+            this.syncError = error.message;
+            break;
+          }
+          console.error('Remote rejected change, setting it aside:', change, error);
+          try {
+            await this.setAside(change, error);
+          } catch (setAsideError) {
+            // Left queued rather than lost; the next flush tries again
+            if (isNetworkError(setAsideError)) this.setOnline(false);
+            console.error('Could not set aside rejected change:', setAsideError);
+            break;
+          }
+          await this.dequeue(change);
+        }
+        this.notify();
+      }
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+      this.notify();
+    }
+  }
+
+  async resolveConflict(conflictId: string, keep: 'local' | 'remote'): Promise<void> {
+    await this.ensureLoaded();
+    const conflict = this.conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    if (keep === 'local') {
+      if (conflict.localData) {
+        // Ahead of both sides, so the next edit made against either copy is checked against this one
+        const kept = {
+          ...conflict.localData,
+          version: Math.max(versionOf(conflict.localData), versionOf(conflict.remoteData)) + 1,
+          updatedAt: new Date()
+        };
+        await this.remote.writeOne(conflict.collection, conflict.recordId, kept);
+        await this.local.writeOne(conflict.collection, conflict.recordId, kept);
+        await this.updateRemoteVersions(conflict.collection, { [conflict.recordId]: kept.version });
+      } else {
+        await this.remote.deleteOne(conflict.collection, conflict.recordId);
+        await this.updateRemoteVersions(conflict.collection, { [conflict.recordId]: null });
+      }
+    } else if (conflict.remoteData) {
+      await this.local.writeOne(conflict.collection, conflict.recordId, conflict.remoteData);
+      await this.updateRemoteVersions(conflict.collection, { [conflict.recordId]: versionOf(conflict.remoteData) });
+    } else {
+      await this.local.deleteOne(conflict.collection, conflict.recordId);
+      await this.updateRemoteVersions(conflict.collection, { [conflict.recordId]: null });
+    }
+
+    this.conflicts = this.conflicts.filter(c => c.id !== conflictId);
+    await this.local.deleteOne(CONFLICTS_COLLECTION, conflictId);
+    this.notify();
+  }
+
+  // IStorageAdapter implementation
+  async read<T>(collection: string): Promise<T[]> {
+    await this.ensureLoaded();
+
+    if (this.online) {
+      await this.flush();
+      if (this.online) {
+        try {
+          return await this.mergeIntoLocal(collection, await this.remote.read<T>(collection));
+        } catch (error) {
+          if (isNetworkError(error)) this.setOnline(false);
+          console.warn(`Reading ${collection} from local cache:`, error);
+        }
+      }
+    }
+
+    return this.local.read<T>(collection);
+  }
+
+  async query<T>(collection: string, query: StorageQuery<T>): Promise<T[]> {
+    await this.ensureLoaded();
+
+    if (this.online) {
+      await this.flush();
+    }
+    if (this.online && !this.hasPendingChanges(collection)) {
+      try {
+        return await this.remote.query<T>(collection, query);
+      } catch (error) {
+        if (isNetworkError(error)) this.setOnline(false);
+        console.warn(`Querying ${collection} from local cache:`, error);
+      }
+    }
+
+    return this.local.query<T>(collection, query);
+  }
+
+  async readOne<T>(collection: string, id: string): Promise<T | null> {
+    await this.ensureLoaded();
+
+    if (this.online && !this.isPending(collection, id)) {
+      try {
+        const record = await this.remote.readOne<T>(collection, id);
+        if (!record) return null;
+        // Checked again: an edit may have been queued while the remote was answering
+        if (!this.isPending(collection, id)) {
+          await this.local.writeOne(collection, id, record);
+          await this.updateRemoteVersions(collection, { [id]: versionOf(record) });
+          return record;
+        }
+      } catch (error) {
+        if (isNetworkError(error)) this.setOnline(false);
+        console.warn(`Reading ${collection}:${id} from local cache:`, error);
+      }
+    }
+
+    return this.local.readOne<T>(collection, id);
+  }
+
+  async write<T>(collection: string, data: T[]): Promise<void> {
+    await this.local.write(collection, data);
+    await this.pushOrQueue({ type: 'write', collection, data });
+  }
+
+  async writeOne<T>(collection: string, id: string, data: T): Promise<void> {
+    const baseVersions = await this.readBaseVersions(collection, [id]);
+    await this.local.writeOne(collection, id, data);
+    await this.pushOrQueue({ type: 'writeOne', collection, recordId: id, data }, baseVersions);
+  }
+
+  async updatePartial<T>(collection: string, id: string, updates: Partial<T>, expectedVersion?: number): Promise<void> {
+    const baseVersions = await this.readBaseVersions(collection, [id]);
+    if (this.local.updatePartial) {
+      await this.local.updatePartial(collection, id, updates, expectedVersion);
+    } else {
+      const existing = await this.local.readOne<T>(collection, id);
+      if (existing && expectedVersion !== undefined && versionOf(existing) !== expectedVersion) {
+        throw new VersionConflictError(collection, [id], existing);
+      }
+      if (existing) {
+        await this.local.writeOne(collection, id, { ...existing, ...updates, updatedAt: new Date() });
+      }
+    }
+
+    try {
+      await this.pushOrQueue({ type: 'updatePartial', collection, recordId: id, data: updates, expectedVersion }, baseVersions);
+    } catch (error) {
+      if (error instanceof VersionConflictError) await this.refreshFromRemote(collection, [id]);
+      throw error;
+    }
+  }
+
+  async updateBulk<T>(collection: string, updates: Array<BulkUpdate<T>>): Promise<void> {
+    const baseVersions = await this.readBaseVersions(collection, updates.map(u => u.id));
+    if (this.local.updateBulk) {
+      await this.local.updateBulk(collection, updates);
+    } else {
+      const staleIds: string[] = [];
+      const existingRecords: Array<T | null> = [];
+      for (const { id, expectedVersion } of updates) {
+        const existing = await this.local.readOne<T>(collection, id);
+        if (existing && expectedVersion !== undefined && versionOf(existing) !== expectedVersion) {
+          staleIds.push(id);
+        }
+        existingRecords.push(existing);
+      }
+      if (staleIds.length > 0) throw new VersionConflictError(collection, staleIds);
+
+      for (let index = 0; index < updates.length; index++) {
+        const existing = existingRecords[index];
+        if (existing) {
+          await this.local.writeOne(collection, updates[index].id, { ...existing, ...updates[index].data, updatedAt: new Date() });
+        }
+      }
+    }
+
+    try {
+      await this.pushOrQueue({ type: 'updateBulk', collection, updates }, baseVersions);
+    } catch (error) {
+      // The whole batch was turned down, so every record in it needs refreshing, not just the stale ones
+      if (error instanceof VersionConflictError) await this.refreshFromRemote(collection, updates.map(u => u.id));
+      throw error;
+    }
+  }
+
+  async deleteOne(collection: string, id: string): Promise<boolean> {
+    const baseVersions = await this.readBaseVersions(collection, [id]);
+    const existed = await this.local.deleteOne(collection, id);
+    await this.pushOrQueue({ type: 'deleteOne', collection, recordId: id }, baseVersions);
+    return existed;
+  }
+
+  async exists(collection: string): Promise<boolean> {
+    if (this.online) {
+      try {
+        return await this.remote.exists(collection);
+      } catch (error) {
+        console.warn(`Checking ${collection} in local cache:`, error);
+      }
+    }
+    return this.local.exists(collection);
+  }
+
+  async clear(collection: string): Promise<void> {
+    await this.local.clear(collection);
+    await this.pushOrQueue({ type: 'clear', collection });
+  }
+
+  async backup(): Promise<string> {
+    await this.flush();
+    if (this.online && this.queue.length === 0) {
+      try {
+        return await this.remote.backup();
+      } catch (error) {
+        console.warn('Backing up from local cache:', error);
+      }
+    }
+    return this.local.backup();
+  }
+
+  async restore(backupData: string): Promise<void> {
+    if (!this.online) {
+      throw new Error('Cannot restore a backup while offline');
+    }
+
+    // Backups taken offline come from the local store, which nests collections under `data` and
+    // tags dates; the remote expects the collections at the top level
+    const backup = JSON.parse(backupData, reviveTaggedDate);
+    const collections: Record<string, unknown> = backup.data && typeof backup.data === 'object' ? backup.data : backup;
+    await this.remote.restore(JSON.stringify({ timestamp: backup.timestamp, version: backup.version, ...collections }));
+
+    // Re-mirror restored collections from the remote so the local cache matches its format
+    for (const [collection, value] of Object.entries(collections)) {
+      if (!Array.isArray(value) || SYNC_COLLECTIONS.includes(collection)) continue;
+      try {
+        const records = await this.remote.read<any>(collection);
+        await this.local.write(collection, records);
+        await this.saveRemoteVersions(collection, versionsOf(records));
+      } catch (error) {
+        console.warn(`Could not refresh ${collection} from remote after restore:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Thrown by a conditional write when the stored record is no longer at the version the caller
+ * based its changes on, i.e. someone else saved it in the meantime. `current` holds the stored
+ * record when it could be read, so the caller can show both versions.
+ */
+export class VersionConflictError<T = any> extends Error {
+  readonly collection: string;
+  readonly recordIds: string[];
+  current?: T;
+
+  constructor(collection: string, recordIds: string[], current?: T) {
+    super(`${recordIds.length === 1 ? 'This record was' : 'Some records were'} changed by someone else (${collection})`);
+    this.name = 'VersionConflictError';
+    this.collection = collection;
+    this.recordIds = recordIds;
+    this.current = current;
+    // Compiled to ES5, subclasses of Error lose their prototype and break instanceof
+    Object.setPrototypeOf(this, VersionConflictError.prototype);
+  }
+}
+
+// Records saved before versioning count as version 0
+export const versionOf = (record: { version?: number | null } | null | undefined): number =>
+  (record && record.version) || 0;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyQuery } from './queryUtils';
+
+interface Row {
+  id: string;
+  customerId?: string | null;
+  status: string;
+  total?: number;
+  createdAt?: Date;
+}
+
+const rows: Row[] = [
+  { id: 'a', customerId: 'c1', status: 'glazed', total: 12, createdAt: new Date('2024-03-01') },
+  { id: 'b', customerId: 'c2', status: 'glazed', total: 30, createdAt: new Date('2024-01-15') },
+  { id: 'c', customerId: null, status: 'picked-up', total: 5, createdAt: new Date('2024-02-10') },
+  { id: 'd', customerId: 'c1', status: 'picked-up', createdAt: new Date('2024-04-20') }
+];
+
+const ids = (results: Row[]) => results.map(row => row.id);
+
+describe('applyQuery', () => {
+  it('returns everything for an empty query', () => {
+    expect(ids(applyQuery(rows, {}))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('matches every where field', () => {
+    expect(ids(applyQuery(rows, { where: { customerId: 'c1', status: 'picked-up' } }))).toEqual(['d']);
+  });
+
+  it('treats a null where value as "missing or null" and ignores undefined ones', () => {
+    expect(ids(applyQuery(rows, { where: { customerId: null } }))).toEqual(['c']);
+    expect(ids(applyQuery(rows, { where: { customerId: undefined, status: 'glazed' } }))).toEqual(['a', 'b']);
+  });
+
+  it('compares dates by time in where and range', () => {
+    expect(ids(applyQuery(rows, { where: { createdAt: new Date('2024-02-10') } }))).toEqual(['c']);
+    expect(ids(applyQuery(rows, {
+      range: { createdAt: { gte: new Date('2024-02-10'), lt: new Date('2024-04-01') } }
+    }))).toEqual(['a', 'c']);
+  });
+
+  it('leaves records without the field out of a range', () => {
+    expect(ids(applyQuery(rows, { range: { total: { gt: 0 } } }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sorts with missing values last in either direction', () => {
+    expect(ids(applyQuery(rows, { orderBy: { field: 'total' } }))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(applyQuery(rows, { orderBy: { field: 'total', direction: 'desc' } }))).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('pages after filtering and sorting', () => {
+    const query = { orderBy: { field: 'createdAt' as const }, offset: 1, limit: 2 };
+    expect(ids(applyQuery(rows, query))).toEqual(['c', 'a']);
+  });
+
+  it('does not reorder the input', () => {
+    const input = [...rows];
+    applyQuery(input, { orderBy: { field: 'total', direction: 'desc' } });
+    expect(ids(input)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
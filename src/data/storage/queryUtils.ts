@@ -0,0 +1,62 @@
+import { QueryRange, QueryValue, StorageQuery } from './IStorageAdapter';
+
+const toComparable = (value: any): any => {
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const matchesRange = (value: any, range: QueryRange): boolean => {
+  if (value === undefined || value === null) return false;
+
+  const comparable = toComparable(value);
+  const bound = (limit: QueryValue | undefined) => toComparable(limit);
+
+  if (range.gt !== undefined && !(comparable > bound(range.gt))) return false;
+  if (range.gte !== undefined && !(comparable >= bound(range.gte))) return false;
+  if (range.lt !== undefined && !(comparable < bound(range.lt))) return false;
+  if (range.lte !== undefined && !(comparable <= bound(range.lte))) return false;
+  return true;
+};
+
+/**
+ * Evaluate a StorageQuery against records already in memory. Used by adapters whose backing
+ * store has no query engine of its own.
+ */
+export const applyQuery = <T>(items: T[], query: StorageQuery<T>): T[] => {
+  const where = Object.entries(query.where || {});
+  const ranges = Object.entries(query.range || {});
+
+  let results = items.filter(item => {
+    const record = item as any;
+    for (const [field, expected] of where) {
+      if (expected === undefined) continue;
+      const actual = record[field];
+      if (expected === null) {
+        if (actual !== undefined && actual !== null) return false;
+      } else if (toComparable(actual) !== toComparable(expected)) {
+        return false;
+      }
+    }
+    for (const [field, range] of ranges) {
+      if (range && !matchesRange(record[field], range)) return false;
+    }
+    return true;
+  });
+
+  if (query.orderBy) {
+    const { field, direction = 'asc' } = query.orderBy;
+    const multiplier = direction === 'asc' ? 1 : -1;
+    results = [...results].sort((a, b) => {
+      const left = toComparable((a as any)[field]);
+      const right = toComparable((b as any)[field]);
+      if (left === right) return 0;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+      return left < right ? -multiplier : multiplier;
+    });
+  }
+
+  const offset = query.offset || 0;
+  const end = query.limit !== undefined ? offset + query.limit : undefined;
+  return results.slice(offset, end);
+};
@@ -1,28 +1,74 @@
-import { useState, useEffect, useCallback } from 'react';
-import { database } from '../data/database';
-import { Customer, Piece, Event, EventBooking } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { database, PieceUpdateOptions, TrashCollection } from '../data/database';
+import { Customer, Piece, Event, EventBooking, NewEventBooking, Firing, SyncStatus, TrashContents } from '../types';
 import { SupabaseAdapter } from '../data/storage/SupabaseAdapter';
+import { BulkUpdate } from '../data/storage/IStorageAdapter';
+
+const MAX_UNDO_STEPS = 20;
+// Batches bursts of remote changes (e.g. a bulk status update) into a single reload
+const LIVE_RELOAD_DELAY_MS = 300;
+
+const EMPTY_TRASH: TrashContents = { customers: [], pieces: [], events: [] };
+
+interface UndoEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  // Events whose spots replaying this step could take back, once the waitlist has moved up
+  eventIds?: string[];
+}
+
+// The values an update is about to overwrite. Fields the original didn't have are kept as
+// undefined, which clears them again on revert; SupabaseAdapter sends those as null.
+const captureOriginalValues = <T extends object>(original: T, updates: Partial<T>): Partial<T> => {
+  const reverse: Partial<T> = {};
+  (Object.keys(updates) as Array<keyof T>).forEach(key => {
+    reverse[key] = original[key];
+  });
+  return reverse;
+};
+
+// A status change also writes the stage history and pickup dates, so undo and redo carry those
+// too and write them back exactly, rather than recording another move
+const withStageFields = (updates: Partial<Piece>): Partial<Piece> =>
+  'status' in updates
+    ? { ...updates, stageHistory: undefined, readyForPickupDate: undefined, pickedUpDate: undefined }
+    : updates;
+
+const RESTORE_STAGES: PieceUpdateOptions = { restoring: true };
 
 export const useDatabase = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [pieces, setPieces] = useState<Piece[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [eventBookings, setEventBookings] = useState<EventBooking[]>([]);
+  const [firings, setFirings] = useState<Firing[]>([]);
+  const [trash, setTrash] = useState<TrashContents>(EMPTY_TRASH);
   const [loading, setLoading] = useState(true);
-
-  const loadData = useCallback(async () => {
-    setLoading(true);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(database.getSyncStatus());
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  const replayingRef = useRef(false);
+  // Counts waitlist promotions, so a change that made room can tell whether its spot was taken
+  const waitlistMovesRef = useRef(0);
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+
+  const loadData = useCallback(async (showLoading = true) => {
+    if (showLoading) setLoading(true);
     try {
-      const [customersData, piecesData, eventsData, eventBookingsData] = await Promise.all([
+      const [customersData, piecesData, eventsData, eventBookingsData, firingsData] = await Promise.all([
         database.getCustomers(),
         database.getPieces(),
         database.getEvents(),
-        database.getEventBookings()
+        database.getEventBookings(),
+        database.getFirings()
       ]);
       setCustomers(customersData);
       setPieces(piecesData);
       setEvents(eventsData);
       setEventBookings(eventBookingsData);
+      setFirings(firingsData);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -34,19 +80,122 @@ export const useDatabase = () => {
     loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    return database.subscribeToSyncStatus(setSyncStatus);
+  }, []);
+
+  // Live updates from other devices and tabs
+  const reloadCollections = useCallback(async (collections: string[]) => {
+    try {
+      await Promise.all([
+        collections.includes('customers') ? database.getCustomers().then(setCustomers) : null,
+        collections.includes('pieces') ? database.getPieces().then(setPieces) : null,
+        collections.includes('events') ? database.getEvents().then(setEvents) : null,
+        collections.includes('eventBookings') ? database.getEventBookings().then(setEventBookings) : null,
+        collections.includes('firings') ? database.getFirings().then(setFirings) : null
+      ]);
+    } catch (error) {
+      console.error('Error applying live update:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const changed = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = database.subscribeToChanges(change => {
+      changed.add(change.collection);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        const collections = Array.from(changed);
+        changed.clear();
+        reloadCollections(collections);
+      }, LIVE_RELOAD_DELAY_MS);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [reloadCollections]);
+
+  // Undo/redo
+  const updateUndoLabels = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    const redoStack = redoStackRef.current;
+    setUndoLabel(undoStack.length > 0 ? undoStack[undoStack.length - 1].label : null);
+    setRedoLabel(redoStack.length > 0 ? redoStack[redoStack.length - 1].label : null);
+  }, []);
+
+  // With waitlistMovesBefore, a step whose own change moved the waitlist up isn't recorded
+  const recordUndo = useCallback((entry: UndoEntry, waitlistMovesBefore?: number) => {
+    if (waitlistMovesBefore === undefined || waitlistMovesRef.current === waitlistMovesBefore) {
+      undoStackRef.current = [...undoStackRef.current, entry].slice(-MAX_UNDO_STEPS);
+    }
+    redoStackRef.current = [];
+    updateUndoLabels();
+  }, [updateUndoLabels]);
+
+  // Promotions aren't undoable: customers may already have been told they got a spot. Undoing the
+  // change that made room would hand the spot back too and overbook the event, so those steps go.
+  useEffect(() => database.subscribeToPromotions(promoted => {
+    waitlistMovesRef.current += 1;
+    const eventIds = promoted.map(booking => booking.eventId);
+    const keep = (entry: UndoEntry) => !(entry.eventIds || []).some(id => eventIds.includes(id));
+    undoStackRef.current = undoStackRef.current.filter(keep);
+    redoStackRef.current = redoStackRef.current.filter(keep);
+    updateUndoLabels();
+    database.getEventBookings()
+      .then(setEventBookings)
+      .catch(error => console.error('Error reloading bookings after a promotion:', error));
+  }), [updateUndoLabels]);
+
+  // Moves the newest entry from one stack to the other; returns its label, or null if there was
+  // nothing to do. A step that fails is dropped, since the data may now be partly reverted.
+  const replay = useCallback(async (direction: 'undo' | 'redo'): Promise<string | null> => {
+    const source = direction === 'undo' ? undoStackRef : redoStackRef;
+    const target = direction === 'undo' ? redoStackRef : undoStackRef;
+    const entry = source.current[source.current.length - 1];
+    if (!entry || replayingRef.current) return null;
+
+    replayingRef.current = true;
+    source.current = source.current.slice(0, -1);
+    try {
+      await entry[direction]();
+      target.current = [...target.current, entry];
+      return entry.label;
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      throw error;
+    } finally {
+      replayingRef.current = false;
+      updateUndoLabels();
+      await loadData(false);
+    }
+  }, [loadData, updateUndoLabels]);
+
+  const undo = useCallback(() => replay('undo'), [replay]);
+  const redo = useCallback(() => replay('redo'), [replay]);
+
   // Customer operations
   const addCustomer = useCallback(async (customerData: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => {
     try {
       const newCustomer = await database.addCustomer(customerData);
       setCustomers(prev => [...prev, newCustomer]);
+      recordUndo({
+        label: `Add customer ${newCustomer.name}`,
+        undo: async () => { await database.deleteCustomer(newCustomer.id); },
+        redo: async () => { await database.restoreFromTrash('customers', newCustomer.id); }
+      });
       return newCustomer;
     } catch (error) {
       console.error('Error adding customer:', error);
       throw error;
     }
-  }, []);
+  }, [recordUndo]);
 
-  const updateCustomer = useCallback(async (id: string, updates: Partial<Customer>) => {
+  const updateCustomer = useCallback(async (id: string, updates: Partial<Customer>, expectedVersion?: number) => {
     // Optimistic update - update UI immediately
     const originalCustomer = customers.find(c => c.id === id);
     if (originalCustomer) {
@@ -59,10 +208,18 @@ export const useDatabase = () => {
     }
 
     try {
-      const updatedCustomer = await database.updateCustomer(id, updates);
+      const updatedCustomer = await database.updateCustomer(id, updates, expectedVersion);
       if (updatedCustomer) {
         // Update with actual database response
         setCustomers(prev => prev.map(c => c.id === id ? updatedCustomer : c));
+        if (originalCustomer) {
+          const originalValues = captureOriginalValues(originalCustomer, updates);
+          recordUndo({
+            label: `Edit customer ${originalCustomer.name}`,
+            undo: async () => { await database.updateCustomer(id, originalValues); },
+            redo: async () => { await database.updateCustomer(id, updates); }
+          });
+        }
       }
       return updatedCustomer;
     } catch (error) {
@@ -73,35 +230,56 @@ export const useDatabase = () => {
       }
       throw error;
     }
-  }, [customers]);
+  }, [customers, recordUndo]);
 
   const deleteCustomer = useCallback(async (id: string) => {
+    const customer = customers.find(c => c.id === id);
+    const waitlistMoves = waitlistMovesRef.current;
     try {
       const success = await database.deleteCustomer(id);
       if (success) {
         setCustomers(prev => prev.filter(c => c.id !== id));
         setPieces(prev => prev.filter(p => p.customerId !== id));
+        setEventBookings(prev => prev.filter(b => b.customerId !== id));
+        if (customer) {
+          recordUndo({
+            label: `Delete customer ${customer.name}`,
+            undo: async () => { await database.restoreFromTrash('customers', id); },
+            redo: async () => { await database.deleteCustomer(id); },
+            eventIds: eventBookings.filter(b => b.customerId === id).map(b => b.eventId)
+          }, waitlistMoves);
+        }
       }
       return success;
     } catch (error) {
       console.error('Error deleting customer:', error);
       throw error;
     }
-  }, []);
+  }, [customers, eventBookings, recordUndo]);
 
   // Piece operations
   const addPiece = useCallback(async (pieceData: Omit<Piece, 'id' | 'createdAt' | 'updatedAt'>) => {
     try {
       const newPiece = await database.addPiece(pieceData);
       setPieces(prev => [...prev, newPiece]);
+      recordUndo({
+        label: 'Add piece',
+        undo: async () => { await database.deletePiece(newPiece.id); },
+        redo: async () => { await database.restoreFromTrash('pieces', newPiece.id); }
+      });
       return newPiece;
     } catch (error) {
       console.error('Error adding piece:', error);
       throw error;
     }
-  }, []);
-
-  const updatePiece = useCallback(async (id: string, updates: Partial<Piece>) => {
+  }, [recordUndo]);
+
+  const updatePiece = useCallback(async (
+    id: string,
+    updates: Partial<Piece>,
+    expectedVersion?: number,
+    options?: PieceUpdateOptions
+  ) => {
     // Optimistic update - update UI immediately
     const originalPiece = pieces.find(p => p.id === id);
     if (originalPiece) {
@@ -114,10 +292,19 @@ export const useDatabase = () => {
     }
 
     try {
-      const updatedPiece = await database.updatePiece(id, updates);
+      const updatedPiece = await database.updatePiece(id, updates, expectedVersion, options);
       if (updatedPiece) {
         // Update with actual database response
         setPieces(prev => prev.map(p => p.id === id ? updatedPiece : p));
+        if (originalPiece) {
+          const originalValues = captureOriginalValues(originalPiece, withStageFields(updates));
+          const updatedValues = captureOriginalValues(updatedPiece, withStageFields(updates));
+          recordUndo({
+            label: 'Edit piece',
+            undo: async () => { await database.updatePiece(id, originalValues, undefined, RESTORE_STAGES); },
+            redo: async () => { await database.updatePiece(id, updatedValues, undefined, RESTORE_STAGES); }
+          });
+        }
       }
       return updatedPiece;
     } catch (error) {
@@ -128,22 +315,53 @@ export const useDatabase = () => {
       }
       throw error;
     }
-  }, [pieces]);
+  }, [pieces, recordUndo]);
 
   const deletePiece = useCallback(async (id: string) => {
+    const piece = pieces.find(p => p.id === id);
     try {
       const success = await database.deletePiece(id);
       if (success) {
         setPieces(prev => prev.filter(p => p.id !== id));
+        if (piece) {
+          recordUndo({
+            label: 'Delete piece',
+            undo: async () => { await database.restoreFromTrash('pieces', id); },
+            redo: async () => { await database.deletePiece(id); }
+          });
+        }
       }
       return success;
     } catch (error) {
       console.error('Error deleting piece:', error);
       throw error;
     }
-  }, []);
+  }, [pieces, recordUndo]);
 
-  const updatePiecesBulk = useCallback(async (updates: Array<{id: string, data: Partial<Piece>}>) => {
+  const deletePiecesBulk = useCallback(async (ids: string[]) => {
+    try {
+      const deletedIds = await database.deletePiecesBulk(ids);
+      const deletedPieces = pieces.filter(p => deletedIds.includes(p.id));
+      setPieces(prev => prev.filter(p => !deletedIds.includes(p.id)));
+      if (deletedPieces.length > 0) {
+        recordUndo({
+          label: `Delete ${deletedPieces.length} pieces`,
+          undo: async () => {
+            for (const pieceId of deletedIds) {
+              await database.restoreFromTrash('pieces', pieceId);
+            }
+          },
+          redo: async () => { await database.deletePiecesBulk(deletedIds); }
+        });
+      }
+      return deletedIds;
+    } catch (error) {
+      console.error('Error deleting pieces:', error);
+      throw error;
+    }
+  }, [pieces, recordUndo]);
+
+  const updatePiecesBulk = useCallback(async (updates: Array<BulkUpdate<Piece>>, options?: PieceUpdateOptions) => {
     // Optimistic updates - update UI immediately
     const optimisticUpdates = new Map<string, Piece>();
     updates.forEach(({ id, data }) => {
@@ -162,10 +380,23 @@ export const useDatabase = () => {
     }
 
     try {
-      const updatedPieces = await database.updatePiecesBulk(updates);
+      const updatedPieces = await database.updatePiecesBulk(updates, options);
       // Update with actual database response
       const updatedMap = new Map(updatedPieces.map(p => [p.id, p]));
       setPieces(prev => prev.map(p => updatedMap.get(p.id) || p));
+
+      const undoable = updates.filter(({ id }) => pieces.some(p => p.id === id) && updatedMap.has(id));
+      const reverseUpdates = undoable
+        .map(({ id, data }) => ({ id, data: captureOriginalValues(pieces.find(p => p.id === id)!, withStageFields(data)) }));
+      const redoUpdates = undoable
+        .map(({ id, data }) => ({ id, data: captureOriginalValues(updatedMap.get(id)!, withStageFields(data)) }));
+      if (reverseUpdates.length > 0) {
+        recordUndo({
+          label: `Update ${reverseUpdates.length} pieces`,
+          undo: async () => { await database.updatePiecesBulk(reverseUpdates, RESTORE_STAGES); },
+          redo: async () => { await database.updatePiecesBulk(redoUpdates, RESTORE_STAGES); }
+        });
+      }
       return updatedPieces;
     } catch (error) {
       console.error('Error bulk updating pieces:', error);
@@ -178,7 +409,7 @@ export const useDatabase = () => {
       }
       throw error;
     }
-  }, [pieces]);
+  }, [pieces, recordUndo]);
 
   // Utility functions
   const getCustomerById = useCallback((id: string) => {
@@ -206,80 +437,131 @@ export const useDatabase = () => {
     try {
       const newEvent = await database.addEvent(eventData);
       setEvents(prev => [...prev, newEvent]);
+      recordUndo({
+        label: `Add event ${newEvent.name}`,
+        undo: async () => { await database.deleteEvent(newEvent.id); },
+        redo: async () => { await database.restoreFromTrash('events', newEvent.id); }
+      });
       return newEvent;
     } catch (error) {
       console.error('Error adding event:', error);
       throw error;
     }
-  }, []);
+  }, [recordUndo]);
 
-  const updateEvent = useCallback(async (id: string, updates: Partial<Event>) => {
+  const updateEvent = useCallback(async (id: string, updates: Partial<Event>, expectedVersion?: number) => {
+    const originalEvent = events.find(e => e.id === id);
+    const waitlistMoves = waitlistMovesRef.current;
     try {
-      const updatedEvent = await database.updateEvent(id, updates);
+      const updatedEvent = await database.updateEvent(id, updates, expectedVersion);
       if (updatedEvent) {
         setEvents(prev => prev.map(e => e.id === id ? updatedEvent : e));
+        if (originalEvent) {
+          const originalValues = captureOriginalValues(originalEvent, updates);
+          recordUndo({
+            label: `Edit event ${originalEvent.name}`,
+            undo: async () => { await database.updateEvent(id, originalValues); },
+            redo: async () => { await database.updateEvent(id, updates); },
+            eventIds: [id]
+          }, waitlistMoves);
+        }
       }
       return updatedEvent;
     } catch (error) {
       console.error('Error updating event:', error);
       throw error;
     }
-  }, []);
+  }, [events, recordUndo]);
 
   const deleteEvent = useCallback(async (id: string) => {
+    const event = events.find(e => e.id === id);
+
     try {
       const success = await database.deleteEvent(id);
       if (success) {
         setEvents(prev => prev.filter(e => e.id !== id));
         setEventBookings(prev => prev.filter(b => b.eventId !== id));
-        setPieces(prev => prev.map(p => p.eventId === id ? { ...p, eventId: undefined } : p));
+        if (event) {
+          recordUndo({
+            label: `Delete event ${event.name}`,
+            undo: async () => { await database.restoreFromTrash('events', id); },
+            redo: async () => { await database.deleteEvent(id); }
+          });
+        }
       }
       return success;
     } catch (error) {
       console.error('Error deleting event:', error);
       throw error;
     }
-  }, []);
+  }, [events, recordUndo]);
 
   // Event Booking operations
-  const addEventBooking = useCallback(async (bookingData: Omit<EventBooking, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addEventBooking = useCallback(async (bookingData: NewEventBooking) => {
     try {
       const newBooking = await database.addEventBooking(bookingData);
       setEventBookings(prev => [...prev, newBooking]);
-      // Event capacity is now calculated dynamically from bookings
+      // Redo books again through the server, so the spot is only taken if it is still free
+      let bookingId = newBooking.id;
+      recordUndo({
+        label: 'Add booking',
+        undo: async () => { await database.deleteEventBooking(bookingId); },
+        redo: async () => { bookingId = (await database.addEventBooking(bookingData)).id; },
+        eventIds: [newBooking.eventId]
+      });
       return newBooking;
     } catch (error) {
       console.error('Error adding event booking:', error);
       throw error;
     }
-  }, []);
+  }, [recordUndo]);
 
-  const updateEventBooking = useCallback(async (id: string, updates: Partial<EventBooking>) => {
+  const updateEventBooking = useCallback(async (id: string, updates: Partial<EventBooking>, expectedVersion?: number) => {
+    const originalBooking = eventBookings.find(b => b.id === id);
+    const waitlistMoves = waitlistMovesRef.current;
     try {
-      const updatedBooking = await database.updateEventBooking(id, updates);
+      const updatedBooking = await database.updateEventBooking(id, updates, expectedVersion);
       if (updatedBooking) {
         setEventBookings(prev => prev.map(b => b.id === id ? updatedBooking : b));
+        if (originalBooking) {
+          const originalValues = captureOriginalValues(originalBooking, updates);
+          recordUndo({
+            label: 'Edit booking',
+            undo: async () => { await database.updateEventBooking(id, originalValues); },
+            redo: async () => { await database.updateEventBooking(id, updates); },
+            eventIds: [originalBooking.eventId]
+          }, waitlistMoves);
+        }
       }
       return updatedBooking;
     } catch (error) {
       console.error('Error updating event booking:', error);
       throw error;
     }
-  }, []);
+  }, [eventBookings, recordUndo]);
 
   const deleteEventBooking = useCallback(async (id: string) => {
+    const booking = eventBookings.find(b => b.id === id);
+    const waitlistMoves = waitlistMovesRef.current;
     try {
       const success = await database.deleteEventBooking(id);
       if (success) {
         setEventBookings(prev => prev.filter(b => b.id !== id));
-        // Event capacity is now calculated dynamically from bookings
+        if (booking) {
+          recordUndo({
+            label: 'Remove booking',
+            undo: async () => { await database.restoreEventBooking(id); },
+            redo: async () => { await database.deleteEventBooking(id); },
+            eventIds: [booking.eventId]
+          }, waitlistMoves);
+        }
       }
       return success;
     } catch (error) {
       console.error('Error deleting event booking:', error);
       throw error;
     }
-  }, []);
+  }, [eventBookings, recordUndo]);
 
   // Utility functions
   const getEventById = useCallback((id: string) => {
@@ -308,23 +590,199 @@ export const useDatabase = () => {
     try {
       const newEvent = await database.duplicateEvent(eventId, newDate, overrides);
       setEvents(prev => [...prev, newEvent]);
+      recordUndo({
+        label: `Duplicate event ${newEvent.name}`,
+        undo: async () => { await database.deleteEvent(newEvent.id); },
+        redo: async () => { await database.restoreFromTrash('events', newEvent.id); }
+      });
       return newEvent;
     } catch (error) {
       console.error('Error duplicating event:', error);
       throw error;
     }
+  }, [recordUndo]);
+
+  const addEventSeries = useCallback(async (eventData: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const created = await database.addEventSeries(eventData);
+      setEvents(prev => [...prev, ...created]);
+      const ids = created.map(e => e.id);
+      recordUndo({
+        label: `Add ${created.length} ${eventData.name} events`,
+        undo: async () => {
+          for (const id of ids) await database.deleteEvent(id);
+        },
+        redo: async () => {
+          for (const id of ids) await database.restoreFromTrash('events', id);
+        }
+      });
+      return created;
+    } catch (error) {
+      console.error('Error adding event series:', error);
+      throw error;
+    }
+  }, [recordUndo]);
+
+  // Series edits create, trash and re-link several events at once, so they aren't undoable
+  const updateEventSeries = useCallback(async (id: string, updates: Partial<Event>) => {
+    try {
+      const result = await database.updateEventSeries(id, updates);
+      setEvents(await database.getEvents());
+      if (result.removed.length > 0) setEventBookings(await database.getEventBookings());
+      return result;
+    } catch (error) {
+      console.error('Error updating event series:', error);
+      throw error;
+    }
   }, []);
 
+  const detachOccurrence = useCallback(async (id: string, updates: Partial<Event>) => {
+    try {
+      const updatedEvent = await database.detachOccurrence(id, updates);
+      setEvents(await database.getEvents());
+      return updatedEvent;
+    } catch (error) {
+      console.error('Error updating event:', error);
+      throw error;
+    }
+  }, []);
+
+  // Firing operations
+  const addFiring = useCallback(async (firingData: Omit<Firing, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      const newFiring = await database.addFiring(firingData);
+      setFirings(prev => [...prev, newFiring]);
+      return newFiring;
+    } catch (error) {
+      console.error('Error adding firing:', error);
+      throw error;
+    }
+  }, []);
+
+  const updateFiring = useCallback(async (id: string, updates: Partial<Firing>) => {
+    try {
+      const updatedFiring = await database.updateFiring(id, updates);
+      if (updatedFiring) {
+        setFirings(prev => prev.map(f => f.id === id ? updatedFiring : f));
+      }
+      return updatedFiring;
+    } catch (error) {
+      console.error('Error updating firing:', error);
+      throw error;
+    }
+  }, []);
+
+  const deleteFiring = useCallback(async (id: string) => {
+    try {
+      const success = await database.deleteFiring(id);
+      if (success) {
+        setFirings(prev => prev.filter(f => f.id !== id));
+      }
+      return success;
+    } catch (error) {
+      console.error('Error deleting firing:', error);
+      throw error;
+    }
+  }, []);
+
+  const unloadFiring = useCallback(async (id: string, unloadDate?: Date) => {
+    try {
+      const result = await database.unloadFiring(id, unloadDate);
+      const updatedMap = new Map(result.pieces.map(p => [p.id, p]));
+      setPieces(prev => prev.map(p => updatedMap.get(p.id) || p));
+      setFirings(prev => prev.map(f => f.id === id ? result.firing : f));
+
+      // Undo puts the load back in the kiln and the pieces back where they were
+      const reverseUpdates = result.pieces
+        .filter(updated => pieces.some(p => p.id === updated.id))
+        .map(updated => ({
+          id: updated.id,
+          data: captureOriginalValues(pieces.find(p => p.id === updated.id)!, withStageFields({
+            status: updated.status,
+            firingHistory: updated.firingHistory
+          }))
+        }));
+      recordUndo({
+        label: `Unload ${result.firing.kiln}`,
+        undo: async () => {
+          if (reverseUpdates.length > 0) await database.updatePiecesBulk(reverseUpdates, RESTORE_STAGES);
+          await database.updateFiring(id, { unloadDate: null });
+        },
+        redo: async () => { await database.unloadFiring(id, result.firing.unloadDate || undefined); }
+      });
+      return result;
+    } catch (error) {
+      console.error('Error unloading firing:', error);
+      throw error;
+    }
+  }, [pieces, recordUndo]);
+
   const calculateGlazePrice = useCallback(async (cubicInches: number) => {
     return await database.calculateGlazePrice(cubicInches);
   }, []);
 
+  // Trash
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await database.getTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    }
+  }, []);
+
+  const restoreFromTrash = useCallback(async (collection: TrashCollection, id: string) => {
+    try {
+      const success = await database.restoreFromTrash(collection, id);
+      await Promise.all([loadData(false), loadTrash()]);
+      return success;
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      throw error;
+    }
+  }, [loadData, loadTrash]);
+
+  const purgeFromTrash = useCallback(async (collection: TrashCollection, id: string) => {
+    try {
+      const success = await database.purgeFromTrash(collection, id);
+      await Promise.all([loadData(false), loadTrash()]);
+      return success;
+    } catch (error) {
+      console.error('Error purging from trash:', error);
+      throw error;
+    }
+  }, [loadData, loadTrash]);
+
+  const purgeExpiredTrash = useCallback(async () => {
+    const purged = await database.purgeExpiredTrash();
+    if (purged > 0) await Promise.all([loadData(false), loadTrash()]);
+    return purged;
+  }, [loadData, loadTrash]);
+
+  // Offline sync
+  const syncNow = useCallback(async () => {
+    await database.syncNow();
+    await loadData(false);
+  }, [loadData]);
+
+  const resolveSyncConflict = useCallback(async (conflictId: string, keep: 'local' | 'remote') => {
+    try {
+      await database.resolveSyncConflict(conflictId, keep);
+      await loadData(false);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      throw error;
+    }
+  }, [loadData]);
+
   return {
     customers,
     pieces,
     events,
     eventBookings,
+    firings,
+    trash,
     loading,
+    syncStatus,
     addCustomer,
     updateCustomer,
     deleteCustomer,
@@ -332,6 +790,7 @@ export const useDatabase = () => {
     updatePiece,
     updatePiecesBulk,
     deletePiece,
+    deletePiecesBulk,
     addEvent,
     updateEvent,
     deleteEvent,
@@ -349,7 +808,24 @@ export const useDatabase = () => {
     getStudioSettings,
     updateStudioSettings,
     duplicateEvent,
+    addEventSeries,
+    updateEventSeries,
+    detachOccurrence,
+    addFiring,
+    updateFiring,
+    deleteFiring,
+    unloadFiring,
     calculateGlazePrice,
+    syncNow,
+    resolveSyncConflict,
+    loadTrash,
+    restoreFromTrash,
+    purgeFromTrash,
+    purgeExpiredTrash,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
     refreshData: loadData
   };
 };
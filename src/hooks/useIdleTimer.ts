@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+/**
+ * Calls onIdle once nobody has touched the page for timeoutMs. Any mouse, keyboard, touch or
+ * scroll activity restarts the countdown. Pass null to turn the timer off.
+ */
+export const useIdleTimer = (timeoutMs: number | null, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!timeoutMs) return;
+
+    let timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [timeoutMs]);
+};
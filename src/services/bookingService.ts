@@ -0,0 +1,34 @@
+import { PublicBookingRequest, PublicBookingResult, PublicEvent } from '../types';
+import { ensureDateRequired } from '../utils/dateUtils';
+import { invokeEdgeFunction } from './edgeFunctions';
+
+const toPublicEvent = (event: PublicEvent): PublicEvent => ({
+  ...event,
+  date: ensureDateRequired(event.date)
+});
+
+/**
+ * Backs the public booking page through the public-booking edge function. Reservations go
+ * through a single database call that locks the event row, so two people can't both take the
+ * last spot, and waitlist positions can't be handed out twice.
+ */
+class BookingService {
+  async listEvents(): Promise<PublicEvent[]> {
+    const { events } = await invokeEdgeFunction<{ events: PublicEvent[] }>('public-booking', { action: 'events' });
+    return events.map(toPublicEvent);
+  }
+
+  async reserve(request: PublicBookingRequest): Promise<PublicBookingResult> {
+    const result = await invokeEdgeFunction<PublicBookingResult>('public-booking', {
+      action: 'book',
+      eventId: request.eventId,
+      name: request.name.trim(),
+      email: request.email.trim(),
+      phone: request.phone?.trim() || undefined,
+      joinWaitlist: !!request.joinWaitlist
+    });
+    return { ...result, event: toPublicEvent(result.event) };
+  }
+}
+
+export const bookingService = new BookingService();
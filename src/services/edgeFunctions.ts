@@ -0,0 +1,52 @@
+import { createClient, FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.REACT_APP_SUPABASE_URL;
+const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseAnonKey) {
+  throw new Error('Missing Supabase environment variables. Please check your .env file.');
+}
+
+const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey);
+
+// Header the staff-only functions read the signed session token from; see supabase/functions/_shared/staff.ts
+const SESSION_HEADER = 'x-staff-session';
+
+let staffSessionToken: string | null = null;
+
+// Set by AuthContext on sign-in and cleared on sign-out
+export const setStaffSessionToken = (token: string | null): void => {
+  staffSessionToken = token;
+};
+
+/** A failure a function answered itself, with its HTTP status, e.g. 401 for a wrong password. */
+export class EdgeFunctionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+    this.status = status;
+    Object.setPrototypeOf(this, EdgeFunctionError.prototype);
+  }
+}
+
+/**
+ * Calls one of the functions under supabase/functions, passing the staff session when there is
+ * one. They answer failures with { error }, e.g. the message Twilio gave them, which is surfaced
+ * here instead of the generic HTTP error.
+ */
+export const invokeEdgeFunction = async <T>(functionName: string, body: Record<string, any>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(functionName, {
+    body,
+    headers: staffSessionToken ? { [SESSION_HEADER]: staffSessionToken } : undefined
+  });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new EdgeFunctionError(details?.error || error.message, error.context.status);
+    }
+    throw new EdgeFunctionError(error.message);
+  }
+  return data as T;
+};
@@ -1,4 +1,6 @@
-import { Customer, Piece } from '../types';
+import { Customer, Event, Piece } from '../types';
+import { formatEventDate, formatTime } from '../utils/dateUtils';
+import { secretsService } from './secretsService';
 
 export interface EmailMessage {
   to: string;
@@ -14,27 +16,14 @@ export interface EmailNotificationOptions {
   customSubject?: string;
 }
 
-class EmailService {
-  private apiKey: string | null = null;
-  private fromEmail: string | null = null;
-
-  constructor() {
-    this.initializeEmailJS();
-  }
+export type BookedEventDetails = Pick<Event, 'name' | 'date' | 'startTime' | 'endTime' | 'location'>;
 
-  private initializeEmailJS() {
-    this.apiKey = process.env.REACT_APP_EMAILJS_PUBLIC_KEY || null;
-    this.fromEmail = process.env.REACT_APP_STUDIO_EMAIL || 'clay.cafe.studio@example.com';
-    
-    if (this.apiKey && this.apiKey !== 'your_emailjs_public_key') {
-      console.log('EmailJS credentials configured successfully');
-    } else {
-      console.log('EmailJS credentials not configured - using mock mode');
-    }
-  }
+class EmailService {
+  private fromEmail: string = process.env.REACT_APP_STUDIO_EMAIL || 'clay.cafe.studio@example.com';
 
-  private isConfigured(): boolean {
-    return !!(this.apiKey && this.apiKey !== 'your_emailjs_public_key');
+  // EmailJS keys stay server-side; see secretsService
+  private isConfigured(): Promise<boolean> {
+    return secretsService.isConfigured('email');
   }
 
   generateDefaultSubject(options: EmailNotificationOptions): string {
@@ -126,37 +115,105 @@ house mouse`;
     const subject = finalSubject || this.generateDefaultSubject(options);
     const status = this.getStatusForTemplate(messageType);
 
-    // If EmailJS is configured, use it
-    if (this.isConfigured()) {
-      try {
-        const serviceId = process.env.REACT_APP_EMAILJS_SERVICE_ID;
-        const templateId = process.env.REACT_APP_EMAILJS_TEMPLATE_ID;
-        
-        if (!serviceId || !templateId) {
-          throw new Error('EmailJS service ID or template ID not configured');
-        }
+    return await this.deliver(customer, subject, finalMessage, {
+      status: status,
+      piece_volume: piece.cubicInches?.toString() || '',
+      glaze_total: piece.glazeTotal?.toFixed(2) || ''
+    });
+  }
 
-        // Dynamic import of EmailJS to avoid bundling if not used
-        const emailjs = await import('@emailjs/browser');
-        
-        await emailjs.send(serviceId, templateId, {
-          to_email: customer.email,
-          to_name: customer.name,
-          user_email: customer.email, // Alternative email field name
-          recipient_email: customer.email, // Another common field name
-          subject: subject,
-          message: finalMessage,
-          customer_name: customer.name,
-          status: status,
-          piece_volume: piece.cubicInches?.toString() || '',
-          glaze_total: piece.glazeTotal?.toFixed(2) || '',
-          from_email: this.fromEmail,
-          from_name: 'Clay Cafe Studio'
-        }, this.apiKey!);
+  generateWaitlistPromotion(customerName: string, event: BookedEventDetails): { subject: string; message: string } {
+    const firstName = customerName.split(' ')[0];
+
+    return {
+      subject: `A spot opened up: ${event.name}`,
+      message: `Dear ${firstName},
+
+Good news! A spot opened up and you've been moved off the waitlist for ${event.name}.
+
+Date: ${formatEventDate(event.date)}
+Time: ${formatTime(event.startTime)} - ${formatTime(event.endTime)}${event.location ? `
+Location: ${event.location}` : ''}
+
+Your spot is confirmed. If you can no longer make it, please let us know so we can offer it to the next person in line.
+
+Andy & Jamiee
+house mouse`
+    };
+  }
+
+  generateEventRescheduled(
+    customerName: string,
+    event: BookedEventDetails,
+    previous: Pick<Event, 'date' | 'startTime' | 'endTime'>
+  ): { subject: string; message: string } {
+    const firstName = customerName.split(' ')[0];
+
+    return {
+      subject: `New time for ${event.name}`,
+      message: `Dear ${firstName},
+
+${event.name} has been moved, and your booking has moved with it.
+
+Was: ${formatEventDate(previous.date)}, ${formatTime(previous.startTime)} - ${formatTime(previous.endTime)}
+Now: ${formatEventDate(event.date)}, ${formatTime(event.startTime)} - ${formatTime(event.endTime)}${event.location ? `
+Location: ${event.location}` : ''}
+
+If the new time doesn't work for you, just reply and we'll sort it out.
+
+Andy & Jamiee
+house mouse`
+    };
+  }
+
+  async sendEventRescheduled(
+    customer: Pick<Customer, 'name' | 'email'>,
+    event: BookedEventDetails,
+    previous: Pick<Event, 'date' | 'startTime' | 'endTime'>
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!customer.email || !this.validateEmail(customer.email)) {
+      return { success: false, error: 'Invalid email address format' };
+    }
+
+    const { subject, message } = this.generateEventRescheduled(customer.name, event, previous);
+    return await this.deliver(customer, subject, message, { status: 'Rescheduled' });
+  }
+
+  async sendWaitlistPromotion(customer: Pick<Customer, 'name' | 'email'>, event: BookedEventDetails): Promise<{ success: boolean; error?: string }> {
+    if (!customer.email || !this.validateEmail(customer.email)) {
+      return { success: false, error: 'Invalid email address format' };
+    }
+
+    const { subject, message } = this.generateWaitlistPromotion(customer.name, event);
+    return await this.deliver(customer, subject, message, { status: 'Waitlist' });
+  }
+
+  private async deliver(
+    recipient: Pick<Customer, 'name' | 'email'>,
+    subject: string,
+    message: string,
+    extraParams: Record<string, string>
+  ): Promise<{ success: boolean; error?: string }> {
+    // If EmailJS is configured, send through the send-email function, which holds the keys
+    if (await this.isConfigured()) {
+      try {
+        await secretsService.sendWith('email', {
+          templateParams: {
+            to_email: recipient.email,
+            to_name: recipient.name,
+            user_email: recipient.email, // Alternative email field name
+            recipient_email: recipient.email, // Another common field name
+            subject: subject,
+            message: message,
+            customer_name: recipient.name,
+            ...extraParams,
+            from_email: this.fromEmail,
+            from_name: 'Clay Cafe Studio'
+          }
+        });
         
-        console.log(`Email sent to ${customer.email}`);
+        console.log(`Email sent to ${recipient.email}`);
         console.log(`Subject: ${subject}`);
-        console.log(`Status: ${status}`);
         
         return { success: true };
       } catch (error) {
@@ -168,10 +225,9 @@ house mouse`;
     } else {
       // Mock mode - simulate success
       console.log('MOCK EMAIL SEND:');
-      console.log(`To: ${customer.email}`);
+      console.log(`To: ${recipient.email}`);
       console.log(`Subject: ${subject}`);
-      console.log(`Message: ${finalMessage}`);
-      console.log(`Status: ${status}`);
+      console.log(`Message: ${message}`);
       
       await this.simulateEmailSend();
       return { success: true };
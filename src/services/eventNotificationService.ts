@@ -0,0 +1,56 @@
+import { Customer, Event } from '../types';
+import { emailService } from './emailService';
+import { smsService } from './smsService';
+
+export interface CustomerNotice {
+  emailed: boolean;
+  texted: boolean;
+  errors: string[];
+}
+
+/**
+ * Tells booked customers about changes to their event, by email and, when there's a phone
+ * number on file, by text. The change itself is already saved; a failed message only means
+ * staff should follow up by hand.
+ */
+class EventNotificationService {
+  async notifyPromotion(customer: Customer, event: Event): Promise<CustomerNotice> {
+    return await this.notify(
+      customer,
+      () => emailService.sendWaitlistPromotion(customer, event),
+      smsService.generateWaitlistPromotionMessage(customer.name, event)
+    );
+  }
+
+  async notifyReschedule(customer: Customer, event: Event, previous: Pick<Event, 'date' | 'startTime' | 'endTime'>): Promise<CustomerNotice> {
+    return await this.notify(
+      customer,
+      () => emailService.sendEventRescheduled(customer, event, previous),
+      smsService.generateEventRescheduledMessage(customer.name, event)
+    );
+  }
+
+  private async notify(
+    customer: Customer,
+    sendEmail: () => Promise<{ success: boolean; error?: string }>,
+    smsMessage: string
+  ): Promise<CustomerNotice> {
+    const notice: CustomerNotice = { emailed: false, texted: false, errors: [] };
+
+    if (customer.email) {
+      const result = await sendEmail();
+      notice.emailed = result.success;
+      if (!result.success && result.error) notice.errors.push(`Email: ${result.error}`);
+    }
+
+    if (customer.phone) {
+      const result = await smsService.sendSMS({ customer, finalMessage: smsMessage });
+      notice.texted = result.success;
+      if (!result.success && result.error) notice.errors.push(`SMS: ${result.error}`);
+    }
+
+    return notice;
+  }
+}
+
+export const eventNotificationService = new EventNotificationService();
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { idService } from './idService';
+
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+const generateMany = (count: number): string[] => Array.from({ length: count }, () => idService.generate());
+
+describe('idService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('generates ULIDs that carry their creation time', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    const id = idService.generate();
+    expect(id).toMatch(ULID_PATTERN);
+    expect(idService.getTimestamp(id)).toEqual(new Date(1700000000000));
+  });
+
+  it('keeps ids unique and in order within one millisecond', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000100);
+    const ids = generateMany(500);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('stays in order across milliseconds', () => {
+    const now = jest.spyOn(Date, 'now');
+    const ids: string[] = [];
+    for (let time = 1700000000200; time < 1700000000210; time++) {
+      now.mockReturnValue(time);
+      ids.push(...generateMany(3));
+    }
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('stays in order when the clock goes backwards', () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1700000000300);
+    const before = idService.generate();
+    now.mockReturnValue(1700000000000);
+    const after = idService.generate();
+    expect(after > before).toBe(true);
+  });
+
+  it('reads the time from legacy millisecond ids and rejects anything else', () => {
+    expect(idService.getTimestamp('1700000000000')).toEqual(new Date(1700000000000));
+    expect(idService.getTimestamp('not-an-id')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+// Crockford base32, as used by the ULID spec (no I, L, O or U)
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+// Ids created before the generator existed are Date.now() millisecond strings
+const LEGACY_ID_PATTERN = /^\d{12,14}$/;
+
+class IdService {
+  private lastTime = 0;
+  private lastRandom: number[] = [];
+
+  private randomDigits(): number[] {
+    const bytes = new Uint8Array(RANDOM_LENGTH);
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < RANDOM_LENGTH; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
+    return Array.from(bytes).map(byte => byte % ENCODING.length);
+  }
+
+  private incrementRandom(digits: number[]): number[] {
+    const next = [...digits];
+    for (let i = next.length - 1; i >= 0; i--) {
+      if (next[i] < ENCODING.length - 1) {
+        next[i] += 1;
+        return next;
+      }
+      next[i] = 0;
+    }
+    throw new Error('ID space exhausted for this millisecond');
+  }
+
+  private encodeTime(time: number): string {
+    let encoded = '';
+    let remaining = time;
+    for (let i = 0; i < TIME_LENGTH; i++) {
+      const digit = remaining % ENCODING.length;
+      encoded = ENCODING[digit] + encoded;
+      remaining = (remaining - digit) / ENCODING.length;
+    }
+    return encoded;
+  }
+
+  /**
+   * Generate a ULID: 26 characters, lexicographically sortable by creation time. Ids generated
+   * within the same millisecond (e.g. a CSV import loop) increment the random part instead of
+   * re-rolling it, so they stay unique and keep their creation order.
+   */
+  generate(): string {
+    const now = Date.now();
+    if (now <= this.lastTime && this.lastRandom.length > 0) {
+      // Same millisecond, or the clock went backwards: stay monotonic
+      this.lastRandom = this.incrementRandom(this.lastRandom);
+    } else {
+      this.lastTime = now;
+      this.lastRandom = this.randomDigits();
+    }
+    return this.encodeTime(this.lastTime) + this.lastRandom.map(digit => ENCODING[digit]).join('');
+  }
+
+  /**
+   * Creation time encoded in an id, for both ULIDs and legacy millisecond ids.
+   */
+  getTimestamp(id: string): Date | null {
+    if (ULID_PATTERN.test(id)) {
+      let time = 0;
+      for (const char of id.slice(0, TIME_LENGTH)) {
+        time = time * ENCODING.length + ENCODING.indexOf(char);
+      }
+      return new Date(time);
+    }
+    if (LEGACY_ID_PATTERN.test(id)) {
+      return new Date(parseInt(id, 10));
+    }
+    return null;
+  }
+}
+
+export const idService = new IdService();
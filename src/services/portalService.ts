@@ -0,0 +1,48 @@
+import { CustomerPortalData } from '../types';
+import { ensureDate, ensureDateRequired } from '../utils/dateUtils';
+import { normalizePortalCode } from '../utils/portalLink';
+import { invokeEdgeFunction } from './edgeFunctions';
+
+/**
+ * Loads a customer's portal through the customer-portal edge function, which looks the code up
+ * server-side and returns only that customer's data. The portal never touches the staff
+ * database, so nothing about other customers reaches the visitor's browser. Codes are kept
+ * where only that function can read them; staff fetch and reset them through it.
+ */
+class PortalService {
+  // null when the customer has no portal link yet
+  async getCode(customerId: string): Promise<string | null> {
+    return (await invokeEdgeFunction<{ code: string | null }>('customer-portal', { action: 'get-code', customerId })).code;
+  }
+
+  // Replaces any code the customer had, so links made with the old one stop working
+  async issueCode(customerId: string): Promise<string> {
+    return (await invokeEdgeFunction<{ code: string }>('customer-portal', { action: 'issue-code', customerId })).code;
+  }
+
+  async load(code: string): Promise<CustomerPortalData> {
+    const normalized = normalizePortalCode(code);
+    if (!normalized) throw new Error('Enter the code from your studio');
+
+    const data = await invokeEdgeFunction<CustomerPortalData>('customer-portal', { code: normalized });
+    return {
+      ...data,
+      pieces: data.pieces.map(piece => ({
+        ...piece,
+        createdAt: ensureDateRequired(piece.createdAt),
+        readyForPickupDate: ensureDate(piece.readyForPickupDate),
+        pickedUpDate: ensureDate(piece.pickedUpDate)
+      })),
+      bookings: data.bookings.map(booking => ({
+        ...booking,
+        bookingDate: ensureDateRequired(booking.bookingDate)
+      })),
+      events: data.events.map(event => ({
+        ...event,
+        date: ensureDateRequired(event.date)
+      }))
+    };
+  }
+}
+
+export const portalService = new PortalService();
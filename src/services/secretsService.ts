@@ -0,0 +1,77 @@
+import { invokeEdgeFunction } from './edgeFunctions';
+
+export type SecretKey = 'twilioAccountSid' | 'twilioAuthToken' | 'emailjsPublicKey' | 'emailjsPrivateKey';
+export type IntegrationService = 'email' | 'sms';
+
+// Whether a credential is set is all the server reports about it
+export interface SecretStatus {
+  key: SecretKey;
+  configured: boolean;
+}
+
+export const SECRET_DEFINITIONS: Record<SecretKey, { label: string; service: IntegrationService; required: boolean }> = {
+  emailjsPublicKey: { label: 'EmailJS Public Key', service: 'email', required: true },
+  // Only needed when the EmailJS account enforces private-key access for API calls
+  emailjsPrivateKey: { label: 'EmailJS Private Key', service: 'email', required: false },
+  twilioAccountSid: { label: 'Twilio Account SID', service: 'sms', required: true },
+  twilioAuthToken: { label: 'Twilio Auth Token', service: 'sms', required: true }
+};
+
+/**
+ * Integration credentials live server-side in the integration_secrets table, which the browser
+ * can't read. The integration-secrets edge function reports which are set and accepts new values;
+ * send-email and send-sms use the credentials without ever returning them.
+ */
+class SecretsService {
+  private statusPromise: Promise<Record<SecretKey, SecretStatus>> | null = null;
+
+  async getStatuses(refresh = false): Promise<Record<SecretKey, SecretStatus>> {
+    if (!this.statusPromise || refresh) {
+      this.statusPromise = invokeEdgeFunction<{ secrets: SecretStatus[] }>('integration-secrets', { action: 'status' })
+        .then(({ secrets }) => {
+          const statuses = {} as Record<SecretKey, SecretStatus>;
+          (Object.keys(SECRET_DEFINITIONS) as SecretKey[]).forEach(key => {
+            const status = secrets.find(s => s.key === key);
+            statuses[key] = { key, configured: !!status?.configured };
+          });
+          return statuses;
+        })
+        .catch(error => {
+          this.statusPromise = null;
+          throw error;
+        });
+    }
+    return this.statusPromise;
+  }
+
+  async isConfigured(service: IntegrationService): Promise<boolean> {
+    try {
+      const statuses = await this.getStatuses();
+      return (Object.keys(SECRET_DEFINITIONS) as SecretKey[])
+        .filter(key => SECRET_DEFINITIONS[key].service === service && SECRET_DEFINITIONS[key].required)
+        .every(key => statuses[key].configured);
+    } catch (error) {
+      console.warn(`Could not check ${service} credentials:`, error);
+      return false;
+    }
+  }
+
+  // Setting a new value replaces the old one outright, which is how a credential is rotated
+  async setSecret(key: SecretKey, value: string): Promise<SecretStatus> {
+    const trimmed = value.trim();
+    if (!trimmed) throw new Error('Enter a value to save');
+    await invokeEdgeFunction('integration-secrets', { action: 'set', key, value: trimmed });
+    return (await this.getStatuses(true))[key];
+  }
+
+  async clearSecret(key: SecretKey): Promise<void> {
+    await invokeEdgeFunction('integration-secrets', { action: 'clear', key });
+    await this.getStatuses(true);
+  }
+
+  async sendWith<T>(service: IntegrationService, payload: Record<string, any>): Promise<T> {
+    return await invokeEdgeFunction<T>(service === 'email' ? 'send-email' : 'send-sms', payload);
+  }
+}
+
+export const secretsService = new SecretsService();
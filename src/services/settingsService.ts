@@ -293,13 +293,10 @@ export class SettingsService {
       emailServiceEnabled: dbSettings.email_service_enabled || false,
       emailjsServiceId: dbSettings.emailjs_service_id,
       emailjsTemplateId: dbSettings.emailjs_template_id,
-      emailjsPublicKey: dbSettings.emailjs_public_key,
       emailFromName: dbSettings.email_from_name || 'Clay Cafe',
       emailReplyTo: dbSettings.email_reply_to,
       
       smsServiceEnabled: dbSettings.sms_service_enabled || false,
-      twilioAccountSid: dbSettings.twilio_account_sid,
-      twilioAuthToken: dbSettings.twilio_auth_token,
       twilioPhoneNumber: dbSettings.twilio_phone_number,
       
       autoNotifyReadyPieces: dbSettings.auto_notify_ready_pieces ?? true,
@@ -310,6 +307,11 @@ export class SettingsService {
       currency: dbSettings.currency || 'USD',
       dateFormat: dbSettings.date_format || 'MM/dd/yyyy',
       
+      trashRetentionDays: dbSettings.trash_retention_days ?? 30,
+      autoLockMinutes: dbSettings.auto_lock_minutes ?? 5,
+      kilnShelfVolume: parseFloat(dbSettings.kiln_shelf_volume) || 0,
+      pieceWorkflow: dbSettings.piece_workflow ?? null,
+      
       createdAt: new Date(dbSettings.created_at),
       updatedAt: new Date(dbSettings.updated_at),
       
@@ -344,13 +346,10 @@ export class SettingsService {
     if (settings.emailServiceEnabled !== undefined) dbSettings.email_service_enabled = settings.emailServiceEnabled;
     if (settings.emailjsServiceId !== undefined) dbSettings.emailjs_service_id = settings.emailjsServiceId;
     if (settings.emailjsTemplateId !== undefined) dbSettings.emailjs_template_id = settings.emailjsTemplateId;
-    if (settings.emailjsPublicKey !== undefined) dbSettings.emailjs_public_key = settings.emailjsPublicKey;
     if (settings.emailFromName !== undefined) dbSettings.email_from_name = settings.emailFromName;
     if (settings.emailReplyTo !== undefined) dbSettings.email_reply_to = settings.emailReplyTo;
     
     if (settings.smsServiceEnabled !== undefined) dbSettings.sms_service_enabled = settings.smsServiceEnabled;
-    if (settings.twilioAccountSid !== undefined) dbSettings.twilio_account_sid = settings.twilioAccountSid;
-    if (settings.twilioAuthToken !== undefined) dbSettings.twilio_auth_token = settings.twilioAuthToken;
     if (settings.twilioPhoneNumber !== undefined) dbSettings.twilio_phone_number = settings.twilioPhoneNumber;
     
     if (settings.autoNotifyReadyPieces !== undefined) dbSettings.auto_notify_ready_pieces = settings.autoNotifyReadyPieces;
@@ -361,6 +360,11 @@ export class SettingsService {
     if (settings.currency !== undefined) dbSettings.currency = settings.currency;
     if (settings.dateFormat !== undefined) dbSettings.date_format = settings.dateFormat;
     
+    if (settings.trashRetentionDays !== undefined) dbSettings.trash_retention_days = settings.trashRetentionDays;
+    if (settings.autoLockMinutes !== undefined) dbSettings.auto_lock_minutes = settings.autoLockMinutes;
+    if (settings.kilnShelfVolume !== undefined) dbSettings.kiln_shelf_volume = settings.kilnShelfVolume;
+    if (settings.pieceWorkflow !== undefined) dbSettings.piece_workflow = settings.pieceWorkflow;
+    
     return dbSettings;
   }
 
@@ -1,4 +1,6 @@
-import { Customer, Piece } from '../types';
+import { Customer, Event, Piece } from '../types';
+import { formatShortDate, formatTime } from '../utils/dateUtils';
+import { secretsService } from './secretsService';
 
 export interface SMSMessage {
   to: string;
@@ -13,30 +15,9 @@ export interface SMSNotificationOptions {
 }
 
 class SMSService {
-  private accountSid: string | null = null;
-  private authToken: string | null = null;
-  private phoneNumber: string | null = null;
-
-  constructor() {
-    this.initializeTwilio();
-  }
-
-  private initializeTwilio() {
-    this.accountSid = process.env.REACT_APP_TWILIO_ACCOUNT_SID || null;
-    this.authToken = process.env.REACT_APP_TWILIO_AUTH_TOKEN || null;
-    this.phoneNumber = process.env.REACT_APP_TWILIO_PHONE_NUMBER || null;
-    
-    if (this.accountSid && this.authToken && this.phoneNumber && 
-        this.accountSid !== 'your_twilio_account_sid') {
-      console.log('Twilio credentials configured successfully');
-    } else {
-      console.log('Twilio credentials not configured - using mock mode');
-    }
-  }
-
-  private isConfigured(): boolean {
-    return !!(this.accountSid && this.authToken && this.phoneNumber && 
-              this.accountSid !== 'your_twilio_account_sid');
+  // Twilio credentials stay server-side; see secretsService
+  private isConfigured(): Promise<boolean> {
+    return secretsService.isConfigured('sms');
   }
 
   generateDefaultMessage(options: SMSNotificationOptions): string {
@@ -52,7 +33,18 @@ class SMSService {
     return `Hi ${customerName}! We have an update about your ceramic piece at Clay Cafe. Please contact us for more details.`;
   }
 
-  async sendSMS(options: SMSNotificationOptions & { finalMessage: string }): Promise<{ success: boolean; error?: string; messageId?: string }> {
+  generateWaitlistPromotionMessage(customerName: string, event: Pick<Event, 'name' | 'date' | 'startTime'>): string {
+    const firstName = customerName.split(' ')[0];
+    return `Hi ${firstName}! A spot opened up at ${event.name} on ${formatShortDate(event.date)} at ${formatTime(event.startTime)}, and it's yours. Let Clay Cafe know if you can't make it. See you there!`;
+  }
+
+  generateEventRescheduledMessage(customerName: string, event: Pick<Event, 'name' | 'date' | 'startTime'>): string {
+    const firstName = customerName.split(' ')[0];
+    return `Hi ${firstName}! ${event.name} has moved to ${formatShortDate(event.date)} at ${formatTime(event.startTime)}, and your booking moved with it. Let Clay Cafe know if the new time doesn't work.`;
+  }
+
+  // Only the recipient's phone is used, so messages that aren't about a piece can go through here too
+  async sendSMS(options: { customer: Pick<Customer, 'phone'>; finalMessage: string }): Promise<{ success: boolean; error?: string; messageId?: string }> {
     const { customer, finalMessage } = options;
     
     if (!customer.phone) {
@@ -69,42 +61,11 @@ class SMSService {
     const phoneNumber = cleanPhone.startsWith('+') ? cleanPhone : `+1${cleanPhone}`;
 
     try {
-      if (this.isConfigured()) {
-        // Real Twilio REST API call using fetch
-        console.log('Sending SMS via Twilio REST API...');
-        
-        const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
-        
-        // Create the request body
-        const formData = new URLSearchParams();
-        formData.append('To', phoneNumber);
-        formData.append('From', this.phoneNumber!);
-        formData.append('Body', finalMessage);
-        
-        // Create basic auth header
-        const auth = btoa(`${this.accountSid}:${this.authToken}`);
-        
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${auth}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: formData.toString()
+      if (await this.isConfigured()) {
+        const result = await secretsService.sendWith<{ sid: string }>('sms', {
+          to: phoneNumber,
+          body: finalMessage
         });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const errorMessage = errorData.message || `HTTP ${response.status}: ${response.statusText}`;
-          
-          console.error('Twilio API error:', errorData);
-          return {
-            success: false,
-            error: this.translateTwilioError(errorMessage)
-          };
-        }
-
-        const result = await response.json();
         console.log(`SMS sent successfully! Message SID: ${result.sid}`);
         
         return {
@@ -0,0 +1,126 @@
+import { Permission, StaffMember, StaffRole } from '../types';
+import { ensureDateRequired } from '../utils/dateUtils';
+import { EdgeFunctionError, invokeEdgeFunction } from './edgeFunctions';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export interface NewStaffAccount {
+  name: string;
+  email: string;
+  role: StaffRole;
+  password: string;
+}
+
+// What a password sign-in or PIN unlock hands back
+export interface StaffSession {
+  member: StaffMember;
+  token: string;
+  expiresAt: number;
+}
+
+// The staff screen's view of every account, with what each role allows
+export interface StaffDirectory {
+  members: StaffMember[];
+  roles: Record<StaffRole, Permission[]>;
+}
+
+// Why a PIN unlock was turned down; 'locked-out' means that account needs its password now
+export type UnlockFailure = 'wrong-pin' | 'locked-out';
+
+// Status the server answers with once an account has had too many wrong PINs
+const PIN_LOCKED_STATUS = 423;
+
+const toMember = (member: StaffMember): StaffMember => ({
+  ...member,
+  createdAt: ensureDateRequired(member.createdAt),
+  updatedAt: ensureDateRequired(member.updatedAt)
+});
+
+const toSession = (session: StaffSession): StaffSession => ({ ...session, member: toMember(session.member) });
+
+// A wrong password or PIN comes back as a 401; anything else is a real failure
+const unlessUnauthorized = <T>(request: Promise<T>): Promise<T | null> =>
+  request.catch(error => {
+    if (error instanceof EdgeFunctionError && error.status === 401) return null;
+    throw error;
+  });
+
+/**
+ * Staff accounts live in the staff_accounts table, which only the staff-auth edge function can
+ * read. Passwords and PINs are checked there and never stored in the browser; signing in returns
+ * a session token that the staff-only functions require.
+ */
+class StaffService {
+  private call<T>(action: string, body: Record<string, any> = {}): Promise<T> {
+    return invokeEdgeFunction<T>('staff-auth', { action, ...body });
+  }
+
+  // Throws when the accounts can't be read, so a failed request never looks like a new studio
+  async hasAccounts(): Promise<boolean> {
+    return (await this.call<{ hasAccounts: boolean }>('status')).hasAccounts;
+  }
+
+  async login(email: string, password: string): Promise<StaffSession | null> {
+    const session = await unlessUnauthorized(this.call<StaffSession>('login', { email, password }));
+    return session && toSession(session);
+  }
+
+  // The first account is always an owner, so someone can manage everyone else
+  async createFirstOwner(input: Omit<NewStaffAccount, 'role'>): Promise<StaffSession> {
+    return toSession(await this.call<StaffSession>('setup-owner', input));
+  }
+
+  // The member behind the current session token, or null once it has expired or been deactivated
+  async getSessionMember(): Promise<StaffMember | null> {
+    const result = await unlessUnauthorized(this.call<{ member: StaffMember }>('session'));
+    return result && toMember(result.member);
+  }
+
+  // Staff who can be picked on the lock screen
+  async listUnlockableMembers(): Promise<StaffMember[]> {
+    const { members } = await this.call<{ members: StaffMember[] }>('unlockable');
+    return members.map(toMember);
+  }
+
+  // Wrong PINs are counted per account on the server, so the limit holds on every device
+  async unlock(id: string, pin: string): Promise<StaffSession | UnlockFailure> {
+    try {
+      return toSession(await this.call<StaffSession>('unlock', { staffId: id, pin }));
+    } catch (error) {
+      if (error instanceof EdgeFunctionError && error.status === 401) return 'wrong-pin';
+      if (error instanceof EdgeFunctionError && error.status === PIN_LOCKED_STATUS) return 'locked-out';
+      throw error;
+    }
+  }
+
+  async listMembers(): Promise<StaffDirectory> {
+    const { members, roles } = await this.call<StaffDirectory>('list');
+    return { members: members.map(toMember), roles };
+  }
+
+  async createAccount(input: NewStaffAccount): Promise<StaffMember> {
+    return toMember((await this.call<{ member: StaffMember }>('create', { ...input })).member);
+  }
+
+  async updateMember(id: string, updates: Partial<Pick<StaffMember, 'name' | 'email' | 'role' | 'active'>>): Promise<StaffMember> {
+    return toMember((await this.call<{ member: StaffMember }>('update', { id, updates })).member);
+  }
+
+  // Sets the signed-in member's own PIN; their password is checked first
+  async setPin(password: string, pin: string): Promise<StaffMember> {
+    if (!PIN_PATTERN.test(pin)) {
+      throw new Error('PINs are 4 to 6 digits');
+    }
+    return toMember((await this.call<{ member: StaffMember }>('set-pin', { password, pin })).member);
+  }
+
+  async setPassword(id: string, password: string): Promise<void> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    await this.call('set-password', { id, password });
+  }
+}
+
+export const staffService = new StaffService();
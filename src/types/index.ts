@@ -7,13 +7,15 @@ export interface Customer {
   checkedIn: boolean;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null; // Set while the customer is in the trash
+  version?: number; // Bumped on every save; see VersionConflictError
 }
 
 export interface Piece {
   id: string;
   customerId: string;
-  eventId?: string; // Track which event this piece was made at
-  status: 'in-progress' | 'bisque-fired' | 'glazed' | 'glaze-fired' | 'ready-for-pickup' | 'picked-up';
+  eventId?: string | null; // Track which event this piece was made at; null once the event is purged
+  status: PieceStatus;
   cubicInches?: number;
   paidGlaze: boolean;
   glazeTotal?: number;
@@ -21,8 +23,71 @@ export interface Piece {
   imageUrl?: string; // URL or data URI for piece image
   createdAt: Date;
   updatedAt: Date;
-  readyForPickupDate?: Date;
-  pickedUpDate?: Date;
+  readyForPickupDate?: Date | null; // Cleared if the piece is moved back to an earlier stage
+  pickedUpDate?: Date | null;
+  firingHistory?: FiringRecord[]; // Oldest first, appended each time a kiln load is unloaded
+  stageHistory?: StageEntry[] | null; // Oldest first, appended every time the status changes
+  deletedAt?: Date | null; // Set while the piece is in the trash
+  version?: number;
+}
+
+// A stage id from the studio's piece workflow. 'ready-for-pickup' and 'picked-up' always exist.
+export type PieceStatus = string;
+
+export type StageColor = 'blue' | 'yellow' | 'orange' | 'red' | 'pink' | 'purple' | 'indigo' | 'teal' | 'green' | 'gray';
+
+// A piece entering a stage; it stays there until the next entry
+export interface StageEntry {
+  stage: PieceStatus;
+  enteredAt: Date;
+}
+
+// How a status change relates to the workflow: listed as a transition, jumping ahead past
+// stages, or going back to an earlier one
+export type StageMove = 'allowed' | 'skip' | 'backward';
+
+// Which customer message staff are prompted to send when a piece reaches a stage
+export type StageNotification = 'ready-for-pickup' | 'ready-to-glaze';
+
+export interface WorkflowStage {
+  id: string;
+  label: string;
+  color: StageColor;
+  transitions: string[]; // Stage ids a piece can move on to from here
+  firing?: FiringType | null; // Pieces here wait for this kind of firing, which moves them to the next stage
+  notify?: StageNotification | null;
+}
+
+// Stages in the order pieces go through them
+export interface PieceWorkflow {
+  stages: WorkflowStage[];
+}
+
+export type FiringType = 'bisque' | 'glaze';
+
+// One kiln load. Pieces are loaded while it's open; unloading moves them all to the next stage.
+export interface Firing {
+  id: string;
+  kiln: string;
+  type: FiringType;
+  cone: string; // e.g. "04" or "6"
+  pieceIds: string[];
+  loadDate: Date;
+  unloadDate?: Date | null; // Unset while the load is still in the kiln
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
+
+// Copied onto each piece at unload, so its history survives later edits to the firing
+export interface FiringRecord {
+  firingId: string;
+  kiln: string;
+  type: FiringType;
+  cone: string;
+  loadDate: Date;
+  unloadDate: Date;
 }
 
 export interface Event {
@@ -39,8 +104,32 @@ export interface Event {
   instructor?: string;
   location?: string;
   notes?: string;
+  seriesId?: string | null; // Shared by every occurrence of a recurring event
+  recurrence?: RecurrenceRule | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null; // Set while the event is in the trash
+  version?: number;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+// Copied onto every occurrence so any one of them can regenerate the rest of its series
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency; // 'monthly' repeats on the same weekday, e.g. the 2nd Tuesday
+  until?: Date; // Last date the series can reach, inclusive
+  count?: number; // Resolved to an until date when the series is saved
+  exceptions?: Date[]; // Dates the series skips
+}
+
+// Which occurrences an edit to a recurring event applies to
+export type SeriesEditScope = 'single' | 'future';
+
+export interface SeriesUpdateResult {
+  updated: Event[];
+  created: Event[];
+  removed: Event[]; // Moved to the trash because the new rule no longer reaches them
+  detached: Event[]; // Left out of the rule but kept, because customers are booked on them
 }
 
 export interface EventBooking {
@@ -48,10 +137,61 @@ export interface EventBooking {
   eventId: string;
   customerId: string;
   bookingDate: Date;
-  status: 'confirmed' | 'cancelled' | 'no-show';
+  status: 'confirmed' | 'waitlisted' | 'cancelled' | 'no-show';
+  waitlistPosition?: number | null; // 1-based place in line while waitlisted; cleared once confirmed
+  promotedAt?: Date; // When the booking moved off the waitlist
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null; // Trashed along with its event or customer
+  version?: number;
+}
+
+// What staff fill in to book someone; the server decides the status and waitlist place.
+// joinWaitlist puts them at the back of the line if the event is full instead of turning them away.
+export type NewEventBooking = Pick<EventBooking, 'eventId' | 'customerId' | 'notes'> & { joinWaitlist?: boolean };
+
+// What the customer portal is allowed to see; the edge function never returns anything else
+export type PortalPiece = Pick<Piece, 'id' | 'eventId' | 'status' | 'cubicInches' | 'paidGlaze' | 'glazeTotal' | 'imageUrl' | 'createdAt' | 'readyForPickupDate' | 'pickedUpDate'>;
+export type PortalEvent = Pick<Event, 'id' | 'name' | 'date' | 'startTime' | 'endTime' | 'type' | 'location' | 'status'>;
+export type PortalBooking = Pick<EventBooking, 'id' | 'eventId' | 'status' | 'bookingDate'>;
+export type PortalStage = Pick<WorkflowStage, 'id' | 'label' | 'color'>;
+
+export interface CustomerPortalData {
+  customerName: string;
+  pieces: PortalPiece[];
+  bookings: PortalBooking[];
+  events: PortalEvent[];
+  stages?: PortalStage[]; // The studio's piece workflow, when it has customised one
+  studio: {
+    name: string;
+    phone?: string;
+    email?: string;
+    address?: string;
+  };
+}
+
+// Events as listed on the public booking page, with the confirmed headcount reduced to spots left
+export type PublicEvent = Pick<Event, 'id' | 'name' | 'description' | 'date' | 'startTime' | 'endTime' | 'maxCapacity' | 'price' | 'type' | 'instructor' | 'location'> & {
+  spotsLeft: number;
+};
+
+export interface PublicBookingRequest {
+  eventId: string;
+  name: string;
+  email: string;
+  phone?: string;
+  joinWaitlist?: boolean; // Without it, a full event refuses the booking
+}
+
+export interface PublicBookingResult {
+  bookingId: string;
+  customerName: string;
+  status: 'confirmed' | 'waitlisted';
+  waitlistPosition?: number;
+  // False when EmailJS turned the confirmation email down; the booking stands either way
+  confirmationSent: boolean;
+  event: PublicEvent;
 }
 
 export interface StudioSettings {
@@ -81,15 +221,13 @@ export interface StudioSettings {
   emailServiceEnabled: boolean;
   emailjsServiceId?: string;
   emailjsTemplateId?: string;
-  emailjsPublicKey?: string;
   emailFromName: string;
   emailReplyTo?: string;
   
   // SMS settings
   smsServiceEnabled: boolean;
-  twilioAccountSid?: string;
-  twilioAuthToken?: string;
   twilioPhoneNumber?: string;
+  // EmailJS keys and Twilio credentials are kept out of settings; see secretsService
   
   // Notification settings
   autoNotifyReadyPieces: boolean;
@@ -100,6 +238,16 @@ export interface StudioSettings {
   timezone: string;
   currency: string;
   dateFormat: string;
+
+  // Data retention
+  trashRetentionDays: number; // 0 keeps trashed records until purged by hand
+
+  // Shared devices
+  autoLockMinutes: number; // Idle minutes before the lock screen comes up; 0 turns auto-lock off
+
+  // Kiln planning
+  kilnShelfVolume: number; // Usable cubic inches in one full kiln load; 0 until measured
+  pieceWorkflow?: PieceWorkflow | null; // Unset means DEFAULT_PIECE_WORKFLOW
   
   createdAt: Date;
   updatedAt: Date;
@@ -147,3 +295,76 @@ export interface NotificationHistory {
   sentAt?: Date;
   createdAt: Date;
 }
+
+export interface SyncConflict {
+  id: string;
+  collection: string;
+  recordId: string;
+  localData: Record<string, any> | null;
+  remoteData: Record<string, any> | null;
+  detectedAt: Date;
+  // Set when the server turned this device's change down, rather than someone else editing the record
+  error?: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pendingChanges: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt?: Date;
+  // Why queued changes can't be sent, e.g. a column the server's schema is missing
+  error?: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditChange {
+  field: string;
+  before?: any;
+  after?: any;
+}
+
+export interface AuditEntry {
+  id: string;
+  collection: string;
+  recordId: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  actor: string;
+  timestamp: Date;
+}
+
+export interface TrashContents {
+  customers: Customer[];
+  pieces: Piece[];
+  events: Event[];
+}
+
+export type StaffRole = 'owner' | 'instructor' | 'front-desk';
+
+export type Permission =
+  | 'viewSettings'
+  | 'editPricing'
+  | 'manageStaff'
+  | 'manageIntegrations'
+  | 'manageData'
+  | 'deleteRecords'
+  | 'markGlazePaid';
+
+// A staff account as the app sees it. Passwords and PINs are only ever checked by the
+// staff-auth edge function, so their hashes never reach the browser.
+export interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+  active: boolean;
+  // Set up a quick-unlock PIN for the lock screen
+  hasPin: boolean;
+  // What the role allows, as decided by the staff-auth function
+  permissions: Permission[];
+  createdAt: Date;
+  updatedAt: Date;
+  version?: number;
+}
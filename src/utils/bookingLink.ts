@@ -0,0 +1,8 @@
+// Query parameter that opens the public booking page instead of the staff sign-in
+export const BOOKING_PARAM = 'book';
+
+export const buildBookingLink = (): string =>
+  `${window.location.origin}${window.location.pathname}?${BOOKING_PARAM}`;
+
+export const isBookingPage = (): boolean =>
+  new URLSearchParams(window.location.search).has(BOOKING_PARAM);
@@ -38,4 +38,16 @@ export const formatShortDate = (date: any): string => {
 
 export const formatTime = (time: string): string => {
   return time; // Pass through for now, could enhance with time parsing/formatting
-};
\ No newline at end of file
+};
+
+// Event times are stored as "HH:MM"; these convert to and from minutes after midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_PIECE_WORKFLOW } from '../constants';
+import { Firing, Piece } from '../types';
+import { planKilnLoads, proposeLoad } from './kilnPlanner';
+
+const piece = (id: string, cubicInches: number | undefined, overrides: Partial<Piece> = {}): Piece => ({
+  id,
+  customerId: 'c1',
+  status: 'in-progress',
+  cubicInches,
+  paidGlaze: false,
+  createdAt: new Date('2024-03-01T10:00:00Z'),
+  updatedAt: new Date('2024-03-01T10:00:00Z'),
+  ...overrides
+});
+
+const openLoad = (pieceIds: string[], overrides: Partial<Firing> = {}): Firing => ({
+  id: 'f1',
+  kiln: 'Big kiln',
+  type: 'bisque',
+  cone: '04',
+  pieceIds,
+  loadDate: new Date('2024-03-05T10:00:00Z'),
+  createdAt: new Date('2024-03-05T10:00:00Z'),
+  updatedAt: new Date('2024-03-05T10:00:00Z'),
+  ...overrides
+});
+
+const ids = (pieces: Piece[]) => pieces.map(p => p.id);
+
+describe('proposeLoad', () => {
+  it('takes the oldest pieces until the shelf is full', () => {
+    expect(ids(proposeLoad([piece('a', 40), piece('b', 40), piece('c', 40)], 100))).toEqual(['a', 'b']);
+  });
+
+  it('passes over a piece that does not fit and fills the gap with smaller ones', () => {
+    expect(ids(proposeLoad([piece('a', 60), piece('b', 50), piece('c', 30)], 100))).toEqual(['a', 'c']);
+  });
+
+  it('leaves out pieces with no size recorded', () => {
+    expect(ids(proposeLoad([piece('a', undefined), piece('b', 0), piece('c', 20)], 100))).toEqual(['c']);
+  });
+});
+
+describe('planKilnLoads', () => {
+  const day = (date: number) => new Date(`2024-03-${String(date).padStart(2, '0')}T10:00:00Z`);
+
+  it('splits waiting pieces by firing, oldest first', () => {
+    const pieces = [
+      piece('newer', 10, { createdAt: day(3) }),
+      piece('older', 10, { createdAt: day(1) }),
+      piece('glaze', 10, { status: 'glazed' }),
+      piece('done', 10, { status: 'picked-up' })
+    ];
+
+    const [bisque, glaze] = planKilnLoads(pieces, [], 100, DEFAULT_PIECE_WORKFLOW);
+
+    expect(bisque.type).toBe('bisque');
+    expect(ids(bisque.waiting)).toEqual(['older', 'newer']);
+    expect(glaze.type).toBe('glaze');
+    expect(ids(glaze.waiting)).toEqual(['glaze']);
+  });
+
+  it('orders by when each piece last entered the stage it is waiting in', () => {
+    const pieces = [
+      // Made first, but moved back from bisque fired after everything else was queued
+      piece('moved-back', 10, {
+        createdAt: day(1),
+        stageHistory: [
+          { stage: 'in-progress', enteredAt: day(1) },
+          { stage: 'bisque-fired', enteredAt: day(5) },
+          { stage: 'in-progress', enteredAt: day(20) }
+        ]
+      }),
+      piece('no-history', 10, { createdAt: day(10) }),
+      // Sent back to be glazed again, so it has waited since its second visit
+      piece('reglazed', 10, {
+        createdAt: day(2),
+        status: 'glazed',
+        stageHistory: [
+          { stage: 'glazed', enteredAt: day(3) },
+          { stage: 'glaze-fired', enteredAt: day(5) },
+          { stage: 'glazed', enteredAt: day(15) }
+        ]
+      }),
+      piece('glazed', 10, { createdAt: day(4), status: 'glazed', stageHistory: [{ stage: 'glazed', enteredAt: day(12) }] })
+    ];
+
+    const [bisque, glaze] = planKilnLoads(pieces, [], 100, DEFAULT_PIECE_WORKFLOW);
+
+    expect(ids(bisque.waiting)).toEqual(['no-history', 'moved-back']);
+    expect(ids(glaze.waiting)).toEqual(['glazed', 'reglazed']);
+  });
+
+  it('leaves out pieces already in a kiln that has not been unloaded', () => {
+    const pieces = [piece('loaded', 10), piece('fired-before', 10), piece('free', 10)];
+    const firings = [openLoad(['loaded']), openLoad(['fired-before'], { id: 'f0', unloadDate: day(4) })];
+
+    const [bisque] = planKilnLoads(pieces, firings, 100, DEFAULT_PIECE_WORKFLOW);
+
+    expect(ids(bisque.waiting)).toEqual(['fired-before', 'free']);
+  });
+
+  it('totals the queued volume in loads and counts unsized pieces apart', () => {
+    const pieces = [piece('a', 80), piece('b', 60), piece('c', undefined), piece('d', 150)];
+
+    const [bisque] = planKilnLoads(pieces, [], 100, DEFAULT_PIECE_WORKFLOW);
+
+    expect(bisque.volume).toBe(290);
+    expect(bisque.queuedLoads).toBeCloseTo(2.9);
+    expect(bisque.unsizedCount).toBe(1);
+    expect(ids(bisque.proposal)).toEqual(['a']);
+    expect(bisque.proposalVolume).toBe(80);
+    expect(ids(bisque.oversized)).toEqual(['d']);
+  });
+
+  it('proposes nothing until the shelf volume is set', () => {
+    const [bisque] = planKilnLoads([piece('a', 80)], [], 0, DEFAULT_PIECE_WORKFLOW);
+
+    expect(ids(bisque.waiting)).toEqual(['a']);
+    expect(bisque).toMatchObject({ queuedLoads: 0, proposal: [], oversized: [] });
+  });
+});
@@ -0,0 +1,79 @@
+import { Firing, FiringType, Piece, PieceWorkflow } from '../types';
+import { FIRING_TYPES } from '../constants';
+import { getFiringStages } from './pieceWorkflow';
+import { getStageVisits } from './stageHistory';
+
+export interface StagePlan {
+  type: FiringType;
+  waiting: Piece[]; // longest waiting first
+  volume: number;
+  unsizedCount: number; // pieces with no cubic inches recorded, left out of the volume
+  queuedLoads: number; // fractional, so 1.4 means one full load and part of another
+  proposal: Piece[];
+  proposalVolume: number;
+  oversized: Piece[]; // bigger than a whole load on their own
+}
+
+const volumeOf = (pieces: Piece[]): number =>
+  pieces.reduce((total, piece) => total + (piece.cubicInches || 0), 0);
+
+// When the piece last entered the stage it is waiting in. Pieces from before stage history was
+// kept fall back to when they were made.
+const waitingSince = (piece: Piece): number => {
+  const visits = getStageVisits(piece).filter(visit => visit.stage === piece.status);
+  return visits.length > 0
+    ? visits[visits.length - 1].enteredAt.getTime()
+    : new Date(piece.createdAt).getTime();
+};
+
+const pieceIdsInOpenLoads = (firings: Firing[]): Set<string> => {
+  const ids = new Set<string>();
+  firings.filter(f => !f.unloadDate).forEach(f => f.pieceIds.forEach(id => ids.add(id)));
+  return ids;
+};
+
+/**
+ * Fills one load with the oldest sized pieces first. A piece that doesn't fit in the space left
+ * is passed over rather than ending the batch, so smaller newer pieces can fill the gaps.
+ */
+export const proposeLoad = (waiting: Piece[], shelfVolume: number): Piece[] => {
+  const batch: Piece[] = [];
+  let remaining = shelfVolume;
+  for (const piece of waiting) {
+    const size = piece.cubicInches || 0;
+    if (size <= 0 || size > remaining) continue;
+    batch.push(piece);
+    remaining -= size;
+  }
+  return batch;
+};
+
+// Pending work for each firing stage, against a kiln that holds shelfVolume cubic inches per load
+export const planKilnLoads = (
+  pieces: Piece[],
+  firings: Firing[],
+  shelfVolume: number,
+  workflow: PieceWorkflow
+): StagePlan[] => {
+  const loaded = pieceIdsInOpenLoads(firings);
+
+  return FIRING_TYPES.map(({ value }) => {
+    const waitingStages = getFiringStages(workflow, value);
+    const waiting = pieces
+      .filter(p => waitingStages.includes(p.status) && !loaded.has(p.id))
+      .sort((a, b) => waitingSince(a) - waitingSince(b));
+    const volume = volumeOf(waiting);
+    const proposal = shelfVolume > 0 ? proposeLoad(waiting, shelfVolume) : [];
+
+    return {
+      type: value,
+      waiting,
+      volume,
+      unsizedCount: waiting.filter(p => !p.cubicInches || p.cubicInches <= 0).length,
+      queuedLoads: shelfVolume > 0 ? volume / shelfVolume : 0,
+      proposal,
+      proposalVolume: volumeOf(proposal),
+      oversized: shelfVolume > 0 ? waiting.filter(p => (p.cubicInches || 0) > shelfVolume) : []
+    };
+  });
+};
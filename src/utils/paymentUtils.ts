@@ -19,7 +19,7 @@ export const calculateCustomerPaymentStatus = (pieces: Piece[]): PaymentStatus =
   };
 };
 
-export const calculateTotalOwed = (pieces: Piece[]): number => {
+export const calculateTotalOwed = (pieces: Array<Pick<Piece, 'paidGlaze' | 'glazeTotal'>>): number => {
   return pieces.reduce((sum, piece) => {
     return sum + (piece.paidGlaze ? 0 : (piece.glazeTotal || 0));
   }, 0);
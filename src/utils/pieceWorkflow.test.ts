@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_PIECE_WORKFLOW } from '../constants';
+import { PieceWorkflow } from '../types';
+import { checkStageMove } from './pieceWorkflow';
+
+describe('checkStageMove', () => {
+  const workflow = DEFAULT_PIECE_WORKFLOW;
+
+  it('allows moves listed as transitions', () => {
+    expect(checkStageMove(workflow, 'in-progress', 'bisque-fired')).toBe('allowed');
+    expect(checkStageMove(workflow, 'ready-for-pickup', 'picked-up')).toBe('allowed');
+  });
+
+  it('calls a move further along the workflow a skip', () => {
+    expect(checkStageMove(workflow, 'in-progress', 'glazed')).toBe('skip');
+    expect(checkStageMove(workflow, 'bisque-fired', 'picked-up')).toBe('skip');
+  });
+
+  it('calls a move to an earlier stage backward', () => {
+    expect(checkStageMove(workflow, 'glazed', 'in-progress')).toBe('backward');
+    expect(checkStageMove(workflow, 'picked-up', 'ready-for-pickup')).toBe('backward');
+  });
+
+  it('allows staying on the same stage', () => {
+    expect(checkStageMove(workflow, 'glazed', 'glazed')).toBe('allowed');
+  });
+
+  it('lets a piece on a removed stage move anywhere', () => {
+    expect(checkStageMove(workflow, 'drying', 'picked-up')).toBe('allowed');
+    expect(checkStageMove(workflow, 'drying', 'in-progress')).toBe('allowed');
+  });
+
+  it('follows a studio workflow that allows a step back', () => {
+    const custom: PieceWorkflow = {
+      stages: [
+        { id: 'in-progress', label: 'In Progress', color: 'blue', transitions: ['glazed'] },
+        { id: 'glazed', label: 'Glazed', color: 'purple', transitions: ['in-progress', 'ready-for-pickup'] },
+        { id: 'ready-for-pickup', label: 'Ready for Pickup', color: 'green', transitions: ['picked-up'] },
+        { id: 'picked-up', label: 'Picked Up', color: 'gray', transitions: [] }
+      ]
+    };
+    expect(checkStageMove(custom, 'glazed', 'in-progress')).toBe('allowed');
+    expect(checkStageMove(custom, 'ready-for-pickup', 'glazed')).toBe('backward');
+  });
+});
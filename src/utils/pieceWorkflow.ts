@@ -0,0 +1,117 @@
+import { FiringType, PieceWorkflow, StageMove, StudioSettings, WorkflowStage } from '../types';
+import { DEFAULT_PIECE_WORKFLOW, STAGE_COLORS } from '../constants';
+
+// Other screens depend on these two, so every workflow keeps them as its last stages
+export const BUILT_IN_STAGE_IDS = ['ready-for-pickup', 'picked-up'];
+
+export const resolveWorkflow = (settings?: Pick<StudioSettings, 'pieceWorkflow'> | null): PieceWorkflow =>
+  settings?.pieceWorkflow?.stages?.length ? settings.pieceWorkflow : DEFAULT_PIECE_WORKFLOW;
+
+/**
+ * The stage a status refers to. A piece can be left on a stage that was since removed, so
+ * unknown ids get a grey stand-in named after the id instead of failing.
+ */
+export const getStage = (workflow: PieceWorkflow, id: string): WorkflowStage =>
+  workflow.stages.find(stage => stage.id === id) || {
+    id,
+    label: id.replace(/-/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase()),
+    color: 'gray',
+    transitions: []
+  };
+
+export const getStageColors = (workflow: PieceWorkflow, id: string) => STAGE_COLORS[getStage(workflow, id).color] || STAGE_COLORS.gray;
+
+export const getInitialStage = (workflow: PieceWorkflow): string => workflow.stages[0].id;
+
+// The current stage followed by the ones a piece can move on to, in workflow order
+export const getStageChoices = (workflow: PieceWorkflow, id: string): WorkflowStage[] => {
+  const current = getStage(workflow, id);
+  return [current, ...workflow.stages.filter(stage => current.transitions.includes(stage.id))];
+};
+
+/**
+ * Whether moving from one stage to another follows the workflow. Moves listed as transitions
+ * are allowed; anything else is a skip or a step backwards depending on stage order. A piece
+ * left on a stage that was since removed can move anywhere.
+ */
+export const checkStageMove = (workflow: PieceWorkflow, from: string, to: string): StageMove => {
+  if (getStage(workflow, from).transitions.includes(to)) return 'allowed';
+  const fromIndex = workflow.stages.findIndex(stage => stage.id === from);
+  const toIndex = workflow.stages.findIndex(stage => stage.id === to);
+  if (fromIndex < 0 || from === to) return 'allowed';
+  return toIndex > fromIndex ? 'skip' : 'backward';
+};
+
+// Reads as a sentence, e.g. "Picked Up to In Progress goes back 5 stages"
+export const describeStageMove = (workflow: PieceWorkflow, from: string, to: string): string => {
+  const fromLabel = getStage(workflow, from).label;
+  const toLabel = getStage(workflow, to).label;
+  const fromIndex = workflow.stages.findIndex(stage => stage.id === from);
+  const toIndex = workflow.stages.findIndex(stage => stage.id === to);
+
+  if (checkStageMove(workflow, from, to) === 'backward') {
+    const steps = fromIndex - toIndex;
+    return `${fromLabel} to ${toLabel} goes back ${steps} stage${steps === 1 ? '' : 's'}`;
+  }
+  const skipped = workflow.stages.slice(fromIndex + 1, toIndex).map(stage => stage.label);
+  return skipped.length > 0
+    ? `${fromLabel} to ${toLabel} skips ${skipped.join(', ')}`
+    : `${fromLabel} doesn't move on to ${toLabel}`;
+};
+
+export const getFiringStages = (workflow: PieceWorkflow, type: FiringType): string[] =>
+  workflow.stages.filter(stage => stage.firing === type).map(stage => stage.id);
+
+// Where a firing leaves a piece: the stage after the one it was waiting in
+export const getStageAfterFiring = (workflow: PieceWorkflow, id: string): string | null => {
+  const index = workflow.stages.findIndex(stage => stage.id === id);
+  return index >= 0 && index < workflow.stages.length - 1 ? workflow.stages[index + 1].id : null;
+};
+
+// Readable list of the stages a firing takes pieces from, for messages and empty states
+export const describeFiringStages = (workflow: PieceWorkflow, type: FiringType): string => {
+  const labels = getFiringStages(workflow, type).map(id => getStage(workflow, id).label.toLowerCase());
+  return labels.length > 0 ? labels.join(' or ') : 'waiting for this firing';
+};
+
+// And the stages the same firing leaves them in
+export const describeFiringResults = (workflow: PieceWorkflow, type: FiringType): string => {
+  const labels = getFiringStages(workflow, type)
+    .map(id => getStageAfterFiring(workflow, id))
+    .filter((id): id is string => !!id)
+    .map(id => getStage(workflow, id).label);
+  return Array.from(new Set(labels)).join(' or ') || 'the next stage';
+};
+
+export const slugifyStageLabel = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** Problems that would stop a workflow from working, as messages for the settings screen. */
+export const validateWorkflow = (workflow: PieceWorkflow): string[] => {
+  const errors: string[] = [];
+  const ids = workflow.stages.map(stage => stage.id);
+
+  if (ids.length - BUILT_IN_STAGE_IDS.length < 1) {
+    errors.push('Add at least one stage before Ready for Pickup');
+  }
+  if (ids.slice(-BUILT_IN_STAGE_IDS.length).join() !== BUILT_IN_STAGE_IDS.join()) {
+    errors.push('Ready for Pickup and Picked Up must be the last two stages');
+  }
+
+  workflow.stages.forEach((stage, index) => {
+    const name = stage.label.trim() || `Stage ${index + 1}`;
+    if (!stage.id || !stage.label.trim()) errors.push(`Stage ${index + 1} needs a name`);
+    if (ids.indexOf(stage.id) !== index) errors.push(`${name} is listed twice`);
+    if (stage.transitions.some(target => !ids.includes(target) || target === stage.id)) {
+      errors.push(`${name} moves to a stage that doesn't exist`);
+    }
+    if (stage.firing && !getStageAfterFiring(workflow, stage.id)) {
+      errors.push(`${name} waits for a firing but has no stage after it`);
+    }
+    if (stage.firing && BUILT_IN_STAGE_IDS.includes(stage.id)) {
+      errors.push(`${name} can't wait for a firing`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,23 @@
+// Query parameter that switches the app into the customer portal instead of the staff sign-in
+export const PORTAL_PARAM = 'portal';
+
+/**
+ * Codes are Crockford base32, so typing mistakes that look alike (O for 0, I or L for 1),
+ * lowercase letters, spaces and dashes are all accepted.
+ */
+export const normalizePortalCode = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const formatPortalCode = (code: string): string =>
+  code.length > 5 ? `${code.slice(0, 5)}-${code.slice(5)}` : code;
+
+export const buildPortalLink = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}?${PORTAL_PARAM}=${encodeURIComponent(code)}`;
+
+// null when the page wasn't opened as the portal; '' when it was opened without a code
+export const readPortalParam = (): string | null =>
+  new URLSearchParams(window.location.search).get(PORTAL_PARAM);
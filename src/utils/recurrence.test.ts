@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { generateOccurrenceDates, MAX_OCCURRENCES, toDayKey } from './recurrence';
+
+const day = (key: string): Date => new Date(`${key}T00:00:00.000Z`);
+
+const keys = (dates: Date[]): string[] => dates.map(toDayKey);
+
+describe('generateOccurrenceDates', () => {
+  it('repeats weekly and every other week from the first date', () => {
+    expect(keys(generateOccurrenceDates(day('2024-01-01'), { frequency: 'weekly', count: 3 })))
+      .toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+    expect(keys(generateOccurrenceDates(day('2024-01-01'), { frequency: 'biweekly', count: 3 })))
+      .toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+  });
+
+  it('repeats monthly on the same weekday of the same week', () => {
+    // The 2nd Tuesday
+    expect(keys(generateOccurrenceDates(day('2024-01-09'), { frequency: 'monthly', count: 3 })))
+      .toEqual(['2024-01-09', '2024-02-13', '2024-03-12']);
+  });
+
+  it('falls back to the last weekday in months without a fifth one', () => {
+    // The 5th Monday of January; February and March only have four
+    expect(keys(generateOccurrenceDates(day('2024-01-29'), { frequency: 'monthly', count: 4 })))
+      .toEqual(['2024-01-29', '2024-02-26', '2024-03-25', '2024-04-29']);
+  });
+
+  it('skips exceptions without counting them towards the count', () => {
+    const rule = { frequency: 'weekly' as const, count: 3, exceptions: [day('2024-01-08')] };
+    expect(keys(generateOccurrenceDates(day('2024-01-01'), rule)))
+      .toEqual(['2024-01-01', '2024-01-15', '2024-01-22']);
+  });
+
+  it('still reaches the count when the first date is an exception', () => {
+    const rule = { frequency: 'weekly' as const, count: 2, exceptions: [day('2024-01-01')] };
+    expect(keys(generateOccurrenceDates(day('2024-01-01'), rule))).toEqual(['2024-01-08', '2024-01-15']);
+  });
+
+  it('stops on the until date, inclusive, and lets exceptions shorten it', () => {
+    const rule = { frequency: 'weekly' as const, until: day('2024-01-22'), exceptions: [day('2024-01-15')] };
+    expect(keys(generateOccurrenceDates(day('2024-01-01'), rule)))
+      .toEqual(['2024-01-01', '2024-01-08', '2024-01-22']);
+  });
+
+  it('caps a rule with no end', () => {
+    expect(generateOccurrenceDates(day('2024-01-01'), { frequency: 'weekly' })).toHaveLength(MAX_OCCURRENCES);
+    expect(generateOccurrenceDates(day('2024-01-01'), { frequency: 'weekly', count: 500 })).toHaveLength(MAX_OCCURRENCES);
+  });
+
+  it('ignores the time of day on the first date', () => {
+    const start = new Date('2024-01-01T18:30:00.000Z');
+    expect(keys(generateOccurrenceDates(start, { frequency: 'weekly', count: 2 }))).toEqual(['2024-01-01', '2024-01-08']);
+  });
+});
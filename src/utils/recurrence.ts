@@ -0,0 +1,94 @@
+import { format } from 'date-fns';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { ensureDate, ensureDateRequired } from './dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences are created up front, so this bounds how far a single rule can reach
+export const MAX_OCCURRENCES = 104;
+
+export const RECURRENCE_FREQUENCIES: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every other week' },
+  { value: 'monthly', label: 'Monthly on the same weekday' }
+];
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', 'last'];
+
+// Event dates are saved as UTC midnight (see EventForm), so all series math stays in UTC
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const toDayKey = (date: any): string => ensureDateRequired(date).toISOString().split('T')[0];
+
+// Local midnight on the same calendar day, so formatting shows the day that was picked
+export const fromDayKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfUtcDay(to).getTime() - startOfUtcDay(from).getTime()) / DAY_MS);
+
+const weekOfMonth = (date: Date): number => Math.ceil(date.getUTCDate() / 7);
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, week: number): Date => {
+  const first = new Date(Date.UTC(year, month, 1));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  let day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7;
+  // A series that starts in the fifth week means "the last one" in months that only have four
+  while (day > daysInMonth) day -= 7;
+  return new Date(Date.UTC(year, month, day));
+};
+
+const occurrenceAt = (start: Date, frequency: RecurrenceFrequency, index: number): Date => {
+  if (frequency === 'weekly') return addDays(start, index * 7);
+  if (frequency === 'biweekly') return addDays(start, index * 14);
+  return nthWeekdayOfMonth(start.getUTCFullYear(), start.getUTCMonth() + index, start.getUTCDay(), weekOfMonth(start));
+};
+
+/**
+ * Every date a rule produces from the first occurrence on, skipping exception dates. Skipped
+ * dates don't count towards rule.count. Stops at MAX_OCCURRENCES even without an end.
+ */
+export const generateOccurrenceDates = (start: Date, rule: RecurrenceRule): Date[] => {
+  const first = startOfUtcDay(ensureDateRequired(start));
+  const until = ensureDate(rule.until);
+  const untilKey = until ? toDayKey(until) : null;
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const skipped = new Set((rule.exceptions || []).map(toDayKey));
+
+  const dates: Date[] = [];
+  for (let i = 0; dates.length < limit && i < MAX_OCCURRENCES + skipped.size; i++) {
+    const date = occurrenceAt(first, rule.frequency, i);
+    const key = toDayKey(date);
+    if (untilKey && key > untilKey) break;
+    if (!skipped.has(key)) dates.push(date);
+  }
+  return dates;
+};
+
+// Stored rules always end on a date; a count only describes where that date falls
+export const resolveRecurrence = (start: Date, rule: RecurrenceRule): RecurrenceRule => {
+  const dates = generateOccurrenceDates(start, rule);
+  if (dates.length === 0) throw new Error('The repeat settings leave no dates to schedule');
+  return {
+    frequency: rule.frequency,
+    until: dates[dates.length - 1],
+    exceptions: (rule.exceptions || []).map(date => ensureDateRequired(date))
+  };
+};
+
+export const describeRecurrence = (rule: RecurrenceRule, start: Date): string => {
+  const weekday = format(fromDayKey(toDayKey(start)), 'EEEE');
+  const base = rule.frequency === 'weekly'
+    ? `Every ${weekday}`
+    : rule.frequency === 'biweekly'
+      ? `Every other ${weekday}`
+      : `Monthly on the ${ORDINALS[weekOfMonth(start) - 1]} ${weekday}`;
+  const until = ensureDate(rule.until);
+  if (until) return `${base} until ${format(fromDayKey(toDayKey(until)), 'MMM d, yyyy')}`;
+  return rule.count ? `${base}, ${rule.count} times` : base;
+};
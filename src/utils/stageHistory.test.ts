@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_PIECE_WORKFLOW } from '../constants';
+import { Piece } from '../types';
+import { enterStage, formatStageDuration, getStageVisits } from './stageHistory';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const piece = (overrides: Partial<Piece> = {}): Piece => ({
+  id: 'p1',
+  customerId: 'c1',
+  status: 'in-progress',
+  paidGlaze: false,
+  createdAt: new Date('2024-03-01T10:00:00Z'),
+  updatedAt: new Date('2024-03-01T10:00:00Z'),
+  ...overrides
+});
+
+const day = (date: number) => new Date(`2024-03-${String(date).padStart(2, '0')}T10:00:00Z`);
+
+describe('enterStage', () => {
+  const workflow = DEFAULT_PIECE_WORKFLOW;
+
+  it('appends to the stage history', () => {
+    const current = piece({ stageHistory: [{ stage: 'in-progress', enteredAt: day(1) }] });
+
+    expect(enterStage(current, 'bisque-fired', workflow, day(3)).stageHistory).toEqual([
+      { stage: 'in-progress', enteredAt: day(1) },
+      { stage: 'bisque-fired', enteredAt: day(3) }
+    ]);
+  });
+
+  it('starts a history for pieces saved before there was one', () => {
+    expect(enterStage(piece(), 'bisque-fired', workflow, day(3)).stageHistory).toEqual([
+      { stage: 'bisque-fired', enteredAt: day(3) }
+    ]);
+  });
+
+  it('stamps the pickup dates on entering their stages', () => {
+    expect(enterStage(piece(), 'ready-for-pickup', workflow, day(5))).toMatchObject({ readyForPickupDate: day(5) });
+    expect(enterStage(piece(), 'picked-up', workflow, day(6))).toMatchObject({ pickedUpDate: day(6) });
+  });
+
+  it('clears the pickup dates when the piece is moved back before them', () => {
+    const pickedUp = piece({ status: 'picked-up', readyForPickupDate: day(5), pickedUpDate: day(6) });
+
+    expect(enterStage(pickedUp, 'ready-for-pickup', workflow, day(7))).toMatchObject({
+      readyForPickupDate: day(7),
+      pickedUpDate: null
+    });
+    expect(enterStage(pickedUp, 'glazed', workflow, day(7))).toMatchObject({
+      readyForPickupDate: null,
+      pickedUpDate: null
+    });
+  });
+});
+
+describe('getStageVisits', () => {
+  it('times each stage until the next one started, and the current one until now', () => {
+    const visits = getStageVisits(piece({
+      stageHistory: [
+        { stage: 'in-progress', enteredAt: day(1) },
+        { stage: 'bisque-fired', enteredAt: day(4) }
+      ]
+    }), day(6));
+
+    expect(visits).toEqual([
+      { stage: 'in-progress', enteredAt: day(1), leftAt: day(4), duration: 3 * DAY_MS },
+      { stage: 'bisque-fired', enteredAt: day(4), leftAt: null, duration: 2 * DAY_MS }
+    ]);
+  });
+
+  it('reads dates stored as strings and skips entries without one', () => {
+    const stored = piece({
+      stageHistory: JSON.parse(JSON.stringify([
+        { stage: 'in-progress', enteredAt: day(1) },
+        { stage: 'bisque-fired', enteredAt: null },
+        { stage: 'glazed', enteredAt: day(2) }
+      ]))
+    });
+
+    expect(getStageVisits(stored, day(3)).map(visit => [visit.stage, visit.duration])).toEqual([
+      ['in-progress', DAY_MS],
+      ['glazed', DAY_MS]
+    ]);
+  });
+
+  it('is empty for pieces with no history', () => {
+    expect(getStageVisits(piece())).toEqual([]);
+  });
+});
+
+describe('formatStageDuration', () => {
+  it('rounds to hours within a day and to days after that', () => {
+    expect(formatStageDuration(20 * 60 * 1000)).toBe('under an hour');
+    expect(formatStageDuration(HOUR_MS)).toBe('1 hour');
+    expect(formatStageDuration(5.4 * HOUR_MS)).toBe('5 hours');
+    expect(formatStageDuration(1.2 * DAY_MS)).toBe('1 day');
+    expect(formatStageDuration(9.6 * DAY_MS)).toBe('10 days');
+  });
+});
@@ -0,0 +1,67 @@
+import { Piece, PieceStatus, PieceWorkflow } from '../types';
+import { ensureDate } from './dateUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface StageVisit {
+  stage: PieceStatus;
+  enteredAt: Date;
+  leftAt: Date | null; // Null for the stage the piece is in now
+  duration: number; // Milliseconds, up to now for the current stage
+}
+
+/**
+ * What a status change writes besides the status: a new history entry, and the pickup dates,
+ * which are stamped on entering their stage and cleared if the piece is moved back before it.
+ */
+export const enterStage = (
+  piece: Piece,
+  stage: PieceStatus,
+  workflow: PieceWorkflow,
+  at: Date = new Date()
+): Partial<Piece> => {
+  const order = workflow.stages.map(s => s.id);
+  const updates: Partial<Piece> = {
+    stageHistory: [...(piece.stageHistory || []), { stage, enteredAt: at }]
+  };
+
+  if (stage === 'ready-for-pickup') {
+    updates.readyForPickupDate = at;
+  } else if (piece.readyForPickupDate && order.indexOf(stage) < order.indexOf('ready-for-pickup')) {
+    updates.readyForPickupDate = null;
+  }
+  if (stage === 'picked-up') {
+    updates.pickedUpDate = at;
+  } else if (piece.pickedUpDate) {
+    updates.pickedUpDate = null;
+  }
+  return updates;
+};
+
+// Each recorded stage with how long the piece spent there. Dates may come back from storage as strings.
+export const getStageVisits = (piece: Piece, now: Date = new Date()): StageVisit[] => {
+  const entries = (piece.stageHistory || [])
+    .map(entry => ({ stage: entry.stage, enteredAt: ensureDate(entry.enteredAt) }))
+    .filter((entry): entry is { stage: PieceStatus; enteredAt: Date } => !!entry.enteredAt);
+
+  return entries.map((entry, index) => {
+    const leftAt = index < entries.length - 1 ? entries[index + 1].enteredAt : null;
+    return {
+      stage: entry.stage,
+      enteredAt: entry.enteredAt,
+      leftAt,
+      duration: Math.max((leftAt || now).getTime() - entry.enteredAt.getTime(), 0)
+    };
+  });
+};
+
+export const formatStageDuration = (ms: number): string => {
+  if (ms < HOUR_MS) return 'under an hour';
+  if (ms < DAY_MS) {
+    const hours = Math.round(ms / HOUR_MS);
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const days = Math.round(ms / DAY_MS);
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_PIECE_WORKFLOW } from '../constants';
+import { Event, Piece } from '../types';
+import { createReadyEstimator, percentile } from './turnaround';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+const STAGES = ['in-progress', 'bisque-fired', 'glazed', 'glaze-fired', 'ready-for-pickup'];
+
+const daysAgo = (days: number): Date => new Date(NOW.getTime() - days * DAY_MS);
+
+const piece = (id: string, status: string, history: Array<[string, Date]>, eventId?: string): Piece => ({
+  id,
+  customerId: 'c1',
+  eventId,
+  status,
+  paidGlaze: false,
+  createdAt: history.length > 0 ? history[0][1] : NOW,
+  updatedAt: NOW,
+  stageHistory: history.map(([stage, enteredAt]) => ({ stage, enteredAt }))
+});
+
+// A piece that went through every stage up to Ready for Pickup, spending stageDays in each
+const finishedPiece = (id: string, stageDays: number, eventId?: string): Piece => {
+  const start = 200;
+  return piece(id, 'ready-for-pickup', STAGES.map((stage, index) => [stage, daysAgo(start - index * stageDays)]), eventId);
+};
+
+const event = (id: string, type: Event['type']): Event => ({
+  id,
+  name: id,
+  date: NOW,
+  startTime: '10:00',
+  endTime: '12:00',
+  maxCapacity: 10,
+  price: 40,
+  type,
+  status: 'completed',
+  createdAt: NOW,
+  updatedAt: NOW
+});
+
+describe('percentile', () => {
+  it('returns 0 for no values and the value itself for one', () => {
+    expect(percentile([], 0.5)).toBe(0);
+    expect(percentile([7], 0.9)).toBe(7);
+  });
+
+  it('interpolates between the nearest ranks', () => {
+    expect(percentile([0, 10], 0.5)).toBe(5);
+    expect(percentile([1, 2, 3, 4], 0.9)).toBeCloseTo(3.7);
+    expect(percentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(percentile([1, 2, 3, 4], 1)).toBe(4);
+  });
+});
+
+describe('createReadyEstimator', () => {
+  it('adds what is left of the current stage to the stages after it', () => {
+    const estimate = createReadyEstimator([finishedPiece('done', 2)], [], DEFAULT_PIECE_WORKFLOW, NOW);
+    const inGlazed = piece('p1', 'glazed', [['in-progress', daysAgo(10)], ['glazed', daysAgo(0.5)]]);
+
+    // 1.5 days left in Glazed, then 2 in Glaze Fired
+    expect(estimate(inGlazed)).toEqual(new Date(NOW.getTime() + 3.5 * DAY_MS));
+  });
+
+  it('counts nothing as left of a stage that has run over', () => {
+    const estimate = createReadyEstimator([finishedPiece('done', 2)], [], DEFAULT_PIECE_WORKFLOW, NOW);
+    const overdue = piece('p1', 'glaze-fired', [['glaze-fired', daysAgo(5)]]);
+
+    expect(estimate(overdue)).toEqual(NOW);
+  });
+
+  it('counts from now for pieces without stage history', () => {
+    const estimate = createReadyEstimator([finishedPiece('done', 2)], [], DEFAULT_PIECE_WORKFLOW, NOW);
+
+    expect(estimate(piece('p1', 'glaze-fired', []))).toEqual(new Date(NOW.getTime() + 2 * DAY_MS));
+  });
+
+  it('gives no estimate for ready pieces or stages nobody has finished', () => {
+    const estimate = createReadyEstimator([], [], DEFAULT_PIECE_WORKFLOW, NOW);
+
+    expect(estimate(finishedPiece('done', 2))).toBeNull();
+    expect(estimate(piece('p1', 'in-progress', [['in-progress', daysAgo(1)]]))).toBeNull();
+  });
+
+  it('uses the event type\'s own times once it has enough of them', () => {
+    const events = [event('w1', 'workshop'), event('c1', 'class')];
+    const history = [
+      ...Array.from({ length: 5 }, (_, index) => finishedPiece(`slow${index}`, 10)),
+      ...Array.from({ length: 5 }, (_, index) => finishedPiece(`quick${index}`, 1, 'w1'))
+    ];
+    const estimate = createReadyEstimator(history, events, DEFAULT_PIECE_WORKFLOW, NOW);
+    const justFired = (eventId?: string) => piece('p1', 'glaze-fired', [['glaze-fired', NOW]], eventId);
+
+    expect(estimate(justFired('w1'))).toEqual(new Date(NOW.getTime() + DAY_MS));
+    expect(estimate(justFired())).toEqual(new Date(NOW.getTime() + 10 * DAY_MS));
+    // No class pieces have finished, so the studio-wide median of 1 and 10 days is used
+    expect(estimate(justFired('c1'))).toEqual(new Date(NOW.getTime() + 5.5 * DAY_MS));
+  });
+});
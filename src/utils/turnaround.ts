@@ -0,0 +1,149 @@
+import { format } from 'date-fns';
+import { Event, Piece, PieceWorkflow } from '../types';
+import { getStageVisits } from './stageHistory';
+
+export interface StageDurationStats {
+  count: number;
+  median: number; // Milliseconds
+  p90: number;
+}
+
+// Keyed by stage id; stages nobody has finished yet are missing
+export type StageStats = Record<string, StageDurationStats>;
+
+export type TurnaroundGrouping = 'eventType' | 'month';
+
+export interface TurnaroundGroup {
+  key: string; // An event type, NO_EVENT_KEY, or a month as yyyy-MM
+  stats: StageStats;
+}
+
+// Pieces made outside an event are grouped under this key
+export const NO_EVENT_KEY = 'none';
+
+// An event type with fewer finished stays than this falls back to the studio-wide numbers
+const MIN_GROUP_SAMPLES = 5;
+
+interface FinishedVisit {
+  stage: string;
+  duration: number;
+  month: string;
+  eventType: string;
+}
+
+// Linear interpolation between the two nearest ranks of an ascending list
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Every stay a piece has finished, tagged with the month it started and the piece's event type.
+ * The stage a piece is in now is left out: its clock is still running and would pull times down.
+ */
+const collectFinishedVisits = (pieces: Piece[], events: Event[]): FinishedVisit[] => {
+  const eventTypes = new Map(events.map(event => [event.id, event.type as string]));
+  const visits: FinishedVisit[] = [];
+  pieces.forEach(piece => {
+    const eventType = (piece.eventId && eventTypes.get(piece.eventId)) || NO_EVENT_KEY;
+    getStageVisits(piece).forEach(visit => {
+      if (!visit.leftAt) return;
+      visits.push({
+        stage: visit.stage,
+        duration: visit.duration,
+        month: format(visit.enteredAt, 'yyyy-MM'),
+        eventType
+      });
+    });
+  });
+  return visits;
+};
+
+const summarizeByStage = (visits: FinishedVisit[]): StageStats => {
+  const durations: Record<string, number[]> = {};
+  visits.forEach(visit => {
+    (durations[visit.stage] = durations[visit.stage] || []).push(visit.duration);
+  });
+
+  const stats: StageStats = {};
+  Object.keys(durations).forEach(stage => {
+    const sorted = durations[stage].sort((a, b) => a - b);
+    stats[stage] = { count: sorted.length, median: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+  });
+  return stats;
+};
+
+/** Median and 90th percentile time in each stage, for the whole studio and per event type or month. */
+export const buildTurnaroundReport = (
+  pieces: Piece[],
+  events: Event[],
+  grouping: TurnaroundGrouping
+): { overall: StageStats; groups: TurnaroundGroup[] } => {
+  const visits = collectFinishedVisits(pieces, events);
+  const keyOf = (visit: FinishedVisit) => (grouping === 'month' ? visit.month : visit.eventType);
+
+  const keys = Array.from(new Set(visits.map(keyOf))).sort();
+  // Newest month first; event types stay alphabetical
+  if (grouping === 'month') keys.reverse();
+
+  return {
+    overall: summarizeByStage(visits),
+    groups: keys.map(key => ({ key, stats: summarizeByStage(visits.filter(visit => keyOf(visit) === key)) }))
+  };
+};
+
+// The stages a piece still has to pass through before it is ready, in order
+export const getStagesBeforeReady = (workflow: PieceWorkflow): string[] => {
+  const readyIndex = workflow.stages.findIndex(stage => stage.id === 'ready-for-pickup');
+  return workflow.stages.slice(0, readyIndex).map(stage => stage.id);
+};
+
+// Sum of the medians from the first stage to Ready for Pickup, or null while a stage has no data
+export const typicalTurnaround = (stats: StageStats, workflow: PieceWorkflow): number | null => {
+  let total = 0;
+  for (const stage of getStagesBeforeReady(workflow)) {
+    if (!stats[stage]) return null;
+    total += stats[stage].median;
+  }
+  return total;
+};
+
+/**
+ * Returns a function estimating when a piece will reach Ready for Pickup: what's left of the
+ * median for its current stage plus the medians of the stages after it. Medians come from
+ * pieces of the same event type when there are enough of them. Pieces already ready, or with a
+ * stage no piece has finished yet, get null.
+ */
+export const createReadyEstimator = (
+  pieces: Piece[],
+  events: Event[],
+  workflow: PieceWorkflow,
+  now: Date = new Date()
+): ((piece: Piece) => Date | null) => {
+  const { overall, groups } = buildTurnaroundReport(pieces, events, 'eventType');
+  const byEventType = new Map(groups.map(group => [group.key, group.stats]));
+  const eventTypes = new Map(events.map(event => [event.id, event.type as string]));
+  const remainingStages = getStagesBeforeReady(workflow);
+
+  return (piece: Piece) => {
+    const index = remainingStages.indexOf(piece.status);
+    if (index < 0) return null;
+
+    const typeStats = byEventType.get((piece.eventId && eventTypes.get(piece.eventId)) || NO_EVENT_KEY) || {};
+    const visits = getStageVisits(piece, now);
+    const current = visits[visits.length - 1];
+    // Pieces from before stage history was recorded count from now
+    const elapsed = current && current.stage === piece.status ? current.duration : 0;
+
+    let remaining = 0;
+    for (const stage of remainingStages.slice(index)) {
+      const stats = typeStats[stage] && typeStats[stage].count >= MIN_GROUP_SAMPLES ? typeStats[stage] : overall[stage];
+      if (!stats) return null;
+      remaining += stage === piece.status ? Math.max(stats.median - elapsed, 0) : stats.median;
+    }
+    return new Date(now.getTime() + remaining);
+  };
+};
@@ -0,0 +1,60 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ulid } from './ulid.ts';
+
+// Bumped on every write; the app's AuditLog leaves them out too
+const IGNORED_COLUMNS = ['updated_at', 'version'];
+// Logged as changed without their values
+const SECRET_COLUMNS = ['password_hash', 'password_salt', 'pin_hash', 'pin_salt', 'portal_code'];
+const SECRET_PLACEHOLDER = '[hidden]';
+
+const toField = (column: string): string => column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/**
+ * Writes an audit_log entry in the shape AuditLog uses in the app, so changes made by edge
+ * functions show up in record history. Rows are compared column by column; failures are logged
+ * and never fail the change being recorded.
+ */
+export const recordAudit = async (
+  client: SupabaseClient,
+  entry: {
+    collection: string;
+    recordId: string;
+    action: 'create' | 'update';
+    before: Record<string, any> | null;
+    after: Record<string, any>;
+    actor: string;
+  }
+): Promise<void> => {
+  const changes = Object.keys(entry.after)
+    .filter(column => !IGNORED_COLUMNS.includes(column))
+    .filter(column => {
+      const before = entry.before?.[column];
+      const after = entry.after[column];
+      if (isEmpty(before) && isEmpty(after)) return false;
+      return JSON.stringify(before ?? null) !== JSON.stringify(after ?? null);
+    })
+    .map(column => {
+      const secret = SECRET_COLUMNS.includes(column);
+      const before = entry.before?.[column];
+      const after = entry.after[column];
+      return {
+        field: toField(column),
+        ...(!isEmpty(before) ? { before: secret ? SECRET_PLACEHOLDER : before } : {}),
+        ...(!isEmpty(after) ? { after: secret ? SECRET_PLACEHOLDER : after } : {})
+      };
+    });
+  if (entry.action === 'update' && changes.length === 0) return;
+
+  const { error } = await client.from('audit_log').insert({
+    id: ulid(),
+    collection: entry.collection,
+    record_id: entry.recordId,
+    action: entry.action,
+    changes,
+    actor: entry.actor,
+    timestamp: new Date().toISOString()
+  });
+  if (error) console.error('Failed to record audit entry:', error);
+};
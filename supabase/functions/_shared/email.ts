@@ -0,0 +1,36 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { readSecrets, readSettings } from './secrets.ts';
+
+// Server-side calls need "Allow EmailJS API for non-browser applications" turned on in EmailJS
+const EMAILJS_SEND_URL = 'https://api.emailjs.com/api/v1.0/email/send';
+
+export type EmailResult =
+  | { sent: true }
+  | { sent: false; configured: false }
+  | { sent: false; configured: true; error: string };
+
+/** Sends through the studio's EmailJS template with the stored credentials. */
+export const sendEmail = async (client: SupabaseClient, templateParams: Record<string, unknown>): Promise<EmailResult> => {
+  const secrets = await readSecrets(client);
+  const settings = await readSettings(client);
+  if (!secrets.emailjsPublicKey || !settings.emailjs_service_id || !settings.emailjs_template_id) {
+    return { sent: false, configured: false };
+  }
+
+  const response = await fetch(EMAILJS_SEND_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      service_id: settings.emailjs_service_id,
+      template_id: settings.emailjs_template_id,
+      user_id: secrets.emailjsPublicKey,
+      ...(secrets.emailjsPrivateKey ? { accessToken: secrets.emailjsPrivateKey } : {}),
+      template_params: templateParams
+    })
+  });
+
+  if (!response.ok) {
+    return { sent: false, configured: true, error: (await response.text()) || `HTTP ${response.status}` };
+  }
+  return { sent: true };
+};
@@ -0,0 +1,90 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-staff-session',
+  'Vary': 'Origin'
+};
+
+// The studio's own sites, comma-separated, e.g. https://app.claycafe.example,http://localhost:3000
+const allowedOrigins = (): string[] =>
+  (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+export const SECRET_KEYS = ['twilioAccountSid', 'twilioAuthToken', 'emailjsPublicKey', 'emailjsPrivateKey'] as const;
+export type SecretKey = typeof SECRET_KEYS[number];
+
+// Columns the credentials used to live in on studio_settings, moved out on first use
+const LEGACY_COLUMNS: Partial<Record<SecretKey, string>> = {
+  twilioAccountSid: 'twilio_account_sid',
+  twilioAuthToken: 'twilio_auth_token',
+  emailjsPublicKey: 'emailjs_public_key'
+};
+
+export const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+/**
+ * Wraps a function's handler so browsers can only call it from an origin in ALLOWED_ORIGINS.
+ * Other origins get a 403 before the handler runs. Requests without an Origin header aren't from
+ * a browser page; the staff-only functions still turn those away without a session token.
+ */
+export const withCors = (handler: (req: Request) => Promise<Response>) => async (req: Request): Promise<Response> => {
+  const origin = req.headers.get('Origin');
+  if (origin && !allowedOrigins().includes(origin)) {
+    return new Response(JSON.stringify({ error: 'This site is not allowed to call the studio\'s functions' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const headers: Record<string, string> = origin ? { ...corsHeaders, 'Access-Control-Allow-Origin': origin } : corsHeaders;
+  if (req.method === 'OPTIONS') return new Response('ok', { headers });
+
+  const response = await handler(req);
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+};
+
+// The service role bypasses RLS; integration_secrets has no policies, so nothing else can read it
+export const adminClient = (): SupabaseClient =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+export const isSecretKey = (key: unknown): key is SecretKey =>
+  typeof key === 'string' && (SECRET_KEYS as readonly string[]).includes(key);
+
+export const importLegacySecrets = async (client: SupabaseClient): Promise<void> => {
+  const { data: settings } = await client.from('studio_settings').select('*').limit(1).maybeSingle();
+  if (!settings) return;
+
+  const cleared: Record<string, null> = {};
+  for (const [key, column] of Object.entries(LEGACY_COLUMNS)) {
+    const value = settings[column!];
+    if (!value) continue;
+    const { data: existing } = await client.from('integration_secrets').select('key').eq('key', key).maybeSingle();
+    if (!existing) {
+      await client.from('integration_secrets').upsert({ key, value, updated_at: new Date().toISOString() });
+    }
+    cleared[column!] = null;
+  }
+
+  if (Object.keys(cleared).length > 0) {
+    await client.from('studio_settings').update(cleared).eq('id', settings.id);
+  }
+};
+
+export const readSecrets = async (client: SupabaseClient): Promise<Partial<Record<SecretKey, string>>> => {
+  const { data, error } = await client.from('integration_secrets').select('key, value');
+  if (error) throw error;
+  const secrets: Partial<Record<SecretKey, string>> = {};
+  for (const row of data || []) {
+    if (isSecretKey(row.key)) secrets[row.key] = row.value;
+  }
+  return secrets;
+};
+
+export const readSettings = async (client: SupabaseClient): Promise<Record<string, any>> => {
+  const { data } = await client.from('studio_settings').select('*').limit(1).maybeSingle();
+  return data || {};
+};
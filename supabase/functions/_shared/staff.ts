@@ -0,0 +1,112 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { json } from './secrets.ts';
+
+export type StaffRole = 'owner' | 'instructor' | 'front-desk';
+export type Permission =
+  | 'viewSettings'
+  | 'editPricing'
+  | 'manageStaff'
+  | 'manageIntegrations'
+  | 'manageData'
+  | 'deleteRecords'
+  | 'markGlazePaid';
+
+// The only copy of the role table. staff-auth sends it to the app with each member, so the
+// buttons a role sees always match what these checks allow.
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ['viewSettings', 'editPricing', 'manageStaff', 'manageIntegrations', 'manageData', 'deleteRecords', 'markGlazePaid'],
+  'front-desk': ['viewSettings', 'deleteRecords', 'markGlazePaid'],
+  instructor: []
+};
+
+export const STAFF_ROLES = Object.keys(ROLE_PERMISSIONS) as StaffRole[];
+
+export const SESSION_HEADER = 'x-staff-session';
+// A password sign-in lasts one working day; PIN unlocks keep the expiry they were given
+export const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+
+export interface StaffRow {
+  id: string;
+  name: string;
+  email: string;
+  role: StaffRole;
+  active: boolean;
+  password_hash: string;
+  password_salt: string;
+  pin_hash: string | null;
+  pin_salt: string | null;
+  pin_failed_attempts: number;
+  pin_locked_at: string | null;
+  created_at: string;
+  updated_at: string;
+  version: number;
+}
+
+export interface StaffSession {
+  staffId: string;
+  expiresAt: number;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const signingKey = (): Promise<CryptoKey> => {
+  const secret = Deno.env.get('STAFF_SESSION_SECRET');
+  if (!secret) throw new Error('STAFF_SESSION_SECRET is not set');
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+/**
+ * Session tokens are `payload.signature`, an HMAC over the staff id and expiry. Nothing else is
+ * trusted from the token: role and active state are read from staff_accounts on every call.
+ */
+export const signSession = async (session: StaffSession): Promise<string> => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ sub: session.staffId, exp: session.expiresAt })));
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload)));
+  return `${payload}.${toBase64Url(signature)}`;
+};
+
+export const readSession = async (req: Request): Promise<StaffSession | null> => {
+  const [payload, signature] = (req.headers.get(SESSION_HEADER) || '').split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+    const { sub, exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp <= Date.now()) return null;
+    return { staffId: sub, expiresAt: exp };
+  } catch (error) {
+    // Malformed tokens are treated like missing ones
+    return null;
+  }
+};
+
+export const hasPermission = (role: StaffRole, permission: Permission): boolean =>
+  (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+/**
+ * The signed-in staff member behind a request, or the 401/403 response to send back instead.
+ * Callers check with `instanceof Response`.
+ */
+export const requireStaff = async (
+  req: Request,
+  client: SupabaseClient,
+  permission?: Permission
+): Promise<{ staff: StaffRow; session: StaffSession } | Response> => {
+  const session = await readSession(req);
+  if (!session) return json({ error: 'Sign in to continue' }, 401);
+
+  const { data: staff, error } = await client.from('staff_accounts').select('*').eq('id', session.staffId).maybeSingle();
+  if (error) throw error;
+  if (!staff || !staff.active) return json({ error: 'Sign in to continue' }, 401);
+  if (permission && !hasPermission(staff.role, permission)) {
+    return json({ error: 'Your role doesn\'t allow this' }, 403);
+  }
+  return { staff, session };
+};
@@ -0,0 +1,14 @@
+// Same id format as src/services/idService.ts, so rows created here sort with the app's own
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export const ulid = (): string => {
+  let time = Date.now();
+  let encoded = '';
+  for (let i = 0; i < 10; i++) {
+    const digit = time % ENCODING.length;
+    encoded = ENCODING[digit] + encoded;
+    time = (time - digit) / ENCODING.length;
+  }
+  const random = crypto.getRandomValues(new Uint8Array(16));
+  return encoded + Array.from(random).map(byte => ENCODING[byte % ENCODING.length]).join('');
+};
@@ -0,0 +1,207 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { adminClient, json, readSettings, withCors } from '../_shared/secrets.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { requireStaff } from '../_shared/staff.ts';
+
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 10;
+const CODE_PATTERN = /^[0-9A-HJKMNP-TV-Z]{10}$/;
+// Lookups one address may make per window, so the 50-bit codes can't be guessed by brute force
+const MAX_LOOKUPS = 20;
+const LOOKUP_WINDOW_SECONDS = 15 * 60;
+// Bookings are kept for a day after their date so an evening class still shows that morning
+const UPCOMING_GRACE_MS = 24 * 60 * 60 * 1000;
+// Actions staff use to see and hand out codes; anything else is a customer looking theirs up
+const STAFF_ACTIONS = ['get-code', 'issue-code'];
+
+const newCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(CODE_LENGTH)))
+    .map(byte => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+
+// The caller's address as the Supabase gateway passes it on
+const callerAddress = (req: Request): string =>
+  (req.headers.get('x-forwarded-for') || '').split(',')[0].trim() || 'unknown';
+
+const readCode = async (client: SupabaseClient, customerId: string): Promise<string | null> => {
+  const { data, error } = await client
+    .from('customer_portal_codes')
+    .select('code')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.code ?? null;
+};
+
+/**
+ * Codes live in customer_portal_codes, which only this function can read, so the anon key the
+ * staff app and public pages ship can't list them. Issuing replaces the old code, which revokes
+ * every link made with it.
+ */
+const handleStaffAction = async (req: Request, client: SupabaseClient, body: Record<string, any>): Promise<Response> => {
+  const auth = await requireStaff(req, client);
+  if (auth instanceof Response) return auth;
+  if (typeof body.customerId !== 'string' || !body.customerId) return json({ error: 'Pick a customer' }, 400);
+
+  if (body.action === 'get-code') {
+    return json({ code: await readCode(client, body.customerId) });
+  }
+
+  const { data: customer, error: customerError } = await client
+    .from('customers')
+    .select('id')
+    .eq('id', body.customerId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (customerError) throw customerError;
+  if (!customer) return json({ error: 'Customer not found' }, 404);
+
+  const previous = await readCode(client, customer.id);
+  const code = newCode();
+  const { error } = await client
+    .from('customer_portal_codes')
+    .upsert({ customer_id: customer.id, code, created_at: new Date().toISOString() });
+  if (error) throw error;
+  await recordAudit(client, {
+    collection: 'customers',
+    recordId: customer.id,
+    action: 'update',
+    before: { portal_code: previous },
+    after: { portal_code: code },
+    actor: auth.staff.name
+  });
+  return json({ code });
+};
+
+/**
+ * Public and unauthenticated: the portal code is the only credential. Lookups are limited per
+ * address, every query is scoped to the customer the code belongs to, and only the columns the
+ * portal displays are selected. Signed-in staff also come here to see and reset codes.
+ */
+Deno.serve(withCors(async (req) => {
+  try {
+    const body = await req.json();
+    const client = adminClient();
+    if (STAFF_ACTIONS.includes(body.action)) return await handleStaffAction(req, client, body);
+
+    // Counted before the code is checked, so parallel guesses can't get past the limit
+    const { data: allowed, error: limitError } = await client.rpc('claim_portal_lookup', {
+      p_address: callerAddress(req),
+      p_max_lookups: MAX_LOOKUPS,
+      p_window_seconds: LOOKUP_WINDOW_SECONDS
+    });
+    if (limitError) throw limitError;
+    if (!allowed) {
+      return json({ error: 'Too many tries. Wait a few minutes and try again.' }, 429);
+    }
+
+    const { code } = body;
+    if (typeof code !== 'string' || !CODE_PATTERN.test(code)) {
+      return json({ error: 'That code doesn\'t look right. Check it and try again.' }, 400);
+    }
+
+    const { data: match, error: codeError } = await client
+      .from('customer_portal_codes')
+      .select('customer_id')
+      .eq('code', code)
+      .maybeSingle();
+    if (codeError) throw codeError;
+    const { data: customer, error: customerError } = match
+      ? await client
+        .from('customers')
+        .select('id, name')
+        .eq('id', match.customer_id)
+        .is('deleted_at', null)
+        .maybeSingle()
+      : { data: null, error: null };
+    if (customerError) throw customerError;
+    if (!customer) {
+      return json({ error: 'We couldn\'t find that code. Ask the studio for a new link.' }, 404);
+    }
+
+    const { data: pieces, error: piecesError } = await client
+      .from('pieces')
+      .select('id, event_id, status, cubic_inches, paid_glaze, glaze_total, image_url, created_at, ready_for_pickup_date, picked_up_date')
+      .eq('customer_id', customer.id)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+    if (piecesError) throw piecesError;
+
+    const { data: bookings, error: bookingsError } = await client
+      .from('event_bookings')
+      .select('id, event_id, status, booking_date')
+      .eq('customer_id', customer.id)
+      .eq('status', 'confirmed')
+      .is('deleted_at', null);
+    if (bookingsError) throw bookingsError;
+
+    const eventIds = Array.from(new Set([
+      ...(pieces || []).map(piece => piece.event_id),
+      ...(bookings || []).map(booking => booking.event_id)
+    ].filter(Boolean)));
+    const { data: events, error: eventsError } = eventIds.length > 0
+      ? await client
+        .from('events')
+        .select('id, name, date, start_time, end_time, type, location, status')
+        .in('id', eventIds)
+        .is('deleted_at', null)
+      : { data: [], error: null };
+    if (eventsError) throw eventsError;
+
+    const cutoff = Date.now() - UPCOMING_GRACE_MS;
+    const upcomingEventIds = new Set(
+      (events || [])
+        .filter(event => event.status !== 'cancelled' && new Date(event.date).getTime() >= cutoff)
+        .map(event => event.id)
+    );
+
+    const settings = await readSettings(client);
+    const stages: Array<{ id: string; label: string; color: string }> | undefined = settings.piece_workflow?.stages;
+
+    return json({
+      customerName: customer.name,
+      pieces: (pieces || []).map(piece => ({
+        id: piece.id,
+        eventId: piece.event_id ?? undefined,
+        status: piece.status,
+        cubicInches: piece.cubic_inches ?? undefined,
+        paidGlaze: !!piece.paid_glaze,
+        glazeTotal: piece.glaze_total ?? undefined,
+        imageUrl: piece.image_url ?? undefined,
+        createdAt: piece.created_at,
+        readyForPickupDate: piece.ready_for_pickup_date ?? undefined,
+        pickedUpDate: piece.picked_up_date ?? undefined
+      })),
+      bookings: (bookings || [])
+        .filter(booking => upcomingEventIds.has(booking.event_id))
+        .map(booking => ({
+          id: booking.id,
+          eventId: booking.event_id,
+          status: booking.status,
+          bookingDate: booking.booking_date
+        })),
+      events: (events || []).map(event => ({
+        id: event.id,
+        name: event.name,
+        date: event.date,
+        startTime: event.start_time,
+        endTime: event.end_time,
+        type: event.type,
+        location: event.location ?? undefined,
+        status: event.status
+      })),
+      stages: stages?.length
+        ? stages.map(stage => ({ id: stage.id, label: stage.label, color: stage.color }))
+        : undefined,
+      studio: {
+        name: settings.studio_name || 'Clay Cafe',
+        phone: settings.studio_phone ?? undefined,
+        email: settings.studio_email ?? undefined,
+        address: settings.studio_address ?? undefined
+      }
+    });
+  } catch (error) {
+    console.error('customer-portal failed:', error);
+    return json({ error: 'Could not load your pieces. Please try again later.' }, 500);
+  }
+}));
@@ -0,0 +1,47 @@
+import { adminClient, importLegacySecrets, isSecretKey, json, SECRET_KEYS, withCors } from '../_shared/secrets.ts';
+import { requireStaff } from '../_shared/staff.ts';
+
+// Reports which credentials are set, and stores or removes them. Values are never returned.
+Deno.serve(withCors(async (req) => {
+  try {
+    const { action, key, value } = await req.json();
+    const client = adminClient();
+    // Any staff member may see what is configured; changing credentials is for the owner
+    const auth = await requireStaff(req, client, action === 'status' ? undefined : 'manageIntegrations');
+    if (auth instanceof Response) return auth;
+
+    if (action === 'status') {
+      await importLegacySecrets(client);
+      const { data, error } = await client.from('integration_secrets').select('key');
+      if (error) throw error;
+      // Nothing derived from the values, not even a few characters, leaves the server
+      const secrets = SECRET_KEYS.map(secretKey => ({
+        key: secretKey,
+        configured: (data || []).some(r => r.key === secretKey)
+      }));
+      return json({ secrets });
+    }
+
+    if (!isSecretKey(key)) return json({ error: 'Unknown credential' }, 400);
+
+    if (action === 'set') {
+      if (typeof value !== 'string' || !value.trim()) return json({ error: 'Enter a value to save' }, 400);
+      const { error } = await client
+        .from('integration_secrets')
+        .upsert({ key, value: value.trim(), updated_at: new Date().toISOString() });
+      if (error) throw error;
+      return json({ ok: true });
+    }
+
+    if (action === 'clear') {
+      const { error } = await client.from('integration_secrets').delete().eq('key', key);
+      if (error) throw error;
+      return json({ ok: true });
+    }
+
+    return json({ error: `Unknown action ${action}` }, 400);
+  } catch (error) {
+    console.error('integration-secrets failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Credential update failed' }, 500);
+  }
+}));
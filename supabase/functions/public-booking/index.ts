@@ -0,0 +1,220 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { adminClient, json, readSettings, withCors } from '../_shared/secrets.ts';
+import { sendEmail } from '../_shared/email.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { ulid } from '../_shared/ulid.ts';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EVENT_COLUMNS = 'id, name, description, date, start_time, end_time, max_capacity, price, type, instructor, location';
+const AUDIT_ACTOR = 'Online booking';
+
+// Raised by book_event_spot; anything else is reported as a server error
+const BOOKING_ERRORS: Record<string, { status: number; message: string }> = {
+  EVENT_UNAVAILABLE: { status: 404, message: 'This event is no longer taking bookings.' },
+  EVENT_FULL: { status: 409, message: 'Sorry, this event just filled up. You can join the waitlist instead.' },
+  ALREADY_BOOKED: { status: 409, message: 'You already have a spot or a place on the waitlist for this event.' }
+};
+
+// Event dates are written as midnight in the studio's time zone, so they are read back in it too
+const STUDIO_TIME_ZONE = Deno.env.get('STUDIO_TIME_ZONE') || 'UTC';
+
+const formatEventDate = (date: string): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: '2-digit',
+    year: 'numeric',
+    timeZone: STUDIO_TIME_ZONE
+  });
+
+// What the customer is sent, for a spot or a place on the waitlist
+const bookingConfirmation = (customerName: string, event: Record<string, any>, waitlistPosition?: number) => {
+  const firstName = customerName.split(' ')[0];
+  const date = formatEventDate(event.date);
+
+  if (waitlistPosition) {
+    return {
+      subject: `You're on the waitlist: ${event.name}`,
+      message: `Dear ${firstName},
+
+${event.name} on ${date} is full, so we've added you to the waitlist. You're number ${waitlistPosition} in line.
+
+If a spot opens up, it goes to the next person on the list and we'll let you know right away.
+
+Andy & Jamiee
+house mouse`
+    };
+  }
+
+  return {
+    subject: `You're booked: ${event.name}`,
+    message: `Dear ${firstName},
+
+Your spot is reserved for ${event.name}.
+
+Date: ${date}
+Time: ${event.start_time} - ${event.end_time}${event.location ? `
+Location: ${event.location}` : ''}
+
+If your plans change, please let us know so we can offer your spot to someone else.
+
+See you soon!
+
+Andy & Jamiee
+house mouse`
+  };
+};
+
+/**
+ * Sends the confirmation from here rather than the browser, since send-email only takes calls
+ * from signed-in staff. Returns whether it went out; without EmailJS set up it is only logged.
+ */
+const sendConfirmation = async (
+  client: SupabaseClient,
+  customer: { name: string; email: string },
+  event: Record<string, any>,
+  waitlistPosition?: number
+): Promise<boolean> => {
+  const { subject, message } = bookingConfirmation(customer.name, event, waitlistPosition);
+  const settings = await readSettings(client);
+  const result = await sendEmail(client, {
+    to_email: customer.email,
+    to_name: customer.name,
+    user_email: customer.email,
+    recipient_email: customer.email,
+    subject,
+    message,
+    customer_name: customer.name,
+    status: waitlistPosition ? 'Waitlist' : 'Booking',
+    from_email: settings.studio_email || 'clay.cafe.studio@example.com',
+    from_name: 'Clay Cafe Studio'
+  });
+
+  if (result.sent) return true;
+  if (!result.configured) {
+    console.log(`EmailJS is not configured; skipped confirmation to ${customer.email}: ${subject}`);
+    return true;
+  }
+  console.error('Error sending booking confirmation:', result.error);
+  return false;
+};
+
+const toPublicEvent = (event: Record<string, any>, confirmed: number) => ({
+  id: event.id,
+  name: event.name,
+  description: event.description ?? undefined,
+  date: event.date,
+  startTime: event.start_time,
+  endTime: event.end_time,
+  maxCapacity: event.max_capacity,
+  price: event.price,
+  type: event.type,
+  instructor: event.instructor ?? undefined,
+  location: event.location ?? undefined,
+  spotsLeft: Math.max(0, event.max_capacity - confirmed)
+});
+
+const countConfirmed = async (client: SupabaseClient, eventIds: string[]): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>();
+  if (eventIds.length === 0) return counts;
+  const { data, error } = await client
+    .from('event_bookings')
+    .select('event_id')
+    .in('event_id', eventIds)
+    .eq('status', 'confirmed')
+    .is('deleted_at', null);
+  if (error) throw error;
+  for (const row of data || []) {
+    counts.set(row.event_id, (counts.get(row.event_id) || 0) + 1);
+  }
+  return counts;
+};
+
+// Same selection as Database.getUpcomingEvents in the app
+const listEvents = async (client: SupabaseClient) => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const { data, error } = await client
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('status', 'upcoming')
+    .gte('date', today.toISOString())
+    .is('deleted_at', null)
+    .order('date');
+  if (error) throw error;
+  const counts = await countConfirmed(client, (data || []).map(event => event.id));
+  return (data || []).map(event => toPublicEvent(event, counts.get(event.id) || 0));
+};
+
+Deno.serve(withCors(async (req) => {
+  try {
+    const body = await req.json();
+    const client = adminClient();
+
+    if (body.action === 'events') {
+      return json({ events: await listEvents(client) });
+    }
+
+    if (body.action !== 'book') return json({ error: 'Unknown action' }, 400);
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const email = typeof body.email === 'string' ? body.email.trim() : '';
+    const phone = typeof body.phone === 'string' ? body.phone.trim() : '';
+    if (typeof body.eventId !== 'string' || !body.eventId) return json({ error: 'Pick an event to book' }, 400);
+    if (!name) return json({ error: 'Please enter your name' }, 400);
+    if (!EMAIL_PATTERN.test(email)) return json({ error: 'Please enter a valid email address' }, 400);
+
+    // Capacity check and inserts happen in one transaction with the event row locked
+    const { data: result, error } = await client.rpc('book_event_spot', {
+      p_event_id: body.eventId,
+      p_name: name,
+      p_email: email,
+      p_phone: phone,
+      p_customer_id: ulid(),
+      p_booking_id: ulid(),
+      p_join_waitlist: body.joinWaitlist === true
+    });
+    if (error) {
+      const known = BOOKING_ERRORS[error.message];
+      if (known) return json({ error: known.message }, known.status);
+      throw error;
+    }
+
+    // Online bookings show up in record history like ones staff enter
+    const created = [
+      ...(result.createdCustomer ? [{ collection: 'customers', row: result.customer }] : []),
+      { collection: 'eventBookings', row: result.booking }
+    ];
+    for (const { collection, row } of created) {
+      await recordAudit(client, { collection, recordId: row.id, action: 'create', before: null, after: row, actor: AUDIT_ACTOR });
+    }
+
+    const { data: event, error: eventError } = await client
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq('id', body.eventId)
+      .single();
+    if (eventError) throw eventError;
+    const counts = await countConfirmed(client, [body.eventId]);
+    const waitlistPosition = result.booking.waitlist_position ?? undefined;
+
+    // The spot is already held, so a failed email is reported but doesn't undo the booking
+    const confirmationSent = await sendConfirmation(client, { name: result.customer.name, email }, event, waitlistPosition)
+      .catch(error => {
+        console.error('Error sending booking confirmation:', error);
+        return false;
+      });
+
+    return json({
+      bookingId: result.booking.id,
+      customerName: result.customer.name,
+      status: result.booking.status,
+      waitlistPosition,
+      confirmationSent,
+      event: toPublicEvent(event, counts.get(body.eventId) || 0)
+    });
+  } catch (error) {
+    console.error('public-booking failed:', error);
+    return json({ error: 'Something went wrong. Please try again or contact the studio.' }, 500);
+  }
+}));
@@ -0,0 +1,24 @@
+import { adminClient, json, withCors } from '../_shared/secrets.ts';
+import { sendEmail } from '../_shared/email.ts';
+import { requireStaff } from '../_shared/staff.ts';
+
+Deno.serve(withCors(async (req) => {
+  try {
+    const client = adminClient();
+    // Sending costs the studio money, so only signed-in staff can do it
+    const auth = await requireStaff(req, client);
+    if (auth instanceof Response) return auth;
+
+    const { templateParams } = await req.json();
+    if (!templateParams || !templateParams.to_email) return json({ error: 'Missing recipient' }, 400);
+
+    const result = await sendEmail(client, templateParams);
+    if (!result.sent) {
+      return result.configured ? json({ error: result.error }, 502) : json({ error: 'EmailJS is not configured' }, 400);
+    }
+    return json({ ok: true });
+  } catch (error) {
+    console.error('send-email failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send email' }, 500);
+  }
+}));
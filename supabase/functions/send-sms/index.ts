@@ -0,0 +1,42 @@
+import { adminClient, json, readSecrets, readSettings, withCors } from '../_shared/secrets.ts';
+import { requireStaff } from '../_shared/staff.ts';
+
+Deno.serve(withCors(async (req) => {
+  try {
+    const client = adminClient();
+    // Sending costs the studio money, so only signed-in staff can do it
+    const auth = await requireStaff(req, client);
+    if (auth instanceof Response) return auth;
+
+    const { to, body } = await req.json();
+    if (!to || !body) return json({ error: 'Missing recipient or message' }, 400);
+
+    const secrets = await readSecrets(client);
+    const settings = await readSettings(client);
+    if (!secrets.twilioAccountSid || !secrets.twilioAuthToken || !settings.twilio_phone_number) {
+      return json({ error: 'Twilio is not configured' }, 400);
+    }
+
+    const form = new URLSearchParams({ To: to, From: settings.twilio_phone_number, Body: body });
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${secrets.twilioAccountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${secrets.twilioAccountSid}:${secrets.twilioAuthToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: form.toString()
+      }
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return json({ error: result.message || `HTTP ${response.status}: ${response.statusText}` }, 502);
+    }
+    return json({ sid: result.sid });
+  } catch (error) {
+    console.error('send-sms failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send SMS' }, 500);
+  }
+}));
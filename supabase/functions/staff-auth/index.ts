@@ -0,0 +1,303 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { adminClient, json, withCors } from '../_shared/secrets.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import {
+  requireStaff,
+  ROLE_PERMISSIONS,
+  SESSION_DURATION_MS,
+  signSession,
+  STAFF_ROLES,
+  StaffRole,
+  StaffRow
+} from '../_shared/staff.ts';
+import { ulid } from '../_shared/ulid.ts';
+
+// Same parameters the app used when hashes were made in the browser, so existing accounts keep working
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const MIN_PASSWORD_LENGTH = 8;
+const PIN_PATTERN = /^\d{4,6}$/;
+// Wrong PINs in a row before the account can only be opened with its password
+const MAX_PIN_ATTEMPTS = 5;
+const SETUP_ACTOR = 'Studio setup';
+// Actions on other people's accounts
+const MANAGER_ACTIONS = ['list', 'create', 'update', 'set-password'];
+
+// Bad input from the app, answered with a 400 and the message as-is
+class RequestError extends Error {}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+};
+
+const hashSecret = async (secret: string, saltHex: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// Compares every character so the time taken doesn't reveal how much of a hash matched
+const sameHash = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const newSalt = (): string => toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+const passwordColumns = async (password: unknown) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new RequestError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const salt = newSalt();
+  return { password_salt: salt, password_hash: await hashSecret(password, salt) };
+};
+
+const normalizeEmail = (email: unknown): string => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+// Everything the app gets back about an account; hashes and salts never leave this function
+const toMember = (row: StaffRow) => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role,
+  active: row.active,
+  hasPin: !!row.pin_hash,
+  permissions: ROLE_PERMISSIONS[row.role] || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  version: row.version
+});
+
+// A correct PIN or password starts the count of wrong PINs over
+const clearPinAttempts = async (client: SupabaseClient, staff: StaffRow): Promise<void> => {
+  if (!staff.pin_failed_attempts && !staff.pin_locked_at) return;
+  const { error } = await client
+    .from('staff_accounts')
+    .update({ pin_failed_attempts: 0, pin_locked_at: null })
+    .eq('id', staff.id);
+  if (error) throw error;
+};
+
+const listAccounts = async (client: SupabaseClient): Promise<StaffRow[]> => {
+  const { data, error } = await client.from('staff_accounts').select('*').order('name');
+  if (error) throw error;
+  return data || [];
+};
+
+const startSession = async (staff: StaffRow, expiresAt = Date.now() + SESSION_DURATION_MS) =>
+  json({ member: toMember(staff), token: await signSession({ staffId: staff.id, expiresAt }), expiresAt });
+
+const insertAccount = async (
+  client: SupabaseClient,
+  input: { name: unknown; email: unknown; role: StaffRole; password: unknown },
+  actor: string
+): Promise<StaffRow> => {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const email = normalizeEmail(input.email);
+  if (!name) throw new RequestError('Enter a name');
+  if (!email) throw new RequestError('Enter an email address');
+
+  const accounts = await listAccounts(client);
+  if (accounts.some(account => account.email === email)) {
+    throw new RequestError(`An account for ${email} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from('staff_accounts')
+    .insert({
+      id: ulid(),
+      name,
+      email,
+      role: input.role,
+      active: true,
+      ...(await passwordColumns(input.password)),
+      created_at: now,
+      updated_at: now,
+      version: 1
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  await recordAudit(client, { collection: 'staffAccounts', recordId: data.id, action: 'create', before: null, after: data, actor });
+  return data;
+};
+
+const updateAccount = async (
+  client: SupabaseClient,
+  existing: StaffRow,
+  changes: Partial<StaffRow>,
+  actor: string
+): Promise<StaffRow> => {
+  const { data, error } = await client
+    .from('staff_accounts')
+    .update({ ...changes, updated_at: new Date().toISOString(), version: (existing.version || 0) + 1 })
+    .eq('id', existing.id)
+    .select()
+    .single();
+  if (error) throw error;
+  await recordAudit(client, { collection: 'staffAccounts', recordId: existing.id, action: 'update', before: existing, after: data, actor });
+  return data;
+};
+
+/**
+ * Staff sign-in, lock-screen PINs and account management. staff_accounts is locked down with
+ * RLS, so this function is the only way to read or change it. Sign-in hands back a signed
+ * session token that the other staff-only functions check; see _shared/staff.ts.
+ */
+Deno.serve(withCors(async (req) => {
+  try {
+    const body = await req.json();
+    const client = adminClient();
+
+    // Answers whether the studio still needs its first owner; a failed read is a 500, not "no accounts"
+    if (body.action === 'status') {
+      const { count, error } = await client.from('staff_accounts').select('id', { count: 'exact', head: true });
+      if (error) throw error;
+      return json({ hasAccounts: (count || 0) > 0 });
+    }
+
+    if (body.action === 'setup-owner') {
+      const { count, error } = await client.from('staff_accounts').select('id', { count: 'exact', head: true });
+      if (error) throw error;
+      if ((count || 0) > 0) return json({ error: 'Staff accounts have already been set up' }, 409);
+      return await startSession(await insertAccount(client, { ...body, role: 'owner' }, SETUP_ACTOR));
+    }
+
+    if (body.action === 'login') {
+      const { data: staff, error } = await client
+        .from('staff_accounts')
+        .select('*')
+        .eq('email', normalizeEmail(body.email))
+        .maybeSingle();
+      if (error) throw error;
+      const password = typeof body.password === 'string' ? body.password : '';
+      if (!staff || !staff.active || !sameHash(await hashSecret(password, staff.password_salt), staff.password_hash)) {
+        return json({ error: 'Invalid email or password' }, 401);
+      }
+      await clearPinAttempts(client, staff);
+      return await startSession(staff);
+    }
+
+    // Everything below needs a signed-in device
+    const auth = await requireStaff(req, client, MANAGER_ACTIONS.includes(body.action) ? 'manageStaff' : undefined);
+    if (auth instanceof Response) return auth;
+    const { staff: caller, session } = auth;
+
+    if (body.action === 'session') {
+      return json({ member: toMember(caller), expiresAt: session.expiresAt });
+    }
+
+    // Who can be picked on the lock screen
+    if (body.action === 'unlockable') {
+      const accounts = await listAccounts(client);
+      return json({ members: accounts.filter(account => account.active && account.pin_hash).map(toMember) });
+    }
+
+    /**
+     * Switching staff on the lock screen keeps the device session's expiry. Unlocking as someone
+     * other than the session holder is intended; that's what the lock screen is for. Guessing is
+     * limited per account instead: each try is counted before the PIN is checked, so parallel
+     * requests can't get past MAX_PIN_ATTEMPTS, and a locked account needs its password.
+     */
+    if (body.action === 'unlock') {
+      const { data: staff, error } = await client.from('staff_accounts').select('*').eq('id', body.staffId).maybeSingle();
+      if (error) throw error;
+      if (!staff || !staff.active || !staff.pin_hash || !staff.pin_salt) return json({ error: 'Wrong PIN' }, 401);
+      const lockedOut = json({ error: `Too many wrong PINs. ${staff.name} needs to sign in with their password.` }, 423);
+      if (staff.pin_locked_at) return lockedOut;
+
+      const { data: claimed, error: claimError } = await client
+        .rpc('claim_pin_attempt', { p_staff_id: staff.id, p_max_attempts: MAX_PIN_ATTEMPTS })
+        .maybeSingle();
+      if (claimError) throw claimError;
+      // Another request used up the last try first
+      if (!claimed) return lockedOut;
+
+      const pin = typeof body.pin === 'string' ? body.pin : '';
+      if (!sameHash(await hashSecret(pin, staff.pin_salt), staff.pin_hash)) {
+        return (claimed as StaffRow).pin_locked_at ? lockedOut : json({ error: 'Wrong PIN' }, 401);
+      }
+      await clearPinAttempts(client, claimed as StaffRow);
+      return await startSession(staff, session.expiresAt);
+    }
+
+    // Staff set their own PIN, confirming with their password so an unattended tablet can't be taken over
+    if (body.action === 'set-pin') {
+      const password = typeof body.password === 'string' ? body.password : '';
+      if (!sameHash(await hashSecret(password, caller.password_salt), caller.password_hash)) {
+        return json({ error: 'Wrong password' }, 401);
+      }
+      if (typeof body.pin !== 'string' || !PIN_PATTERN.test(body.pin)) return json({ error: 'PINs are 4 to 6 digits' }, 400);
+      const pinSalt = newSalt();
+      const updated = await updateAccount(
+        client,
+        caller,
+        { pin_salt: pinSalt, pin_hash: await hashSecret(body.pin, pinSalt), pin_failed_attempts: 0, pin_locked_at: null },
+        caller.name
+      );
+      return json({ member: toMember(updated) });
+    }
+
+    // The role table comes along so the staff screen can describe roles no one has yet
+    if (body.action === 'list') {
+      return json({ members: (await listAccounts(client)).map(toMember), roles: ROLE_PERMISSIONS });
+    }
+
+    if (body.action === 'create') {
+      if (!STAFF_ROLES.includes(body.role)) return json({ error: 'Pick a role' }, 400);
+      return json({ member: toMember(await insertAccount(client, body, caller.name)) });
+    }
+
+    const accounts = await listAccounts(client);
+    const target = accounts.find(account => account.id === body.id);
+    if (!target) return json({ error: 'Staff account not found' }, 404);
+
+    if (body.action === 'update') {
+      const updates = body.updates || {};
+      const changes: Partial<StaffRow> = {};
+      if (typeof updates.name === 'string' && updates.name.trim()) changes.name = updates.name.trim();
+      if (typeof updates.active === 'boolean') changes.active = updates.active;
+      if (updates.role !== undefined) {
+        if (!STAFF_ROLES.includes(updates.role)) return json({ error: 'Pick a role' }, 400);
+        changes.role = updates.role;
+      }
+      if (updates.email !== undefined) {
+        const email = normalizeEmail(updates.email);
+        if (!email) return json({ error: 'Enter an email address' }, 400);
+        if (accounts.some(account => account.id !== target.id && account.email === email)) {
+          return json({ error: `An account for ${email} already exists` }, 409);
+        }
+        changes.email = email;
+      }
+
+      const next = { ...target, ...changes };
+      const otherOwners = accounts.filter(account => account.id !== target.id && account.role === 'owner' && account.active);
+      if (target.role === 'owner' && target.active && !(next.role === 'owner' && next.active) && otherOwners.length === 0) {
+        return json({ error: 'The studio needs at least one active owner' }, 409);
+      }
+      return json({ member: toMember(await updateAccount(client, target, changes, caller.name)) });
+    }
+
+    if (body.action === 'set-password') {
+      await updateAccount(client, target, await passwordColumns(body.password), caller.name);
+      return json({ ok: true });
+    }
+
+    return json({ error: `Unknown action ${body.action}` }, 400);
+  } catch (error) {
+    if (error instanceof RequestError) return json({ error: error.message }, 400);
+    console.error('staff-auth failed:', error);
+    return json({ error: 'Something went wrong. Please try again.' }, 500);
+  }
+}));
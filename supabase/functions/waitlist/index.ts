@@ -0,0 +1,95 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { adminClient, json, withCors } from '../_shared/secrets.ts';
+import { recordAudit } from '../_shared/audit.ts';
+import { requireStaff, StaffRow } from '../_shared/staff.ts';
+import { ulid } from '../_shared/ulid.ts';
+
+interface BookingChange {
+  before: Record<string, any>;
+  after: Record<string, any>;
+}
+
+// What book_customer_spot raises, as staff should see it
+const BOOKING_ERRORS: Record<string, { status: number; message: string }> = {
+  EVENT_UNAVAILABLE: { status: 404, message: 'This event is no longer taking bookings.' },
+  CUSTOMER_NOT_FOUND: { status: 404, message: 'That customer could not be found.' },
+  EVENT_FULL: { status: 409, message: 'This event is full. Add them to the waitlist instead.' },
+  ALREADY_BOOKED: { status: 409, message: 'This customer already has a spot or a place on the waitlist.' }
+};
+
+const book = async (client: SupabaseClient, staff: StaffRow, body: Record<string, any>): Promise<Response> => {
+  if (typeof body.customerId !== 'string' || !body.customerId) return json({ error: 'Pick a customer' }, 400);
+
+  const { data: booking, error } = await client.rpc('book_customer_spot', {
+    p_event_id: body.eventId,
+    p_customer_id: body.customerId,
+    p_booking_id: ulid(),
+    p_notes: typeof body.notes === 'string' ? body.notes.trim() : '',
+    p_join_waitlist: body.joinWaitlist === true
+  });
+  if (error) {
+    const known = BOOKING_ERRORS[error.message];
+    if (known) return json({ error: known.message }, known.status);
+    throw error;
+  }
+
+  await recordAudit(client, {
+    collection: 'eventBookings',
+    recordId: booking.id,
+    action: 'create',
+    before: null,
+    after: booking,
+    actor: staff.name
+  });
+  return json({ bookingId: booking.id });
+};
+
+const promote = async (client: SupabaseClient, staff: StaffRow, eventId: string): Promise<Response> => {
+  const { data, error } = await client.rpc('promote_from_waitlist', { p_event_id: eventId });
+  if (error) throw error;
+
+  // Promotions and renumbered positions show up in record history under whoever freed the spot
+  const changes: BookingChange[] = data || [];
+  for (const { before, after } of changes) {
+    await recordAudit(client, {
+      collection: 'eventBookings',
+      recordId: after.id,
+      action: 'update',
+      before,
+      after,
+      actor: staff.name
+    });
+  }
+
+  return json({
+    promotedIds: changes.filter(change => change.after.status === 'confirmed').map(change => change.after.id)
+  });
+};
+
+/**
+ * Staff bookings and waitlist promotions. book_customer_spot and promote_from_waitlist both count
+ * with the event row locked, the same lock book_event_spot takes, so staff bookings, online
+ * bookings and promotions can't both take the last spot.
+ */
+Deno.serve(withCors(async (req) => {
+  try {
+    const client = adminClient();
+    const auth = await requireStaff(req, client);
+    if (auth instanceof Response) return auth;
+
+    const body = await req.json();
+    if (typeof body.eventId !== 'string' || !body.eventId) return json({ error: 'Pick an event' }, 400);
+
+    switch (body.action) {
+      case 'book':
+        return await book(client, auth.staff, body);
+      case 'promote':
+        return await promote(client, auth.staff, body.eventId);
+      default:
+        return json({ error: `Unknown action ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('waitlist failed:', error);
+    return json({ error: 'Something went wrong updating the waitlist. Please try again.' }, 500);
+  }
+}));
@@ -7,6 +7,7 @@ module.exports = {
     extend: {
       zIndex: {
         '60': '60',
+        '70': '70', // Lock screen, above every modal
       },
       colors: {
         'clay': {